@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Shared secret for admin endpoints (webhook inbox management, user permissions)
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || '';
+
+/**
+ * Require the admin API key
+ *
+ * Headers:
+ *   x-admin-key: <ADMIN_API_KEY>
+ */
+export function requireAdminKey(req, res, next) {
+  if (!ADMIN_API_KEY) {
+    return res.status(500).json({
+      success: false,
+      error: 'Admin API is not configured',
+    });
+  }
+
+  const providedKey = req.headers['x-admin-key'] || '';
+  const expected = Buffer.from(ADMIN_API_KEY);
+  const received = Buffer.from(String(providedKey));
+
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin key',
+    });
+  }
+
+  next();
+}
@@ -0,0 +1,57 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+/**
+ * Require a Supabase session: Authorization: Bearer <access_token>
+ * Sets req.user to the signed-in user
+ */
+export async function requireUser(req, res, next) {
+  if (!supabaseAdmin) {
+    return res.status(500).json({
+      success: false,
+      error: 'Supabase is not configured',
+    });
+  }
+
+  const authHeader = req.headers.authorization || '';
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7).trim() : '';
+
+  if (!token) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authorization token is required',
+    });
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin.auth.getUser(token);
+
+    if (error || !data?.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired session',
+      });
+    }
+
+    req.user = data.user;
+    next();
+  } catch (error) {
+    console.error('Error verifying session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify session',
+    });
+  }
+}
@@ -0,0 +1,109 @@
+import express from 'express';
+import { requireAdminKey } from '../middleware/requireAdminKey.js';
+import {
+  isKnownPermission,
+  listPermissions,
+  grantPermission,
+  revokePermission,
+  PERMISSIONS,
+} from '../services/permissions.js';
+
+const router = express.Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validate :userId and :permission route parameters
+ */
+function validatePermissionParams(req, res, next) {
+  if (!UUID_PATTERN.test(req.params.userId)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid user id',
+    });
+  }
+
+  if (req.params.permission !== undefined && !isKnownPermission(req.params.permission)) {
+    return res.status(400).json({
+      success: false,
+      error: `Unknown permission. Expected one of: ${Object.values(PERMISSIONS).join(', ')}`,
+    });
+  }
+
+  next();
+}
+
+/**
+ * GET /api/admin/users/:userId/permissions
+ * List a user's permissions
+ *
+ * Headers:
+ *   x-admin-key: <ADMIN_API_KEY>
+ */
+router.get('/users/:userId/permissions', requireAdminKey, validatePermissionParams, async (req, res) => {
+  try {
+    const permissions = await listPermissions(req.params.userId);
+
+    res.json({
+      success: true,
+      permissions: permissions,
+    });
+  } catch (error) {
+    console.error('Error listing user permissions:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list permissions',
+    });
+  }
+});
+
+/**
+ * PUT /api/admin/users/:userId/permissions/:permission
+ * Grant a permission, e.g. view_unredacted_transcripts
+ */
+router.put('/users/:userId/permissions/:permission', requireAdminKey, validatePermissionParams, async (req, res) => {
+  try {
+    await grantPermission(req.params.userId, req.params.permission);
+
+    res.json({
+      success: true,
+      message: `Granted ${req.params.permission}`,
+    });
+  } catch (error) {
+    console.error('Error granting permission:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to grant permission',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/users/:userId/permissions/:permission
+ * Revoke a permission
+ */
+router.delete('/users/:userId/permissions/:permission', requireAdminKey, validatePermissionParams, async (req, res) => {
+  try {
+    const revoked = await revokePermission(req.params.userId, req.params.permission);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: 'User does not have this permission',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Revoked ${req.params.permission}`,
+    });
+  } catch (error) {
+    console.error('Error revoking permission:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to revoke permission',
+    });
+  }
+});
+
+export default router;
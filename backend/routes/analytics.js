@@ -0,0 +1,45 @@
+import express from 'express';
+import { requireUser } from '../middleware/requireUser.js';
+import { parseAnalyticsParams, getConversationAnalytics } from '../services/conversationAnalytics.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/analytics/conversations
+ * Time-bucketed call analytics for the Dashboard
+ *
+ * Query parameters (all optional):
+ *   from, to       created_at range (ISO timestamps), default the last 30 days
+ *   bucket         hour, day, week or month; picked from the range when left out
+ *   bot_id         only calls of one agent
+ *   agent_number   only calls on one of the user's numbers
+ *   compare        "false" to skip totals for the preceding period
+ *
+ * Buckets and the heatmap use the timezone from the user's profile.
+ */
+router.get('/conversations', requireUser, async (req, res) => {
+  try {
+    const filters = parseAnalyticsParams(req.query);
+    const analytics = await getConversationAnalytics(req.user.id, filters);
+
+    res.json({
+      success: true,
+      ...analytics,
+    });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error building conversation analytics:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to load analytics',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,280 @@
+import express from 'express';
+import { requireUser } from '../middleware/requireUser.js';
+import {
+  estimateReanalysis,
+  createReanalysisBatch,
+  getReanalysisBatch,
+  listReanalysisBatches,
+  cancelReanalysisBatch,
+} from '../services/callReanalysis.js';
+import { parseCallFilters, searchCalls } from '../services/callSearch.js';
+import { getCallRecordingUrl } from '../services/callRecordings.js';
+import { getRedactionSettings, getUnredactedTranscript } from '../services/piiRedaction.js';
+import { hasPermission, PERMISSIONS } from '../services/permissions.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/calls
+ * One page of the user's calls, newest first
+ *
+ * Query parameters (all optional):
+ *   q             full-text search over transcript, contact name and phone number
+ *   status, bot_id, sentiment, call_type
+ *   from, to      started_at range (ISO timestamps)
+ *   min_duration, max_duration   in seconds
+ *   lead          "yes" or "no"
+ *   cursor        next_cursor from the previous page
+ *   limit         page size, default 25, max 100
+ *
+ * The first page also returns total and status_counts for the filters.
+ */
+router.get('/', requireUser, async (req, res) => {
+  try {
+    const filters = parseCallFilters(req.query);
+    const result = await searchCalls(req.user.id, filters, {
+      cursor: req.query.cursor || null,
+      limit: req.query.limit,
+    });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error searching calls:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch calls',
+    });
+  }
+});
+
+/**
+ * POST /api/calls/reanalysis/estimate
+ * Count the calls a re-analysis would cover and its credit cost
+ *
+ * Request body:
+ * {
+ *   "filters": {
+ *     "from": "2024-01-01T00:00:00.000Z", // optional, started_at >= from
+ *     "to": "2024-01-31T23:59:59.999Z",   // optional, started_at <= to
+ *     "bot_id": "uuid",                   // optional
+ *     "errors_only": false                // optional, only calls whose analysis failed
+ *   },
+ *   "overwrite": false // also re-analyze calls that already have a successful analysis
+ * }
+ */
+router.post('/reanalysis/estimate', requireUser, async (req, res) => {
+  try {
+    const { filters, overwrite } = req.body;
+    const estimate = await estimateReanalysis(req.user.id, filters, overwrite === true);
+
+    res.json({
+      success: true,
+      ...estimate,
+    });
+  } catch (error) {
+    console.error('Error estimating re-analysis:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to estimate re-analysis',
+    });
+  }
+});
+
+/**
+ * POST /api/calls/reanalysis
+ * Queue matching calls for re-analysis as one batch
+ *
+ * Request body: same as /reanalysis/estimate
+ */
+router.post('/reanalysis', requireUser, async (req, res) => {
+  try {
+    const { filters, overwrite } = req.body;
+    const batch = await createReanalysisBatch(req.user.id, filters, overwrite === true);
+
+    if (!batch) {
+      return res.status(400).json({
+        success: false,
+        error: 'No calls match these filters',
+      });
+    }
+
+    res.json({
+      success: true,
+      batch: batch,
+    });
+  } catch (error) {
+    console.error('Error creating re-analysis batch:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to start re-analysis',
+    });
+  }
+});
+
+/**
+ * GET /api/calls/reanalysis
+ * List the user's recent re-analysis batches with progress
+ */
+router.get('/reanalysis', requireUser, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 10, 50);
+    const batches = await listReanalysisBatches(req.user.id, limit);
+
+    res.json({
+      success: true,
+      batches: batches,
+    });
+  } catch (error) {
+    console.error('Error listing re-analysis batches:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list re-analysis batches',
+    });
+  }
+});
+
+/**
+ * GET /api/calls/reanalysis/:id
+ * Get one re-analysis batch with progress
+ */
+router.get('/reanalysis/:id', requireUser, async (req, res) => {
+  try {
+    const batch = await getReanalysisBatch(req.user.id, req.params.id);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Re-analysis batch not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      batch: batch,
+    });
+  } catch (error) {
+    console.error('Error fetching re-analysis batch:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch re-analysis batch',
+    });
+  }
+});
+
+/**
+ * POST /api/calls/reanalysis/:id/cancel
+ * Cancel a running re-analysis batch
+ */
+router.post('/reanalysis/:id/cancel', requireUser, async (req, res) => {
+  try {
+    const batch = await cancelReanalysisBatch(req.user.id, req.params.id);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'No running re-analysis batch with this id',
+      });
+    }
+
+    res.json({
+      success: true,
+      batch: batch,
+    });
+  } catch (error) {
+    console.error('Error cancelling re-analysis batch:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to cancel re-analysis batch',
+    });
+  }
+});
+
+/**
+ * GET /api/calls/:id/recording
+ * Short-lived playback URL for a call's recording
+ *
+ * Response: { "url": "...", "expires_at": "2024-01-01T00:05:00.000Z" }
+ * expires_at is null while the recording is still served from the provider
+ */
+router.get('/:id/recording', requireUser, async (req, res) => {
+  try {
+    // Only some recordings come scrubbed from Retell, so accounts may limit them to users allowed to see PII
+    const redactionSettings = await getRedactionSettings(req.user.id);
+    if (redactionSettings.enabled && redactionSettings.restrict_recordings &&
+        !(await hasPermission(req.user.id, PERMISSIONS.VIEW_UNREDACTED_TRANSCRIPTS))) {
+      return res.status(403).json({
+        success: false,
+        error: 'Recordings are restricted to users allowed to view unredacted transcripts',
+      });
+    }
+
+    const recording = await getCallRecordingUrl(req.user.id, req.params.id);
+
+    if (!recording) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recording not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      ...recording,
+    });
+  } catch (error) {
+    console.error('Error fetching call recording:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch recording',
+    });
+  }
+});
+
+/**
+ * GET /api/calls/:id/transcript/unredacted
+ * Original transcript of a redacted call
+ * Requires the view_unredacted_transcripts permission
+ */
+router.get('/:id/transcript/unredacted', requireUser, async (req, res) => {
+  try {
+    if (!(await hasPermission(req.user.id, PERMISSIONS.VIEW_UNREDACTED_TRANSCRIPTS))) {
+      return res.status(403).json({
+        success: false,
+        error: 'You do not have permission to view unredacted transcripts',
+      });
+    }
+
+    const original = await getUnredactedTranscript(req.user.id, req.params.id);
+
+    if (!original) {
+      return res.status(404).json({
+        success: false,
+        error: 'No unredacted transcript for this call',
+      });
+    }
+
+    res.json({
+      success: true,
+      transcript: original.transcript,
+      transcript_object: original.transcript_object || [],
+    });
+  } catch (error) {
+    console.error('Error fetching unredacted transcript:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch unredacted transcript',
+    });
+  }
+});
+
+export default router;
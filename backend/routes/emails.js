@@ -0,0 +1,103 @@
+import express from 'express';
+import { requireUser } from '../middleware/requireUser.js';
+import { cancelQueuedEmail, parseQueueRequest, queueEmail } from '../services/emailQueue.js';
+import { getEmailEngagement } from '../services/emailTracking.js';
+
+const router = express.Router();
+
+/**
+ * POST /api/emails
+ * Queue an email to send from one of the user's connected addresses
+ *
+ * Body:
+ *   from_email       connected address with an app password saved in Email Addresses
+ *   to_email         recipient
+ *   subject
+ *   body             plain text
+ *   html_body        optional HTML version
+ *   to_phone_number  optional, shown in the email logs
+ *   call_id          optional call the email is about
+ *   send_at          optional ISO date/time to send later; omitted or past times send right away
+ *   track            optional, true to add an open pixel and tracked links
+ *   template_id      optional template the email was written from, for engagement stats
+ *   lead_id          optional lead the email is for, for engagement stats
+ *
+ * Responds with the email_sent_logs row id. It stays "pending" until the queue
+ * sends it, then becomes "sent" or "failed". Sent emails later become
+ * "opened", "clicked" or "bounced".
+ */
+router.post('/', requireUser, async (req, res) => {
+  try {
+    const email = parseQueueRequest(req.body);
+    const queued = await queueEmail(req.user.id, email);
+
+    res.status(202).json({
+      success: true,
+      email: queued,
+    });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error queueing email:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to queue email',
+    });
+  }
+});
+
+/**
+ * GET /api/emails/engagement?days=30
+ * Sent, opened, clicked and bounced counts for the last `days` days (max 365),
+ * in total, per template and for the most engaged leads
+ */
+router.get('/engagement', requireUser, async (req, res) => {
+  try {
+    const engagement = await getEmailEngagement(req.user.id, { days: req.query.days });
+
+    res.json({
+      success: true,
+      ...engagement,
+    });
+  } catch (error) {
+    console.error('Error loading email engagement:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to load email engagement',
+    });
+  }
+});
+
+/**
+ * DELETE /api/emails/:id
+ * Cancel a queued email that hasn't been sent yet
+ */
+router.delete('/:id', requireUser, async (req, res) => {
+  try {
+    const cancelled = await cancelQueuedEmail(req.user.id, req.params.id);
+
+    if (!cancelled) {
+      return res.status(409).json({
+        success: false,
+        error: 'Only emails waiting to be sent can be cancelled',
+      });
+    }
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('Error cancelling email:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to cancel email',
+    });
+  }
+});
+
+export default router;
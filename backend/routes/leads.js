@@ -0,0 +1,103 @@
+import express from 'express';
+import { requireUser } from '../middleware/requireUser.js';
+import { parseImportRequest, importLeads } from '../services/leadImport.js';
+import {
+  getLeadScoringSettings,
+  parseLeadScoringSettings,
+  saveLeadScoringSettings,
+} from '../services/leadScoring.js';
+
+const router = express.Router();
+
+/**
+ * POST /api/leads/import
+ * Import rows of a CSV/Excel file as leads
+ *
+ * Body:
+ *   rows          [{ row, name, email, phone_number, address, notes, pipeline_stage, assigned_to, follow_up_date }]
+ *                 row is the line number in the file, used in the results
+ *   on_duplicate  "skip" (default) or "update" to fill in blank fields of matching leads
+ *   dry_run       true to only validate and report what would happen
+ *
+ * Phone numbers are stored in E.164 format. Rows are matched against existing
+ * leads and earlier rows by phone number or email.
+ */
+router.post('/import', requireUser, async (req, res) => {
+  try {
+    const { rows, onDuplicate, dryRun } = parseImportRequest(req.body);
+    const result = await importLeads(req.user.id, rows, { onDuplicate, dryRun });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error importing leads:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to import leads',
+    });
+  }
+});
+
+/**
+ * GET /api/leads/scoring
+ * The account's lead scoring settings, with defaults filled in
+ */
+router.get('/scoring', requireUser, async (req, res) => {
+  try {
+    const settings = await getLeadScoringSettings(req.user.id);
+
+    res.json({
+      success: true,
+      settings,
+    });
+  } catch (error) {
+    console.error('Error loading lead scoring settings:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to load lead scoring settings',
+    });
+  }
+});
+
+/**
+ * PUT /api/leads/scoring
+ * Save the account's lead scoring settings and rescore all of its leads
+ *
+ * Body: { enabled, weights: { <factor>: 0-100 }, call_types, order_total_target, thresholds: { hot, warm } }
+ * Responds with the saved settings and how many leads were rescored.
+ */
+router.put('/scoring', requireUser, async (req, res) => {
+  try {
+    const settings = parseLeadScoringSettings(req.body);
+    const result = await saveLeadScoringSettings(req.user.id, settings);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error saving lead scoring settings:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to save lead scoring settings',
+    });
+  }
+});
+
+export default router;
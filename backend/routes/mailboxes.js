@@ -0,0 +1,327 @@
+import express from 'express';
+import { requireUser } from '../middleware/requireUser.js';
+import {
+  completeOAuthConnection,
+  createOAuthStartUrl,
+  getOAuthProviders,
+  openOAuthStartTicket,
+  STATE_TTL_MS,
+} from '../services/mailboxOAuth.js';
+import {
+  createMailbox,
+  disconnectMailboxOAuth,
+  parseMailboxSettings,
+  testMailbox,
+  testSmtpSettings,
+  updateMailbox,
+} from '../services/mailboxes.js';
+
+const router = express.Router();
+
+function sendKnownError(res, error) {
+  if (error.status === 400 || error.status === 409) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+}
+
+// Binds a sign-in to the browser that started it
+// Set on a top-level navigation, so SameSite=Lax works across sites
+const OAUTH_NONCE_COOKIE = 'mailbox_oauth_nonce';
+const OAUTH_COOKIE_PATH = '/api/mailboxes/oauth';
+
+function getFrontendUrl() {
+  return (process.env.FRONTEND_URL || 'http://localhost:8080').replace(/\/$/, '');
+}
+
+function redirectToEmailPage(res, params) {
+  res.redirect(`${getFrontendUrl()}/emails?${new URLSearchParams(params).toString()}`);
+}
+
+// Start links are only followed from the app, so a link someone else sends can't set this browser's cookie
+function isOpenedFromFrontend(req) {
+  try {
+    return new URL(req.headers.referer).origin === new URL(getFrontendUrl()).origin;
+  } catch {
+    return false;
+  }
+}
+
+function getOAuthCookieOptions() {
+  return {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: (process.env.BACKEND_PUBLIC_URL || '').startsWith('https://'),
+    path: OAUTH_COOKIE_PATH,
+  };
+}
+
+function getCookie(req, name) {
+  const pair = (req.headers.cookie || '')
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`));
+
+  return pair ? decodeURIComponent(pair.slice(name.length + 1)) : null;
+}
+
+function sendNotFound(res) {
+  res.status(404).json({
+    success: false,
+    error: 'Email address not found',
+  });
+}
+
+/**
+ * GET /api/mailboxes/oauth/providers
+ * Providers a mailbox can be connected with instead of an app password
+ */
+router.get('/oauth/providers', requireUser, (req, res) => {
+  res.json({
+    success: true,
+    providers: getOAuthProviders(),
+  });
+});
+
+/**
+ * POST /api/mailboxes/oauth/:provider/start
+ * Start connecting a Gmail (google) or Microsoft 365 (microsoft) mailbox
+ * Body: { name } optional display name for a new mailbox
+ * Responds with a short-lived start link (GET below) to send the browser to
+ */
+router.post('/oauth/:provider/start', requireUser, (req, res) => {
+  try {
+    const name = typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name.trim() : null;
+    const url = createOAuthStartUrl(req.user.id, req.params.provider, { name });
+
+    res.json({
+      success: true,
+      url,
+    });
+  } catch (error) {
+    if (sendKnownError(res, error)) return;
+
+    console.error('Error starting mailbox sign-in:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to start sign-in',
+    });
+  }
+});
+
+/**
+ * GET /api/mailboxes/oauth/:provider/start?ticket=<ticket>
+ * Start link from POST above, opened from the Email page
+ * Sets the nonce cookie the callback checks and redirects to the provider's sign-in
+ */
+router.get('/oauth/:provider/start', (req, res) => {
+  try {
+    if (!isOpenedFromFrontend(req)) {
+      return redirectToEmailPage(res, { mailbox_error: 'Please start connecting the email account from the Email page.' });
+    }
+
+    const { url, nonce } = openOAuthStartTicket(
+      typeof req.query.ticket === 'string' ? req.query.ticket : '',
+      req.params.provider
+    );
+
+    res.cookie(OAUTH_NONCE_COOKIE, nonce, { ...getOAuthCookieOptions(), maxAge: STATE_TTL_MS });
+    res.redirect(url);
+  } catch (error) {
+    if (error.status !== 400) {
+      console.error('Error opening mailbox sign-in:', error);
+    }
+    redirectToEmailPage(res, { mailbox_error: error.status === 400 ? error.message : 'Failed to start sign-in' });
+  }
+});
+
+/**
+ * GET /api/mailboxes/oauth/:provider/callback
+ * Where the provider sends the browser after sign-in
+ * Only accepted in the browser that started the sign-in (nonce cookie)
+ * Redirects back to the Email page with mailbox_connected or mailbox_error
+ */
+router.get('/oauth/:provider/callback', async (req, res) => {
+  const redirect = (params) => redirectToEmailPage(res, params);
+
+  // Each nonce finishes at most one sign-in
+  const nonce = getCookie(req, OAUTH_NONCE_COOKIE);
+  res.clearCookie(OAUTH_NONCE_COOKIE, getOAuthCookieOptions());
+
+  if (req.query.error) {
+    return redirect({ mailbox_error: String(req.query.error_description || 'Sign-in was cancelled') });
+  }
+
+  try {
+    const { email } = await completeOAuthConnection(
+      req.params.provider,
+      typeof req.query.code === 'string' ? req.query.code : '',
+      typeof req.query.state === 'string' ? req.query.state : '',
+      nonce
+    );
+
+    redirect({ mailbox_connected: email });
+  } catch (error) {
+    if (error.status !== 400) {
+      console.error('Error connecting mailbox:', error);
+    }
+    redirect({ mailbox_error: error.status === 400 ? error.message : 'Failed to connect the email account' });
+  }
+});
+
+/**
+ * POST /api/mailboxes
+ * Add an email address to send from
+ *
+ * Body:
+ *   email           address to send from
+ *   name            optional display name
+ *   smtp_password   SMTP / app password, encrypted before it's stored
+ *   smtp_host       optional, guessed from the email domain if empty
+ *   smtp_port       optional, 587 if empty
+ *   smtp_secure     optional, true for SSL/TLS (465), false for STARTTLS
+ *   smtp_username   optional login if it isn't the email address
+ *
+ * The password is never returned.
+ */
+router.post('/', requireUser, async (req, res) => {
+  try {
+    const settings = parseMailboxSettings(req.body, { requireEmail: true, requirePassword: true });
+    const mailbox = await createMailbox(req.user.id, settings);
+
+    res.status(201).json({
+      success: true,
+      mailbox,
+    });
+  } catch (error) {
+    if (sendKnownError(res, error)) return;
+
+    console.error('Error adding mailbox:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to add email address',
+    });
+  }
+});
+
+/**
+ * POST /api/mailboxes/test
+ * Check SMTP settings can log in, without saving them
+ * Body is the same as POST /api/mailboxes; pass id to test new settings
+ * with the password already saved for that mailbox
+ */
+router.post('/test', requireUser, async (req, res) => {
+  try {
+    const settings = parseMailboxSettings(req.body);
+    const mailboxId = typeof req.body?.id === 'string' && req.body.id ? req.body.id : null;
+    const result = await testSmtpSettings(req.user.id, settings, mailboxId);
+
+    if (!result) return sendNotFound(res);
+    if (!result.ok) {
+      return res.status(422).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    if (sendKnownError(res, error)) return;
+
+    console.error('Error testing SMTP settings:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to test SMTP settings',
+    });
+  }
+});
+
+/**
+ * PUT /api/mailboxes/:id
+ * Update a mailbox's name and SMTP settings
+ * Leave smtp_password empty to keep the saved one
+ */
+router.put('/:id', requireUser, async (req, res) => {
+  try {
+    const settings = parseMailboxSettings(req.body);
+    const mailbox = await updateMailbox(req.user.id, req.params.id, settings);
+
+    if (!mailbox) return sendNotFound(res);
+
+    res.json({
+      success: true,
+      mailbox,
+    });
+  } catch (error) {
+    if (sendKnownError(res, error)) return;
+
+    console.error('Error updating mailbox:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update email address',
+    });
+  }
+});
+
+/**
+ * POST /api/mailboxes/:id/test
+ * Check a saved mailbox can log in and mark it verified
+ */
+router.post('/:id/test', requireUser, async (req, res) => {
+  try {
+    const result = await testMailbox(req.user.id, req.params.id);
+
+    if (!result) return sendNotFound(res);
+    if (!result.ok) {
+      return res.status(422).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    res.json({
+      success: true,
+      verified_at: result.verifiedAt,
+    });
+  } catch (error) {
+    if (sendKnownError(res, error)) return;
+
+    console.error('Error testing mailbox:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to test email address',
+    });
+  }
+});
+
+/**
+ * DELETE /api/mailboxes/:id/oauth
+ * Disconnect a mailbox's Google or Microsoft sign-in
+ * It keeps sending with its SMTP password, if one is saved
+ */
+router.delete('/:id/oauth', requireUser, async (req, res) => {
+  try {
+    const mailbox = await disconnectMailboxOAuth(req.user.id, req.params.id);
+
+    if (!mailbox) return sendNotFound(res);
+
+    res.json({
+      success: true,
+      mailbox,
+    });
+  } catch (error) {
+    console.error('Error disconnecting mailbox sign-in:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to disconnect email account',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,64 @@
+import express from 'express';
+import { TRACKING_PIXEL, recordTrackingEvent, verifyTrackedUrl } from '../services/emailTracking.js';
+
+const router = express.Router();
+
+const TOKEN_REGEX = /^[A-Za-z0-9]{16,64}$/;
+
+function getUserAgent(req) {
+  return typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'] : null;
+}
+
+/**
+ * GET /api/track/open/:token.gif
+ * Tracking pixel in emails sent with tracking; records an open
+ * Always responds with the pixel so a failure never shows a broken image
+ */
+router.get('/open/:token.gif', async (req, res) => {
+  const { token } = req.params;
+
+  if (TOKEN_REGEX.test(token)) {
+    try {
+      await recordTrackingEvent(token, 'open', { userAgent: getUserAgent(req) });
+    } catch (error) {
+      console.error('Error recording email open:', error);
+    }
+  }
+
+  res.set({
+    'Content-Type': 'image/gif',
+    'Content-Length': TRACKING_PIXEL.length,
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    Pragma: 'no-cache',
+    Expires: '0',
+  });
+  res.send(TRACKING_PIXEL);
+});
+
+/**
+ * GET /api/track/click/:token?u=<url>&s=<signature>
+ * Tracked link in emails sent with tracking; records a click and redirects to the original URL
+ * Only URLs signed when the email was sent are followed
+ */
+router.get('/click/:token', async (req, res) => {
+  const { token } = req.params;
+  const url = typeof req.query.u === 'string' ? req.query.u : '';
+  const signature = typeof req.query.s === 'string' ? req.query.s : '';
+
+  if (!TOKEN_REGEX.test(token) || !/^https?:\/\//i.test(url) || !verifyTrackedUrl(token, url, signature)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid tracking link',
+    });
+  }
+
+  try {
+    await recordTrackingEvent(token, 'click', { url, userAgent: getUserAgent(req) });
+  } catch (error) {
+    console.error('Error recording email click:', error);
+  }
+
+  res.redirect(302, url);
+});
+
+export default router;
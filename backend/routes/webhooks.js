@@ -2,6 +2,10 @@ import express from 'express';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import crypto from 'crypto';
+import { drainWebhookInbox, listDeadLetterEvents, replayWebhookEvent } from '../services/webhookInbox.js';
+import { requireAdminKey } from '../middleware/requireAdminKey.js';
+import { resolveBotForCall } from '../services/retellEventHandlers.js';
+import { getCallerMemory } from '../services/callerMemory.js';
 
 dotenv.config();
 
@@ -20,6 +24,12 @@ const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_R
 // Webhook secret for verifying Supabase webhooks
 const WEBHOOK_SECRET = process.env.SUPABASE_WEBHOOK_SECRET || '';
 
+// Retell signs webhooks with the API key that has the webhook badge
+const RETELL_WEBHOOK_SECRET = process.env.RETELL_WEBHOOK_SECRET || process.env.RETELL_API_KEY || '';
+
+// Maximum age of a signed Retell delivery before it is treated as a replay
+const RETELL_SIGNATURE_TOLERANCE_MS = parseInt(process.env.RETELL_WEBHOOK_TOLERANCE_SECONDS || '300') * 1000;
+
 /**
  * Verify webhook signature (if Supabase provides one)
  */
@@ -42,6 +52,58 @@ function verifyWebhookSignature(req, secret) {
   );
 }
 
+/**
+ * Verify Retell webhook signature
+ * Header format: x-retell-signature: v=<timestamp ms>,d=<hex HMAC-SHA256 of raw body + timestamp>
+ * Returns { valid, reason, signedAt }
+ */
+function verifyRetellSignature(req, secret) {
+  const signature = req.headers['x-retell-signature'];
+  if (!signature) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+
+  const match = /^v=(\d+),d=([0-9a-f]+)$/i.exec(signature);
+  if (!match) {
+    return { valid: false, reason: 'malformed_signature' };
+  }
+
+  const [, timestamp, digest] = match;
+
+  // Sign over the exact bytes Retell sent, not a re-serialized body
+  const payload = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(req.body);
+  const expectedDigest = crypto
+    .createHmac('sha256', secret)
+    .update(payload + timestamp)
+    .digest('hex');
+
+  const received = Buffer.from(digest, 'hex');
+  const expected = Buffer.from(expectedDigest, 'hex');
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  const signedAt = parseInt(timestamp);
+  if (Math.abs(Date.now() - signedAt) > RETELL_SIGNATURE_TOLERANCE_MS) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  return { valid: true, signedAt };
+}
+
+/**
+ * Get a stable id for a Retell delivery
+ * Retell retries resend the same body, so a body hash identifies repeated deliveries
+ */
+function getRetellEventId(req) {
+  if (req.body?.event_id) {
+    return String(req.body.event_id);
+  }
+
+  const payload = req.rawBody || Buffer.from(JSON.stringify(req.body || {}));
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
 /**
  * POST /api/webhooks/supabase/auth
  * Handle Supabase Auth webhook events
@@ -280,9 +342,81 @@ async function logActivity(userId, activityType, description, metadata = {}) {
   }
 }
 
+// Anyone can post to the webhook, so audit fields are cut to this length
+const MAX_AUDIT_FIELD_LENGTH = 200;
+
+function toAuditField(value) {
+  return typeof value === 'string' && value ? value.slice(0, MAX_AUDIT_FIELD_LENGTH) : null;
+}
+
+/**
+ * Record a rejected Retell delivery in retell_webhook_rejections for audit
+ * Only metadata and a hash of the body are kept: the body is unverified,
+ * and a stale but genuine delivery would otherwise keep its transcript here
+ */
+async function recordRejectedRetellEvent(req, reason) {
+  try {
+    if (!supabaseAdmin) return;
+
+    const event = req.body || {};
+    const body = req.rawBody || Buffer.from(JSON.stringify(event));
+
+    await supabaseAdmin
+      .from('retell_webhook_rejections')
+      .insert({
+        reason: reason,
+        event_type: toAuditField(event.event || event.type),
+        call_id: toAuditField(event.call_id || event.call?.call_id || event.call?.id),
+        signature: toAuditField(req.headers['x-retell-signature']),
+        ip_address: req.ip,
+        user_agent: toAuditField(req.headers['user-agent']),
+        body_sha256: crypto.createHash('sha256').update(body).digest('hex'),
+        body_length: body.length,
+        created_at: new Date().toISOString(),
+      });
+  } catch (error) {
+    console.error('Error recording rejected Retell webhook:', error);
+    // Don't throw - audit logging is not critical
+  }
+}
+
+/**
+ * Persist a Retell delivery to the retell_webhook_events inbox
+ * The full payload is kept until the worker processes it: the account, and so its
+ * redaction settings, is only known once the call is routed
+ * Returns false if the same event was already received
+ */
+async function enqueueRetellEvent(eventId, event, signedAt) {
+  const { error } = await supabaseAdmin
+    .from('retell_webhook_events')
+    .insert({
+      event_id: eventId,
+      event_type: event.event || event.type || null,
+      call_id: event.call_id || event.call?.call_id || event.call?.id || null,
+      payload: event,
+      signed_at: signedAt ? new Date(signedAt).toISOString() : null,
+      status: 'pending',
+      next_attempt_at: new Date().toISOString(),
+      received_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    // Unique violation on event_id means this delivery was already received
+    if (error.code === '23505') {
+      return false;
+    }
+    throw error;
+  }
+
+  return true;
+}
+
 /**
  * POST /api/webhooks/retell
  * Handle Retell webhook events (call events)
+ *
+ * Headers:
+ *   x-retell-signature: v=<timestamp>,d=<digest>
  */
 router.post('/retell', async (req, res) => {
   try {
@@ -298,34 +432,49 @@ router.post('/retell', async (req, res) => {
       });
     }
 
-    // Handle different Retell event types
-    switch (eventType) {
-      case 'call_started':
-      case 'call.connected':
-        await handleCallStarted(event);
-        break;
-
-      case 'call_ended':
-      case 'call.ended':
-        await handleCallEnded(event);
-        break;
+    // Never accept unsigned Retell events - they write straight into tenant data
+    if (!RETELL_WEBHOOK_SECRET) {
+      console.error('Retell webhook secret not configured, rejecting event');
+      return res.status(500).json({
+        success: false,
+        error: 'Retell webhook verification is not configured',
+      });
+    }
 
-      case 'call_analysis':
-        await handleCallAnalysis(event);
-        break;
+    const verification = verifyRetellSignature(req, RETELL_WEBHOOK_SECRET);
+    if (!verification.valid) {
+      console.warn('Rejected Retell webhook:', verification.reason);
+      await recordRejectedRetellEvent(req, verification.reason);
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid webhook signature',
+      });
+    }
 
-      default:
-        console.log('Unhandled Retell event type:', eventType);
+    const eventId = getRetellEventId(req);
+    const isNewEvent = await enqueueRetellEvent(eventId, event, verification.signedAt);
+    if (!isNewEvent) {
+      console.log('Duplicate Retell webhook ignored:', eventId);
+      return res.json({
+        success: true,
+        duplicate: true,
+        message: 'Webhook already received',
+      });
     }
 
+    // The event is persisted - hand it to the inbox worker and acknowledge
+    drainWebhookInbox();
+
     res.json({
       success: true,
-      message: 'Webhook processed successfully',
+      message: 'Webhook received',
+      eventId: eventId,
     });
 
   } catch (error) {
     console.error('Retell webhook processing error:', error);
-    res.status(200).json({
+    // The event was not persisted, so let Retell retry the delivery
+    res.status(500).json({
       success: false,
       error: error.message || 'Webhook processing failed',
     });
@@ -333,119 +482,163 @@ router.post('/retell', async (req, res) => {
 });
 
 /**
- * Handle call started event
+ * POST /api/webhooks/retell/inbound
+ * Retell inbound call webhook, called before an inbound call is connected.
+ * Responds with dynamic variables describing the caller's previous calls
+ * (caller memory), for bots that have it turned on. Set this URL as the
+ * inbound webhook of each phone number in Retell.
+ *
+ * Headers:
+ *   x-retell-signature: v=<timestamp>,d=<digest>
  */
-async function handleCallStarted(event) {
+router.post('/retell/inbound', async (req, res) => {
+  if (!supabaseAdmin || !RETELL_WEBHOOK_SECRET) {
+    return res.status(500).json({
+      success: false,
+      error: 'Retell webhook verification is not configured',
+    });
+  }
+
+  const verification = verifyRetellSignature(req, RETELL_WEBHOOK_SECRET);
+  if (!verification.valid) {
+    console.warn('Rejected Retell inbound webhook:', verification.reason);
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid webhook signature',
+    });
+  }
+
+  const inbound = req.body?.call_inbound || {};
+
   try {
-    // Extract call information from Retell webhook
-    const callId = event.call_id || event.call?.id;
-    const userId = event.user_id || event.metadata?.user_id;
-    const phoneNumber = event.phone_number || event.call?.phone_number;
+    const bot = await resolveBotForCall({
+      agent_id: inbound.agent_id,
+      from_number: inbound.from_number,
+      to_number: inbound.to_number,
+      direction: 'inbound',
+    });
 
-    if (!callId || !userId) {
-      console.warn('Missing required fields in call started event');
-      return;
+    if (!bot) {
+      return res.json({ call_inbound: {} });
     }
 
-    // Update or create call record
-    await supabaseAdmin
-      .from('calls')
-      .upsert({
-        id: callId,
-        user_id: userId,
-        phone_number: phoneNumber,
-        status: 'in_progress',
-        started_at: new Date().toISOString(),
-        metadata: event,
-      }, {
-        onConflict: 'id',
-      });
-
-    console.log('Call started event processed:', callId);
+    const memory = await getCallerMemory(bot, inbound.from_number);
+    if (!memory.enabled) {
+      return res.json({ call_inbound: {} });
+    }
 
+    res.json({
+      call_inbound: {
+        dynamic_variables: memory.variables,
+        metadata: {
+          caller_memory_lead_id: memory.leadId,
+        },
+      },
+    });
   } catch (error) {
-    console.error('Error handling call started:', error);
+    // Never hold up the call - the agent just starts without caller memory
+    console.error('Error building caller memory:', error);
+    res.json({ call_inbound: {} });
   }
-}
+});
 
 /**
- * Handle call ended event
+ * GET /api/webhooks/retell/dead-letter
+ * List Retell events that exhausted their retries
+ *
+ * Query params:
+ *   limit (default 50, max 200), offset (default 0)
  */
-async function handleCallEnded(event) {
+router.get('/retell/dead-letter', requireAdminKey, async (req, res) => {
   try {
-    const callId = event.call_id || event.call?.id;
-    const duration = event.duration_seconds || event.call?.duration;
-    const transcript = event.transcript || event.call?.transcript;
-    const recordingUrl = event.recording_url || event.call?.recording_url;
-
-    if (!callId) {
-      console.warn('Missing call_id in call ended event');
-      return;
-    }
+    const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+    const offset = Math.max(parseInt(req.query.offset) || 0, 0);
 
-    // Update call record
-    await supabaseAdmin
-      .from('calls')
-      .update({
-        status: 'completed',
-        duration_seconds: duration,
-        transcript: transcript,
-        recording_url: recordingUrl,
-        completed_at: new Date().toISOString(),
-        webhook_response: event,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', callId);
-
-    console.log('Call ended event processed:', callId);
+    const result = await listDeadLetterEvents({ limit, offset });
 
+    res.json({
+      success: true,
+      ...result,
+    });
   } catch (error) {
-    console.error('Error handling call ended:', error);
+    console.error('Error listing dead-letter events:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list dead-letter events',
+    });
   }
-}
+});
 
 /**
- * Handle call analysis event
+ * POST /api/webhooks/retell/events/:id/replay
+ * Re-queue a Retell event (dead-lettered or processed) for processing
+ * Processed events stored on their call have had their payload cleared and can't be replayed
  */
-async function handleCallAnalysis(event) {
+router.post('/retell/events/:id/replay', requireAdminKey, async (req, res) => {
   try {
-    const callId = event.call_id || event.call?.id;
-    const analysis = event.analysis || event.data;
+    const event = await replayWebhookEvent(req.params.id);
 
-    if (!callId || !analysis) {
-      console.warn('Missing required fields in call analysis event');
-      return;
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found, currently processing or already stored on its call',
+      });
     }
 
-    // Update call with analysis
-    await supabaseAdmin
-      .from('calls')
-      .update({
-        webhook_response: event,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', callId);
-
-    // Create or update call_analytics record
-    await supabaseAdmin
-      .from('call_analytics')
-      .upsert({
-        call_id: callId,
-        user_id: event.user_id,
-        sentiment: analysis.sentiment,
-        is_lead: analysis.is_lead,
-        lead_quality_score: analysis.lead_quality_score,
-        ai_analysis_data: analysis,
-        created_at: new Date().toISOString(),
-      }, {
-        onConflict: 'call_id',
+    res.json({
+      success: true,
+      message: 'Event queued for replay',
+      event: event,
+    });
+  } catch (error) {
+    console.error('Error replaying webhook event:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to replay event',
+    });
+  }
+});
+
+/**
+ * GET /api/webhooks/retell/unrouted-calls
+ * List Retell calls whose agent id / number did not match any bot
+ * Once the bot exists, replay the call's events to attach them
+ *
+ * Query params:
+ *   limit (default 50, max 200), offset (default 0)
+ */
+router.get('/retell/unrouted-calls', requireAdminKey, async (req, res) => {
+  try {
+    if (!supabaseAdmin) {
+      return res.status(500).json({
+        success: false,
+        error: 'Supabase not configured',
       });
+    }
+
+    const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+    const offset = Math.max(parseInt(req.query.offset) || 0, 0);
 
-    console.log('Call analysis event processed:', callId);
+    const { data, error, count } = await supabaseAdmin
+      .from('unrouted_calls')
+      .select('id, retell_call_id, agent_id, from_number, to_number, direction, reason, last_event, first_seen_at, last_seen_at', { count: 'exact' })
+      .order('last_seen_at', { ascending: false })
+      .range(offset, offset + limit - 1);
 
+    if (error) throw error;
+
+    res.json({
+      success: true,
+      calls: data || [],
+      total: count || 0,
+    });
   } catch (error) {
-    console.error('Error handling call analysis:', error);
+    console.error('Error listing unrouted calls:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list unrouted calls',
+    });
   }
-}
+});
 
 export default router;
@@ -3,28 +3,41 @@ import nodemailer from 'nodemailer';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import multer from 'multer';
-import OpenAI from 'openai';
 import Retell from 'retell-sdk';
 import { extractTextFromFile } from './services/documentExtractor.js';
-import { analyzeCallTranscript } from './services/callAnalysis.js';
+import { analyzeAndStoreCall, storeAnalysisFailure, startCallAnalysisWorker } from './services/callAnalysisQueue.js';
 import { extractDocumentProfile, generatePromptFromProfile, formatRawPrompt } from './services/aiPromptService.js';
 import { sendChatbotMessage } from './services/chatbotService.js';
 import { generateEmailContent, generateEmailTemplate } from './services/emailService.js';
 import { createClient } from '@supabase/supabase-js';
+import { createChatCompletion, assertLlmConfigured, LLM_FEATURES } from './services/llmProvider.js';
 import authRoutes from './routes/auth.js';
 import webhookRoutes from './routes/webhooks.js';
+import callRoutes from './routes/calls.js';
+import adminRoutes from './routes/admin.js';
+import analyticsRoutes from './routes/analytics.js';
+import leadRoutes from './routes/leads.js';
+import emailRoutes from './routes/emails.js';
+import mailboxRoutes from './routes/mailboxes.js';
+import trackingRoutes from './routes/tracking.js';
+import { startWebhookInboxWorker } from './services/webhookInbox.js';
+import { startCallRecordingWorker } from './services/callRecordings.js';
+import { startEmailAutomationWorker } from './services/emailAutomation.js';
+import { startEmailQueueWorker } from './services/emailQueue.js';
+import { startEmailBounceWorker } from './services/emailBounces.js';
+import { getSmtpConfig } from './services/mailer.js';
+import { encryptLegacySmtpPasswords } from './services/smtpVault.js';
+import { requireUser } from './middleware/requireUser.js';
 
 // Load environment variables from .env file
 dotenv.config();
 
-// Initialize OpenAI client for sidebar endpoints
-const openaiApiKey = process.env.OPENAI_API_KEY?.trim();
-if (!openaiApiKey) {
-  console.warn('Warning: OPENAI_API_KEY is not configured. OpenAI features will not work.');
+// Warn early if the LLM provider for the sidebar endpoints is not configured
+try {
+  assertLlmConfigured(LLM_FEATURES.SIDEBAR_PROMPT);
+} catch (error) {
+  console.warn(`Warning: ${error.message}. AI features will not work.`);
 }
-const openai = new OpenAI({
-  apiKey: openaiApiKey,
-});
 
 // Initialize Supabase client (only if env vars are available)
 let supabase = null;
@@ -78,11 +91,25 @@ app.use(cors({
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
 }));
-app.use(express.json());
+// Lead imports send a whole spreadsheet in one request
+app.use('/api/leads/import', express.json({ limit: '5mb' }));
+app.use(express.json({
+  // Keep the raw body so webhook signatures can be verified against the exact bytes received
+  verify: function (req, res, buf) {
+    req.rawBody = buf;
+  },
+}));
 
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/webhooks', webhookRoutes);
+app.use('/api/calls', callRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/leads', leadRoutes);
+app.use('/api/emails', emailRoutes);
+app.use('/api/mailboxes', mailboxRoutes);
+app.use('/api/track', trackingRoutes);
 
 // Configure multer for file uploads
 const upload = multer({ 
@@ -92,7 +119,8 @@ const upload = multer({
 
 /**
  * POST /api/send-email
- * Send email using user-provided email credentials
+ * Send email using user-provided email credentials, right away
+ * (use POST /api/emails to queue or schedule emails from a connected address)
  * 
  * Request body:
  * {
@@ -125,68 +153,8 @@ app.post('/api/send-email', async (req, res) => {
       });
     }
 
-    // Determine SMTP settings based on email domain
-    const emailDomain = userEmail.split('@')[1].toLowerCase();
-    let smtpConfig = {
-      host: 'smtp.gmail.com',
-      port: 587,
-      secure: false, // true for 465, false for other ports
-      auth: {
-        user: userEmail,
-        pass: appPassword
-      }
-    };
-
-    // Configure SMTP for different email providers
-    if (emailDomain.includes('gmail.com')) {
-      smtpConfig = {
-        host: 'smtp.gmail.com',
-        port: 587,
-        secure: false,
-        auth: {
-          user: userEmail,
-          pass: appPassword
-        }
-      };
-    } else if (emailDomain.includes('outlook.com') || emailDomain.includes('hotmail.com') || emailDomain.includes('live.com')) {
-      smtpConfig = {
-        host: 'smtp-mail.outlook.com',
-        port: 587,
-        secure: false,
-        auth: {
-          user: userEmail,
-          pass: appPassword
-        }
-      };
-    } else if (emailDomain.includes('yahoo.com')) {
-      smtpConfig = {
-        host: 'smtp.mail.yahoo.com',
-        port: 587,
-        secure: false,
-        auth: {
-          user: userEmail,
-          pass: appPassword
-        }
-      };
-    } else {
-      // For other domains, try common SMTP settings
-      // User can customize these if needed
-      smtpConfig = {
-        host: `smtp.${emailDomain}`,
-        port: 587,
-        secure: false,
-        auth: {
-          user: userEmail,
-          pass: appPassword
-        }
-      };
-    }
-
-    // Create transporter
-    const transporter = nodemailer.createTransport(smtpConfig);
-
-    // Verify connection
-    await transporter.verify();
+    // One-off connection: the credentials come from the request, so nothing is pooled
+    const transporter = nodemailer.createTransport(getSmtpConfig(userEmail, appPassword));
 
     // Prepare email options
     const mailOptions = {
@@ -198,7 +166,12 @@ app.post('/api/send-email', async (req, res) => {
     };
 
     // Send email
-    const info = await transporter.sendMail(mailOptions);
+    let info;
+    try {
+      info = await transporter.sendMail(mailOptions);
+    } finally {
+      transporter.close();
+    }
 
     res.json({
       success: true,
@@ -274,7 +247,7 @@ app.post('/api/send-email-custom', async (req, res) => {
       });
     }
 
-    // Create transporter with custom SMTP settings
+    // One-off connection with custom SMTP settings: the credentials come from the request, so nothing is pooled
     const transporter = nodemailer.createTransport({
       host: smtpHost,
       port: parseInt(smtpPort),
@@ -285,9 +258,6 @@ app.post('/api/send-email-custom', async (req, res) => {
       }
     });
 
-    // Verify connection
-    await transporter.verify();
-
     // Prepare email options
     const mailOptions = {
       from: userEmail,
@@ -298,154 +268,13 @@ app.post('/api/send-email-custom', async (req, res) => {
     };
 
     // Send email
-    const info = await transporter.sendMail(mailOptions);
-
-    res.json({
-      success: true,
-      message: 'Email sent successfully',
-      messageId: info.messageId
-    });
-
-  } catch (error) {
-    console.error('Error sending email:', error);
-    
-    let errorMessage = 'Failed to send email';
-    if (error.code === 'EAUTH') {
-      errorMessage = 'Authentication failed. Please check your email and app password.';
-    } else if (error.code === 'ECONNECTION') {
-      errorMessage = 'Connection failed. Please check your SMTP host and port settings.';
-    } else if (error.message) {
-      errorMessage = error.message;
-    }
-
-    res.status(500).json({
-      success: false,
-      error: errorMessage
-    });
-  }
-});
-
-/**
- * POST /email
- * Send email endpoint for frontend integration
- * Matches the format expected by useSendEmail hook
- * 
- * Request body:
- * {
- *   "from_email": "user@example.com",
- *   "to_email": "recipient@example.com",
- *   "subject": "Email Subject",
- *   "body": "Plain text email body",
- *   "html_body": "<h1>HTML email body</h1>", // optional
- *   "smtp_password": "app-password-here"
- * }
- */
-app.post('/email', async (req, res) => {
-  try {
-    const { from_email, to_email, subject, body, html_body, smtp_password } = req.body;
-
-    // Validate required fields
-    if (!from_email || !to_email || !subject || !smtp_password) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields. Please provide: from_email, to_email, subject, and smtp_password'
-      });
-    }
-
-    // At least body or html_body should be provided
-    if (!body && !html_body) {
-      return res.status(400).json({
-        success: false,
-        error: 'Either body or html_body must be provided'
-      });
+    let info;
+    try {
+      info = await transporter.sendMail(mailOptions);
+    } finally {
+      transporter.close();
     }
 
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(from_email) || !emailRegex.test(to_email)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid email format'
-      });
-    }
-
-    // Determine SMTP settings based on email domain
-    const emailDomain = from_email.split('@')[1].toLowerCase();
-    let smtpConfig = {
-      host: 'smtp.gmail.com',
-      port: 587,
-      secure: false,
-      auth: {
-        user: from_email,
-        pass: smtp_password
-      }
-    };
-
-    // Configure SMTP for different email providers
-    if (emailDomain.includes('gmail.com')) {
-      smtpConfig = {
-        host: 'smtp.gmail.com',
-        port: 587,
-        secure: false,
-        auth: {
-          user: from_email,
-          pass: smtp_password
-        }
-      };
-    } else if (emailDomain.includes('outlook.com') || emailDomain.includes('hotmail.com') || emailDomain.includes('live.com')) {
-      smtpConfig = {
-        host: 'smtp-mail.outlook.com',
-        port: 587,
-        secure: false,
-        auth: {
-          user: from_email,
-          pass: smtp_password
-        }
-      };
-    } else if (emailDomain.includes('yahoo.com')) {
-      smtpConfig = {
-        host: 'smtp.mail.yahoo.com',
-        port: 587,
-        secure: false,
-        auth: {
-          user: from_email,
-          pass: smtp_password
-        }
-      };
-    } else {
-      // For other domains, try common SMTP settings
-      smtpConfig = {
-        host: `smtp.${emailDomain}`,
-        port: 587,
-        secure: false,
-        auth: {
-          user: from_email,
-          pass: smtp_password
-        }
-      };
-    }
-
-    // Create transporter
-    const transporter = nodemailer.createTransport(smtpConfig);
-
-    // Verify connection
-    await transporter.verify();
-
-    // Prepare email options - prefer html_body if available, otherwise use body
-    const html = html_body || (body ? body.replace(/\n/g, '<br>') : '');
-    const text = body || (html_body ? html_body.replace(/<[^>]*>/g, '') : '');
-
-    const mailOptions = {
-      from: from_email,
-      to: to_email,
-      subject: subject,
-      text: text,
-      html: html
-    };
-
-    // Send email
-    const info = await transporter.sendMail(mailOptions);
-
     res.json({
       success: true,
       message: 'Email sent successfully',
@@ -455,12 +284,11 @@ app.post('/email', async (req, res) => {
   } catch (error) {
     console.error('Error sending email:', error);
     
-    // Provide more specific error messages
     let errorMessage = 'Failed to send email';
     if (error.code === 'EAUTH') {
       errorMessage = 'Authentication failed. Please check your email and app password.';
     } else if (error.code === 'ECONNECTION') {
-      errorMessage = 'Connection failed. Please check your internet connection and SMTP settings.';
+      errorMessage = 'Connection failed. Please check your SMTP host and port settings.';
     } else if (error.message) {
       errorMessage = error.message;
     }
@@ -867,8 +695,7 @@ app.post('/api/ai-prompt/sidebar-generate', async (req, res) => {
       });
     }
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
+    const completion = await createChatCompletion(LLM_FEATURES.SIDEBAR_PROMPT, {
       messages: [
         {
           role: 'system',
@@ -880,10 +707,10 @@ app.post('/api/ai-prompt/sidebar-generate', async (req, res) => {
         },
       ],
       temperature: 0.7,
-      max_tokens: 1000,
+      maxTokens: 1000,
     });
 
-    const generatedText = completion.choices[0]?.message?.content || '';
+    const generatedText = completion.content;
 
     res.json({
       success: true,
@@ -931,8 +758,7 @@ ${promptToFormat}
 
 Formatted Prompt:`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
+    const completion = await createChatCompletion(LLM_FEATURES.SIDEBAR_PROMPT, {
       messages: [
         {
           role: 'system',
@@ -944,10 +770,10 @@ Formatted Prompt:`;
         },
       ],
       temperature: 0.7,
-      max_tokens: 1500,
+      maxTokens: 1500,
     });
 
-    const formattedText = completion.choices[0]?.message?.content || '';
+    const formattedText = completion.content;
 
     res.json({
       success: true,
@@ -965,13 +791,15 @@ Formatted Prompt:`;
 /**
  * POST /api/calls/analyze
  * Analyze a completed call transcript and update database
+ * Requires: Authorization: Bearer <supabase_access_token>, only the call's owner can analyze it
  * 
  * Request body:
  * {
- *   "callId": "uuid-of-call"
+ *   "callId": "uuid-of-call",
+ *   "overwrite": false // optional, re-analyze a call that already has an analysis
  * }
  */
-app.post('/api/calls/analyze', async (req, res) => {
+app.post('/api/calls/analyze', requireUser, async (req, res) => {
   try {
     if (!supabase) {
       return res.status(500).json({
@@ -980,7 +808,7 @@ app.post('/api/calls/analyze', async (req, res) => {
       });
     }
 
-    const { callId } = req.body;
+    const { callId, overwrite } = req.body;
 
     if (!callId) {
       return res.status(400).json({
@@ -994,6 +822,7 @@ app.post('/api/calls/analyze', async (req, res) => {
       .from('calls')
       .select('*')
       .eq('id', callId)
+      .eq('user_id', req.user.id)
       .single();
 
     if (callError || !call) {
@@ -1004,7 +833,7 @@ app.post('/api/calls/analyze', async (req, res) => {
     }
 
     // Check if already analyzed
-    if (call.analyzed && call.analysis) {
+    if (call.analyzed && call.analysis && !overwrite) {
       return res.json({
         success: true,
         message: 'Call already analyzed',
@@ -1021,22 +850,14 @@ app.post('/api/calls/analyze', async (req, res) => {
       });
     }
 
-    // Analyze transcript
-    const analysisResult = await analyzeCallTranscript(call.transcript);
+    // Analyze transcript and store the result (calls + page_leads)
+    const analysisResult = await analyzeAndStoreCall(call);
 
     if (!analysisResult.success) {
-      // Store error in analysis field
-      await supabase
-        .from('calls')
-        .update({
-          analyzed: true,
-          analysis: {
-            error: analysisResult.error,
-            raw_response: analysisResult.raw_response,
-            analyzed_at: new Date().toISOString(),
-          },
-        })
-        .eq('id', callId);
+      // Store error in analysis field, unless it would replace a successful analysis
+      if (!call.analysis || call.analysis.error) {
+        await storeAnalysisFailure(callId, analysisResult);
+      }
 
       return res.status(500).json({
         success: false,
@@ -1046,35 +867,6 @@ app.post('/api/calls/analyze', async (req, res) => {
 
     const analysis = analysisResult.analysis;
 
-    // Update calls table with analysis
-    const updateData = {
-      analyzed: true,
-      analysis: analysis,
-      call_type: analysis.call_type,
-      call_outcome: analysis.call_outcome,
-      sentiment: analysis.sentiment,
-      urgency_level: analysis.urgency_level,
-      confidence_score: analysis.confidence_score,
-      intent_summary: analysis.intent_summary,
-      call_summary: analysis.summary,
-      is_lead: analysis.is_lead,
-      lead_strength: analysis.lead_strength,
-      extracted_customer_data: analysis.customer || {},
-      updated_at: new Date().toISOString(),
-    };
-
-    const { error: updateError } = await supabase
-      .from('calls')
-      .update(updateData)
-      .eq('id', callId);
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    // Upsert into page_leads table
-    await upsertLeadFromAnalysis(call, analysis);
-
     res.json({
       success: true,
       message: 'Call analyzed successfully',
@@ -1090,129 +882,6 @@ app.post('/api/calls/analyze', async (req, res) => {
   }
 });
 
-/**
- * Upsert lead into page_leads table based on analysis
- */
-async function upsertLeadFromAnalysis(call, analysis) {
-  try {
-    if (!supabase) {
-      console.error('Supabase not configured, skipping lead upsert');
-      return;
-    }
-
-    const customer = analysis.customer || {};
-    const phoneNumber = customer.phone_number || call.phone_number;
-    const email = customer.email;
-
-    // Determine status based on analysis
-    let status = 'general';
-    if (analysis.is_lead && analysis.lead_strength === 'hot') {
-      status = 'hot';
-    } else if (analysis.is_lead && analysis.lead_strength === 'warm') {
-      status = 'warm';
-    } else if (analysis.is_lead && analysis.lead_strength === 'cold') {
-      status = 'cold';
-    } else if (analysis.call_type === 'support') {
-      status = 'support';
-    } else if (analysis.call_type === 'order') {
-      status = 'order';
-    } else if (analysis.call_type === 'appointment') {
-      status = 'appointment';
-    }
-
-    // Get bot name
-    let botName = null;
-    if (call.bot_id) {
-      const { data: bot } = await supabase
-        .from('bots')
-        .select('name')
-        .eq('id', call.bot_id)
-        .single();
-      botName = bot?.name || null;
-    }
-
-    // Prepare lead data
-    const leadData = {
-      user_id: call.user_id,
-      name: customer.name || call.contact_name,
-      email: email,
-      phone_number: phoneNumber,
-      address: customer.address,
-      bot_name: botName,
-      status: status,
-      call_id: call.id,
-      call_type: analysis.call_type,
-      lead_strength: analysis.lead_strength,
-      intent_summary: analysis.intent_summary,
-      call_summary: analysis.summary,
-      call_outcome: analysis.call_outcome,
-      next_step_type: analysis.next_step?.type,
-      next_step_details: analysis.next_step?.details,
-      appointment_date: analysis.appointment?.date,
-      appointment_time: analysis.appointment?.time,
-      appointment_timezone: analysis.appointment?.timezone,
-      appointment_type: analysis.appointment?.appointment_type,
-      order_items: analysis.order?.items || [],
-      order_total: analysis.order?.total_price,
-      order_type: analysis.order?.order_type,
-      payment_method: analysis.order?.payment_method,
-      support_issue: analysis.support?.issue,
-      resolution_provided: analysis.support?.resolution_provided || false,
-      sentiment: analysis.sentiment,
-      urgency_level: analysis.urgency_level,
-      confidence_score: analysis.confidence_score,
-      transcript: call.transcript,
-      extracted_data: analysis,
-      is_lead: analysis.is_lead,
-      source: 'call',
-      last_call_at: call.completed_at || call.started_at,
-      updated_at: new Date().toISOString(),
-    };
-
-    // Try to find existing lead by phone or email
-    let existingLead = null;
-    if (phoneNumber) {
-      const { data: phoneLead } = await supabase
-        .from('page_leads')
-        .select('id')
-        .eq('user_id', call.user_id)
-        .eq('phone_number', phoneNumber)
-        .single();
-      existingLead = phoneLead;
-    }
-
-    if (!existingLead && email) {
-      const { data: emailLead } = await supabase
-        .from('page_leads')
-        .select('id')
-        .eq('user_id', call.user_id)
-        .eq('email', email)
-        .single();
-      existingLead = emailLead;
-    }
-
-    if (existingLead) {
-      // Update existing lead
-      const { error } = await supabase
-        .from('page_leads')
-        .update(leadData)
-        .eq('id', existingLead.id);
-
-      if (error) throw error;
-    } else if (analysis.is_lead || phoneNumber || email) {
-      // Create new lead only if it's marked as lead or has contact info
-      const { error } = await supabase
-        .from('page_leads')
-        .insert(leadData);
-
-      if (error) throw error;
-    }
-  } catch (error) {
-    console.error('Error upserting lead:', error);
-    // Don't throw - we don't want to fail the analysis if lead upsert fails
-  }
-}
-
 /**
  * POST /api/test-call/create-token
  * Create a WebRTC call token for testing an agent
@@ -1276,8 +945,16 @@ app.get('/api/health', (req, res) => {
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`Backend server running on http://localhost:${PORT}`);
+  console.log(`Email endpoint: http://localhost:${PORT}/api/emails`);
   console.log(`Email endpoint: http://localhost:${PORT}/email`);
   console.log(`System email endpoint: http://localhost:${PORT}/api/send-system-email`);
   console.log(`Health check: http://localhost:${PORT}/api/health`);
+
+  startWebhookInboxWorker();
+  startCallAnalysisWorker();
+  startCallRecordingWorker();
+  startEmailAutomationWorker();
+  startEmailQueueWorker();
+  startEmailBounceWorker();
+  encryptLegacySmtpPasswords();
 });
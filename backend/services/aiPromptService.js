@@ -1,18 +1,8 @@
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
+import { createChatCompletion, assertLlmConfigured, LLM_FEATURES } from './llmProvider.js';
 
 dotenv.config();
 
-// Get and validate API key
-const apiKey = process.env.OPENAI_API_KEY?.trim();
-if (!apiKey) {
-  console.error('OPENAI_API_KEY is not set in environment variables');
-}
-
-const openai = new OpenAI({
-  apiKey: apiKey,
-});
-
 // Import the system prompts (we'll need to define them here or import from a shared location)
 const DOCUMENT_EXTRACTOR_SYSTEM_PROMPT = `You are a Company Document Extraction Agent.
 
@@ -270,18 +260,14 @@ Constraints:
  * Extracts structured business profile from document text
  */
 export async function extractDocumentProfile(extractedText) {
-  const apiKey = process.env.OPENAI_API_KEY?.trim();
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
+  assertLlmConfigured(LLM_FEATURES.DOCUMENT_EXTRACTION);
 
   if (!extractedText || extractedText.trim().length === 0) {
     throw new Error('Extracted text is empty or invalid');
   }
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await createChatCompletion(LLM_FEATURES.DOCUMENT_EXTRACTION, {
       messages: [
         {
           role: 'system',
@@ -293,13 +279,13 @@ export async function extractDocumentProfile(extractedText) {
         },
       ],
       temperature: 0.2,
-      response_format: { type: 'json_object' },
-      max_tokens: 2000,
+      jsonMode: true,
+      maxTokens: 2000,
     });
 
-    const responseText = completion.choices[0]?.message?.content;
+    const responseText = completion.content;
     if (!responseText) {
-      throw new Error('No response from OpenAI');
+      throw new Error('No response from AI model');
     }
 
     try {
@@ -312,7 +298,7 @@ export async function extractDocumentProfile(extractedText) {
       throw new Error(`Failed to parse AI response as JSON: ${parseError.message}`);
     }
   } catch (error) {
-    console.error('OpenAI Document Extraction Error:', error);
+    console.error('Document Extraction Error:', error);
     throw new Error(error.message || 'Failed to extract document profile');
   }
 }
@@ -322,18 +308,14 @@ export async function extractDocumentProfile(extractedText) {
  * Generates final prompt from structured profile, or returns clarification questions
  */
 export async function generatePromptFromProfile(profile) {
-  const apiKey = process.env.OPENAI_API_KEY?.trim();
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
+  assertLlmConfigured(LLM_FEATURES.PROMPT_GENERATION);
 
   if (!profile || typeof profile !== 'object') {
     throw new Error('Profile is required and must be an object');
   }
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await createChatCompletion(LLM_FEATURES.PROMPT_GENERATION, {
       messages: [
         {
           role: 'system',
@@ -345,13 +327,13 @@ export async function generatePromptFromProfile(profile) {
         },
       ],
       temperature: 0.2,
-      response_format: { type: 'json_object' },
-      max_tokens: 3000,
+      jsonMode: true,
+      maxTokens: 3000,
     });
 
-    const responseText = completion.choices[0]?.message?.content;
+    const responseText = completion.content;
     if (!responseText) {
-      throw new Error('No response from OpenAI');
+      throw new Error('No response from AI model');
     }
 
     try {
@@ -360,7 +342,7 @@ export async function generatePromptFromProfile(profile) {
       throw new Error(`Failed to parse AI response as JSON: ${parseError.message}`);
     }
   } catch (error) {
-    console.error('OpenAI Prompt Generation Error:', error);
+    console.error('Prompt Generation Error:', error);
     throw new Error(error.message || 'Failed to generate prompt from profile');
   }
 }
@@ -370,18 +352,14 @@ export async function generatePromptFromProfile(profile) {
  * Formats raw unstructured prompt into structured format
  */
 export async function formatRawPrompt(rawPrompt) {
-  const apiKey = process.env.OPENAI_API_KEY?.trim();
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
+  assertLlmConfigured(LLM_FEATURES.PROMPT_FORMATTING);
 
   if (!rawPrompt || rawPrompt.trim().length === 0) {
     throw new Error('Raw prompt is empty or invalid');
   }
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
+    const completion = await createChatCompletion(LLM_FEATURES.PROMPT_FORMATTING, {
       messages: [
         {
           role: 'system',
@@ -393,17 +371,17 @@ export async function formatRawPrompt(rawPrompt) {
         },
       ],
       temperature: 0.5,
-      max_tokens: 2000,
+      maxTokens: 2000,
     });
 
-    const responseText = completion.choices[0]?.message?.content;
+    const responseText = completion.content;
     if (!responseText) {
-      throw new Error('No response from OpenAI');
+      throw new Error('No response from AI model');
     }
 
     return responseText;
   } catch (error) {
-    console.error('OpenAI Prompt Formatting Error:', error);
+    console.error('Prompt Formatting Error:', error);
     throw new Error(error.message || 'Failed to format prompt');
   }
 }
@@ -1,13 +1,16 @@
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
+import { createChatCompletion, assertLlmConfigured, LLM_FEATURES } from './llmProvider.js';
+import {
+  validateAnalysis,
+  normalizeCustomFieldDefinitions,
+  buildCustomFieldsPrompt,
+  normalizeRubricDefinitions,
+  buildRubricPrompt,
+  ANALYSIS_SCHEMA_VERSION,
+} from './callAnalysisSchema.js';
 
 dotenv.config();
 
-const openaiApiKey = process.env.OPENAI_API_KEY?.trim();
-const openai = new OpenAI({
-  apiKey: openaiApiKey,
-});
-
 /**
  * AI System Prompt for Universal Call Analysis
  */
@@ -18,6 +21,10 @@ IMPORTANT RULES:
 2. Return null for any field if the information is not explicitly stated.
 3. Output ONLY valid JSON, no other text.
 4. Be precise and accurate.
+5. Use exactly the enum values listed below.
+6. Dates as YYYY-MM-DD, times as 24-hour HH:MM, timezones as IANA names (e.g. "America/New_York").
+7. Phone numbers as digits with a leading + and country code when the caller gives one. Emails as plain addresses.
+8. confidence_score is a number between 0 and 1.
 
 Output JSON structure:
 {
@@ -35,8 +42,8 @@ Output JSON structure:
   "appointment": {
     "requested": true | false,
     "scheduled": true | false,
-    "date": null | string,
-    "time": null | string,
+    "date": null | "YYYY-MM-DD",
+    "time": null | "HH:MM",
     "timezone": null | string,
     "appointment_type": null | string
   },
@@ -70,31 +77,36 @@ Output JSON structure:
 }`;
 
 /**
- * Analyze call transcript using OpenAI
+ * Analyze call transcript using the configured LLM
+ *
+ * @param transcript - Call transcript text
+ * @param options - { userId, customFields, rubric } where customFields is the bot's custom_analysis_fields
+ *                  and rubric its qa_rubric
  */
-export async function analyzeCallTranscript(transcript) {
+export async function analyzeCallTranscript(transcript, options = {}) {
   if (!transcript || transcript.trim().length === 0) {
     throw new Error('Transcript is empty or invalid');
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
+  assertLlmConfigured(LLM_FEATURES.CALL_ANALYSIS);
+
+  const customFields = normalizeCustomFieldDefinitions(options.customFields);
+  const rubric = normalizeRubricDefinitions(options.rubric);
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // or 'gpt-4' for better accuracy
+    const completion = await createChatCompletion(LLM_FEATURES.CALL_ANALYSIS, {
       messages: [
-        { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
+        { role: 'system', content: ANALYSIS_SYSTEM_PROMPT + buildCustomFieldsPrompt(customFields) + buildRubricPrompt(rubric) },
         { role: 'user', content: `Analyze this call transcript:\n\n${transcript}` },
       ],
       temperature: 0.1,
-      response_format: { type: 'json_object' },
+      jsonMode: true,
+      userId: options.userId,
     });
 
-    const responseText = completion.choices[0]?.message?.content;
+    const responseText = completion.content;
     if (!responseText) {
-      throw new Error('No response from OpenAI');
+      throw new Error('No response from AI model');
     }
 
     // Parse and validate JSON
@@ -105,23 +117,20 @@ export async function analyzeCallTranscript(transcript) {
       throw new Error(`Invalid JSON response: ${parseError.message}`);
     }
 
-    // Validate required fields
-    if (!analysis.call_type) {
-      analysis.call_type = 'unknown';
-    }
-    if (typeof analysis.is_lead !== 'boolean') {
-      analysis.is_lead = false;
-    }
-    if (typeof analysis.confidence_score !== 'number') {
-      analysis.confidence_score = 0;
+    // Coerce the output to the schema; anything dropped or changed is reported as a warning
+    const { analysis: validated, warnings } = validateAnalysis(analysis, customFields, rubric);
+    if (warnings.length > 0) {
+      console.warn(`Call analysis output had ${warnings.length} invalid field(s):`, warnings.map((w) => w.field).join(', '));
     }
 
     return {
       success: true,
-      analysis,
+      analysis: validated,
+      warnings,
+      schema_version: ANALYSIS_SCHEMA_VERSION,
     };
   } catch (error) {
-    console.error('OpenAI Analysis Error:', error);
+    console.error('Call Analysis Error:', error);
     return {
       success: false,
       error: error.message || 'Failed to analyze transcript',
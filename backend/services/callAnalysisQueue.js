@@ -0,0 +1,625 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { analyzeCallTranscript } from './callAnalysis.js';
+import { getRedactionSettings, redactText } from './piiRedaction.js';
+import { findExistingLead, linkCallToLead, recordDuplicateCandidates, toE164 } from './leadMatching.js';
+import { getLeadScoringSettings, isRepeatCaller, scoreLead } from './leadScoring.js';
+import { queueAnalyzedCallAutomations } from './emailAutomation.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// Worker settings
+const CONCURRENCY = Math.max(parseInt(process.env.ANALYSIS_CONCURRENCY || '2'), 1);
+const MAX_ATTEMPTS = parseInt(process.env.ANALYSIS_MAX_ATTEMPTS || '3');
+const RETRY_BASE_MS = parseInt(process.env.ANALYSIS_RETRY_BASE_SECONDS || '60') * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000; // 1 hour
+const POLL_INTERVAL_MS = parseInt(process.env.ANALYSIS_WORKER_INTERVAL_MS || '15000');
+const BATCH_SIZE = 20;
+const STALE_LOCK_MS = 10 * 60 * 1000; // 10 minutes
+
+let workerTimer = null;
+let draining = false;
+let drainRequested = false;
+
+/**
+ * Analyze a call's transcript and store the result on the call and in page_leads
+ * Failed analyses are returned, not stored, so the caller decides whether to retry
+ * Email automations only run on a call's first successful analysis, and not at all
+ * with runAutomations false (re-analysis batches of past calls)
+ */
+export async function analyzeAndStoreCall(call, { runAutomations = true } = {}) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const wasAnalyzed = Boolean(call.analyzed && call.analysis && !call.analysis.error);
+
+  // Calls stored before redaction was enabled still get the pattern pass
+  // before the transcript reaches the LLM or page_leads
+  const redactionSettings = await getRedactionSettings(call.user_id);
+  const transcript = redactionSettings.enabled
+    ? redactText(call.transcript, redactionSettings.categories).text
+    : call.transcript;
+
+  const { customFields, rubric } = await getBotAnalysisSettings(call.bot_id);
+  const analysisResult = await analyzeCallTranscript(transcript, {
+    userId: call.user_id,
+    customFields,
+    rubric,
+  });
+  if (!analysisResult.success) {
+    return analysisResult;
+  }
+
+  const analysis = analysisResult.analysis;
+
+  // Update calls table with analysis
+  const updateData = {
+    analyzed: true,
+    analysis: analysis,
+    call_type: analysis.call_type,
+    call_outcome: analysis.call_outcome,
+    sentiment: analysis.sentiment,
+    urgency_level: analysis.urgency_level,
+    confidence_score: analysis.confidence_score,
+    intent_summary: analysis.intent_summary,
+    call_summary: analysis.summary,
+    is_lead: analysis.is_lead,
+    lead_strength: analysis.lead_strength,
+    extracted_customer_data: analysis.customer || {},
+    analysis_warnings: analysisResult.warnings || [],
+    analysis_schema_version: analysisResult.schema_version,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error: updateError } = await supabaseAdmin
+    .from('calls')
+    .update(updateData)
+    .eq('id', call.id);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (analysis.qa) {
+    await storeQaResults(call, analysis.qa);
+  }
+
+  // Upsert into page_leads table
+  const leadResult = await upsertLeadFromAnalysis({ ...call, transcript }, analysis);
+
+  // Schedule the account's email automations for this call and lead
+  if (runAutomations && !wasAnalyzed && !call.is_test_call) {
+    try {
+      await queueAnalyzedCallAutomations({ ...call, ...updateData }, leadResult);
+    } catch (automationError) {
+      console.error('Error queueing email automations:', automationError);
+    }
+  }
+
+  return analysisResult;
+}
+
+/**
+ * Load the custom analysis fields and QA rubric configured on a bot
+ */
+async function getBotAnalysisSettings(botId) {
+  if (!botId) return { customFields: [], rubric: [] };
+
+  const { data: bot, error } = await supabaseAdmin
+    .from('bots')
+    .select('custom_analysis_fields, qa_rubric')
+    .eq('id', botId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return {
+    customFields: bot?.custom_analysis_fields || [],
+    rubric: bot?.qa_rubric || [],
+  };
+}
+
+/**
+ * Store a call's QA grades: the score on call_analytics and one call_qa_results row
+ * per criterion, replacing the grades of an earlier analysis
+ */
+async function storeQaResults(call, qa) {
+  // agent_performance_score is on the 1-10 scale of the other call_analytics scores
+  const { error: analyticsError } = await supabaseAdmin
+    .from('call_analytics')
+    .upsert({
+      call_id: call.id,
+      user_id: call.user_id,
+      qa_score: qa.score,
+      agent_performance_score: qa.score === null ? null : Math.max(1, Math.round(qa.score / 10)),
+    }, {
+      onConflict: 'call_id',
+    });
+
+  if (analyticsError) throw analyticsError;
+
+  // The rubric may have changed since the last analysis, so old criteria go too
+  const { error: deleteError } = await supabaseAdmin
+    .from('call_qa_results')
+    .delete()
+    .eq('call_id', call.id);
+
+  if (deleteError) throw deleteError;
+
+  const { error: insertError } = await supabaseAdmin
+    .from('call_qa_results')
+    .insert(qa.results.map((result) => ({
+      call_id: call.id,
+      user_id: call.user_id,
+      bot_id: call.bot_id,
+      criterion_key: result.key,
+      criterion_label: result.label,
+      weight: result.weight,
+      result: result.result,
+      evidence: result.evidence,
+    })));
+
+  if (insertError) throw insertError;
+}
+
+/**
+ * Store a failed analysis on the call so it is not analyzed again automatically
+ */
+export async function storeAnalysisFailure(callId, analysisResult) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  await supabaseAdmin
+    .from('calls')
+    .update({
+      analyzed: true,
+      analysis: {
+        error: analysisResult.error,
+        raw_response: analysisResult.raw_response || null,
+        analyzed_at: new Date().toISOString(),
+      },
+    })
+    .eq('id', callId);
+}
+
+// Lead columns that only move up: a later call never downgrades a stronger lead
+const LEAD_STRENGTH_RANK = { cold: 1, warm: 2, hot: 3 };
+const LEAD_RANK_COLUMNS = ['is_lead', 'lead_strength', 'status', 'lead_score', 'lead_score_breakdown', 'lead_scored_at'];
+
+function leadRank(isLead, leadStrength) {
+  return isLead ? LEAD_STRENGTH_RANK[leadStrength] || 1 : 0;
+}
+
+/**
+ * Upsert lead into page_leads table based on analysis
+ * Returns the lead's id and whether it was created, or a null id when no lead was stored
+ */
+async function upsertLeadFromAnalysis(call, analysis) {
+  try {
+    const customer = analysis.customer || {};
+    const phoneNumber = customer.phone_number || call.phone_number;
+    const email = customer.email;
+    const phoneE164 = toE164(phoneNumber);
+
+    // Find the existing lead for this person, by E.164 phone number first
+    const existingLead = await findExistingLead(call.user_id, {
+      phoneE164,
+      phoneNumber,
+      email,
+    }, 'id, is_lead, lead_strength');
+
+    // Score the lead with the account's weights; with scoring enabled the score decides lead strength
+    const scoringSettings = await getLeadScoringSettings(call.user_id);
+    const leadScore = scoreLead({
+      call_type: analysis.call_type,
+      urgency_level: analysis.urgency_level,
+      appointment_date: analysis.appointment?.date,
+      order_total: analysis.order?.total_price,
+      sentiment: analysis.sentiment,
+    }, scoringSettings, {
+      repeatCaller: existingLead ? await isRepeatCaller(existingLead.id, call.id) : false,
+    });
+    const leadStrength = analysis.is_lead && scoringSettings.enabled && leadScore
+      ? leadScore.tier
+      : analysis.lead_strength;
+
+    // Determine status based on analysis
+    let status = 'general';
+    if (analysis.is_lead && leadStrength === 'hot') {
+      status = 'hot';
+    } else if (analysis.is_lead && leadStrength === 'warm') {
+      status = 'warm';
+    } else if (analysis.is_lead && leadStrength === 'cold') {
+      status = 'cold';
+    } else if (analysis.call_type === 'support') {
+      status = 'support';
+    } else if (analysis.call_type === 'order') {
+      status = 'order';
+    } else if (analysis.call_type === 'appointment') {
+      status = 'appointment';
+    }
+
+    // Pipeline stage suggested by the call; a stage set by a person always wins
+    const systemStage = (analysis.is_lead && leadStrength === 'hot') || analysis.appointment?.date
+      ? 'qualified'
+      : 'new';
+
+    // Get bot name
+    let botName = null;
+    if (call.bot_id) {
+      const { data: bot } = await supabaseAdmin
+        .from('bots')
+        .select('name')
+        .eq('id', call.bot_id)
+        .single();
+      botName = bot?.name || null;
+    }
+
+    // Prepare lead data
+    const leadData = {
+      user_id: call.user_id,
+      name: customer.name || call.contact_name,
+      email: email,
+      phone_number: phoneNumber,
+      phone_e164: phoneE164,
+      address: customer.address,
+      bot_name: botName,
+      status: status,
+      call_id: call.id,
+      call_type: analysis.call_type,
+      lead_strength: leadStrength,
+      lead_score: leadScore?.score ?? null,
+      lead_score_breakdown: leadScore?.breakdown || null,
+      lead_scored_at: leadScore ? new Date().toISOString() : null,
+      intent_summary: analysis.intent_summary,
+      call_summary: analysis.summary,
+      call_outcome: analysis.call_outcome,
+      next_step_type: analysis.next_step?.type,
+      next_step_details: analysis.next_step?.details,
+      appointment_date: analysis.appointment?.date,
+      appointment_time: analysis.appointment?.time,
+      appointment_timezone: analysis.appointment?.timezone,
+      appointment_type: analysis.appointment?.appointment_type,
+      order_items: analysis.order?.items?.length ? analysis.order.items : null,
+      order_total: analysis.order?.total_price,
+      order_type: analysis.order?.order_type,
+      payment_method: analysis.order?.payment_method,
+      support_issue: analysis.support?.issue,
+      resolution_provided: analysis.support?.resolution_provided || null,
+      sentiment: analysis.sentiment,
+      urgency_level: analysis.urgency_level,
+      confidence_score: analysis.confidence_score,
+      transcript: call.transcript,
+      extracted_data: analysis,
+      is_lead: analysis.is_lead,
+      source: 'call',
+      last_call_at: call.completed_at || call.started_at,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (existingLead) {
+      // Values this call didn't capture keep what earlier calls, merges and imports stored,
+      // and a weaker (or not-a-lead) call keeps the lead's strength, status and score
+      const keepsLeadRank = leadRank(existingLead.is_lead, existingLead.lead_strength) > leadRank(analysis.is_lead, leadStrength);
+      const updateData = Object.fromEntries(
+        Object.entries(leadData).filter(([column, value]) => {
+          if (value === null || value === undefined || value === '') return false;
+          if (column === 'status' && value === 'general') return false;
+          return !(keepsLeadRank && LEAD_RANK_COLUMNS.includes(column));
+        })
+      );
+
+      const { error } = await supabaseAdmin
+        .from('page_leads')
+        .update(updateData)
+        .eq('id', existingLead.id);
+
+      if (error) throw error;
+
+      // Only move leads forward that are still untouched in the pipeline
+      if (systemStage !== 'new') {
+        const { error: stageError } = await supabaseAdmin
+          .from('page_leads')
+          .update({ pipeline_stage: systemStage, stage_set_by: 'system' })
+          .eq('id', existingLead.id)
+          .eq('pipeline_stage', 'new')
+          .eq('stage_set_by', 'system');
+
+        if (stageError) throw stageError;
+      }
+
+      await linkCallToLead(existingLead.id, call);
+      return { leadId: existingLead.id, leadCreated: false };
+    } else if (analysis.is_lead || phoneNumber || email) {
+      // Create new lead only if it's marked as lead or has contact info
+      const { data: newLead, error } = await supabaseAdmin
+        .from('page_leads')
+        .insert({
+          ...leadData,
+          order_items: leadData.order_items || [],
+          resolution_provided: leadData.resolution_provided || false,
+          is_lead: leadData.is_lead || false,
+          pipeline_stage: systemStage,
+          stage_set_by: 'system',
+        })
+        .select('id, user_id, name, email, phone_number, phone_e164')
+        .single();
+
+      if (error) throw error;
+
+      await linkCallToLead(newLead.id, call);
+
+      // Near matches (same person, different spelling or number format) go to the review queue
+      try {
+        await recordDuplicateCandidates(newLead);
+      } catch (duplicateError) {
+        console.error('Error finding duplicate leads:', duplicateError);
+      }
+
+      return { leadId: newLead.id, leadCreated: true };
+    }
+  } catch (error) {
+    console.error('Error upserting lead:', error);
+    // Don't throw - we don't want to fail the analysis if lead upsert fails
+  }
+
+  return { leadId: null, leadCreated: false };
+}
+
+/**
+ * Queue a call for analysis
+ * Calls that already have a job are left alone, so replayed call_ended events don't re-analyze
+ */
+export async function enqueueCallAnalysis(call) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { error } = await supabaseAdmin
+    .from('call_analysis_jobs')
+    .upsert({
+      call_id: call.id,
+      user_id: call.user_id,
+    }, {
+      onConflict: 'call_id',
+      ignoreDuplicates: true,
+    });
+
+  if (error) throw error;
+
+  drainCallAnalysisQueue();
+}
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1), capped at RETRY_MAX_MS
+ */
+function getRetryDelayMs(attempts) {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_MS);
+}
+
+/**
+ * Claim a job for processing
+ * The status guard makes the claim a no-op if another drain already took it
+ */
+async function claimJob(job) {
+  const { data, error } = await supabaseAdmin
+    .from('call_analysis_jobs')
+    .update({
+      status: 'processing',
+      locked_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Mark a job finished
+ */
+async function completeJob(job, status, attempts, lastError = null) {
+  await supabaseAdmin
+    .from('call_analysis_jobs')
+    .update({
+      status: status,
+      attempts: attempts,
+      last_error: lastError,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', job.id);
+}
+
+/**
+ * Analyze the call for one claimed job and record the outcome
+ */
+async function processJob(job) {
+  const attempts = (job.attempts || 0) + 1;
+
+  try {
+    const { data: call, error: callError } = await supabaseAdmin
+      .from('calls')
+      .select('*')
+      .eq('id', job.call_id)
+      .maybeSingle();
+
+    if (callError) throw callError;
+
+    if (!call) {
+      await completeJob(job, 'failed', attempts, 'Call not found');
+      return;
+    }
+
+    const hasAnalysis = Boolean(call.analyzed && call.analysis && !call.analysis.error);
+
+    // Analyzed in the meantime, e.g. from the Calls page
+    if (hasAnalysis && !job.overwrite) {
+      await completeJob(job, 'completed', attempts);
+      return;
+    }
+
+    if (!call.transcript || call.transcript.trim().length === 0) {
+      await completeJob(job, 'failed', attempts, 'Call transcript is empty');
+      return;
+    }
+
+    // Batch re-analysis of past calls mustn't email customers about them
+    const analysisResult = await analyzeAndStoreCall(call, { runAutomations: !job.batch_id });
+
+    if (analysisResult.success) {
+      await completeJob(job, 'completed', attempts);
+      console.log('Call analyzed:', call.id);
+      return;
+    }
+
+    // A failed re-analysis keeps the previous successful result
+    if (attempts >= MAX_ATTEMPTS && !hasAnalysis) {
+      await storeAnalysisFailure(call.id, analysisResult);
+    }
+
+    throw new Error(analysisResult.error);
+  } catch (error) {
+    const errorMessage = error?.message || String(error);
+    const isFinal = attempts >= MAX_ATTEMPTS;
+
+    if (isFinal) {
+      console.error(`Analysis of call ${job.call_id} failed after ${attempts} attempts:`, errorMessage);
+      await completeJob(job, 'failed', attempts, errorMessage);
+      return;
+    }
+
+    console.warn(`Analysis of call ${job.call_id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, errorMessage);
+
+    await supabaseAdmin
+      .from('call_analysis_jobs')
+      .update({
+        status: 'pending',
+        attempts: attempts,
+        last_error: errorMessage,
+        locked_at: null,
+        next_attempt_at: new Date(Date.now() + getRetryDelayMs(attempts)).toISOString(),
+      })
+      .eq('id', job.id);
+  }
+}
+
+/**
+ * Run worker over items with at most `limit` running at once
+ */
+async function runWithConcurrency(items, limit, worker) {
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const item = items[nextIndex++];
+      await worker(item);
+    }
+  });
+
+  await Promise.all(runners);
+}
+
+/**
+ * Process all due analysis jobs, CONCURRENCY at a time
+ * New calls go first, then re-analysis batches, oldest first within each
+ * Concurrent calls are coalesced into one extra pass
+ */
+export async function drainCallAnalysisQueue() {
+  if (!supabaseAdmin) return;
+
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+
+  draining = true;
+  try {
+    await releaseStaleLocks(STALE_LOCK_MS);
+
+    do {
+      drainRequested = false;
+
+      const { data: dueJobs, error } = await supabaseAdmin
+        .from('call_analysis_jobs')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('next_attempt_at', new Date().toISOString())
+        .order('batch_id', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) throw error;
+
+      await runWithConcurrency(dueJobs || [], CONCURRENCY, async (job) => {
+        const claimed = await claimJob(job);
+        if (claimed) {
+          await processJob(claimed);
+        }
+      });
+
+      // A full batch means there may be more due jobs waiting
+      if (dueJobs && dueJobs.length === BATCH_SIZE) {
+        drainRequested = true;
+      }
+    } while (drainRequested);
+  } catch (error) {
+    console.error('Error draining call analysis queue:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Release jobs left in 'processing' longer than olderThanMs,
+ * e.g. by a process that stopped mid-analysis
+ */
+async function releaseStaleLocks(olderThanMs) {
+  const now = Date.now();
+  const { error } = await supabaseAdmin
+    .from('call_analysis_jobs')
+    .update({
+      status: 'pending',
+      locked_at: null,
+      next_attempt_at: new Date(now).toISOString(),
+    })
+    .eq('status', 'processing')
+    .lte('locked_at', new Date(now - olderThanMs).toISOString());
+
+  if (error) {
+    console.error('Error releasing stale call analysis locks:', error);
+  }
+}
+
+/**
+ * Start polling the analysis queue for due jobs
+ */
+export async function startCallAnalysisWorker() {
+  if (!supabaseAdmin) {
+    console.warn('Supabase admin not configured, call analysis worker not started');
+    return;
+  }
+
+  if (workerTimer) return;
+
+  // Nothing else runs this worker, so every lock left at startup is stale
+  await releaseStaleLocks(0);
+
+  workerTimer = setInterval(drainCallAnalysisQueue, POLL_INTERVAL_MS);
+  drainCallAnalysisQueue();
+
+  console.log(`Call analysis worker started (every ${POLL_INTERVAL_MS}ms, concurrency ${CONCURRENCY}, max ${MAX_ATTEMPTS} attempts)`);
+}
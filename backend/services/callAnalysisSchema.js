@@ -0,0 +1,591 @@
+/**
+ * Call analysis output schema
+ *
+ * Bump ANALYSIS_SCHEMA_VERSION whenever the shape or rules below change, so calls
+ * analyzed under an older version can be found and re-run.
+ * Version 1 is the original, unvalidated output (no schema_version stored).
+ * Version 3 adds per-agent custom_fields.
+ * Version 4 adds per-agent QA rubric grades (qa).
+ */
+export const ANALYSIS_SCHEMA_VERSION = 4;
+
+export const CALL_TYPES = ['order', 'appointment', 'sales_inquiry', 'support', 'billing', 'complaint', 'general_inquiry', 'wrong_number', 'spam', 'unknown'];
+export const LEAD_STRENGTHS = ['hot', 'warm', 'cold'];
+export const ORDER_TYPES = ['delivery', 'pickup', 'dine_in'];
+export const NEXT_STEP_TYPES = ['callback', 'appointment', 'send_information', 'send_payment_link', 'support_ticket', 'transfer', 'follow_up_later', 'none', 'unknown'];
+export const CALL_OUTCOMES = ['completed_successfully', 'follow_up_needed', 'not_resolved', 'caller_not_interested', 'call_dropped', 'unknown'];
+export const SENTIMENTS = ['positive', 'neutral', 'negative', 'unknown'];
+export const URGENCY_LEVELS = ['low', 'medium', 'high', 'unknown'];
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'boolean', 'date', 'enum'];
+export const QA_RESULTS = ['pass', 'fail', 'not_applicable'];
+
+const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+const MAX_CUSTOM_FIELDS = 20;
+const MAX_RUBRIC_CRITERIA = 20;
+const MAX_CRITERION_WEIGHT = 10;
+const MAX_EVIDENCE_LENGTH = 500;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Collects warnings while one analysis is validated
+ */
+function createContext() {
+  const warnings = [];
+  return {
+    warnings,
+    warn(field, message, value) {
+      warnings.push({ field, message, value: value === undefined ? null : value });
+    },
+  };
+}
+
+function isObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Trimmed string, or null for empty / non-string values
+ */
+function toStringOrNull(ctx, field, value) {
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+
+  if (typeof value !== 'string') {
+    ctx.warn(field, 'Expected a string', value);
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed || ['null', 'n/a', 'none', 'unknown'].includes(trimmed.toLowerCase())) {
+    return null;
+  }
+
+  return trimmed;
+}
+
+/**
+ * One of the allowed values (case and separator-insensitive), otherwise the fallback
+ */
+function toEnum(ctx, field, value, allowed, fallback) {
+  if (value === null || value === undefined) return fallback;
+
+  const normalized = typeof value === 'string'
+    ? value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+    : value;
+
+  if (allowed.includes(normalized)) {
+    return normalized;
+  }
+
+  ctx.warn(field, `Expected one of: ${allowed.join(', ')}`, value);
+  return fallback;
+}
+
+/**
+ * Boolean, accepting "yes"/"no"/"true"/"false"
+ */
+function toBoolean(ctx, field, value, fallback = false) {
+  if (typeof value === 'boolean') return value;
+  if (value === null || value === undefined) return fallback;
+
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (['true', 'yes', 'y'].includes(normalized)) return true;
+    if (['false', 'no', 'n'].includes(normalized)) return false;
+  }
+
+  ctx.warn(field, 'Expected true or false', value);
+  return fallback;
+}
+
+/**
+ * Date as YYYY-MM-DD
+ * Accepts ISO dates/timestamps and "March 5, 2026" / "5 March 2026" style dates
+ */
+function normalizeDate(ctx, field, value) {
+  const text = toStringOrNull(ctx, field, value);
+  if (!text) return null;
+
+  const isoMatch = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch;
+    return formatDateParts(ctx, field, text, Number(year), Number(month), Number(day));
+  }
+
+  const slashMatch = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  if (slashMatch) {
+    // MM/DD/YYYY
+    const [, month, day, year] = slashMatch;
+    return formatDateParts(ctx, field, text, Number(year), Number(month), Number(day));
+  }
+
+  const words = text.toLowerCase().replace(/,/g, ' ').split(/\s+/).filter(Boolean);
+  const monthIndex = words.findIndex((word) => MONTHS.includes(word.substring(0, 3)));
+  const yearWord = words.find((word) => /^\d{4}$/.test(word));
+  const dayWord = words.find((word) => /^\d{1,2}(st|nd|rd|th)?$/.test(word));
+
+  if (monthIndex !== -1 && yearWord && dayWord) {
+    const month = MONTHS.indexOf(words[monthIndex].substring(0, 3)) + 1;
+    return formatDateParts(ctx, field, text, Number(yearWord), month, parseInt(dayWord));
+  }
+
+  // Relative dates ("tomorrow", "next Monday") can't be resolved without the call date
+  ctx.warn(field, 'Expected a date as YYYY-MM-DD', value);
+  return null;
+}
+
+function formatDateParts(ctx, field, original, year, month, day) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    ctx.warn(field, 'Invalid calendar date', original);
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Time as 24-hour HH:MM, accepting "3pm", "3:30 PM", "15:30:00" and "noon"
+ */
+function normalizeTime(ctx, field, value) {
+  const text = toStringOrNull(ctx, field, value);
+  if (!text) return null;
+
+  const lowered = text.toLowerCase().replace(/\./g, '');
+  if (lowered === 'noon') return '12:00';
+  if (lowered === 'midnight') return '00:00';
+
+  const match = /^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(am|pm)?$/.exec(lowered);
+  if (!match) {
+    ctx.warn(field, 'Expected a time as HH:MM', value);
+    return null;
+  }
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3];
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      ctx.warn(field, 'Invalid 12-hour time', value);
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  if (hours > 23 || minutes > 59) {
+    ctx.warn(field, 'Invalid time', value);
+    return null;
+  }
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * IANA timezone name, or null if the runtime doesn't recognise it
+ */
+function normalizeTimezone(ctx, field, value) {
+  const text = toStringOrNull(ctx, field, value);
+  if (!text) return null;
+
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone: text });
+    return text;
+  } catch (error) {
+    ctx.warn(field, 'Unknown timezone', value);
+    return null;
+  }
+}
+
+/**
+ * Phone number with formatting stripped
+ * Numbers with a country code become +<digits>; local numbers stay digits only
+ */
+function normalizePhone(ctx, field, value) {
+  const text = toStringOrNull(ctx, field, value);
+  if (!text) return null;
+
+  const hasPlus = text.startsWith('+') || text.startsWith('00');
+  const digits = text.replace(/^00/, '').replace(/\D/g, '');
+
+  if (digits.length < 7 || digits.length > 15) {
+    ctx.warn(field, 'Expected a phone number with 7-15 digits', value);
+    return null;
+  }
+
+  if (hasPlus) return `+${digits}`;
+
+  // North American numbers spoken with the leading 1
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+
+  return digits;
+}
+
+/**
+ * Lower-cased email, or null if it isn't one
+ * Transcripts spell addresses out, so "john at example dot com" is accepted
+ */
+function normalizeEmail(ctx, field, value) {
+  const text = toStringOrNull(ctx, field, value);
+  if (!text) return null;
+
+  const email = text
+    .toLowerCase()
+    .replace(/\s+at\s+/g, '@')
+    .replace(/\s+dot\s+/g, '.')
+    .replace(/\s+/g, '');
+
+  if (!EMAIL_PATTERN.test(email)) {
+    ctx.warn(field, 'Invalid email address', value);
+    return null;
+  }
+
+  return email;
+}
+
+/**
+ * Confidence between 0 and 1 (percentages are scaled down)
+ */
+function normalizeConfidence(ctx, field, value) {
+  let score = typeof value === 'string' ? parseFloat(value) : value;
+
+  if (typeof score !== 'number' || Number.isNaN(score)) {
+    if (value !== null && value !== undefined) {
+      ctx.warn(field, 'Expected a number between 0 and 1', value);
+    }
+    return 0;
+  }
+
+  if (score > 1 && score <= 100) {
+    score = score / 100;
+  }
+
+  if (score < 0 || score > 1) {
+    ctx.warn(field, 'Expected a number between 0 and 1', value);
+    return Math.min(Math.max(score, 0), 1);
+  }
+
+  return score;
+}
+
+function getSection(ctx, raw, field) {
+  const value = raw[field];
+  if (value === null || value === undefined) return {};
+  if (!isObject(value)) {
+    ctx.warn(field, 'Expected an object', value);
+    return {};
+  }
+  return value;
+}
+
+/**
+ * Clean up a bot's custom_analysis_fields definitions
+ * Definitions with a bad key or type are dropped, so they never reach the prompt
+ */
+export function normalizeCustomFieldDefinitions(fields) {
+  if (!Array.isArray(fields)) return [];
+
+  const seen = new Set();
+  const definitions = [];
+
+  for (const field of fields) {
+    if (!isObject(field)) continue;
+
+    const key = typeof field.key === 'string' ? field.key.trim() : '';
+    if (!CUSTOM_FIELD_KEY_PATTERN.test(key) || seen.has(key)) continue;
+
+    const type = CUSTOM_FIELD_TYPES.includes(field.type) ? field.type : 'text';
+    const options = Array.isArray(field.options)
+      ? field.options.filter((option) => typeof option === 'string' && option.trim()).map((option) => option.trim())
+      : [];
+
+    // An enum without options can't be validated
+    if (type === 'enum' && options.length === 0) continue;
+
+    seen.add(key);
+    definitions.push({
+      key,
+      label: typeof field.label === 'string' && field.label.trim() ? field.label.trim() : key,
+      type,
+      description: typeof field.description === 'string' ? field.description.trim() : '',
+      options: type === 'enum' ? options : [],
+    });
+
+    if (definitions.length === MAX_CUSTOM_FIELDS) break;
+  }
+
+  return definitions;
+}
+
+/**
+ * Prompt section asking the model for the custom fields
+ */
+export function buildCustomFieldsPrompt(definitions) {
+  if (!definitions || definitions.length === 0) return '';
+
+  const lines = definitions.map((field, index) => {
+    let type = 'string';
+    if (field.type === 'number') type = 'number';
+    if (field.type === 'boolean') type = 'true | false';
+    if (field.type === 'date') type = '"YYYY-MM-DD"';
+    if (field.type === 'enum') type = field.options.map((option) => JSON.stringify(option)).join(' | ');
+
+    const separator = index < definitions.length - 1 ? ',' : '';
+    return `  "${field.key}": null | ${type}${separator}  // ${field.description || field.label}`;
+  });
+
+  return `
+
+Also include a "custom_fields" object with exactly these keys (null when not stated in the transcript):
+"custom_fields": {
+${lines.join('\n')}
+}`;
+}
+
+/**
+ * Coerce one custom field value to its declared type
+ */
+function toCustomFieldValue(ctx, field, value) {
+  const path = `custom_fields.${field.key}`;
+
+  switch (field.type) {
+    case 'number': {
+      if (value === null || value === undefined || value === '') return null;
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+      if (Number.isNaN(number)) {
+        ctx.warn(path, 'Expected a number', value);
+        return null;
+      }
+      return number;
+    }
+    case 'boolean':
+      if (value === null || value === undefined) return null;
+      return toBoolean(ctx, path, value, null);
+    case 'date':
+      return normalizeDate(ctx, path, value);
+    case 'enum': {
+      const text = toStringOrNull(ctx, path, value);
+      if (!text) return null;
+      const match = field.options.find((option) => option.toLowerCase() === text.toLowerCase());
+      if (!match) {
+        ctx.warn(path, `Expected one of: ${field.options.join(', ')}`, value);
+        return null;
+      }
+      return match;
+    }
+    default:
+      return toStringOrNull(ctx, path, value);
+  }
+}
+
+/**
+ * Clean up a bot's qa_rubric definitions
+ * Criteria with a bad key are dropped; weights are whole numbers from 1 to MAX_CRITERION_WEIGHT
+ */
+export function normalizeRubricDefinitions(criteria) {
+  if (!Array.isArray(criteria)) return [];
+
+  const seen = new Set();
+  const definitions = [];
+
+  for (const criterion of criteria) {
+    if (!isObject(criterion)) continue;
+
+    const key = typeof criterion.key === 'string' ? criterion.key.trim() : '';
+    if (!CUSTOM_FIELD_KEY_PATTERN.test(key) || seen.has(key)) continue;
+
+    const weight = Math.round(Number(criterion.weight));
+
+    seen.add(key);
+    definitions.push({
+      key,
+      label: typeof criterion.label === 'string' && criterion.label.trim() ? criterion.label.trim() : key,
+      description: typeof criterion.description === 'string' ? criterion.description.trim() : '',
+      weight: Number.isFinite(weight) ? Math.min(Math.max(weight, 1), MAX_CRITERION_WEIGHT) : 1,
+    });
+
+    if (definitions.length === MAX_RUBRIC_CRITERIA) break;
+  }
+
+  return definitions;
+}
+
+/**
+ * Prompt section asking the model to grade the call against the rubric
+ */
+export function buildRubricPrompt(definitions) {
+  if (!definitions || definitions.length === 0) return '';
+
+  const lines = definitions.map((criterion, index) => {
+    const separator = index < definitions.length - 1 ? ',' : '';
+    const hint = criterion.description ? ` (${criterion.description})` : '';
+    return `  "${criterion.key}": { "result": "pass" | "fail" | "not_applicable", "evidence": null | string }${separator}  // ${criterion.label}${hint}`;
+  });
+
+  return `
+
+Also grade the AI agent's handling of the call against these QA criteria in a "qa" object with exactly these keys.
+Use "not_applicable" only when the situation a criterion covers never came up. "evidence" is a short quote from the transcript, or why the criterion failed.
+"qa": {
+${lines.join('\n')}
+}`;
+}
+
+/**
+ * Grade of one rubric criterion
+ * A missing or unreadable grade is not_applicable, so it never counts against the score
+ */
+function toQaResult(ctx, criterion, value) {
+  const path = `qa.${criterion.key}`;
+  const grade = isObject(value) ? value : { result: value };
+
+  if (value === null || value === undefined) {
+    ctx.warn(path, 'Missing grade', value);
+  }
+
+  const result = typeof grade.result === 'boolean'
+    ? (grade.result ? 'pass' : 'fail')
+    : toEnum(ctx, `${path}.result`, grade.result, QA_RESULTS, 'not_applicable');
+
+  const evidence = toStringOrNull(ctx, `${path}.evidence`, grade.evidence);
+
+  return {
+    key: criterion.key,
+    label: criterion.label,
+    weight: criterion.weight,
+    result,
+    evidence: evidence ? evidence.substring(0, MAX_EVIDENCE_LENGTH) : null,
+  };
+}
+
+/**
+ * Weighted percentage of applicable criteria passed, or null if none applied
+ */
+export function scoreQaResults(results) {
+  let possible = 0;
+  let earned = 0;
+
+  for (const result of results) {
+    if (result.result === 'not_applicable') continue;
+    possible += result.weight;
+    if (result.result === 'pass') earned += result.weight;
+  }
+
+  if (possible === 0) return null;
+  return Math.round((earned / possible) * 10000) / 100;
+}
+
+/**
+ * Validate model output against the analysis schema
+ * Invalid fields are coerced or nulled, never rejected, and every change is reported
+ *
+ * @param raw - Parsed model output
+ * @param customFields - Normalized custom field definitions for the call's bot
+ * @param rubric - Normalized QA rubric definitions for the call's bot
+ * @returns { analysis, warnings }
+ */
+export function validateAnalysis(raw, customFields = [], rubric = []) {
+  const ctx = createContext();
+  const source = isObject(raw) ? raw : {};
+
+  if (!isObject(raw)) {
+    ctx.warn('$', 'Expected a JSON object', raw);
+  }
+
+  const customer = getSection(ctx, source, 'customer');
+  const appointment = getSection(ctx, source, 'appointment');
+  const order = getSection(ctx, source, 'order');
+  const support = getSection(ctx, source, 'support');
+  const billing = getSection(ctx, source, 'billing');
+  const complaint = getSection(ctx, source, 'complaint');
+  const nextStep = getSection(ctx, source, 'next_step');
+
+  const isLead = toBoolean(ctx, 'is_lead', source.is_lead, false);
+  let leadStrength = toEnum(ctx, 'lead_strength', source.lead_strength, LEAD_STRENGTHS, null);
+  if (!isLead && leadStrength) {
+    ctx.warn('lead_strength', 'Ignored because is_lead is false', leadStrength);
+    leadStrength = null;
+  }
+
+  let items = order.items;
+  if (items === null || items === undefined) {
+    items = [];
+  } else if (!Array.isArray(items)) {
+    ctx.warn('order.items', 'Expected an array', items);
+    items = typeof items === 'string' && items.trim() ? [items.trim()] : [];
+  }
+
+  const analysis = {
+    call_type: toEnum(ctx, 'call_type', source.call_type, CALL_TYPES, 'unknown'),
+    is_lead: isLead,
+    lead_strength: leadStrength,
+    customer: {
+      name: toStringOrNull(ctx, 'customer.name', customer.name),
+      email: normalizeEmail(ctx, 'customer.email', customer.email),
+      phone_number: normalizePhone(ctx, 'customer.phone_number', customer.phone_number),
+      address: toStringOrNull(ctx, 'customer.address', customer.address),
+    },
+    summary: toStringOrNull(ctx, 'summary', source.summary),
+    intent_summary: toStringOrNull(ctx, 'intent_summary', source.intent_summary),
+    appointment: {
+      requested: toBoolean(ctx, 'appointment.requested', appointment.requested),
+      scheduled: toBoolean(ctx, 'appointment.scheduled', appointment.scheduled),
+      date: normalizeDate(ctx, 'appointment.date', appointment.date),
+      time: normalizeTime(ctx, 'appointment.time', appointment.time),
+      timezone: normalizeTimezone(ctx, 'appointment.timezone', appointment.timezone),
+      appointment_type: toStringOrNull(ctx, 'appointment.appointment_type', appointment.appointment_type),
+    },
+    order: {
+      order_requested: toBoolean(ctx, 'order.order_requested', order.order_requested),
+      order_type: toEnum(ctx, 'order.order_type', order.order_type, ORDER_TYPES, null),
+      items: items,
+      total_price: toStringOrNull(ctx, 'order.total_price', order.total_price),
+      payment_method: toStringOrNull(ctx, 'order.payment_method', order.payment_method),
+      preferred_time: toStringOrNull(ctx, 'order.preferred_time', order.preferred_time),
+    },
+    support: {
+      issue: toStringOrNull(ctx, 'support.issue', support.issue),
+      resolution_provided: toBoolean(ctx, 'support.resolution_provided', support.resolution_provided),
+    },
+    billing: {
+      billing_issue: toStringOrNull(ctx, 'billing.billing_issue', billing.billing_issue),
+      refund_requested: toBoolean(ctx, 'billing.refund_requested', billing.refund_requested),
+    },
+    complaint: {
+      complaint_reason: toStringOrNull(ctx, 'complaint.complaint_reason', complaint.complaint_reason),
+    },
+    next_step: {
+      type: toEnum(ctx, 'next_step.type', nextStep.type, NEXT_STEP_TYPES, 'unknown'),
+      details: toStringOrNull(ctx, 'next_step.details', nextStep.details),
+    },
+    call_outcome: toEnum(ctx, 'call_outcome', source.call_outcome, CALL_OUTCOMES, 'unknown'),
+    sentiment: toEnum(ctx, 'sentiment', source.sentiment, SENTIMENTS, 'unknown'),
+    urgency_level: toEnum(ctx, 'urgency_level', source.urgency_level, URGENCY_LEVELS, 'unknown'),
+    confidence_score: normalizeConfidence(ctx, 'confidence_score', source.confidence_score),
+    schema_version: ANALYSIS_SCHEMA_VERSION,
+  };
+
+  if (customFields.length > 0) {
+    const rawCustomFields = getSection(ctx, source, 'custom_fields');
+    analysis.custom_fields = {};
+    for (const field of customFields) {
+      analysis.custom_fields[field.key] = toCustomFieldValue(ctx, field, rawCustomFields[field.key]);
+    }
+  }
+
+  if (rubric.length > 0) {
+    const rawQa = getSection(ctx, source, 'qa');
+    const results = rubric.map((criterion) => toQaResult(ctx, criterion, rawQa[criterion.key]));
+    analysis.qa = {
+      results,
+      score: scoreQaResults(results),
+    };
+  }
+
+  return { analysis, warnings: ctx.warnings };
+}
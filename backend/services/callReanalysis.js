@@ -0,0 +1,313 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { drainCallAnalysisQueue } from './callAnalysisQueue.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// Batch settings
+const MAX_BATCH_CALLS = Math.max(parseInt(process.env.ANALYSIS_BATCH_MAX_CALLS || '500'), 1);
+const CREDITS_PER_CALL = parseInt(process.env.ANALYSIS_CREDITS_PER_CALL || '1');
+const UPSERT_CHUNK_SIZE = 100;
+
+/**
+ * Keep only the supported filters, with dates as ISO strings
+ */
+function normalizeFilters(filters = {}) {
+  const toIsoOrNull = (value) => {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  };
+
+  return {
+    from: toIsoOrNull(filters.from),
+    to: toIsoOrNull(filters.to),
+    bot_id: filters.bot_id || null,
+    errors_only: filters.errors_only === true,
+  };
+}
+
+/**
+ * Build the calls query for a user's re-analysis filters
+ * Without overwrite, calls that already have a successful analysis are left out
+ */
+function buildCallsQuery(userId, filters, overwrite, columns, options) {
+  let query = supabaseAdmin
+    .from('calls')
+    .select(columns, options)
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .not('transcript', 'is', null)
+    .neq('transcript', '')
+    .not('is_test_call', 'is', true);
+
+  if (filters.from) query = query.gte('started_at', filters.from);
+  if (filters.to) query = query.lte('started_at', filters.to);
+  if (filters.bot_id) query = query.eq('bot_id', filters.bot_id);
+
+  if (filters.errors_only) {
+    query = query.not('analysis->>error', 'is', null);
+  } else if (!overwrite) {
+    query = query.or('analyzed.is.null,analyzed.eq.false,analysis.is.null,analysis->>error.not.is.null');
+  }
+
+  return query;
+}
+
+/**
+ * Count the calls a re-analysis would cover and estimate its credit cost
+ */
+export async function estimateReanalysis(userId, rawFilters, overwrite = false) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const filters = normalizeFilters(rawFilters);
+  const { count, error } = await buildCallsQuery(userId, filters, overwrite, 'id', {
+    count: 'exact',
+    head: true,
+  });
+
+  if (error) throw error;
+
+  const matchedCalls = count || 0;
+  const callCount = Math.min(matchedCalls, MAX_BATCH_CALLS);
+
+  return {
+    matched_calls: matchedCalls,
+    call_count: callCount,
+    max_calls: MAX_BATCH_CALLS,
+    credits_per_call: CREDITS_PER_CALL,
+    estimated_credits: callCount * CREDITS_PER_CALL,
+  };
+}
+
+/**
+ * Queue matching calls for re-analysis as one batch, newest calls first
+ * Calls being analyzed right now, or still waiting for their first analysis, are skipped
+ * so a batch never takes over the job that runs their email automations
+ */
+export async function createReanalysisBatch(userId, rawFilters, overwrite = false) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const filters = normalizeFilters(rawFilters);
+  const { data: calls, error: callsError } = await buildCallsQuery(userId, filters, overwrite, 'id')
+    .order('started_at', { ascending: false, nullsFirst: false })
+    .limit(MAX_BATCH_CALLS);
+
+  if (callsError) throw callsError;
+
+  let callIds = (calls || []).map((call) => call.id);
+
+  if (callIds.length > 0) {
+    // Few jobs run or wait outside a batch, so this stays small however many calls match
+    const { data: busyJobs, error: busyError } = await supabaseAdmin
+      .from('call_analysis_jobs')
+      .select('call_id')
+      .eq('user_id', userId)
+      .or('status.eq.processing,and(status.eq.pending,batch_id.is.null)');
+
+    if (busyError) throw busyError;
+
+    const busyIds = new Set((busyJobs || []).map((job) => job.call_id));
+    callIds = callIds.filter((id) => !busyIds.has(id));
+  }
+
+  if (callIds.length === 0) {
+    return null;
+  }
+
+  const { data: batch, error: batchError } = await supabaseAdmin
+    .from('call_reanalysis_batches')
+    .insert({
+      user_id: userId,
+      filters: filters,
+      overwrite: overwrite,
+      total_calls: callIds.length,
+      estimated_credits: callIds.length * CREDITS_PER_CALL,
+    })
+    .select()
+    .single();
+
+  if (batchError) throw batchError;
+
+  // Reset any existing job for these calls (one job per call) and link it to the batch
+  const now = new Date().toISOString();
+  for (let i = 0; i < callIds.length; i += UPSERT_CHUNK_SIZE) {
+    const jobs = callIds.slice(i, i + UPSERT_CHUNK_SIZE).map((callId) => ({
+      call_id: callId,
+      user_id: userId,
+      batch_id: batch.id,
+      overwrite: overwrite,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+      last_error: null,
+      locked_at: null,
+      completed_at: null,
+    }));
+
+    const { error } = await supabaseAdmin
+      .from('call_analysis_jobs')
+      .upsert(jobs, { onConflict: 'call_id' });
+
+    if (error) throw error;
+  }
+
+  console.log(`Re-analysis batch ${batch.id} queued ${callIds.length} calls for user ${userId}`);
+
+  drainCallAnalysisQueue();
+
+  return withProgress(batch, { pending: callIds.length });
+}
+
+/**
+ * Attach job counts to a batch
+ */
+function withProgress(batch, counts) {
+  const progress = {
+    pending: counts.pending || 0,
+    processing: counts.processing || 0,
+    completed: counts.completed || 0,
+    failed: counts.failed || 0,
+    cancelled: counts.cancelled || 0,
+  };
+
+  return {
+    ...batch,
+    progress: {
+      ...progress,
+      processed: progress.completed + progress.failed + progress.cancelled,
+    },
+  };
+}
+
+/**
+ * Count a batch's jobs by status, marking the batch completed once none are left to run
+ */
+async function loadProgress(batch) {
+  const { data: jobs, error } = await supabaseAdmin
+    .from('call_analysis_jobs')
+    .select('status')
+    .eq('batch_id', batch.id);
+
+  if (error) throw error;
+
+  const counts = {};
+  (jobs || []).forEach((job) => {
+    counts[job.status] = (counts[job.status] || 0) + 1;
+  });
+
+  if (batch.status === 'running' && !counts.pending && !counts.processing) {
+    const { data: completed } = await supabaseAdmin
+      .from('call_reanalysis_batches')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', batch.id)
+      .eq('status', 'running')
+      .select()
+      .maybeSingle();
+
+    if (completed) {
+      batch = completed;
+    }
+  }
+
+  return withProgress(batch, counts);
+}
+
+/**
+ * Get one of the user's batches with its progress
+ */
+export async function getReanalysisBatch(userId, batchId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data: batch, error } = await supabaseAdmin
+    .from('call_reanalysis_batches')
+    .select('*')
+    .eq('id', batchId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!batch) return null;
+
+  return loadProgress(batch);
+}
+
+/**
+ * List the user's most recent batches with their progress
+ */
+export async function listReanalysisBatches(userId, limit = 10) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data: batches, error } = await supabaseAdmin
+    .from('call_reanalysis_batches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return Promise.all((batches || []).map(loadProgress));
+}
+
+/**
+ * Cancel a running batch
+ * Jobs already being analyzed finish, the rest are marked cancelled
+ */
+export async function cancelReanalysisBatch(userId, batchId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const now = new Date().toISOString();
+  const { data: batch, error } = await supabaseAdmin
+    .from('call_reanalysis_batches')
+    .update({
+      status: 'cancelled',
+      cancelled_at: now,
+    })
+    .eq('id', batchId)
+    .eq('user_id', userId)
+    .eq('status', 'running')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!batch) return null;
+
+  const { error: jobsError } = await supabaseAdmin
+    .from('call_analysis_jobs')
+    .update({
+      status: 'cancelled',
+      completed_at: now,
+    })
+    .eq('batch_id', batchId)
+    .eq('status', 'pending');
+
+  if (jobsError) throw jobsError;
+
+  console.log(`Re-analysis batch ${batchId} cancelled`);
+
+  return loadProgress(batch);
+}
@@ -0,0 +1,516 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { withoutTranscripts } from './piiRedaction.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+const RECORDINGS_BUCKET = 'call-recordings';
+const MAX_RECORDING_BYTES = 100 * 1024 * 1024; // bucket file_size_limit
+
+// Worker settings
+const MAX_ATTEMPTS = parseInt(process.env.RECORDING_ARCHIVE_MAX_ATTEMPTS || '5');
+const SIGNED_URL_TTL_SECONDS = parseInt(process.env.RECORDING_SIGNED_URL_TTL_SECONDS || '300');
+const POLL_INTERVAL_MS = parseInt(process.env.RECORDING_WORKER_INTERVAL_MS || '60000');
+const RETENTION_INTERVAL_MS = parseInt(process.env.RECORDING_RETENTION_INTERVAL_MS || '3600000');
+const BATCH_SIZE = 10;
+const RETENTION_BATCH_SIZE = 100;
+
+// Retell call fields that link to the provider's copy of the recording
+const RECORDING_URL_FIELDS = ['recording_url', 'recording_multi_channel_url', 'scrubbed_recording_url', 'scrubbed_recording_multi_channel_url'];
+
+const EXTENSIONS_BY_CONTENT_TYPE = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+};
+
+let archiveTimer = null;
+let retentionTimer = null;
+let draining = false;
+let drainRequested = false;
+let purging = false;
+
+/**
+ * Storage content type and file extension for a downloaded recording
+ * Providers sometimes send application/octet-stream, so fall back to the URL's extension
+ */
+function getRecordingFormat(recordingUrl, contentType) {
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (EXTENSIONS_BY_CONTENT_TYPE[mimeType]) {
+    return { contentType: mimeType === 'audio/wave' ? 'audio/wav' : mimeType, extension: EXTENSIONS_BY_CONTENT_TYPE[mimeType] };
+  }
+
+  let pathname = '';
+  try {
+    pathname = new URL(recordingUrl).pathname.toLowerCase();
+  } catch {
+    // Invalid URLs fail at download time
+  }
+
+  if (pathname.endsWith('.mp3')) return { contentType: 'audio/mpeg', extension: 'mp3' };
+  if (pathname.endsWith('.m4a')) return { contentType: 'audio/mp4', extension: 'm4a' };
+  if (pathname.endsWith('.ogg')) return { contentType: 'audio/ogg', extension: 'ogg' };
+  return { contentType: 'audio/wav', extension: 'wav' };
+}
+
+/**
+ * Copy of a Retell event without its provider recording URLs,
+ * which work for anyone holding them
+ */
+export function withoutRecordingUrls(event) {
+  if (!event || typeof event !== 'object') return event;
+
+  const strip = (data) => {
+    if (!data || typeof data !== 'object') return data;
+    const rest = { ...data };
+    RECORDING_URL_FIELDS.forEach((field) => delete rest[field]);
+    return rest;
+  };
+
+  const stripped = strip(event);
+  if (event.call) {
+    stripped.call = strip(event.call);
+  }
+  return stripped;
+}
+
+/**
+ * Keep a call's provider recording URL where only the backend reads it, until it's archived
+ * With PII redaction on, Retell's scrubbed recording is used when the agent has one
+ */
+export async function saveRecordingSource(call, recording, redactionSettings) {
+  const scrubbedUrl = redactionSettings.enabled ? recording.scrubbed_recording_url : null;
+  const sourceUrl = scrubbedUrl || recording.recording_url;
+  if (!sourceUrl || !supabaseAdmin) return;
+
+  // Already archived (e.g. a replayed event) or purged calls are left alone
+  const { data: pending, error: callError } = await supabaseAdmin
+    .from('calls')
+    .update({ recording_pending: true })
+    .eq('id', call.id)
+    .is('recording_storage_path', null)
+    .is('data_purged_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (callError) throw callError;
+  if (!pending) return;
+
+  const { error } = await supabaseAdmin
+    .from('call_recording_sources')
+    .upsert({
+      call_id: call.id,
+      user_id: call.user_id,
+      source_url: sourceUrl,
+      scrubbed: Boolean(scrubbedUrl),
+    }, { onConflict: 'call_id' });
+
+  if (error) throw error;
+}
+
+/**
+ * Copy a call's recording from the provider into the call-recordings bucket
+ * and forget the provider URL, which expires and works for anyone holding it
+ */
+async function archiveCallRecording(call) {
+  if (!call.source_url) {
+    throw new Error('Recording source URL is missing');
+  }
+
+  const response = await fetch(call.source_url);
+  if (!response.ok) {
+    throw new Error(`Recording download failed with status ${response.status}`);
+  }
+
+  const contentLength = parseInt(response.headers.get('content-length') || '0');
+  if (contentLength > MAX_RECORDING_BYTES) {
+    throw new Error(`Recording is larger than ${MAX_RECORDING_BYTES} bytes`);
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+  if (body.length > MAX_RECORDING_BYTES) {
+    throw new Error(`Recording is larger than ${MAX_RECORDING_BYTES} bytes`);
+  }
+
+  const { contentType, extension } = getRecordingFormat(call.source_url, response.headers.get('content-type'));
+  const storagePath = `${call.user_id}/${call.id}.${extension}`;
+
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from(RECORDINGS_BUCKET)
+    .upload(storagePath, body, { contentType: contentType, upsert: true });
+
+  if (uploadError) throw uploadError;
+
+  // The recording_pending guard skips calls purged by the retention policy in the meantime
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('calls')
+    .update({
+      recording_storage_path: storagePath,
+      recording_pending: false,
+      recording_archive_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', call.id)
+    .eq('recording_pending', true)
+    .is('recording_storage_path', null)
+    .select('id')
+    .maybeSingle();
+
+  if (updateError) throw updateError;
+
+  if (!updated) {
+    await supabaseAdmin.storage.from(RECORDINGS_BUCKET).remove([storagePath]);
+    return;
+  }
+
+  const { error: sourceError } = await supabaseAdmin
+    .from('call_recording_sources')
+    .delete()
+    .eq('call_id', call.id);
+
+  if (sourceError) throw sourceError;
+}
+
+/**
+ * Archive one call's recording and record failed attempts
+ */
+async function processRecording(call) {
+  try {
+    await archiveCallRecording(call);
+    console.log('Call recording archived:', call.id);
+  } catch (error) {
+    const errorMessage = error?.message || String(error);
+    const attempts = (call.recording_archive_attempts || 0) + 1;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error(`Archiving recording of call ${call.id} failed after ${attempts} attempts:`, errorMessage);
+    } else {
+      console.warn(`Archiving recording of call ${call.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, errorMessage);
+    }
+
+    await supabaseAdmin
+      .from('calls')
+      .update({
+        recording_archive_attempts: attempts,
+        recording_archive_error: errorMessage,
+      })
+      .eq('id', call.id);
+  }
+}
+
+/**
+ * Provider recording URLs by call id
+ */
+async function getRecordingSourceUrls(callIds) {
+  if (callIds.length === 0) return new Map();
+
+  const { data, error } = await supabaseAdmin
+    .from('call_recording_sources')
+    .select('call_id, source_url')
+    .in('call_id', callIds);
+
+  if (error) throw error;
+  return new Map((data || []).map((source) => [source.call_id, source.source_url]));
+}
+
+/**
+ * Archive every recording still at the provider, one at a time
+ * Failed copies are retried on later passes until MAX_ATTEMPTS
+ * Concurrent calls are coalesced into one extra pass
+ */
+export async function drainRecordingArchive() {
+  if (!supabaseAdmin) return;
+
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+
+  draining = true;
+  try {
+    do {
+      drainRequested = false;
+
+      const { data: pendingCalls, error } = await supabaseAdmin
+        .from('calls')
+        .select('id, user_id, recording_archive_attempts')
+        .eq('recording_pending', true)
+        .is('recording_storage_path', null)
+        .lt('recording_archive_attempts', MAX_ATTEMPTS)
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) throw error;
+
+      const sourceUrls = await getRecordingSourceUrls((pendingCalls || []).map((call) => call.id));
+
+      for (const call of pendingCalls || []) {
+        await processRecording({ ...call, source_url: sourceUrls.get(call.id) || null });
+      }
+
+      // A full batch means there may be more recordings waiting
+      if (pendingCalls && pendingCalls.length === BATCH_SIZE) {
+        drainRequested = true;
+      }
+    } while (drainRequested);
+  } catch (error) {
+    console.error('Error draining call recording archive:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Playback URL for a call's recording: a short-lived signed URL once archived,
+ * the provider URL until then
+ * Returns null if the call doesn't belong to the user or has no recording
+ */
+export async function getCallRecordingUrl(userId, callId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data: call, error } = await supabaseAdmin
+    .from('calls')
+    .select('id, recording_pending, recording_storage_path')
+    .eq('id', callId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!call) return null;
+
+  if (call.recording_storage_path) {
+    const { data, error: signError } = await supabaseAdmin.storage
+      .from(RECORDINGS_BUCKET)
+      .createSignedUrl(call.recording_storage_path, SIGNED_URL_TTL_SECONDS);
+
+    if (signError) throw signError;
+
+    return {
+      url: data.signedUrl,
+      expires_at: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString(),
+    };
+  }
+
+  if (call.recording_pending) {
+    const sourceUrl = (await getRecordingSourceUrls([call.id])).get(call.id);
+    if (sourceUrl) {
+      return {
+        url: sourceUrl,
+        expires_at: null,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Copy of a stored Retell event without its transcripts or recording URLs
+ */
+function withoutCallData(event) {
+  return withoutRecordingUrls(withoutTranscripts(event));
+}
+
+/**
+ * Delete recordings and transcripts older than the account's retention period
+ * and log each deletion to activity_logs
+ * Returns the number of calls purged
+ */
+async function purgeExpiredCallData(profile) {
+  const retentionDays = profile.recording_retention_days;
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: expiredCalls, error } = await supabaseAdmin
+    .from('calls')
+    .select('id, retell_call_id, recording_pending, recording_storage_path, metadata')
+    .eq('user_id', profile.user_id)
+    .lt('created_at', cutoff)
+    .is('data_purged_at', null)
+    .or('recording_pending.eq.true,recording_storage_path.not.is.null,transcript.not.is.null')
+    .order('created_at', { ascending: true })
+    .limit(RETENTION_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!expiredCalls || expiredCalls.length === 0) return 0;
+
+  const storagePaths = expiredCalls
+    .map((call) => call.recording_storage_path)
+    .filter(Boolean);
+
+  if (storagePaths.length > 0) {
+    const { error: removeError } = await supabaseAdmin.storage
+      .from(RECORDINGS_BUCKET)
+      .remove(storagePaths);
+
+    if (removeError) throw removeError;
+  }
+
+  const callIds = expiredCalls.map((call) => call.id);
+
+  // Copies outside the calls row go first: once data_purged_at is set the call isn't retried
+  const { error: sourceError } = await supabaseAdmin
+    .from('call_recording_sources')
+    .delete()
+    .in('call_id', callIds);
+
+  if (sourceError) throw sourceError;
+
+  // Leads keep a copy of their latest call's transcript
+  const { error: leadError } = await supabaseAdmin
+    .from('page_leads')
+    .update({ transcript: null })
+    .in('call_id', callIds);
+
+  if (leadError) throw leadError;
+
+  // The first Retell event of a call is stored as its metadata
+  for (const call of expiredCalls) {
+    if (!call.metadata) continue;
+
+    const { error: metadataError } = await supabaseAdmin
+      .from('calls')
+      .update({ metadata: withoutCallData(call.metadata) })
+      .eq('id', call.id);
+
+    if (metadataError) throw metadataError;
+  }
+
+  // Webhook deliveries still in the inbox, e.g. of calls that were unrouted for a while
+  const retellCallIds = expiredCalls.map((call) => call.retell_call_id).filter(Boolean);
+  if (retellCallIds.length > 0) {
+    const { error: inboxError } = await supabaseAdmin
+      .from('retell_webhook_events')
+      .update({ payload: null })
+      .in('call_id', retellCallIds);
+
+    if (inboxError) throw inboxError;
+  }
+
+  const purgedAt = new Date().toISOString();
+
+  // webhook_response holds copies of the transcript
+  const { error: updateError } = await supabaseAdmin
+    .from('calls')
+    .update({
+      recording_pending: false,
+      recording_storage_path: null,
+      transcript: null,
+      transcript_object: [],
+      webhook_response: null,
+      data_purged_at: purgedAt,
+      updated_at: purgedAt,
+    })
+    .in('id', callIds);
+
+  if (updateError) throw updateError;
+
+  // Originals of redacted transcripts go too
+  const { error: unredactedError } = await supabaseAdmin
+    .from('call_unredacted_transcripts')
+    .delete()
+    .in('call_id', callIds);
+
+  if (unredactedError) throw unredactedError;
+
+  // QA evidence quotes the transcript
+  const { error: qaError } = await supabaseAdmin
+    .from('call_qa_results')
+    .update({ evidence: null })
+    .in('call_id', callIds);
+
+  if (qaError) throw qaError;
+
+  const { error: logError } = await supabaseAdmin
+    .from('activity_logs')
+    .insert(expiredCalls.map((call) => ({
+      user_id: profile.user_id,
+      activity_type: 'call_data_deleted',
+      entity_type: 'call',
+      entity_id: call.id,
+      description: `Recording and transcript deleted after ${retentionDays} days (retention policy)`,
+      metadata: {
+        call_id: call.id,
+        retention_days: retentionDays,
+        recording_deleted: Boolean(call.recording_storage_path || call.recording_pending),
+      },
+    })));
+
+  if (logError) {
+    console.error('Error logging call data deletion:', logError);
+  }
+
+  return expiredCalls.length;
+}
+
+/**
+ * Apply every account's retention policy
+ */
+export async function applyRetentionPolicies() {
+  if (!supabaseAdmin || purging) return;
+
+  purging = true;
+  try {
+    const { data: profiles, error } = await supabaseAdmin
+      .from('profiles')
+      .select('user_id, recording_retention_days')
+      .not('recording_retention_days', 'is', null);
+
+    if (error) throw error;
+
+    for (const profile of profiles || []) {
+      try {
+        let purged = 0;
+        let batchCount;
+        do {
+          batchCount = await purgeExpiredCallData(profile);
+          purged += batchCount;
+        } while (batchCount === RETENTION_BATCH_SIZE);
+
+        if (purged > 0) {
+          console.log(`Retention policy deleted recordings and transcripts of ${purged} calls for user ${profile.user_id}`);
+        }
+      } catch (error) {
+        console.error(`Error applying retention policy for user ${profile.user_id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error applying retention policies:', error);
+  } finally {
+    purging = false;
+  }
+}
+
+/**
+ * Start archiving recordings and applying retention policies
+ */
+export function startCallRecordingWorker() {
+  if (!supabaseAdmin) {
+    console.warn('Supabase admin not configured, call recording worker not started');
+    return;
+  }
+
+  if (archiveTimer) return;
+
+  archiveTimer = setInterval(drainRecordingArchive, POLL_INTERVAL_MS);
+  retentionTimer = setInterval(applyRetentionPolicies, RETENTION_INTERVAL_MS);
+  drainRecordingArchive();
+  applyRetentionPolicies();
+
+  console.log(`Call recording worker started (archive every ${POLL_INTERVAL_MS}ms, retention every ${RETENTION_INTERVAL_MS}ms)`);
+}
@@ -0,0 +1,188 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 200;
+
+// Statuses counted for the Calls page summary cards
+const COUNTED_STATUSES = ['pending', 'in_progress', 'completed', 'failed', 'not_connected'];
+
+// Queries made only of phone characters search phone_number instead of full text
+const PHONE_QUERY_PATTERN = /^[\d\s()+.-]+$/;
+
+const TIMESTAMP_PATTERN = /^[\d\-T:.+ Z]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse call list filters from query string parameters
+ */
+export function parseCallFilters(params = {}) {
+  const toIsoOrNull = (value) => {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  };
+
+  const toIntOrNull = (value) => {
+    const parsed = parseInt(value);
+    return isNaN(parsed) || parsed < 0 ? null : parsed;
+  };
+
+  const toStringOrNull = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  return {
+    q: toStringOrNull(params.q)?.substring(0, MAX_QUERY_LENGTH) || null,
+    status: toStringOrNull(params.status),
+    bot_id: toStringOrNull(params.bot_id),
+    from: toIsoOrNull(params.from),
+    to: toIsoOrNull(params.to),
+    min_duration: toIntOrNull(params.min_duration),
+    max_duration: toIntOrNull(params.max_duration),
+    sentiment: toStringOrNull(params.sentiment),
+    call_type: toStringOrNull(params.call_type),
+    lead: params.lead === 'yes' || params.lead === 'no' ? params.lead : null,
+  };
+}
+
+/**
+ * Apply filters to a calls query; the status filter can be left out for summary counts
+ */
+function applyCallFilters(query, userId, filters, { includeStatus = true } = {}) {
+  query = query.eq('user_id', userId);
+
+  if (filters.q) {
+    if (PHONE_QUERY_PATTERN.test(filters.q) && /\d/.test(filters.q)) {
+      query = query.ilike('phone_number', `%${filters.q.replace(/\D/g, '')}%`);
+    } else {
+      query = query.textSearch('search_vector', filters.q, { type: 'websearch', config: 'english' });
+    }
+  }
+
+  if (includeStatus && filters.status) query = query.eq('status', filters.status);
+  if (filters.bot_id) query = query.eq('bot_id', filters.bot_id);
+  if (filters.from) query = query.gte('started_at', filters.from);
+  if (filters.to) query = query.lte('started_at', filters.to);
+  if (filters.min_duration !== null) query = query.gte('duration_seconds', filters.min_duration);
+  if (filters.max_duration !== null) query = query.lte('duration_seconds', filters.max_duration);
+  if (filters.sentiment) query = query.eq('sentiment', filters.sentiment);
+  if (filters.call_type) query = query.eq('call_type', filters.call_type);
+
+  // Leads are flagged by analysis (is_lead) or by the agent (Lead_status = "Yes")
+  if (filters.lead === 'yes') {
+    query = query.or('is_lead.eq.true,Lead_status.eq.Yes,metadata->>Lead_status.eq.Yes');
+  } else if (filters.lead === 'no') {
+    query = query
+      .not('is_lead', 'is', true)
+      .or('Lead_status.is.null,Lead_status.neq.Yes')
+      .or('metadata->>Lead_status.is.null,metadata->>Lead_status.neq.Yes');
+  }
+
+  return query;
+}
+
+/**
+ * Cursors point at the last call of a page: newest first by created_at, then id
+ */
+function encodeCursor(call) {
+  return Buffer.from(JSON.stringify({ c: call.created_at, i: call.id })).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const { c, i } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    // Both values end up inside a PostgREST filter, so only accept timestamp and uuid characters
+    if (typeof c !== 'string' || !TIMESTAMP_PATTERN.test(c) || isNaN(new Date(c).getTime())) return null;
+    if (typeof i !== 'string' || !UUID_PATTERN.test(i)) return null;
+    return { createdAt: c, id: i };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Count the user's calls per status for the current filters (ignoring the status filter)
+ */
+async function countCallsByStatus(userId, filters) {
+  const counts = await Promise.all(COUNTED_STATUSES.map(async (status) => {
+    const { count, error } = await applyCallFilters(
+      supabaseAdmin.from('calls').select('id', { count: 'exact', head: true }),
+      userId,
+      filters,
+      { includeStatus: false },
+    ).eq('status', status);
+
+    if (error) throw error;
+    return [status, count || 0];
+  }));
+
+  return Object.fromEntries(counts);
+}
+
+/**
+ * One page of a user's calls, newest first
+ * The first page (no cursor) also returns the total and per-status counts
+ */
+export async function searchCalls(userId, filters, { cursor = null, limit = DEFAULT_PAGE_SIZE } = {}) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const pageSize = Math.min(Math.max(parseInt(limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const isFirstPage = !cursor;
+
+  let query = applyCallFilters(
+    supabaseAdmin.from('calls').select('*', isFirstPage ? { count: 'exact' } : undefined),
+    userId,
+    filters,
+  );
+
+  if (cursor) {
+    const position = decodeCursor(cursor);
+    if (!position) {
+      const error = new Error('Invalid cursor');
+      error.status = 400;
+      throw error;
+    }
+
+    query = query.or(
+      `created_at.lt."${position.createdAt}",and(created_at.eq."${position.createdAt}",id.lt.${position.id})`,
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const { data, count, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize + 1);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const calls = rows.slice(0, pageSize);
+  const hasMore = rows.length > pageSize;
+
+  const result = {
+    calls: calls,
+    next_cursor: hasMore ? encodeCursor(calls[calls.length - 1]) : null,
+  };
+
+  if (isFirstPage) {
+    result.total = count ?? calls.length;
+    result.status_counts = await countCallsByStatus(userId, filters);
+  }
+
+  return result;
+}
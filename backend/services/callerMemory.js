@@ -0,0 +1,223 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { findExistingLead, toE164 } from './leadMatching.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// Dynamic variables a bot can pass to its agent; is_returning_caller is always sent
+export const CALLER_MEMORY_VARIABLES = [
+  'caller_name',
+  'caller_last_intent',
+  'caller_last_call_summary',
+  'caller_last_call_date',
+  'caller_open_appointment',
+  'caller_open_order',
+  'caller_call_count',
+  'caller_recent_calls',
+];
+
+const DEFAULT_RECENT_CALLS = 3;
+const MAX_RECENT_CALLS = 10;
+const DEFAULT_LOOKBACK_DAYS = 365;
+const MAX_LOOKBACK_DAYS = 730;
+
+// Summaries are cut so the agent prompt stays short
+const MAX_SUMMARY_LENGTH = 300;
+
+const LEAD_COLUMNS = 'id, name, intent_summary, call_summary, call_type, appointment_date, appointment_time, appointment_timezone, appointment_type, order_items, order_total, order_type, last_call_at';
+
+/**
+ * Caller memory settings of a bot with defaults applied; null or invalid settings mean off
+ */
+export function normalizeCallerMemorySettings(raw) {
+  const settings = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+
+  const variables = Array.isArray(settings.variables)
+    ? CALLER_MEMORY_VARIABLES.filter((key) => settings.variables.includes(key))
+    : CALLER_MEMORY_VARIABLES;
+
+  const clamp = (value, fallback, max) => {
+    const parsed = parseInt(value);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+  };
+
+  return {
+    enabled: settings.enabled === true,
+    variables,
+    recent_calls: clamp(settings.recent_calls, DEFAULT_RECENT_CALLS, MAX_RECENT_CALLS),
+    lookback_days: clamp(settings.lookback_days, DEFAULT_LOOKBACK_DAYS, MAX_LOOKBACK_DAYS),
+  };
+}
+
+function truncate(text, maxLength = MAX_SUMMARY_LENGTH) {
+  if (!text) return '';
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+/**
+ * "2026-03-05" in the account's timezone
+ */
+function toLocalDate(date, timezone) {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * "March 5, 2026" in the account's timezone
+ */
+function toSpokenDate(value, timezone) {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: timezone, dateStyle: 'long' }).format(date);
+  } catch {
+    return date.toDateString();
+  }
+}
+
+/**
+ * Appointment the caller still has coming up, e.g. "2026-03-05 at 14:00 America/New_York (consultation)"
+ */
+function describeOpenAppointment(lead, today) {
+  if (!lead?.appointment_date || lead.appointment_date < today) return '';
+
+  let text = lead.appointment_date;
+  if (lead.appointment_time) text += ` at ${lead.appointment_time}`;
+  if (lead.appointment_timezone) text += ` ${lead.appointment_timezone}`;
+  if (lead.appointment_type) text += ` (${lead.appointment_type})`;
+  return text;
+}
+
+/**
+ * Order from the caller's last call, e.g. "2 x Large pizza, Soda; total $25; delivery"
+ */
+function describeOrder(lead) {
+  if (!lead || lead.call_type !== 'order' || !Array.isArray(lead.order_items) || lead.order_items.length === 0) {
+    return '';
+  }
+
+  const items = lead.order_items
+    .map((item) => {
+      if (typeof item === 'string') return item;
+      if (!item || typeof item !== 'object') return null;
+      const name = item.name || item.item || item.product;
+      if (!name) return null;
+      return item.quantity ? `${item.quantity} x ${name}` : name;
+    })
+    .filter(Boolean);
+
+  if (items.length === 0) return '';
+
+  const parts = [items.join(', ')];
+  if (lead.order_total) parts.push(`total ${lead.order_total}`);
+  if (lead.order_type) parts.push(lead.order_type.replace(/_/g, ' '));
+  return parts.join('; ');
+}
+
+/**
+ * Most recent analyzed calls with this caller, newest first, and how many there are in total
+ * Calls linked to the caller's lead are used when there is one, so merged leads keep their history
+ */
+async function getPreviousCalls(userId, lead, phoneNumbers, settings) {
+  const since = new Date(Date.now() - settings.lookback_days * 24 * 60 * 60 * 1000).toISOString();
+
+  let query = supabaseAdmin
+    .from('calls')
+    .select('id, contact_name, intent_summary, call_summary, created_at', { count: 'exact' })
+    .eq('user_id', userId)
+    .eq('analyzed', true)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(settings.recent_calls);
+
+  if (lead) {
+    const { data: links, error } = await supabaseAdmin
+      .from('lead_calls')
+      .select('call_id')
+      .eq('lead_id', lead.id);
+
+    if (error) throw error;
+    if (!links || links.length === 0) return { calls: [], count: 0 };
+    query = query.in('id', links.map((link) => link.call_id));
+  } else {
+    query = query.in('phone_number', phoneNumbers);
+  }
+
+  const { data, count, error } = await query;
+  if (error) throw error;
+  return { calls: data || [], count: count || 0 };
+}
+
+/**
+ * Dynamic variables describing a caller's previous interactions with a bot's account
+ * Returns { enabled: false } when the bot has caller memory turned off
+ */
+export async function getCallerMemory(bot, fromNumber) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data: botSettings, error: botError } = await supabaseAdmin
+    .from('bots')
+    .select('caller_memory_settings')
+    .eq('id', bot.id)
+    .single();
+
+  if (botError) throw botError;
+
+  const settings = normalizeCallerMemorySettings(botSettings.caller_memory_settings);
+  if (!settings.enabled) {
+    return { enabled: false, variables: {}, leadId: null };
+  }
+
+  const phoneE164 = toE164(fromNumber);
+  const phoneNumbers = [...new Set([fromNumber, phoneE164].filter(Boolean))];
+
+  const [lead, profileResponse] = await Promise.all([
+    phoneNumbers.length > 0
+      ? findExistingLead(bot.user_id, { phoneE164, phoneNumber: fromNumber }, LEAD_COLUMNS)
+      : null,
+    supabaseAdmin.from('profiles').select('timezone').eq('user_id', bot.user_id).maybeSingle(),
+  ]);
+
+  const timezone = profileResponse.data?.timezone || 'UTC';
+  const { calls, count } = phoneNumbers.length > 0
+    ? await getPreviousCalls(bot.user_id, lead, phoneNumbers, settings)
+    : { calls: [], count: 0 };
+  const lastCall = calls[0] || null;
+
+  const values = {
+    caller_name: lead?.name || calls.find((call) => call.contact_name)?.contact_name || '',
+    caller_last_intent: truncate(lastCall?.intent_summary || lead?.intent_summary || ''),
+    caller_last_call_summary: truncate(lastCall?.call_summary || lead?.call_summary || ''),
+    caller_last_call_date: lastCall ? toSpokenDate(lastCall.created_at, timezone) : '',
+    caller_open_appointment: describeOpenAppointment(lead, toLocalDate(new Date(), timezone)),
+    caller_open_order: describeOrder(lead),
+    caller_call_count: String(count),
+    caller_recent_calls: calls
+      .filter((call) => call.call_summary)
+      .map((call) => `${toSpokenDate(call.created_at, timezone)}: ${truncate(call.call_summary, 200)}`)
+      .join(' | '),
+  };
+
+  // Retell only accepts string values; unused variables are still sent so prompts never show raw {{placeholders}}
+  const variables = { is_returning_caller: lead || calls.length > 0 ? 'true' : 'false' };
+  for (const key of CALLER_MEMORY_VARIABLES) {
+    variables[key] = settings.variables.includes(key) ? values[key] : '';
+  }
+
+  return { enabled: true, variables, leadId: lead?.id || null };
+}
@@ -1,13 +1,8 @@
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
+import { createChatCompletion, assertLlmConfigured, LLM_FEATURES } from './llmProvider.js';
 
 dotenv.config();
 
-const openaiApiKey = process.env.OPENAI_API_KEY?.trim();
-const openai = new OpenAI({
-  apiKey: openaiApiKey,
-});
-
 // Platform information for the chatbot context
 const PLATFORM_INFO = `You are a helpful AI assistant for Inbound Genie, an AI-powered voice automation platform. Your purpose is to answer questions about the platform's features, services, and how to use it. You should ONLY provide information about the platform and NOT answer technical, backend, or programming-related questions.
 
@@ -73,16 +68,14 @@ Inbound Genie is an AI-powered voice automation platform designed to help busine
  * Send a message to the chatbot
  */
 export async function sendChatbotMessage(message, conversationHistory = []) {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
+  assertLlmConfigured(LLM_FEATURES.CHATBOT);
 
   if (!message || message.trim().length === 0) {
     throw new Error('Message is required');
   }
 
   try {
-    // Build messages array for OpenAI
+    // Build messages array for the chat model
     const messages = [
       {
         role: 'system',
@@ -95,19 +88,18 @@ export async function sendChatbotMessage(message, conversationHistory = []) {
       },
     ];
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
+    const completion = await createChatCompletion(LLM_FEATURES.CHATBOT, {
       messages: messages,
       temperature: 0.7,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const botResponse = completion.choices[0]?.message?.content ||
+    const botResponse = completion.content ||
       "I'm sorry, I couldn't generate a response. Please try again.";
 
     return botResponse;
   } catch (error) {
-    console.error('OpenAI Chatbot Error:', error);
+    console.error('Chatbot Error:', error);
     throw new Error(error.message || 'Failed to send chatbot message');
   }
 }
@@ -0,0 +1,450 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const MAX_HOURLY_RANGE_DAYS = 14;
+const PAGE_SIZE = 1000;
+const MAX_CALLS = parseInt(process.env.ANALYTICS_MAX_CALLS || '50000');
+
+export const BUCKETS = ['hour', 'day', 'week', 'month'];
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const LEAD_STRENGTHS = ['hot', 'warm', 'cold'];
+const SENTIMENTS = ['positive', 'neutral', 'negative', 'unknown'];
+
+// Agents without availability settings count calls outside Mon-Fri 09:00-17:00 as after-hours
+const DEFAULT_UNAVAILABILITY = {
+  unavailable_start_time: '17:00',
+  unavailable_end_time: '09:00',
+  unavailable_days: ['Saturday', 'Sunday'],
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CALL_COLUMNS = 'id, bot_id, agent_number, started_at, created_at, duration_seconds, is_lead, "Lead_status", lead_strength, sentiment, call_type, call_outcome';
+
+/**
+ * Error for invalid query parameters, answered with 400
+ */
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+/**
+ * Parse analytics query string parameters
+ * Defaults to the last DEFAULT_RANGE_DAYS days, bucketed by a size that suits the range
+ */
+export function parseAnalyticsParams(params = {}) {
+  const toDateOrNull = (value, name) => {
+    if (!value) return null;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw badRequest(`Invalid ${name} date`);
+    return date;
+  };
+
+  const to = toDateOrNull(params.to, 'to') || new Date();
+  const from = toDateOrNull(params.from, 'from') || new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  const rangeDays = (to.getTime() - from.getTime()) / DAY_MS;
+
+  if (rangeDays <= 0) throw badRequest('from must be before to');
+  if (rangeDays > MAX_RANGE_DAYS) throw badRequest(`Date range can be at most ${MAX_RANGE_DAYS} days`);
+
+  let bucket = params.bucket || null;
+  if (bucket && !BUCKETS.includes(bucket)) {
+    throw badRequest(`bucket must be one of: ${BUCKETS.join(', ')}`);
+  }
+  if (bucket === 'hour' && rangeDays > MAX_HOURLY_RANGE_DAYS) {
+    throw badRequest(`Hourly buckets are limited to ${MAX_HOURLY_RANGE_DAYS} days`);
+  }
+  if (!bucket) {
+    if (rangeDays <= 2) bucket = 'hour';
+    else if (rangeDays <= 92) bucket = 'day';
+    else bucket = 'week';
+  }
+
+  if (params.bot_id && !UUID_PATTERN.test(params.bot_id)) {
+    throw badRequest('Invalid bot_id');
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    bucket: bucket,
+    bot_id: params.bot_id || null,
+    agent_number: typeof params.agent_number === 'string' && params.agent_number.trim() ? params.agent_number.trim() : null,
+    compare: params.compare !== 'false',
+  };
+}
+
+const formatters = new Map();
+
+/**
+ * Local date parts of a timestamp in a timezone
+ */
+function getLocalParts(date, timezone) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'long',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday), // 0 = Monday
+    weekdayName: parts.weekday,
+  };
+}
+
+/**
+ * A valid IANA timezone, or UTC
+ */
+function resolveTimezone(timezone) {
+  if (!timezone) return 'UTC';
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Series key of a timestamp: local hour, day, Monday of the week, or month
+ */
+function getBucketKey(parts, bucket) {
+  if (bucket === 'hour') return `${parts.date}T${String(parts.hour).padStart(2, '0')}:00`;
+  if (bucket === 'month') return parts.date.substring(0, 7);
+  if (bucket === 'week') {
+    const [year, month, day] = parts.date.split('-').map(Number);
+    const monday = new Date(Date.UTC(year, month - 1, day - parts.weekday));
+    return monday.toISOString().substring(0, 10);
+  }
+  return parts.date;
+}
+
+/**
+ * Every bucket key in a range, in order, so empty buckets show up as zeros
+ */
+function getBucketKeys(from, to, bucket, timezone) {
+  const keys = [];
+  const seen = new Set();
+  const end = new Date(to).getTime();
+
+  // Stepping hourly catches every local hour, day, week and month, DST included
+  for (let time = new Date(from).getTime(); time <= end; time += 60 * 60 * 1000) {
+    const key = getBucketKey(getLocalParts(new Date(time), timezone), bucket);
+    if (!seen.has(key)) {
+      seen.add(key);
+      keys.push(key);
+    }
+  }
+
+  const lastKey = getBucketKey(getLocalParts(new Date(end), timezone), bucket);
+  if (!seen.has(lastKey)) keys.push(lastKey);
+
+  return keys;
+}
+
+/**
+ * "HH:MM" as minutes after midnight
+ */
+function toMinutes(time) {
+  const [hours, minutes] = String(time || '').split(':').map(Number);
+  if (isNaN(hours)) return null;
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Whether a call started while its agent was unavailable
+ * The unavailable window may wrap past midnight, e.g. 20:00-08:00
+ */
+function isAfterHours(date, schedule) {
+  const parts = getLocalParts(date, schedule.timezone);
+  if ((schedule.unavailable_days || []).includes(parts.weekdayName)) return true;
+
+  const start = toMinutes(schedule.unavailable_start_time);
+  const end = toMinutes(schedule.unavailable_end_time);
+  if (start === null || end === null || start === end) return false;
+
+  const current = parts.hour * 60 + parts.minute;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * After-hours schedule of each of the user's bots
+ */
+function buildSchedules(bots, accountTimezone) {
+  const schedules = new Map();
+
+  bots.forEach((bot) => {
+    const settings = bot.bot_config?.unavailability_settings;
+    schedules.set(bot.id, settings?.enabled
+      ? { ...settings, timezone: resolveTimezone(settings.timezone || accountTimezone) }
+      : { ...DEFAULT_UNAVAILABILITY, timezone: accountTimezone });
+  });
+
+  return schedules;
+}
+
+function createTotals() {
+  return {
+    calls: 0,
+    duration_seconds: 0,
+    leads: 0,
+    lead_strength: { hot: 0, warm: 0, cold: 0 },
+    sentiment: Object.fromEntries(SENTIMENTS.map((sentiment) => [sentiment, 0])),
+    call_type: {},
+    call_outcome: {},
+    transfers: 0,
+    after_hours: 0,
+  };
+}
+
+function addCall(totals, call) {
+  totals.calls++;
+  totals.duration_seconds += call.duration_seconds || 0;
+
+  if (call.is_lead || call.Lead_status === 'Yes') totals.leads++;
+  if (LEAD_STRENGTHS.includes(call.lead_strength)) totals.lead_strength[call.lead_strength]++;
+
+  const sentiment = SENTIMENTS.includes(call.sentiment) ? call.sentiment : 'unknown';
+  totals.sentiment[sentiment]++;
+
+  const callType = call.call_type || 'unknown';
+  totals.call_type[callType] = (totals.call_type[callType] || 0) + 1;
+
+  const outcome = call.call_outcome || 'unknown';
+  totals.call_outcome[outcome] = (totals.call_outcome[outcome] || 0) + 1;
+
+  if (call.transferred) totals.transfers++;
+  if (call.after_hours) totals.after_hours++;
+}
+
+/**
+ * Totals with minutes and rates (percentages, one decimal) filled in
+ */
+function finalizeTotals(totals) {
+  const rate = (count) => (totals.calls > 0 ? Math.round((count / totals.calls) * 1000) / 10 : 0);
+
+  return {
+    ...totals,
+    minutes: Math.round((totals.duration_seconds / 60) * 10) / 10,
+    avg_duration_seconds: totals.calls > 0 ? Math.round(totals.duration_seconds / totals.calls) : 0,
+    lead_rate: rate(totals.leads),
+    transfer_rate: rate(totals.transfers),
+    after_hours_rate: rate(totals.after_hours),
+  };
+}
+
+/**
+ * Calls in a date range, oldest first, up to MAX_CALLS
+ */
+async function fetchCalls(userId, filters, from, to) {
+  const calls = [];
+
+  for (let offset = 0; offset < MAX_CALLS; offset += PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('calls')
+      .select(CALL_COLUMNS)
+      .eq('user_id', userId)
+      .gte('created_at', from)
+      .lte('created_at', to);
+
+    if (filters.bot_id) query = query.eq('bot_id', filters.bot_id);
+    if (filters.agent_number) query = query.eq('agent_number', filters.agent_number);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    calls.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return { calls, truncated: false };
+    }
+  }
+
+  return { calls, truncated: true };
+}
+
+/**
+ * Ids of calls in a date range that were transferred
+ */
+async function fetchTransferredCallIds(userId, from, to) {
+  const callIds = new Set();
+
+  for (let offset = 0; offset < MAX_CALLS; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('call_analytics')
+      .select('call_id, calls!inner(created_at)')
+      .eq('user_id', userId)
+      .eq('transfer_occurred', true)
+      .gte('calls.created_at', from)
+      .lte('calls.created_at', to)
+      .order('call_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach((row) => callIds.add(row.call_id));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return callIds;
+}
+
+/**
+ * Calls of a range, each flagged with transferred and after_hours
+ */
+async function loadPeriod(userId, filters, from, to, schedules, accountTimezone) {
+  const [{ calls, truncated }, transferredIds] = await Promise.all([
+    fetchCalls(userId, filters, from, to),
+    fetchTransferredCallIds(userId, from, to),
+  ]);
+
+  const defaultSchedule = { ...DEFAULT_UNAVAILABILITY, timezone: accountTimezone };
+
+  return {
+    truncated,
+    calls: calls.map((call) => {
+      const startedAt = new Date(call.started_at || call.created_at);
+      return {
+        ...call,
+        started: startedAt,
+        transferred: transferredIds.has(call.id),
+        after_hours: isAfterHours(startedAt, schedules.get(call.bot_id) || defaultSchedule),
+      };
+    }),
+  };
+}
+
+/**
+ * Conversation analytics for a user's calls: totals, a time series, breakdowns by
+ * bot and by agent number, an hour-of-day x day-of-week heatmap and, optionally,
+ * totals for the preceding period of the same length
+ * Times are bucketed in the account's timezone
+ */
+export async function getConversationAnalytics(userId, filters) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const [{ data: profile, error: profileError }, { data: bots, error: botsError }] = await Promise.all([
+    supabaseAdmin.from('profiles').select('timezone').eq('user_id', userId).maybeSingle(),
+    supabaseAdmin.from('bots').select('id, name, agent_number, bot_config').eq('user_id', userId),
+  ]);
+
+  if (profileError) throw profileError;
+  if (botsError) throw botsError;
+
+  const timezone = resolveTimezone(profile?.timezone);
+  const schedules = buildSchedules(bots || [], timezone);
+  const botNames = new Map((bots || []).map((bot) => [bot.id, bot.name]));
+
+  const current = await loadPeriod(userId, filters, filters.from, filters.to, schedules, timezone);
+
+  const totals = createTotals();
+  const series = new Map(getBucketKeys(filters.from, filters.to, filters.bucket, timezone).map((key) => [key, createTotals()]));
+  const byBot = new Map();
+  const byNumber = new Map();
+  const heatmap = WEEKDAYS.map(() => Array(24).fill(0));
+
+  current.calls.forEach((call) => {
+    const parts = getLocalParts(call.started, timezone);
+    const bucketKey = getBucketKey(parts, filters.bucket);
+
+    addCall(totals, call);
+
+    if (!series.has(bucketKey)) series.set(bucketKey, createTotals());
+    addCall(series.get(bucketKey), call);
+
+    const botKey = call.bot_id || 'unknown';
+    if (!byBot.has(botKey)) byBot.set(botKey, createTotals());
+    addCall(byBot.get(botKey), call);
+
+    const numberKey = call.agent_number || 'unknown';
+    if (!byNumber.has(numberKey)) byNumber.set(numberKey, createTotals());
+    addCall(byNumber.get(numberKey), call);
+
+    heatmap[parts.weekday][parts.hour]++;
+  });
+
+  const result = {
+    range: {
+      from: filters.from,
+      to: filters.to,
+      bucket: filters.bucket,
+      timezone: timezone,
+    },
+    totals: finalizeTotals(totals),
+    series: Array.from(series.entries()).map(([bucket, bucketTotals]) => ({
+      bucket: bucket,
+      ...finalizeTotals(bucketTotals),
+    })),
+    by_bot: Array.from(byBot.entries())
+      .map(([botId, botTotals]) => ({
+        bot_id: botId === 'unknown' ? null : botId,
+        bot_name: botNames.get(botId) || (botId === 'unknown' ? 'No agent' : 'Deleted agent'),
+        ...finalizeTotals(botTotals),
+      }))
+      .sort((a, b) => b.calls - a.calls),
+    by_number: Array.from(byNumber.entries())
+      .map(([number, numberTotals]) => ({
+        agent_number: number === 'unknown' ? null : number,
+        ...finalizeTotals(numberTotals),
+      }))
+      .sort((a, b) => b.calls - a.calls),
+    heatmap: heatmap,
+    truncated: current.truncated,
+  };
+
+  if (filters.compare) {
+    const length = new Date(filters.to).getTime() - new Date(filters.from).getTime();
+    const previousTo = new Date(new Date(filters.from).getTime() - 1).toISOString();
+    const previousFrom = new Date(new Date(filters.from).getTime() - length).toISOString();
+    const previous = await loadPeriod(userId, filters, previousFrom, previousTo, schedules, timezone);
+
+    const previousTotals = createTotals();
+    previous.calls.forEach((call) => addCall(previousTotals, call));
+
+    result.previous = {
+      from: previousFrom,
+      to: previousTo,
+      totals: finalizeTotals(previousTotals),
+    };
+  }
+
+  return result;
+}
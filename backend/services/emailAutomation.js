@@ -0,0 +1,514 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { findExistingLead, toE164 } from './leadMatching.js';
+import { getSenderMailbox, getSmtpErrorMessage, isTransientSmtpError, sendSmtpEmail } from './mailer.js';
+import { addEmailTracking, getBounceTracking } from './emailTracking.js';
+import { chargeEmailSend, getMailboxWaitMs } from './emailQueue.js';
+import { buildTemplateVariables, renderEmailTemplate } from './emailTemplates.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+export const EMAIL_TRIGGER_TYPES = ['lead_created', 'call_ended', 'call_completed', 'no_response', 'high_quality_lead'];
+
+const LEAD_STRENGTHS = ['hot', 'warm', 'cold'];
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Worker settings
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_AUTOMATION_MAX_ATTEMPTS || '3');
+const RETRY_BASE_MS = 5 * 60 * 1000; // 5 minutes
+const RETRY_MAX_MS = 60 * 60 * 1000; // 1 hour
+const POLL_INTERVAL_MS = parseInt(process.env.EMAIL_AUTOMATION_INTERVAL_MS || '30000');
+const BATCH_SIZE = 20;
+const STALE_LOCK_MS = 10 * 60 * 1000; // 10 minutes
+
+let workerTimer = null;
+let draining = false;
+let drainRequested = false;
+
+/**
+ * Clean up a rule's conditions; empty lists and missing bounds match anything
+ *
+ * { bot_ids: [uuid], lead_strengths: ['hot'|'warm'|'cold'], call_types: [string], min_score, max_score }
+ */
+export function normalizeRuleConditions(conditions) {
+  const source = conditions && typeof conditions === 'object' ? conditions : {};
+  const toList = (value) => (Array.isArray(value)
+    ? value.filter((item) => typeof item === 'string' && item.trim()).map((item) => item.trim())
+    : []);
+  const toScore = (value) => {
+    const number = Number(value);
+    return value === null || value === undefined || value === '' || !Number.isFinite(number)
+      ? null
+      : Math.min(Math.max(Math.round(number), 0), 100);
+  };
+
+  return {
+    bot_ids: toList(source.bot_ids),
+    lead_strengths: toList(source.lead_strengths).filter((strength) => LEAD_STRENGTHS.includes(strength)),
+    call_types: toList(source.call_types),
+    min_score: toScore(source.min_score),
+    max_score: toScore(source.max_score),
+  };
+}
+
+/**
+ * Whether a call/lead pair meets every condition of a rule
+ * A condition on a value the event doesn't have (e.g. a score before analysis) doesn't match
+ */
+export function matchesConditions(conditions, { call, lead }) {
+  const rule = normalizeRuleConditions(conditions);
+
+  const botId = call?.bot_id;
+  if (rule.bot_ids.length > 0 && !rule.bot_ids.includes(botId)) return false;
+
+  const leadStrength = lead?.lead_strength || call?.lead_strength;
+  if (rule.lead_strengths.length > 0 && !rule.lead_strengths.includes(leadStrength)) return false;
+
+  const callType = call?.call_type || lead?.call_type;
+  if (rule.call_types.length > 0 && !rule.call_types.includes(callType)) return false;
+
+  const score = lead?.lead_score;
+  if (rule.min_score !== null || rule.max_score !== null) {
+    if (score === null || score === undefined) return false;
+    if (rule.min_score !== null && score < rule.min_score) return false;
+    if (rule.max_score !== null && score > rule.max_score) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Where an automated email for this event goes: the lead's email,
+ * else the one the caller gave on the call
+ */
+function getRecipientEmail({ call, lead }) {
+  const email = (lead?.email || call?.extracted_customer_data?.email || '').trim().toLowerCase();
+  return EMAIL_REGEX.test(email) ? email : null;
+}
+
+/**
+ * Schedule the emails of every active rule for this trigger whose conditions match
+ * Each rule runs once per call (or lead, for events without a call), so replayed events don't send twice
+ */
+export async function queueEmailAutomations(triggerType, { userId, call = null, lead = null }) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data: rules, error } = await supabaseAdmin
+    .from('email_automation_rules')
+    .select('id, conditions, delay_minutes')
+    .eq('user_id', userId)
+    .eq('trigger_type', triggerType)
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  const matchingRules = (rules || []).filter((rule) => matchesConditions(rule.conditions, { call, lead }));
+  if (matchingRules.length === 0) return 0;
+
+  const now = Date.now();
+  const toEmail = getRecipientEmail({ call, lead });
+  const runs = matchingRules.map((rule) => ({
+    user_id: userId,
+    rule_id: rule.id,
+    call_id: call?.id || null,
+    lead_id: lead?.id || null,
+    trigger_type: triggerType,
+    event_key: `${triggerType}:${call?.id || lead?.id}`,
+    to_email: toEmail,
+    send_at: new Date(now + Math.max(rule.delay_minutes || 0, 0) * 60 * 1000).toISOString(),
+    status: toEmail ? 'scheduled' : 'skipped',
+    error_message: toEmail ? null : 'No email address for this caller',
+    processed_at: toEmail ? null : new Date(now).toISOString(),
+  }));
+
+  const { error: insertError } = await supabaseAdmin
+    .from('email_automation_runs')
+    .upsert(runs, {
+      onConflict: 'rule_id,event_key',
+      ignoreDuplicates: true,
+    });
+
+  if (insertError) throw insertError;
+
+  drainEmailAutomationQueue();
+  return runs.length;
+}
+
+/**
+ * Schedule automations for a call that just ended, before it is analyzed
+ * The caller's existing lead, if any, is matched by phone number
+ */
+export async function queueCallEndedAutomations(call) {
+  const lead = await findExistingLead(call.user_id, {
+    phoneE164: toE164(call.phone_number),
+    phoneNumber: call.phone_number,
+  }, '*');
+
+  return queueEmailAutomations('call_ended', { userId: call.user_id, call, lead });
+}
+
+/**
+ * Schedule automations for an analyzed call and the lead it was stored on
+ */
+export async function queueAnalyzedCallAutomations(call, { leadId = null, leadCreated = false } = {}) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  let lead = null;
+  if (leadId) {
+    const { data, error } = await supabaseAdmin
+      .from('page_leads')
+      .select('*')
+      .eq('id', leadId)
+      .maybeSingle();
+
+    if (error) throw error;
+    lead = data;
+  }
+
+  const event = { userId: call.user_id, call, lead };
+
+  await queueEmailAutomations('call_completed', event);
+
+  if (lead && leadCreated) {
+    await queueEmailAutomations('lead_created', event);
+  }
+
+  if (lead?.is_lead && lead.lead_strength === 'hot') {
+    await queueEmailAutomations('high_quality_lead', event);
+  }
+
+  // Sent after the rule's delay unless the lead calls again first
+  if (lead?.is_lead) {
+    await queueEmailAutomations('no_response', event);
+  }
+}
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1), capped at RETRY_MAX_MS
+ */
+function getRetryDelayMs(attempts) {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_MS);
+}
+
+/**
+ * Claim a run for sending
+ * The status guard makes the claim a no-op if another drain already took it
+ */
+async function claimRun(run) {
+  const { data, error } = await supabaseAdmin
+    .from('email_automation_runs')
+    .update({
+      status: 'sending',
+      locked_at: new Date().toISOString(),
+    })
+    .eq('id', run.id)
+    .eq('status', 'scheduled')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Mark a run finished
+ */
+async function completeRun(run, status, attempts, fields = {}) {
+  await supabaseAdmin
+    .from('email_automation_runs')
+    .update({
+      status: status,
+      attempts: attempts,
+      locked_at: null,
+      processed_at: new Date().toISOString(),
+      ...fields,
+    })
+    .eq('id', run.id);
+}
+
+async function getRow(table, id) {
+  if (!id) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Fill the rule's template and send it for one claimed run
+ */
+async function processRun(run) {
+  const attempts = (run.attempts || 0) + 1;
+  let emailLogId = run.email_log_id;
+
+  try {
+    const rule = await getRow('email_automation_rules', run.rule_id);
+    if (!rule || !rule.is_active) {
+      await completeRun(run, 'skipped', attempts, { error_message: 'Rule was paused before the email was due' });
+      return;
+    }
+
+    const template = await getRow('email_templates', rule.template_id);
+    if (!template) {
+      await completeRun(run, 'skipped', attempts, { error_message: 'Rule has no email template' });
+      return;
+    }
+
+    const call = await getRow('calls', run.call_id);
+    const lead = await getRow('page_leads', run.lead_id);
+
+    if (run.trigger_type === 'no_response' && lead?.last_call_at && new Date(lead.last_call_at) > new Date(run.created_at)) {
+      await completeRun(run, 'skipped', attempts, { error_message: 'Lead called again before the email was due' });
+      return;
+    }
+
+    // Delayed sends recheck the rule, which may have been edited, against the current lead
+    if (!matchesConditions(rule.conditions, { call, lead })) {
+      await completeRun(run, 'skipped', attempts, { error_message: 'Conditions no longer match' });
+      return;
+    }
+
+    const mailbox = await getSenderMailbox(run.user_id);
+    if (!mailbox) {
+      await completeRun(run, 'failed', attempts, { error_message: 'No connected email address with an app password' });
+      return;
+    }
+
+    // Automated emails count towards the mailbox's rate limits; waiting doesn't use up an attempt
+    const waitMs = await getMailboxWaitMs(run.user_id, mailbox.email);
+    if (waitMs > 0) {
+      await supabaseAdmin
+        .from('email_automation_runs')
+        .update({
+          status: 'scheduled',
+          locked_at: null,
+          send_at: new Date(Date.now() + waitMs).toISOString(),
+        })
+        .eq('id', run.id);
+      return;
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('full_name, company_name, company_address, position, contact_info')
+      .eq('user_id', run.user_id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+
+    let botName = lead?.bot_name || null;
+    if (!botName && call?.bot_id) {
+      const bot = await getRow('bots', call.bot_id);
+      botName = bot?.name || null;
+    }
+
+    const variables = buildTemplateVariables({ profile, mailbox, lead, call, botName, toEmail: run.to_email });
+    const email = renderEmailTemplate(template, variables);
+
+    // One log row per run, reused across retries
+    const logData = {
+      user_id: run.user_id,
+      from_email: mailbox.email,
+      to_email: run.to_email,
+      to_phone_number: lead?.phone_number || call?.phone_number || null,
+      subject: email.subject,
+      body: email.text,
+      call_id: run.call_id,
+      automation_rule_id: run.rule_id,
+      template_id: template.id,
+      lead_id: lead?.id || null,
+      tracking_enabled: rule.track_engagement === true,
+      status: 'pending',
+      error_message: null,
+    };
+
+    let trackingToken;
+    if (emailLogId) {
+      const { data: log, error: logError } = await supabaseAdmin
+        .from('email_sent_logs')
+        .update(logData)
+        .eq('id', emailLogId)
+        .select('tracking_token')
+        .single();
+
+      if (logError) throw logError;
+      trackingToken = log.tracking_token;
+    } else {
+      const { data: log, error: logError } = await supabaseAdmin
+        .from('email_sent_logs')
+        .insert(logData)
+        .select('id, tracking_token')
+        .single();
+
+      if (logError) throw logError;
+      emailLogId = log.id;
+      trackingToken = log.tracking_token;
+    }
+
+    await sendSmtpEmail({
+      fromEmail: mailbox.email,
+      fromName: mailbox.name || profile?.full_name,
+      password: mailbox.password,
+      smtpConfig: mailbox.smtpConfig,
+      to: run.to_email,
+      subject: email.subject,
+      text: email.text,
+      html: logData.tracking_enabled ? addEmailTracking(email.html, trackingToken) : email.html,
+      ...getBounceTracking(trackingToken),
+    });
+
+    await supabaseAdmin
+      .from('email_sent_logs')
+      .update({ status: 'sent', sent_at: new Date().toISOString() })
+      .eq('id', emailLogId);
+
+    await completeRun(run, 'sent', attempts, { email_log_id: emailLogId, error_message: null });
+
+    // Same charge as emails sent from the Email page
+    await chargeEmailSend(run.user_id, emailLogId, {
+      from_email: mailbox.email,
+      to_email: run.to_email,
+      subject: email.subject,
+      call_id: run.call_id,
+      automation_rule_id: run.rule_id,
+    });
+
+    console.log(`Automated email sent (rule ${run.rule_id}, ${run.trigger_type})`);
+  } catch (error) {
+    const errorMessage = getSmtpErrorMessage(error);
+    const isFinal = attempts >= MAX_ATTEMPTS || !isTransientSmtpError(error);
+
+    if (emailLogId) {
+      await supabaseAdmin
+        .from('email_sent_logs')
+        .update({ status: 'failed', error_message: errorMessage })
+        .eq('id', emailLogId);
+    }
+
+    if (isFinal) {
+      console.error(`Automated email ${run.id} failed after ${attempts} attempts:`, errorMessage);
+      await completeRun(run, 'failed', attempts, { email_log_id: emailLogId || null, error_message: errorMessage });
+      return;
+    }
+
+    console.warn(`Automated email ${run.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, errorMessage);
+
+    await supabaseAdmin
+      .from('email_automation_runs')
+      .update({
+        status: 'scheduled',
+        attempts: attempts,
+        error_message: errorMessage,
+        email_log_id: emailLogId || null,
+        locked_at: null,
+        send_at: new Date(Date.now() + getRetryDelayMs(attempts)).toISOString(),
+      })
+      .eq('id', run.id);
+  }
+}
+
+/**
+ * Send all due automated emails, one at a time so a mailbox isn't flooded
+ * Concurrent calls are coalesced into one extra pass
+ */
+export async function drainEmailAutomationQueue() {
+  if (!supabaseAdmin) return;
+
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+
+  draining = true;
+  try {
+    await releaseStaleLocks(STALE_LOCK_MS);
+
+    do {
+      drainRequested = false;
+
+      const { data: dueRuns, error } = await supabaseAdmin
+        .from('email_automation_runs')
+        .select('*')
+        .eq('status', 'scheduled')
+        .lte('send_at', new Date().toISOString())
+        .order('send_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) throw error;
+
+      for (const run of dueRuns || []) {
+        const claimed = await claimRun(run);
+        if (claimed) {
+          await processRun(claimed);
+        }
+      }
+
+      // A full batch means there may be more due runs waiting
+      if (dueRuns && dueRuns.length === BATCH_SIZE) {
+        drainRequested = true;
+      }
+    } while (drainRequested);
+  } catch (error) {
+    console.error('Error draining email automation queue:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Release runs left in 'sending' longer than olderThanMs,
+ * e.g. by a process that stopped mid-send
+ */
+async function releaseStaleLocks(olderThanMs) {
+  const { error } = await supabaseAdmin
+    .from('email_automation_runs')
+    .update({
+      status: 'scheduled',
+      locked_at: null,
+    })
+    .eq('status', 'sending')
+    .lte('locked_at', new Date(Date.now() - olderThanMs).toISOString());
+
+  if (error) {
+    console.error('Error releasing stale email automation locks:', error);
+  }
+}
+
+/**
+ * Start polling for automated emails that are due
+ */
+export async function startEmailAutomationWorker() {
+  if (!supabaseAdmin) {
+    console.warn('Supabase admin not configured, email automation worker not started');
+    return;
+  }
+
+  if (workerTimer) return;
+
+  // Nothing else runs this worker, so every lock left at startup is stale
+  await releaseStaleLocks(0);
+
+  workerTimer = setInterval(drainEmailAutomationQueue, POLL_INTERVAL_MS);
+  drainEmailAutomationQueue();
+
+  console.log(`Email automation worker started (every ${POLL_INTERVAL_MS}ms, max ${MAX_ATTEMPTS} attempts)`);
+}
@@ -0,0 +1,104 @@
+import { ImapFlow } from 'imapflow';
+import dotenv from 'dotenv';
+import { parseBounceMessage, recordTrackingEvent } from './emailTracking.js';
+
+dotenv.config();
+
+// Return-path mailbox that bounce messages are delivered to
+const IMAP_HOST = process.env.EMAIL_BOUNCE_IMAP_HOST;
+const IMAP_PORT = parseInt(process.env.EMAIL_BOUNCE_IMAP_PORT || '993');
+const IMAP_SECURE = process.env.EMAIL_BOUNCE_IMAP_SECURE !== 'false';
+const IMAP_USER = process.env.EMAIL_BOUNCE_IMAP_USER;
+const IMAP_PASSWORD = process.env.EMAIL_BOUNCE_IMAP_PASSWORD;
+const IMAP_MAILBOX = process.env.EMAIL_BOUNCE_MAILBOX || 'INBOX';
+
+// Worker settings
+const POLL_INTERVAL_MS = parseInt(process.env.EMAIL_BOUNCE_INTERVAL_MS || '300000');
+const BATCH_SIZE = 100;
+
+let workerTimer = null;
+let checking = false;
+
+export function isBounceMailboxConfigured() {
+  return Boolean(IMAP_HOST && IMAP_USER && IMAP_PASSWORD);
+}
+
+/**
+ * Read unseen messages in the bounce mailbox and mark the emails they are about as bounced
+ * Every message read is flagged seen, bounce or not, so it isn't parsed again
+ */
+export async function checkBounceMailbox() {
+  if (!isBounceMailboxConfigured() || checking) return;
+
+  checking = true;
+  const client = new ImapFlow({
+    host: IMAP_HOST,
+    port: IMAP_PORT,
+    secure: IMAP_SECURE,
+    auth: {
+      user: IMAP_USER,
+      pass: IMAP_PASSWORD,
+    },
+    logger: false,
+  });
+
+  try {
+    await client.connect();
+    const lock = await client.getMailboxLock(IMAP_MAILBOX);
+
+    try {
+      const uids = ((await client.search({ seen: false }, { uid: true })) || []).slice(0, BATCH_SIZE);
+      if (uids.length === 0) return;
+
+      let bounced = 0;
+      const processed = [];
+
+      for await (const message of client.fetch(uids, { source: true }, { uid: true })) {
+        const bounce = parseBounceMessage(message.source);
+
+        try {
+          if (bounce) {
+            const emailLogId = await recordTrackingEvent(bounce.token, 'bounce', { bounceReason: bounce.reason });
+            if (emailLogId) bounced++;
+          }
+          processed.push(message.uid);
+        } catch (error) {
+          // Left unseen so the next check retries it
+          console.error(`Error recording bounce from message ${message.uid}:`, error);
+        }
+      }
+
+      if (processed.length > 0) {
+        await client.messageFlagsAdd(processed, ['\\Seen'], { uid: true });
+      }
+
+      if (bounced > 0) {
+        console.log(`Recorded ${bounced} bounced email(s) from ${processed.length} message(s)`);
+      }
+    } finally {
+      lock.release();
+    }
+  } catch (error) {
+    console.error('Error checking bounce mailbox:', error);
+  } finally {
+    checking = false;
+    await client.logout().catch(() => {});
+  }
+}
+
+/**
+ * Start polling the bounce mailbox
+ */
+export function startEmailBounceWorker() {
+  if (!isBounceMailboxConfigured()) {
+    console.warn('Bounce mailbox not configured, email bounce worker not started');
+    return;
+  }
+
+  if (workerTimer) return;
+
+  workerTimer = setInterval(checkBounceMailbox, POLL_INTERVAL_MS);
+  checkBounceMailbox();
+
+  console.log(`Email bounce worker started (every ${POLL_INTERVAL_MS}ms, ${IMAP_USER} ${IMAP_MAILBOX})`);
+}
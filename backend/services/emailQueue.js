@@ -0,0 +1,455 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  getMailboxByEmail,
+  getSmtpErrorMessage,
+  isTransientSmtpError,
+  sendSmtpEmail,
+} from './mailer.js';
+import { addEmailTracking, getBounceTracking } from './emailTracking.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_SCHEDULE_DAYS = 365;
+
+// Worker settings
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_QUEUE_MAX_ATTEMPTS || '5');
+const RETRY_BASE_MS = parseInt(process.env.EMAIL_QUEUE_RETRY_BASE_SECONDS || '60') * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000; // 1 hour
+const POLL_INTERVAL_MS = parseInt(process.env.EMAIL_QUEUE_INTERVAL_MS || '15000');
+const BATCH_SIZE = 20;
+const STALE_LOCK_MS = 10 * 60 * 1000; // 10 minutes
+
+// Per-mailbox rate limits, kept under what the common providers allow
+const MAILBOX_PER_MINUTE = parseInt(process.env.EMAIL_MAILBOX_PER_MINUTE || '10');
+const MAILBOX_PER_HOUR = parseInt(process.env.EMAIL_MAILBOX_PER_HOUR || '100');
+
+let workerTimer = null;
+let draining = false;
+let drainRequested = false;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+/**
+ * Validate the body of POST /api/emails
+ */
+export function parseQueueRequest(body) {
+  const fromEmail = typeof body?.from_email === 'string' ? body.from_email.trim() : '';
+  const toEmail = typeof body?.to_email === 'string' ? body.to_email.trim() : '';
+  const subject = typeof body?.subject === 'string' ? body.subject.trim() : '';
+  const text = typeof body?.body === 'string' ? body.body : '';
+  const html = typeof body?.html_body === 'string' ? body.html_body : '';
+
+  if (!fromEmail || !toEmail || !subject || (!text && !html)) {
+    throw badRequest('Missing required fields. Please provide: from_email, to_email, subject, and either body or html_body');
+  }
+
+  if (!EMAIL_REGEX.test(fromEmail) || !EMAIL_REGEX.test(toEmail)) {
+    throw badRequest('Invalid email format');
+  }
+
+  let sendAt = null;
+  if (body.send_at) {
+    const date = new Date(body.send_at);
+    if (Number.isNaN(date.getTime())) {
+      throw badRequest('send_at must be a date and time');
+    }
+    if (date.getTime() > Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+      throw badRequest(`Emails can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead`);
+    }
+    // Times in the past send right away
+    sendAt = date.getTime() > Date.now() ? date.toISOString() : null;
+  }
+
+  return {
+    fromEmail,
+    toEmail,
+    subject,
+    text: text || html.replace(/<[^>]*>/g, ''),
+    html: html || null,
+    toPhoneNumber: typeof body.to_phone_number === 'string' ? body.to_phone_number : null,
+    callId: typeof body.call_id === 'string' && body.call_id ? body.call_id : null,
+    sendAt,
+    track: body.track === true,
+    templateId: typeof body.template_id === 'string' && body.template_id ? body.template_id : null,
+    leadId: typeof body.lead_id === 'string' && body.lead_id ? body.lead_id : null,
+  };
+}
+
+/**
+ * The id if the row belongs to the user, otherwise null
+ * Stats links are best-effort, so a stale template or lead id doesn't block the send
+ */
+async function getOwnedId(table, userId, id) {
+  if (!id) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) return null;
+  return data?.id || null;
+}
+
+/**
+ * Add an email to the send queue as a pending email_sent_logs row
+ * The sending address must be one of the user's mailboxes with an app password
+ */
+export async function queueEmail(userId, { fromEmail, toEmail, subject, text, html, toPhoneNumber, callId, sendAt, track = false, templateId = null, leadId = null }) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const mailbox = await getMailboxByEmail(userId, fromEmail);
+  if (!mailbox) {
+    throw badRequest(`Add the app password for ${fromEmail} in Email Addresses before sending from it`);
+  }
+
+  const [ownedTemplateId, ownedLeadId] = await Promise.all([
+    getOwnedId('email_templates', userId, templateId),
+    getOwnedId('page_leads', userId, leadId),
+  ]);
+
+  const now = new Date().toISOString();
+  const scheduledAt = sendAt || now;
+
+  const { data, error } = await supabaseAdmin
+    .from('email_sent_logs')
+    .insert({
+      user_id: userId,
+      from_email: mailbox.email,
+      to_email: toEmail,
+      to_phone_number: toPhoneNumber || null,
+      subject,
+      body: text,
+      html_body: html || null,
+      call_id: callId || null,
+      tracking_enabled: track,
+      template_id: ownedTemplateId,
+      lead_id: ownedLeadId,
+      status: 'pending',
+      send_at: scheduledAt,
+      next_attempt_at: scheduledAt,
+    })
+    .select('id, status, send_at')
+    .single();
+
+  if (error) throw error;
+
+  if (!sendAt) {
+    drainEmailQueue();
+  }
+
+  return data;
+}
+
+/**
+ * Remove a queued email that hasn't gone out yet
+ * Returns false if it was already sent, failed or is being sent
+ */
+export async function cancelQueuedEmail(userId, emailId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('email_sent_logs')
+    .delete()
+    .eq('id', emailId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .not('send_at', 'is', null)
+    .is('locked_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * How long a mailbox has to wait before its next send, 0 if it's under its rate limits
+ * Counts every email the mailbox sent: queued, automated and sent by hand,
+ * including ones since opened, clicked or bounced
+ */
+export async function getMailboxWaitMs(userId, fromEmail) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const now = Date.now();
+  const windows = [
+    { limit: MAILBOX_PER_MINUTE, ms: 60 * 1000 },
+    { limit: MAILBOX_PER_HOUR, ms: 60 * 60 * 1000 },
+  ];
+
+  for (const window of windows) {
+    const { data, error } = await supabaseAdmin
+      .from('email_sent_logs')
+      .select('sent_at')
+      .eq('user_id', userId)
+      .eq('from_email', fromEmail)
+      .not('sent_at', 'is', null)
+      .gte('sent_at', new Date(now - window.ms).toISOString())
+      .order('sent_at', { ascending: false })
+      .limit(window.limit);
+
+    if (error) throw error;
+
+    // At the limit: wait until the oldest send in the window drops out of it
+    if (data && data.length >= window.limit) {
+      const oldest = new Date(data[data.length - 1].sent_at).getTime();
+      return Math.max(oldest + window.ms - now, 1000);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Charge the credits for a sent email
+ * A failed deduction doesn't unsend the email; the reason is kept on its log row instead
+ */
+export async function chargeEmailSend(userId, emailLogId, metadata) {
+  const { data, error } = await supabaseAdmin.rpc('deduct_credits_for_email_send', {
+    p_user_id: userId,
+    p_email_id: emailLogId,
+    p_metadata: metadata,
+  });
+
+  const creditError = error?.message || (data?.success === false ? data.error || 'Credit deduction failed' : null);
+  if (!creditError) return;
+
+  console.error(`Error deducting credits for email ${emailLogId}:`, creditError);
+
+  const { error: updateError } = await supabaseAdmin
+    .from('email_sent_logs')
+    .update({ credit_error: creditError })
+    .eq('id', emailLogId);
+
+  if (updateError) {
+    console.error(`Error recording credit error for email ${emailLogId}:`, updateError);
+  }
+}
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1), capped at RETRY_MAX_MS
+ */
+function getRetryDelayMs(attempts) {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_MS);
+}
+
+/**
+ * Claim a queued email for sending
+ * The lock guard makes the claim a no-op if another drain already took it
+ */
+async function claimEmail(email) {
+  const { data, error } = await supabaseAdmin
+    .from('email_sent_logs')
+    .update({ locked_at: new Date().toISOString() })
+    .eq('id', email.id)
+    .eq('status', 'pending')
+    .is('locked_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Put a claimed email back in the queue to be tried at a later time
+ */
+async function requeueEmail(email, fields) {
+  await supabaseAdmin
+    .from('email_sent_logs')
+    .update({
+      locked_at: null,
+      ...fields,
+    })
+    .eq('id', email.id);
+}
+
+/**
+ * Send one claimed email and record the outcome
+ */
+async function processEmail(email) {
+  const attempts = (email.attempts || 0) + 1;
+
+  try {
+    // Throttled mailboxes wait without using up an attempt
+    const waitMs = await getMailboxWaitMs(email.user_id, email.from_email);
+    if (waitMs > 0) {
+      await requeueEmail(email, { next_attempt_at: new Date(Date.now() + waitMs).toISOString() });
+      return;
+    }
+
+    const mailbox = await getMailboxByEmail(email.user_id, email.from_email);
+    if (!mailbox) {
+      const error = new Error(`No app password saved for ${email.from_email}`);
+      error.code = 'EAUTH';
+      throw error;
+    }
+
+    const html = email.html_body || email.body.replace(/\n/g, '<br>');
+
+    const messageId = await sendSmtpEmail({
+      fromEmail: mailbox.email,
+      fromName: mailbox.name,
+      password: mailbox.password,
+      smtpConfig: mailbox.smtpConfig,
+      to: email.to_email,
+      subject: email.subject,
+      text: email.body,
+      html: email.tracking_enabled ? addEmailTracking(html, email.tracking_token) : html,
+      ...getBounceTracking(email.tracking_token),
+    });
+
+    await supabaseAdmin
+      .from('email_sent_logs')
+      .update({
+        status: 'sent',
+        sent_at: new Date().toISOString(),
+        attempts: attempts,
+        message_id: messageId || null,
+        error_message: null,
+        locked_at: null,
+      })
+      .eq('id', email.id);
+
+    // Same charge as before the queue
+    await chargeEmailSend(email.user_id, email.id, {
+      from_email: email.from_email,
+      to_email: email.to_email,
+      subject: email.subject,
+      call_id: email.call_id,
+    });
+  } catch (error) {
+    const errorMessage = getSmtpErrorMessage(error);
+
+    if (isTransientSmtpError(error) && attempts < MAX_ATTEMPTS) {
+      console.warn(`Email ${email.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, errorMessage);
+      await requeueEmail(email, {
+        attempts: attempts,
+        error_message: errorMessage,
+        next_attempt_at: new Date(Date.now() + getRetryDelayMs(attempts)).toISOString(),
+      });
+      return;
+    }
+
+    console.error(`Email ${email.id} failed after ${attempts} attempts:`, errorMessage);
+    await supabaseAdmin
+      .from('email_sent_logs')
+      .update({
+        status: 'failed',
+        attempts: attempts,
+        error_message: errorMessage,
+        locked_at: null,
+      })
+      .eq('id', email.id);
+  }
+}
+
+/**
+ * Send all due queued emails, one at a time
+ * Concurrent calls are coalesced into one extra pass
+ */
+export async function drainEmailQueue() {
+  if (!supabaseAdmin) return;
+
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+
+  draining = true;
+  try {
+    await releaseStaleLocks(STALE_LOCK_MS);
+
+    do {
+      drainRequested = false;
+
+      const { data: dueEmails, error } = await supabaseAdmin
+        .from('email_sent_logs')
+        .select('*')
+        .eq('status', 'pending')
+        .not('send_at', 'is', null)
+        .is('locked_at', null)
+        .lte('next_attempt_at', new Date().toISOString())
+        .order('next_attempt_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) throw error;
+
+      for (const email of dueEmails || []) {
+        const claimed = await claimEmail(email);
+        if (claimed) {
+          await processEmail(claimed);
+        }
+      }
+
+      // A full batch means there may be more due emails waiting
+      if (dueEmails && dueEmails.length === BATCH_SIZE) {
+        drainRequested = true;
+      }
+    } while (drainRequested);
+  } catch (error) {
+    console.error('Error draining email queue:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Release queued emails locked longer than olderThanMs,
+ * e.g. by a process that stopped mid-send
+ */
+async function releaseStaleLocks(olderThanMs) {
+  const { error } = await supabaseAdmin
+    .from('email_sent_logs')
+    .update({ locked_at: null })
+    .eq('status', 'pending')
+    .not('send_at', 'is', null)
+    .lte('locked_at', new Date(Date.now() - olderThanMs).toISOString());
+
+  if (error) {
+    console.error('Error releasing stale email queue locks:', error);
+  }
+}
+
+/**
+ * Start polling the email queue for due emails
+ */
+export async function startEmailQueueWorker() {
+  if (!supabaseAdmin) {
+    console.warn('Supabase admin not configured, email queue worker not started');
+    return;
+  }
+
+  if (workerTimer) return;
+
+  // Nothing else runs this worker, so every lock left at startup is stale
+  await releaseStaleLocks(0);
+
+  workerTimer = setInterval(drainEmailQueue, POLL_INTERVAL_MS);
+  drainEmailQueue();
+
+  console.log(`Email queue worker started (every ${POLL_INTERVAL_MS}ms, ${MAILBOX_PER_MINUTE}/min and ${MAILBOX_PER_HOUR}/hour per mailbox, max ${MAX_ATTEMPTS} attempts)`);
+}
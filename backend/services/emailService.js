@@ -1,21 +1,14 @@
-import OpenAI from 'openai';
 import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
+import { createChatCompletion, assertLlmConfigured, LLM_FEATURES } from './llmProvider.js';
 
 dotenv.config();
 
-const openaiApiKey = process.env.OPENAI_API_KEY?.trim();
-const openai = new OpenAI({
-  apiKey: openaiApiKey,
-});
-
 /**
- * Generate email content using OpenAI
+ * Generate email content using the configured LLM
  */
 export async function generateEmailContent(params) {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
+  assertLlmConfigured(LLM_FEATURES.EMAIL_GENERATION);
 
   const {
     leadInfo,
@@ -129,8 +122,7 @@ ${appointmentDetails ? `- Include appointment confirmation details if scheduled`
 Return the email as a JSON object with "subject" and "body" fields.`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await createChatCompletion(LLM_FEATURES.EMAIL_GENERATION, {
       messages: [
         {
           role: 'system',
@@ -142,11 +134,11 @@ Return the email as a JSON object with "subject" and "body" fields.`;
         },
       ],
       temperature: 0.7,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' },
+      maxTokens: 1000,
+      jsonMode: true,
     });
 
-    const content = completion.choices[0]?.message?.content || '';
+    const content = completion.content;
     
     try {
       const parsed = JSON.parse(content);
@@ -166,18 +158,16 @@ Return the email as a JSON object with "subject" and "body" fields.`;
       };
     }
   } catch (error) {
-    console.error('OpenAI Email Generation Error:', error);
+    console.error('Email Generation Error:', error);
     throw new Error(error.message || 'Failed to generate email');
   }
 }
 
 /**
- * Generate email template using OpenAI
+ * Generate email template using the configured LLM
  */
 export async function generateEmailTemplate(params) {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
+  assertLlmConfigured(LLM_FEATURES.EMAIL_GENERATION);
 
   const {
     name,
@@ -234,8 +224,7 @@ Requirements:
 Return the template as a JSON object with "subject" and "body" fields.`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await createChatCompletion(LLM_FEATURES.EMAIL_GENERATION, {
       messages: [
         {
           role: 'system',
@@ -247,11 +236,11 @@ Return the template as a JSON object with "subject" and "body" fields.`;
         },
       ],
       temperature: 0.7,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' },
+      maxTokens: 1000,
+      jsonMode: true,
     });
 
-    const content = completion.choices[0]?.message?.content || '';
+    const content = completion.content;
     
     try {
       const parsed = JSON.parse(content);
@@ -266,7 +255,7 @@ Return the template as a JSON object with "subject" and "body" fields.`;
       };
     }
   } catch (error) {
-    console.error('OpenAI Email Template Generation Error:', error);
+    console.error('Email Template Generation Error:', error);
     throw new Error(error.message || 'Failed to generate email template');
   }
 }
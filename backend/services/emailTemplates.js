@@ -0,0 +1,140 @@
+/**
+ * Fill an email template for a lead or call, the way the Email page
+ * does for emails sent by hand
+ */
+
+/**
+ * Values for {{variables}} in templates, from the sender's profile,
+ * the lead and the call
+ */
+export function buildTemplateVariables({ profile, mailbox, lead, call, botName, toEmail }) {
+  const customer = call?.extracted_customer_data || {};
+  const senderName = profile?.full_name || mailbox?.name || mailbox?.email?.split('@')[0] || '';
+  const recipientName = lead?.name || customer.name || call?.contact_name || '';
+  const recipientFallback = toEmail ? toEmail.split('@')[0] : '';
+  const now = new Date();
+
+  return {
+    sender_name: senderName,
+    sender_first_name: senderName.split(' ')[0] || senderName,
+    sender_position: profile?.position || '',
+    sender_email: mailbox?.email || '',
+    company_name: profile?.company_name || '',
+    company_address: profile?.company_address || '',
+    contact_info: profile?.contact_info || '',
+    recipient_name: recipientName || recipientFallback,
+    recipient_first_name: recipientName ? recipientName.split(' ')[0] : recipientFallback,
+    lead_name: recipientName,
+    lead_phone: lead?.phone_number || call?.phone_number || '',
+    lead_score: lead?.lead_score != null ? String(lead.lead_score) : '',
+    call_summary: call?.call_summary || lead?.call_summary || '',
+    intent_summary: call?.intent_summary || lead?.intent_summary || '',
+    appointment_date: lead?.appointment_date || '',
+    appointment_time: lead?.appointment_time || '',
+    bot_name: botName || lead?.bot_name || '',
+    date: now.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    year: now.getFullYear().toString(),
+  };
+}
+
+// Bracket placeholders the AI template generator writes, mapped to variables
+const BRACKET_PLACEHOLDERS = {
+  'Your Full Name': 'sender_name',
+  'Your Name': 'sender_name',
+  'Your First Name': 'sender_first_name',
+  'Your Position': 'sender_position',
+  'Your Title': 'sender_position',
+  'Your Company': 'company_name',
+  'Company Name': 'company_name',
+  'Your Company Name': 'company_name',
+  'Your Contact Information': 'contact_info',
+  'Contact Information': 'contact_info',
+  'Your Email': 'sender_email',
+  'Your Address': 'company_address',
+  'Company Address': 'company_address',
+  'Your Company Address': 'company_address',
+  'Recipient Name': 'recipient_name',
+  'Recipient First Name': 'recipient_first_name',
+  'Date': 'date',
+  'Current Date': 'date',
+  'Year': 'year',
+  'Current Year': 'year',
+};
+
+/**
+ * Replace {{variables}} and [Bracket Placeholders] in a template string
+ * Unknown {{variables}} are left out rather than sent as-is
+ */
+export function fillTemplate(text, variables) {
+  if (!text) return '';
+
+  let filled = text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => variables[name] ?? '');
+
+  for (const [placeholder, name] of Object.entries(BRACKET_PLACEHOLDERS)) {
+    const pattern = new RegExp(`\\[${placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]`, 'gi');
+    filled = filled.replace(pattern, variables[name] ?? '');
+  }
+
+  return filled;
+}
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Simple HTML version of a plain text email with the template's accent colour
+ */
+export function toHtmlEmail(subject, body, { accentColor = '#4F46E5', companyName = '' } = {}) {
+  const paragraphs = body
+    .split('\n\n')
+    .map((paragraph) => paragraph.split('\n').map(escapeHtml).join('<br>'))
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => `<p style="margin: 0 0 16px 0; line-height: 1.7; color: #374151; font-size: 15px;">${paragraph}</p>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>${escapeHtml(subject)}</title></head>
+<body style="margin: 0; padding: 0; background-color: #F3F4F6; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color: #F3F4F6;">
+    <tr>
+      <td align="center" style="padding: 40px 16px;">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width: 600px; width: 100%;">
+          <tr>
+            <td style="background-color: ${accentColor}; padding: 32px 40px; border-radius: 12px 12px 0 0;">
+              ${companyName ? `<p style="margin: 0 0 6px 0; font-size: 13px; font-weight: 600; color: rgba(255,255,255,0.85); text-transform: uppercase; letter-spacing: 1px;">${escapeHtml(companyName)}</p>` : ''}
+              <h1 style="margin: 0; font-size: 22px; font-weight: 600; color: #FFFFFF; line-height: 1.3;">${escapeHtml(subject)}</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="background-color: #FFFFFF; padding: 40px; border: 1px solid #E5E7EB; border-top: none; border-radius: 0 0 12px 12px;">
+              ${paragraphs}
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Subject, text and HTML of a template filled for one recipient
+ */
+export function renderEmailTemplate(template, variables) {
+  const subject = fillTemplate(template.subject, variables).trim();
+  const text = fillTemplate(template.body, variables);
+  const html = toHtmlEmail(subject, text, {
+    accentColor: template.accent_color || '#4F46E5',
+    companyName: template.company_name || variables.company_name,
+  });
+
+  return { subject, text, html };
+}
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// Transparent 1x1 GIF
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+const TRACKING_HEADER = 'X-Email-Tracking-Id';
+const MAX_STATS_DAYS = 365;
+const MAX_STATS_EMAILS = parseInt(process.env.EMAIL_STATS_MAX_EMAILS || '10000');
+const MAX_STATS_LEADS = 50;
+
+function getTrackingBaseUrl() {
+  return (process.env.EMAIL_TRACKING_BASE_URL || process.env.BACKEND_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+}
+
+// Tracked links are signed so the click endpoint can't be used as an open redirect
+function getSigningKey() {
+  return process.env.EMAIL_TRACKING_SECRET || process.env.SMTP_ENCRYPTION_KEY || null;
+}
+
+export function isTrackingConfigured() {
+  return Boolean(getSigningKey());
+}
+
+function signTrackedUrl(token, url) {
+  return crypto
+    .createHmac('sha256', getSigningKey())
+    .update(`${token}\n${url}`)
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+/**
+ * Whether a click URL was signed by us for this email
+ */
+export function verifyTrackedUrl(token, url, signature) {
+  if (!isTrackingConfigured() || typeof signature !== 'string' || !url) return false;
+
+  const expected = Buffer.from(signTrackedUrl(token, url));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function escapeAttribute(value) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Add an open pixel and route http(s) links through the click endpoint
+ * Works on the HTML from convertToHtmlEmail and the automation templates;
+ * mailto:, tel: and anchor links are left alone
+ */
+export function addEmailTracking(html, token) {
+  if (!html || !token || !isTrackingConfigured()) return html;
+
+  const baseUrl = getTrackingBaseUrl();
+
+  const tracked = html.replace(/(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi, (match, prefix, quote, href) => {
+    const url = href.trim().replace(/&amp;/g, '&');
+    if (!/^https?:\/\//i.test(url) || url.startsWith(`${baseUrl}/api/track/`)) {
+      return match;
+    }
+
+    const trackedUrl = `${baseUrl}/api/track/click/${token}?u=${encodeURIComponent(url)}&s=${signTrackedUrl(token, url)}`;
+    return `${prefix}"${escapeAttribute(trackedUrl)}"`;
+  });
+
+  const pixel = `<img src="${baseUrl}/api/track/open/${token}.gif" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0;" />`;
+  const bodyEnd = tracked.search(/<\/body>/i);
+
+  return bodyEnd === -1
+    ? `${tracked}${pixel}`
+    : `${tracked.slice(0, bodyEnd)}${pixel}${tracked.slice(bodyEnd)}`;
+}
+
+/**
+ * Header and envelope sender that let a bounce be matched to its email
+ * With EMAIL_BOUNCE_ADDRESS set, bounces go to bounces+<token>@domain (VERP)
+ */
+export function getBounceTracking(token) {
+  const bounceAddress = process.env.EMAIL_BOUNCE_ADDRESS;
+  const [localPart, domain] = (bounceAddress || '').split('@');
+
+  return {
+    headers: { [TRACKING_HEADER]: token },
+    envelopeFrom: localPart && domain ? `${localPart}+${token}@${domain}` : null,
+  };
+}
+
+/**
+ * Record an open, click or bounce; returns the email log id, or null for an unknown token
+ */
+export async function recordTrackingEvent(token, eventType, { url = null, userAgent = null, bounceReason = null } = {}) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('record_email_tracking_event', {
+    p_tracking_token: token,
+    p_event_type: eventType,
+    p_url: url,
+    p_user_agent: userAgent,
+    p_bounce_reason: bounceReason,
+  });
+
+  if (error) throw error;
+  return data || null;
+}
+
+/**
+ * Match a bounce message (DSN) to the email it's about
+ * Returns { token, reason }, or null if it isn't a permanent failure we sent
+ */
+export function parseBounceMessage(source) {
+  const raw = Buffer.isBuffer(source) ? source.toString('utf8') : String(source || '');
+  const headerEnd = raw.search(/\r?\n\r?\n/);
+  const headers = headerEnd === -1 ? raw : raw.slice(0, headerEnd);
+
+  const isReport = /content-type:\s*multipart\/report[^]*?report-type="?delivery-status/i.test(headers);
+  const subject = headers.match(/^subject:\s*(.+)$/im)?.[1]?.trim() || '';
+  const looksLikeBounce = /undeliver|delivery (status notification|failure|has failed)|returned mail|failure notice|mail delivery failed/i.test(subject);
+
+  if (!isReport && !looksLikeBounce) return null;
+
+  // Temporary failures (4.x.x) are retried by the sending server
+  const status = raw.match(/^status:\s*([245])\.\d{1,3}\.\d{1,3}/im)?.[1];
+  if (status && status !== '5') return null;
+
+  const verpToken = headers.match(/\+([A-Za-z0-9]{16,64})@/)?.[1];
+  const headerToken = raw.match(new RegExp(`^${TRACKING_HEADER}:\\s*([A-Za-z0-9]{16,64})`, 'im'))?.[1];
+  const token = verpToken || headerToken;
+  if (!token) return null;
+
+  const diagnostic = raw.match(/^diagnostic-code:\s*(?:smtp;\s*)?(.+)$/im)?.[1]?.trim();
+  const statusCode = raw.match(/^status:\s*([\d.]+)/im)?.[1];
+  const reason = diagnostic || (statusCode ? `Delivery failed (${statusCode})` : subject || 'Delivery failed');
+
+  return { token, reason: reason.slice(0, 500) };
+}
+
+function emptyCounts() {
+  return { sent: 0, tracked: 0, opened: 0, clicked: 0, bounced: 0 };
+}
+
+function addToCounts(counts, log) {
+  counts.sent++;
+  if (log.bounced_at) counts.bounced++;
+  if (log.tracking_enabled) {
+    counts.tracked++;
+    if (log.opened_at) counts.opened++;
+    if (log.clicked_at) counts.clicked++;
+  }
+}
+
+/**
+ * Opens, clicks and bounces of emails sent in the last `days` days,
+ * overall, per template and per lead
+ * Open and click counts only cover emails sent with tracking
+ */
+export async function getEmailEngagement(userId, { days = 30 } = {}) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const period = Math.min(Math.max(parseInt(days) || 30, 1), MAX_STATS_DAYS);
+  const since = new Date(Date.now() - period * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: logs, error } = await supabaseAdmin
+    .from('email_sent_logs')
+    .select('id, to_email, template_id, lead_id, tracking_enabled, sent_at, opened_at, clicked_at, bounced_at')
+    .eq('user_id', userId)
+    .not('sent_at', 'is', null)
+    .gte('sent_at', since)
+    .order('sent_at', { ascending: false })
+    .limit(MAX_STATS_EMAILS);
+
+  if (error) throw error;
+
+  const totals = emptyCounts();
+  const templates = new Map();
+  const leads = new Map();
+
+  for (const log of logs || []) {
+    addToCounts(totals, log);
+
+    const templateKey = log.template_id || 'none';
+    if (!templates.has(templateKey)) {
+      templates.set(templateKey, { template_id: log.template_id, ...emptyCounts() });
+    }
+    addToCounts(templates.get(templateKey), log);
+
+    // Emails without a lead are grouped by recipient
+    const leadKey = log.lead_id || `email:${log.to_email.toLowerCase()}`;
+    if (!leads.has(leadKey)) {
+      leads.set(leadKey, {
+        lead_id: log.lead_id,
+        email: log.to_email,
+        last_sent_at: log.sent_at,
+        last_opened_at: null,
+        ...emptyCounts(),
+      });
+    }
+    const lead = leads.get(leadKey);
+    addToCounts(lead, log);
+    if (log.opened_at && (!lead.last_opened_at || log.opened_at > lead.last_opened_at)) {
+      lead.last_opened_at = log.opened_at;
+    }
+  }
+
+  const templateIds = [...templates.values()].map((row) => row.template_id).filter(Boolean);
+  const topLeads = [...leads.values()]
+    .sort((a, b) => (b.opened + b.clicked) - (a.opened + a.clicked) || b.sent - a.sent)
+    .slice(0, MAX_STATS_LEADS);
+  const leadIds = topLeads.map((row) => row.lead_id).filter(Boolean);
+
+  const [templateRows, leadRows] = await Promise.all([
+    templateIds.length > 0
+      ? supabaseAdmin.from('email_templates').select('id, name').eq('user_id', userId).in('id', templateIds)
+      : { data: [] },
+    leadIds.length > 0
+      ? supabaseAdmin.from('page_leads').select('id, name, email').eq('user_id', userId).in('id', leadIds)
+      : { data: [] },
+  ]);
+
+  if (templateRows.error) throw templateRows.error;
+  if (leadRows.error) throw leadRows.error;
+
+  const templateNames = new Map((templateRows.data || []).map((row) => [row.id, row.name]));
+  const leadNames = new Map((leadRows.data || []).map((row) => [row.id, row.name]));
+
+  return {
+    days: period,
+    truncated: (logs || []).length >= MAX_STATS_EMAILS,
+    totals,
+    templates: [...templates.values()]
+      .map((row) => ({
+        ...row,
+        name: row.template_id ? templateNames.get(row.template_id) || 'Deleted template' : 'No template',
+      }))
+      .sort((a, b) => b.sent - a.sent),
+    leads: topLeads.map((row) => ({
+      ...row,
+      name: row.lead_id ? leadNames.get(row.lead_id) || null : null,
+    })),
+  };
+}
@@ -0,0 +1,311 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { recordDuplicateCandidates, toE164 } from './leadMatching.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// page_leads columns a spreadsheet column can be mapped to
+export const IMPORT_FIELDS = [
+  'name',
+  'email',
+  'phone_number',
+  'address',
+  'notes',
+  'pipeline_stage',
+  'assigned_to',
+  'follow_up_date',
+];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const DUPLICATE_MODES = ['skip', 'update'];
+const PIPELINE_STAGES = ['new', 'contacted', 'qualified', 'won', 'lost'];
+const MAX_FIELD_LENGTH = 2000;
+const INSERT_BATCH_SIZE = 500;
+const EXISTING_PAGE_SIZE = 1000;
+
+const EXISTING_COLUMNS = 'id, name, email, phone_number, phone_e164, address, notes, assigned_to, follow_up_date';
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+/**
+ * Validate the body of an import request
+ * rows: [{ row, name, email, ... }] where row is the line number in the file
+ */
+export function parseImportRequest(body) {
+  const rows = body?.rows;
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw badRequest('rows must be a non-empty array');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw badRequest(`A file can have at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const onDuplicate = body.on_duplicate || 'skip';
+  if (!DUPLICATE_MODES.includes(onDuplicate)) {
+    throw badRequest(`on_duplicate must be one of: ${DUPLICATE_MODES.join(', ')}`);
+  }
+
+  return { rows, onDuplicate, dryRun: body.dry_run === true };
+}
+
+function cleanText(value) {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/**
+ * "2026-03-05" from an ISO date or anything Date can parse, or null
+ */
+function toDateOnly(value) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  const pad = (number) => String(number).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Lead fields of one imported row, normalized, with the reasons it can't be imported
+ */
+export function validateImportRow(row) {
+  const errors = [];
+  const lead = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const value = cleanText(row?.[field]);
+    if (!value) continue;
+
+    if (value.length > MAX_FIELD_LENGTH) {
+      errors.push(`${field} is longer than ${MAX_FIELD_LENGTH} characters`);
+      continue;
+    }
+
+    switch (field) {
+      case 'email':
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) errors.push(`Invalid email "${value}"`);
+        else lead.email = value.toLowerCase();
+        break;
+      case 'phone_number': {
+        const phoneE164 = toE164(value);
+        if (!phoneE164) {
+          errors.push(`Invalid phone number "${value}"`);
+        } else {
+          lead.phone_number = phoneE164;
+          lead.phone_e164 = phoneE164;
+        }
+        break;
+      }
+      case 'pipeline_stage': {
+        const stage = value.toLowerCase();
+        if (!PIPELINE_STAGES.includes(stage)) {
+          errors.push(`Stage must be one of: ${PIPELINE_STAGES.join(', ')}`);
+        } else {
+          lead.pipeline_stage = stage;
+        }
+        break;
+      }
+      case 'follow_up_date': {
+        const date = toDateOnly(value);
+        if (!date) errors.push(`Invalid follow-up date "${value}"`);
+        else lead.follow_up_date = date;
+        break;
+      }
+      default:
+        lead[field] = value;
+    }
+  }
+
+  if (!lead.phone_number && !lead.email && !errors.some((error) => /phone|email/i.test(error))) {
+    errors.push('Needs a phone number or email');
+  }
+
+  return { lead, errors };
+}
+
+/**
+ * All of a user's leads indexed by phone number and email, for matching imported rows
+ */
+async function loadExistingLeads(userId) {
+  const byPhone = new Map();
+  const byEmail = new Map();
+
+  for (let from = 0; ; from += EXISTING_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('page_leads')
+      .select(EXISTING_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .range(from, from + EXISTING_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const lead of data || []) {
+      // Oldest lead wins, like findExistingLead
+      const phone = lead.phone_e164 || toE164(lead.phone_number);
+      if (phone && !byPhone.has(phone)) byPhone.set(phone, lead);
+      const email = lead.email?.trim().toLowerCase();
+      if (email && !byEmail.has(email)) byEmail.set(email, lead);
+    }
+
+    if (!data || data.length < EXISTING_PAGE_SIZE) break;
+  }
+
+  return { byPhone, byEmail };
+}
+
+/**
+ * Fields of an existing lead that are blank and filled in the imported row
+ */
+function missingFields(existing, lead) {
+  const patch = {};
+
+  for (const field of IMPORT_FIELDS) {
+    if (field === 'pipeline_stage' || !lead[field] || existing[field]) continue;
+    patch[field] = lead[field];
+  }
+
+  if (patch.phone_number) patch.phone_e164 = lead.phone_e164;
+  return patch;
+}
+
+/**
+ * Import spreadsheet rows as page_leads of a user
+ * Rows matching an existing lead or an earlier row by phone number or email are skipped,
+ * or with onDuplicate 'update' fill in the existing lead's blank fields.
+ * With dryRun nothing is written and the results show what an import would do.
+ */
+export async function importLeads(userId, rows, { onDuplicate = 'skip', dryRun = false } = {}) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { byPhone, byEmail } = await loadExistingLeads(userId);
+
+  // Rows already seen in this file, by phone number and email
+  const seenPhones = new Map();
+  const seenEmails = new Map();
+
+  const results = [];
+  const inserts = [];
+  const updates = [];
+  const updatedLeadIds = new Set();
+
+  rows.forEach((row, index) => {
+    const rowNumber = Number.isInteger(row?.row) ? row.row : index + 1;
+    const { lead, errors } = validateImportRow(row);
+
+    if (errors.length > 0) {
+      results.push({ row: rowNumber, status: 'error', errors });
+      return;
+    }
+
+    const earlierRow = (lead.phone_e164 && seenPhones.get(lead.phone_e164)) || (lead.email && seenEmails.get(lead.email));
+    if (earlierRow) {
+      results.push({ row: rowNumber, status: 'skipped', message: `Same contact as row ${earlierRow}` });
+      return;
+    }
+    if (lead.phone_e164) seenPhones.set(lead.phone_e164, rowNumber);
+    if (lead.email) seenEmails.set(lead.email, rowNumber);
+
+    const existing = (lead.phone_e164 && byPhone.get(lead.phone_e164)) || (lead.email && byEmail.get(lead.email));
+    if (existing) {
+      const patch = onDuplicate === 'update' ? missingFields(existing, lead) : {};
+
+      if (Object.keys(patch).length === 0 || updatedLeadIds.has(existing.id)) {
+        results.push({ row: rowNumber, status: 'skipped', lead_id: existing.id, message: 'Already a lead' });
+        return;
+      }
+
+      updatedLeadIds.add(existing.id);
+      const result = { row: rowNumber, status: 'updated', lead_id: existing.id, message: `Filled in ${Object.keys(patch).join(', ')}` };
+      results.push(result);
+      updates.push({ result, leadId: existing.id, patch });
+      return;
+    }
+
+    const result = { row: rowNumber, status: 'created', lead_id: null };
+    results.push(result);
+    inserts.push({
+      result,
+      lead: {
+        ...lead,
+        user_id: userId,
+        source: 'import',
+        // An imported stage was chosen by a person, so call analysis must not overwrite it
+        ...(lead.pipeline_stage ? { stage_set_by: 'user' } : {}),
+      },
+    });
+  });
+
+  if (!dryRun) {
+    const insertedLeads = [];
+
+    for (let start = 0; start < inserts.length; start += INSERT_BATCH_SIZE) {
+      const batch = inserts.slice(start, start + INSERT_BATCH_SIZE);
+      const { data, error } = await supabaseAdmin
+        .from('page_leads')
+        .insert(batch.map(({ lead }) => lead))
+        .select('id, user_id, name, email, phone_number, phone_e164');
+
+      batch.forEach(({ result }, index) => {
+        if (error) {
+          result.status = 'error';
+          result.errors = [error.message];
+        } else {
+          result.lead_id = data?.[index]?.id || null;
+        }
+      });
+
+      if (!error) insertedLeads.push(...(data || []));
+    }
+
+    // Near matches (same person, different spelling or number format) go to the review queue,
+    // as for leads created from calls
+    for (const lead of insertedLeads) {
+      try {
+        await recordDuplicateCandidates(lead);
+      } catch (duplicateError) {
+        console.error(`Error finding duplicates of imported lead ${lead.id}:`, duplicateError);
+      }
+    }
+
+    for (const { result, leadId, patch } of updates) {
+      const { error } = await supabaseAdmin
+        .from('page_leads')
+        .update(patch)
+        .eq('id', leadId)
+        .eq('user_id', userId);
+
+      if (error) {
+        result.status = 'error';
+        result.errors = [error.message];
+      }
+    }
+  }
+
+  const summary = { total: results.length, created: 0, updated: 0, skipped: 0, failed: 0 };
+  for (const result of results) {
+    if (result.status === 'error') summary.failed++;
+    else summary[result.status]++;
+  }
+
+  return { dry_run: dryRun, summary, results };
+}
@@ -0,0 +1,248 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// Country calling code assumed for numbers spoken without one
+const DEFAULT_COUNTRY_CODE = (process.env.LEAD_DEFAULT_COUNTRY_CODE || '1').replace(/\D/g, '') || '1';
+
+// Most recent leads compared against a new lead when looking for duplicates
+const DUPLICATE_SCAN_LIMIT = Math.max(parseInt(process.env.LEAD_DUPLICATE_SCAN_LIMIT || '1000'), 1);
+
+// Combined score a pair needs to be queued for review
+const DUPLICATE_THRESHOLD = 0.7;
+
+// How much each kind of match counts towards the combined score
+const MATCH_WEIGHTS = {
+  same_phone: 1,
+  same_email: 0.95,
+  same_name: 0.6,
+  similar_name: 0.5,
+  same_phone_suffix: 0.5,
+  similar_email: 0.4,
+};
+
+// Mailboxes that ignore dots in the local part
+const DOTLESS_EMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+/**
+ * Phone number in E.164 format (+<country code><number>), or null if it can't be one
+ * Numbers without a country code get LEAD_DEFAULT_COUNTRY_CODE, dropping a national trunk 0
+ */
+export function toE164(phoneNumber) {
+  if (!phoneNumber || typeof phoneNumber !== 'string') return null;
+
+  const text = phoneNumber.trim();
+  let digits;
+
+  if (text.startsWith('+') || text.startsWith('00')) {
+    digits = text.replace(/^00/, '').replace(/\D/g, '');
+  } else {
+    const local = text.replace(/\D/g, '');
+    if (DEFAULT_COUNTRY_CODE === '1') {
+      // North American numbers are 10 digits, sometimes spoken with the leading 1
+      if (local.length === 10) digits = `1${local}`;
+      else if (local.length === 11 && local.startsWith('1')) digits = local;
+      else return null;
+    } else {
+      digits = `${DEFAULT_COUNTRY_CODE}${local.replace(/^0/, '')}`;
+    }
+  }
+
+  return /^[1-9]\d{6,14}$/.test(digits) ? `+${digits}` : null;
+}
+
+/**
+ * Email reduced to the mailbox it delivers to: lower-cased, without a +tag,
+ * and without dots for providers that ignore them
+ */
+export function canonicalEmail(email) {
+  if (!email || typeof email !== 'string' || !email.includes('@')) return null;
+
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  if (!local || !domain) return null;
+
+  let mailbox = local.split('+')[0];
+  if (DOTLESS_EMAIL_DOMAINS.includes(domain)) mailbox = mailbox.replace(/\./g, '');
+
+  return `${mailbox}@${domain}`;
+}
+
+/**
+ * Lower-cased name words in alphabetical order, so "Smith, John" matches "john smith"
+ */
+function normalizeName(name) {
+  if (!name || typeof name !== 'string') return '';
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+/**
+ * Levenshtein similarity between two strings, 1 for identical
+ */
+function similarity(a, b) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * How likely two leads are the same person, with the reasons that matched
+ * Each reason adds to the score as an independent signal: 1 - product of (1 - weight)
+ */
+export function scoreDuplicate(lead, other) {
+  const reasons = [];
+
+  const phone = lead.phone_e164 || toE164(lead.phone_number);
+  const otherPhone = other.phone_e164 || toE164(other.phone_number);
+  if (phone && otherPhone) {
+    if (phone === otherPhone) {
+      reasons.push('same_phone');
+    } else if (phone.slice(-7) === otherPhone.slice(-7)) {
+      // Same subscriber number entered with a different or missing area code
+      reasons.push('same_phone_suffix');
+    }
+  }
+
+  const email = canonicalEmail(lead.email);
+  const otherEmail = canonicalEmail(other.email);
+  if (email && otherEmail) {
+    const [mailbox, domain] = email.split('@');
+    const [otherMailbox, otherDomain] = otherEmail.split('@');
+    if (email === otherEmail) {
+      reasons.push('same_email');
+    } else if (domain === otherDomain && similarity(mailbox, otherMailbox) >= 0.8) {
+      reasons.push('similar_email');
+    }
+  }
+
+  const name = normalizeName(lead.name);
+  const otherName = normalizeName(other.name);
+  if (name && otherName) {
+    if (name === otherName) {
+      reasons.push('same_name');
+    } else if (similarity(name, otherName) >= 0.85) {
+      reasons.push('similar_name');
+    }
+  }
+
+  const miss = reasons.reduce((product, reason) => product * (1 - MATCH_WEIGHTS[reason]), 1);
+  return { score: Math.round((1 - miss) * 1000) / 1000, reasons };
+}
+
+/**
+ * Escape LIKE wildcards so a value is matched literally by ilike
+ */
+function escapeLike(value) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Existing lead of a user with the same phone number or email, oldest first
+ */
+export async function findExistingLead(userId, { phoneE164, phoneNumber, email }, columns = 'id') {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const lookups = [];
+  if (phoneE164) lookups.push((query) => query.eq('phone_e164', phoneE164));
+  if (phoneNumber) lookups.push((query) => query.eq('phone_number', phoneNumber));
+  if (email) lookups.push((query) => query.ilike('email', escapeLike(email.trim())));
+
+  for (const applyLookup of lookups) {
+    const { data, error } = await applyLookup(
+      supabaseAdmin.from('page_leads').select(columns).eq('user_id', userId),
+    )
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data;
+  }
+
+  return null;
+}
+
+/**
+ * Compare a newly created lead with the user's recent leads and queue likely duplicates for review
+ */
+export async function recordDuplicateCandidates(lead) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data: others, error } = await supabaseAdmin
+    .from('page_leads')
+    .select('id, name, email, phone_number, phone_e164')
+    .eq('user_id', lead.user_id)
+    .neq('id', lead.id)
+    .order('created_at', { ascending: false })
+    .limit(DUPLICATE_SCAN_LIMIT);
+
+  if (error) throw error;
+
+  const candidates = (others || [])
+    .map((other) => ({ other, ...scoreDuplicate(lead, other) }))
+    .filter(({ score }) => score >= DUPLICATE_THRESHOLD)
+    .map(({ other, score, reasons }) => ({
+      user_id: lead.user_id,
+      lead_id: lead.id,
+      duplicate_of_lead_id: other.id,
+      score,
+      reasons,
+    }));
+
+  if (candidates.length === 0) return 0;
+
+  const { error: insertError } = await supabaseAdmin
+    .from('lead_duplicate_candidates')
+    .upsert(candidates, { onConflict: 'lead_id,duplicate_of_lead_id', ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+  return candidates.length;
+}
+
+/**
+ * Link a call to a lead for the lead timeline; a call belongs to one lead
+ */
+export async function linkCallToLead(leadId, call) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { error } = await supabaseAdmin
+    .from('lead_calls')
+    .upsert({ lead_id: leadId, call_id: call.id, user_id: call.user_id }, { onConflict: 'call_id' });
+
+  if (error) throw error;
+}
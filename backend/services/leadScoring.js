@@ -0,0 +1,329 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { CALL_TYPES } from './callAnalysisSchema.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// Analysis fields that add to a lead's score, each worth up to its weight in points
+export const SCORING_FACTORS = [
+  'urgency_level',
+  'call_type',
+  'appointment_scheduled',
+  'order_total',
+  'sentiment',
+  'repeat_caller',
+];
+
+const MAX_WEIGHT = 100;
+const PAGE_SIZE = 1000;
+
+const DEFAULT_SETTINGS = {
+  // When false the score is only shown; lead strength stays what the AI answered
+  enabled: false,
+  weights: {
+    urgency_level: 20,
+    call_type: 20,
+    appointment_scheduled: 25,
+    order_total: 15,
+    sentiment: 10,
+    repeat_caller: 10,
+  },
+  // Call types that count as buying intent for the call_type factor
+  call_types: ['order', 'appointment', 'sales_inquiry'],
+  // Order total that earns the full order_total weight; smaller orders earn part of it
+  order_total_target: 100,
+  // Minimum score for each lead strength; anything lower is cold
+  thresholds: { hot: 70, warm: 40 },
+};
+
+const SCORE_COLUMNS = 'id, is_lead, status, lead_strength, call_type, urgency_level, appointment_date, order_total, sentiment, lead_score, lead_score_breakdown, ai_lead_strength:extracted_data->>lead_strength';
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function toInteger(value, fallback, min, max) {
+  const parsed = parseInt(value);
+  return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+}
+
+/**
+ * Valid scoring settings from a stored lead_scoring_settings value
+ */
+export function normalizeLeadScoringSettings(raw) {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return structuredClone(DEFAULT_SETTINGS);
+  }
+
+  const weights = {};
+  for (const factor of SCORING_FACTORS) {
+    weights[factor] = toInteger(raw.weights?.[factor], DEFAULT_SETTINGS.weights[factor], 0, MAX_WEIGHT);
+  }
+
+  const callTypes = Array.isArray(raw.call_types)
+    ? [...new Set(raw.call_types.filter((type) => CALL_TYPES.includes(type)))]
+    : DEFAULT_SETTINGS.call_types;
+
+  const orderTotalTarget = parseFloat(raw.order_total_target);
+
+  let hot = toInteger(raw.thresholds?.hot, DEFAULT_SETTINGS.thresholds.hot, 1, 100);
+  let warm = toInteger(raw.thresholds?.warm, DEFAULT_SETTINGS.thresholds.warm, 0, 99);
+  if (warm >= hot) {
+    ({ hot, warm } = DEFAULT_SETTINGS.thresholds);
+  }
+
+  return {
+    enabled: raw.enabled === true,
+    weights,
+    call_types: callTypes,
+    order_total_target: orderTotalTarget > 0 ? orderTotalTarget : DEFAULT_SETTINGS.order_total_target,
+    thresholds: { hot, warm },
+  };
+}
+
+/**
+ * Validate scoring settings sent by a user; unlike normalizing, bad values are errors
+ */
+export function parseLeadScoringSettings(body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw badRequest('Scoring settings must be an object');
+  }
+
+  const hot = parseInt(body.thresholds?.hot);
+  const warm = parseInt(body.thresholds?.warm);
+  if (!Number.isFinite(hot) || !Number.isFinite(warm) || warm < 0 || hot > 100 || warm >= hot) {
+    throw badRequest('Thresholds must satisfy 0 <= warm < hot <= 100');
+  }
+
+  const settings = normalizeLeadScoringSettings(body);
+  if (Object.values(settings.weights).every((weight) => weight === 0)) {
+    throw badRequest('At least one factor needs a weight above 0');
+  }
+
+  return settings;
+}
+
+/**
+ * Load an account's scoring settings
+ */
+export async function getLeadScoringSettings(userId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('lead_scoring_settings')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return normalizeLeadScoringSettings(data?.lead_scoring_settings);
+}
+
+/**
+ * Amount from an order total like "$1,250.00" or "25 USD", or null
+ */
+function parseOrderTotal(value) {
+  if (value === null || value === undefined) return null;
+  const amount = parseFloat(String(value).replace(/,/g, '').replace(/[^0-9.]/g, ''));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * hot, warm or cold for a score
+ */
+export function tierForScore(score, thresholds) {
+  if (score >= thresholds.hot) return 'hot';
+  if (score >= thresholds.warm) return 'warm';
+  return 'cold';
+}
+
+/**
+ * Score 0-100 of a lead from its analysis fields, with the points each factor earned
+ * Returns null for leads without an analyzed call
+ */
+export function scoreLead(lead, settings, { repeatCaller = false } = {}) {
+  if (!lead?.call_type) return null;
+
+  const orderTotal = parseOrderTotal(lead.order_total);
+
+  // Share of each factor's weight the lead earns, 0-1
+  const factors = {
+    urgency_level: {
+      value: lead.urgency_level || 'unknown',
+      share: { high: 1, medium: 0.5 }[lead.urgency_level] || 0,
+    },
+    call_type: {
+      value: lead.call_type,
+      share: settings.call_types.includes(lead.call_type) ? 1 : 0,
+    },
+    appointment_scheduled: {
+      value: lead.appointment_date || 'none',
+      share: lead.appointment_date ? 1 : 0,
+    },
+    order_total: {
+      value: lead.order_total || 'none',
+      share: orderTotal ? Math.min(orderTotal / settings.order_total_target, 1) : 0,
+    },
+    sentiment: {
+      value: lead.sentiment || 'unknown',
+      share: { positive: 1, neutral: 0.5 }[lead.sentiment] || 0,
+    },
+    repeat_caller: {
+      value: repeatCaller ? 'yes' : 'no',
+      share: repeatCaller ? 1 : 0,
+    },
+  };
+
+  const breakdown = SCORING_FACTORS.map((factor) => ({
+    factor,
+    value: String(factors[factor].value),
+    points: Math.round(factors[factor].share * settings.weights[factor] * 10) / 10,
+    max_points: settings.weights[factor],
+  }));
+
+  const maxPoints = breakdown.reduce((sum, item) => sum + item.max_points, 0);
+  const points = breakdown.reduce((sum, item) => sum + item.points, 0);
+  const score = maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0;
+
+  return { score, tier: tierForScore(score, settings.thresholds), breakdown };
+}
+
+/**
+ * Whether a lead has calls other than the given one
+ */
+export async function isRepeatCaller(leadId, callId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { count, error } = await supabaseAdmin
+    .from('lead_calls')
+    .select('id', { count: 'exact', head: true })
+    .eq('lead_id', leadId)
+    .neq('call_id', callId);
+
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+/**
+ * Number of linked calls per lead of a user
+ */
+async function countCallsPerLead(userId) {
+  const counts = new Map();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('lead_calls')
+      .select('lead_id')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const link of data || []) {
+      counts.set(link.lead_id, (counts.get(link.lead_id) || 0) + 1);
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return counts;
+}
+
+/**
+ * Rescore all leads of a user, e.g. after the weights changed
+ * With scoring disabled, lead strength goes back to what the AI answered for the lead's last call
+ * Returns the number of leads that changed
+ */
+export async function recomputeLeadScores(userId, settings) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const callCounts = await countCallsPerLead(userId);
+  const scoredAt = new Date().toISOString();
+  let changed = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: leads, error } = await supabaseAdmin
+      .from('page_leads')
+      .select(SCORE_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const lead of leads || []) {
+      const result = scoreLead(lead, settings, { repeatCaller: (callCounts.get(lead.id) || 0) > 1 });
+      if (!result) continue;
+
+      const leadStrength = lead.is_lead
+        ? (settings.enabled ? result.tier : lead.ai_lead_strength || lead.lead_strength)
+        : lead.lead_strength;
+
+      const unchanged = lead.lead_score === result.score
+        && lead.lead_strength === leadStrength
+        && JSON.stringify(lead.lead_score_breakdown) === JSON.stringify(result.breakdown);
+      if (unchanged) continue;
+
+      const update = {
+        lead_score: result.score,
+        lead_score_breakdown: result.breakdown,
+        lead_scored_at: scoredAt,
+        lead_strength: leadStrength,
+      };
+      // Leads without another status carry their strength as status
+      if (['hot', 'warm', 'cold'].includes(lead.status) && leadStrength) {
+        update.status = leadStrength;
+      }
+
+      const { error: updateError } = await supabaseAdmin
+        .from('page_leads')
+        .update(update)
+        .eq('id', lead.id);
+
+      if (updateError) throw updateError;
+      changed++;
+    }
+
+    if (!leads || leads.length < PAGE_SIZE) break;
+  }
+
+  return changed;
+}
+
+/**
+ * Save an account's scoring settings and rescore its leads
+ */
+export async function saveLeadScoringSettings(userId, settings) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { error } = await supabaseAdmin
+    .from('profiles')
+    .update({ lead_scoring_settings: settings })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const rescored = await recomputeLeadScores(userId, settings);
+  return { settings, rescored };
+}
@@ -0,0 +1,206 @@
+import OpenAI from 'openai';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Initialize Supabase admin client (token accounting)
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+/**
+ * Features that call the LLM
+ * Each one can be pointed at its own provider and model:
+ *   LLM_<FEATURE>_PROVIDER, LLM_<FEATURE>_MODEL  (e.g. LLM_CALL_ANALYSIS_MODEL)
+ */
+export const LLM_FEATURES = {
+  CALL_ANALYSIS: 'call_analysis',
+  DOCUMENT_EXTRACTION: 'document_extraction',
+  PROMPT_GENERATION: 'prompt_generation',
+  PROMPT_FORMATTING: 'prompt_formatting',
+  SIDEBAR_PROMPT: 'sidebar_prompt',
+  CHATBOT: 'chatbot',
+  EMAIL_GENERATION: 'email_generation',
+  PII_REDACTION: 'pii_redaction',
+};
+
+// Models used when neither LLM_<FEATURE>_MODEL nor LLM_DEFAULT_MODEL is set
+const DEFAULT_MODELS = {
+  [LLM_FEATURES.CALL_ANALYSIS]: 'gpt-4o-mini',
+  [LLM_FEATURES.DOCUMENT_EXTRACTION]: 'gpt-4o',
+  [LLM_FEATURES.PROMPT_GENERATION]: 'gpt-4o',
+  [LLM_FEATURES.PROMPT_FORMATTING]: 'gpt-4',
+  [LLM_FEATURES.SIDEBAR_PROMPT]: 'gpt-4',
+  [LLM_FEATURES.CHATBOT]: 'gpt-3.5-turbo',
+  [LLM_FEATURES.EMAIL_GENERATION]: 'gpt-4o',
+  [LLM_FEATURES.PII_REDACTION]: 'gpt-4o-mini',
+};
+
+const TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '60000');
+const MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || '2');
+
+/**
+ * Provider settings
+ * "local" is any OpenAI-compatible server (vLLM, Ollama, LM Studio, llama.cpp ...)
+ */
+const PROVIDERS = {
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY?.trim(),
+    baseURL: process.env.OPENAI_BASE_URL?.trim() || undefined,
+    supportsJsonMode: true,
+    missingConfigError: 'OPENAI_API_KEY is not configured',
+  },
+  local: {
+    // Most self-hosted servers ignore the key, but the SDK requires one
+    apiKey: process.env.LOCAL_LLM_API_KEY?.trim() || 'local',
+    baseURL: process.env.LOCAL_LLM_BASE_URL?.trim() || undefined,
+    supportsJsonMode: process.env.LOCAL_LLM_JSON_MODE !== 'false',
+    missingConfigError: 'LOCAL_LLM_BASE_URL is not configured',
+  },
+};
+
+const clients = {};
+
+/**
+ * Read a per-feature setting, e.g. getFeatureSetting('call_analysis', 'MODEL') -> LLM_CALL_ANALYSIS_MODEL
+ */
+function getFeatureSetting(feature, setting) {
+  return process.env[`LLM_${feature.toUpperCase()}_${setting}`]?.trim();
+}
+
+/**
+ * Resolve the provider name and model for a feature
+ */
+export function getFeatureConfig(feature) {
+  const provider = getFeatureSetting(feature, 'PROVIDER') || process.env.LLM_PROVIDER?.trim() || 'openai';
+  const model = getFeatureSetting(feature, 'MODEL') || process.env.LLM_DEFAULT_MODEL?.trim() || DEFAULT_MODELS[feature];
+
+  if (!PROVIDERS[provider]) {
+    throw new Error(`Unknown LLM provider "${provider}" for ${feature}`);
+  }
+
+  return { provider, model };
+}
+
+/**
+ * Whether the provider for a feature has the settings it needs
+ */
+function isProviderConfigured(provider) {
+  if (provider === 'local') {
+    return Boolean(PROVIDERS.local.baseURL);
+  }
+  return Boolean(PROVIDERS[provider].apiKey);
+}
+
+/**
+ * Throw the provider's configuration error if the feature cannot call its LLM
+ */
+export function assertLlmConfigured(feature) {
+  const { provider } = getFeatureConfig(feature);
+  if (!isProviderConfigured(provider)) {
+    throw new Error(PROVIDERS[provider].missingConfigError);
+  }
+}
+
+/**
+ * Get (and cache) the SDK client for a provider
+ * Timeouts and retries with backoff are handled by the SDK
+ */
+function getClient(provider) {
+  if (!clients[provider]) {
+    const settings = PROVIDERS[provider];
+    clients[provider] = new OpenAI({
+      apiKey: settings.apiKey,
+      baseURL: settings.baseURL,
+      timeout: TIMEOUT_MS,
+      maxRetries: MAX_RETRIES,
+    });
+  }
+  return clients[provider];
+}
+
+/**
+ * Store token usage for one completion
+ * Accounting must never break the feature, so failures are only logged
+ */
+async function recordUsage(entry) {
+  if (!supabaseAdmin) return;
+
+  try {
+    const { error } = await supabaseAdmin.from('llm_usage').insert(entry);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error recording LLM usage:', error.message || error);
+  }
+}
+
+/**
+ * Run a chat completion for a feature
+ *
+ * @param feature - One of LLM_FEATURES
+ * @param options - { messages, temperature, maxTokens, jsonMode, userId }
+ * @returns { content, model, provider, usage }
+ */
+export async function createChatCompletion(feature, options) {
+  const { messages, temperature, maxTokens, jsonMode = false, userId = null } = options;
+
+  assertLlmConfigured(feature);
+
+  const { provider, model } = getFeatureConfig(feature);
+  const settings = PROVIDERS[provider];
+  const startedAt = Date.now();
+
+  const request = {
+    model: model,
+    messages: messages,
+    temperature: temperature,
+    max_tokens: maxTokens,
+  };
+
+  // Servers without JSON mode still get the prompt's "output JSON only" instructions
+  if (jsonMode && settings.supportsJsonMode) {
+    request.response_format = { type: 'json_object' };
+  }
+
+  try {
+    const completion = await getClient(provider).chat.completions.create(request);
+    const usage = completion.usage || {};
+
+    recordUsage({
+      user_id: userId,
+      feature: feature,
+      provider: provider,
+      model: completion.model || model,
+      prompt_tokens: usage.prompt_tokens || 0,
+      completion_tokens: usage.completion_tokens || 0,
+      total_tokens: usage.total_tokens || 0,
+      duration_ms: Date.now() - startedAt,
+      success: true,
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model || model,
+      provider: provider,
+      usage: usage,
+    };
+  } catch (error) {
+    recordUsage({
+      user_id: userId,
+      feature: feature,
+      provider: provider,
+      model: model,
+      duration_ms: Date.now() - startedAt,
+      success: false,
+      error: error.message || String(error),
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,410 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { decryptSecret, encryptSecret, isVaultConfigured } from './smtpVault.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+export const STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const START_TTL_MS = 2 * 60 * 1000; // 2 minutes to open the start link
+const EXPIRY_MARGIN_MS = 60 * 1000; // refresh a minute before the access token expires
+const MICROSOFT_TENANT = process.env.MICROSOFT_OAUTH_TENANT || 'common';
+
+/**
+ * OAuth providers a mailbox can be connected with
+ * Every URL and the SMTP server can be overridden to point at a local mock server
+ */
+const PROVIDERS = {
+  google: {
+    label: 'Google',
+    clientId: process.env.GOOGLE_OAUTH_CLIENT_ID,
+    clientSecret: process.env.GOOGLE_OAUTH_CLIENT_SECRET,
+    authUrl: process.env.GOOGLE_OAUTH_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+    scope: 'openid email https://mail.google.com/',
+    // Google only returns a refresh token on the consent screen
+    authParams: { access_type: 'offline', prompt: 'consent' },
+    smtpHost: process.env.GOOGLE_SMTP_HOST || 'smtp.gmail.com',
+    smtpPort: parseInt(process.env.GOOGLE_SMTP_PORT || '465'),
+  },
+  microsoft: {
+    label: 'Microsoft 365',
+    clientId: process.env.MICROSOFT_OAUTH_CLIENT_ID,
+    clientSecret: process.env.MICROSOFT_OAUTH_CLIENT_SECRET,
+    authUrl: process.env.MICROSOFT_OAUTH_AUTH_URL || `https://login.microsoftonline.com/${MICROSOFT_TENANT}/oauth2/v2.0/authorize`,
+    tokenUrl: process.env.MICROSOFT_OAUTH_TOKEN_URL || `https://login.microsoftonline.com/${MICROSOFT_TENANT}/oauth2/v2.0/token`,
+    scope: 'openid email offline_access https://outlook.office.com/SMTP.Send',
+    authParams: { prompt: 'select_account' },
+    smtpHost: process.env.MICROSOFT_SMTP_HOST || 'smtp.office365.com',
+    smtpPort: parseInt(process.env.MICROSOFT_SMTP_PORT || '587'),
+  },
+};
+
+// One refresh per mailbox at a time; concurrent sends wait for the same token
+const refreshes = new Map();
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function getProvider(provider) {
+  const config = PROVIDERS[provider];
+  if (!config) {
+    throw badRequest('Unknown email provider');
+  }
+  return config;
+}
+
+export function isOAuthProviderConfigured(provider) {
+  const config = PROVIDERS[provider];
+  return Boolean(config?.clientId && config?.clientSecret && isVaultConfigured());
+}
+
+/**
+ * Providers for the Email page; unconfigured ones are shown as unavailable
+ */
+export function getOAuthProviders() {
+  return Object.entries(PROVIDERS).map(([id, config]) => ({
+    id,
+    label: config.label,
+    configured: isOAuthProviderConfigured(id),
+  }));
+}
+
+/**
+ * SMTP server an OAuth mailbox sends through
+ * Not saved on the mailbox, whose own settings stay those of its SMTP password
+ */
+export function getOAuthSmtpSettings(provider) {
+  const config = getProvider(provider);
+  return {
+    smtp_host: config.smtpHost,
+    smtp_port: config.smtpPort,
+    smtp_secure: config.smtpPort === 465,
+  };
+}
+
+function getBackendUrl() {
+  return (process.env.BACKEND_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+}
+
+function getRedirectUri(provider) {
+  return `${getBackendUrl()}/api/mailboxes/oauth/${provider}/callback`;
+}
+
+/**
+ * Provider sign-in URL for connecting a mailbox
+ * The state carries the user and the PKCE verifier, encrypted, so the
+ * callback needs no session. It also carries a nonce set as a cookie when
+ * the start link is opened, so only that browser can finish the sign-in
+ * Returns { url, nonce }
+ */
+function createOAuthAuthorizationUrl(userId, provider, { name = null } = {}) {
+  const config = getProvider(provider);
+  if (!isOAuthProviderConfigured(provider)) {
+    throw badRequest(`${config.label} sign-in is not set up on this server. Use an app password instead.`);
+  }
+
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  const nonce = crypto.randomBytes(24).toString('base64url');
+  const state = encryptSecret(JSON.stringify({
+    userId,
+    provider,
+    name,
+    verifier,
+    nonce,
+    expiresAt: Date.now() + STATE_TTL_MS,
+  }));
+
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    redirect_uri: getRedirectUri(provider),
+    response_type: 'code',
+    scope: config.scope,
+    state,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+    ...config.authParams,
+  });
+
+  return {
+    url: `${config.authUrl}?${params.toString()}`,
+    nonce,
+  };
+}
+
+/**
+ * Link the browser opens to start connecting a mailbox
+ * Opening it is a top-level navigation to this server, so the nonce cookie
+ * is stored even when the frontend runs on another site
+ */
+export function createOAuthStartUrl(userId, provider, options) {
+  const { url, nonce } = createOAuthAuthorizationUrl(userId, provider, options);
+  const ticket = encryptSecret(JSON.stringify({
+    provider,
+    url,
+    nonce,
+    expiresAt: Date.now() + START_TTL_MS,
+  }));
+
+  return `${getBackendUrl()}/api/mailboxes/oauth/${provider}/start?${new URLSearchParams({ ticket }).toString()}`;
+}
+
+/**
+ * Read a start link's ticket
+ * Returns { url, nonce }: the provider sign-in URL and the cookie to set
+ */
+export function openOAuthStartTicket(ticket, provider) {
+  let payload;
+  try {
+    payload = JSON.parse(decryptSecret(ticket));
+  } catch {
+    throw badRequest('Invalid sign-in request. Please try again.');
+  }
+
+  if (payload.provider !== provider || !payload.url || !payload.nonce) {
+    throw badRequest('Invalid sign-in request. Please try again.');
+  }
+  if (payload.expiresAt < Date.now()) {
+    throw badRequest('The sign-in request expired. Please try again.');
+  }
+
+  return { url: payload.url, nonce: payload.nonce };
+}
+
+function nonceMatches(expected, actual) {
+  if (typeof expected !== 'string' || typeof actual !== 'string' || !actual) return false;
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function parseState(state, provider, nonce) {
+  let payload;
+  try {
+    payload = JSON.parse(decryptSecret(state));
+  } catch {
+    throw badRequest('Invalid sign-in request. Please try again.');
+  }
+
+  if (payload.provider !== provider || !payload.userId || !payload.verifier) {
+    throw badRequest('Invalid sign-in request. Please try again.');
+  }
+  if (payload.expiresAt < Date.now()) {
+    throw badRequest('The sign-in request expired. Please try again.');
+  }
+  // Someone else's sign-in link, opened in this browser
+  if (!nonceMatches(payload.nonce, nonce)) {
+    throw badRequest('This sign-in was started in a different browser. Please start it again from the Email page.');
+  }
+
+  return payload;
+}
+
+/**
+ * POST to the provider's token endpoint
+ * Errors carry the OAuth error code, e.g. invalid_grant for revoked access
+ */
+async function requestToken(provider, params) {
+  const config = getProvider(provider);
+
+  const response = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      ...params,
+    }).toString(),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.access_token) {
+    const error = new Error(data.error_description || data.error || `Token request failed with status ${response.status}`);
+    error.oauthError = data.error || null;
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Address the user signed in with, from the ID token
+ * It comes straight from the token endpoint over TLS, so its signature isn't checked
+ */
+function getIdTokenEmail(idToken) {
+  try {
+    const payload = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf8'));
+    return (payload.email || payload.preferred_username || payload.upn || '').trim().toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+function getExpiresAt(tokens) {
+  const expiresIn = parseInt(tokens.expires_in || '3600');
+  return new Date(Date.now() + expiresIn * 1000).toISOString();
+}
+
+/**
+ * Finish connecting a mailbox after the provider redirects back
+ * nonce is the cookie set when the sign-in started
+ * Connects a new mailbox or switches an existing one to OAuth; a saved
+ * SMTP password and its server settings are kept as a fallback
+ */
+export async function completeOAuthConnection(provider, code, state, nonce) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { userId, name, verifier } = parseState(state, provider, nonce);
+
+  if (!code) {
+    throw badRequest('Missing authorization code');
+  }
+
+  const tokens = await requestToken(provider, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(provider),
+    code_verifier: verifier,
+  });
+
+  if (!tokens.refresh_token) {
+    throw badRequest('No refresh token was returned. Remove the app from your account\'s connected apps and try again.');
+  }
+
+  const email = tokens.id_token ? getIdTokenEmail(tokens.id_token) : null;
+  if (!email) {
+    throw badRequest('Could not read the email address of the signed-in account');
+  }
+
+  const connection = {
+    auth_type: 'oauth',
+    oauth_provider: provider,
+    oauth_refresh_token_encrypted: encryptSecret(tokens.refresh_token),
+    oauth_access_token_encrypted: encryptSecret(tokens.access_token),
+    oauth_token_expires_at: getExpiresAt(tokens),
+    oauth_error: null,
+    smtp_configured: true,
+    smtp_verified_at: null,
+    // Signing in proves the user owns the address
+    is_verified: true,
+  };
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from('user_emails')
+    .select('id')
+    .eq('user_id', userId)
+    .ilike('email', email.replace(/[\\%_]/g, '\\$&'))
+    .limit(1)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  const { error } = existing
+    ? await supabaseAdmin
+        .from('user_emails')
+        .update(connection)
+        .eq('id', existing.id)
+    : await supabaseAdmin
+        .from('user_emails')
+        .insert({
+          user_id: userId,
+          email,
+          name: name || null,
+          is_primary: false,
+          ...connection,
+        });
+
+  if (error) throw error;
+
+  return { email };
+}
+
+async function refreshAccessToken(mailbox) {
+  try {
+    const tokens = await requestToken(mailbox.oauth_provider, {
+      grant_type: 'refresh_token',
+      refresh_token: decryptSecret(mailbox.oauth_refresh_token_encrypted),
+    });
+
+    const updates = {
+      oauth_access_token_encrypted: encryptSecret(tokens.access_token),
+      oauth_token_expires_at: getExpiresAt(tokens),
+      oauth_error: null,
+    };
+    // Microsoft rotates refresh tokens
+    if (tokens.refresh_token) {
+      updates.oauth_refresh_token_encrypted = encryptSecret(tokens.refresh_token);
+    }
+
+    const { error } = await supabaseAdmin
+      .from('user_emails')
+      .update(updates)
+      .eq('id', mailbox.id);
+
+    if (error) {
+      console.error(`Error saving refreshed token for mailbox ${mailbox.id}:`, error);
+    }
+
+    return tokens.access_token;
+  } catch (error) {
+    if (error.oauthError !== 'invalid_grant') throw error;
+
+    // Access was revoked or the refresh token expired: the user has to sign in again
+    await supabaseAdmin
+      .from('user_emails')
+      .update({ oauth_error: error.message })
+      .eq('id', mailbox.id);
+
+    const authError = new Error(`Access to ${mailbox.email} was revoked. Please reconnect it on the Email page.`);
+    authError.code = 'EAUTH';
+    throw authError;
+  }
+}
+
+/**
+ * A valid access token for an OAuth mailbox, refreshed when it's about to expire
+ * Throws with code EAUTH if the user has to reconnect
+ */
+export async function getOAuthAccessToken(mailbox) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const expiresAt = mailbox.oauth_token_expires_at ? new Date(mailbox.oauth_token_expires_at).getTime() : 0;
+  if (mailbox.oauth_access_token_encrypted && expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return decryptSecret(mailbox.oauth_access_token_encrypted);
+  }
+
+  if (!mailbox.oauth_refresh_token_encrypted) {
+    const error = new Error(`${mailbox.email} is not connected. Please reconnect it on the Email page.`);
+    error.code = 'EAUTH';
+    throw error;
+  }
+
+  if (!refreshes.has(mailbox.id)) {
+    refreshes.set(
+      mailbox.id,
+      refreshAccessToken(mailbox).finally(() => refreshes.delete(mailbox.id))
+    );
+  }
+
+  return refreshes.get(mailbox.id);
+}
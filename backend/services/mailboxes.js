@@ -0,0 +1,363 @@
+import nodemailer from 'nodemailer';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { getMailboxCredentials, getMailboxSmtpConfig, getSmtpErrorMessage } from './mailer.js';
+import { encryptSecret, isVaultConfigured } from './smtpVault.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const HOST_REGEX = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/i;
+const CONNECTION_TIMEOUT_MS = 15000;
+
+// Columns users may see; passwords and OAuth tokens stay server-side
+const PUBLIC_COLUMNS = 'id, user_id, email, name, is_primary, is_verified, smtp_host, smtp_port, smtp_secure, smtp_username, smtp_configured, smtp_verified_at, auth_type, oauth_provider, oauth_error, created_at, updated_at';
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function conflict(message) {
+  const error = new Error(message);
+  error.status = 409;
+  return error;
+}
+
+function getString(value) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Validate mailbox settings from POST /api/mailboxes and PUT /api/mailboxes/:id
+ * Empty host, port and username fall back to the settings guessed from the domain
+ * requirePassword: new mailboxes need one, updates keep the saved one when left blank
+ */
+export function parseMailboxSettings(body, { requireEmail = false, requirePassword = false } = {}) {
+  const email = getString(body?.email);
+  const password = typeof body?.smtp_password === 'string' ? body.smtp_password.trim() : '';
+  const host = getString(body?.smtp_host).toLowerCase();
+  const username = getString(body?.smtp_username);
+
+  if (requireEmail && !email) {
+    throw badRequest('Please provide an email address');
+  }
+  if (email && !EMAIL_REGEX.test(email)) {
+    throw badRequest('Invalid email format');
+  }
+  if (requirePassword && !password) {
+    throw badRequest('Please provide the SMTP password for this email');
+  }
+  if (host && !HOST_REGEX.test(host)) {
+    throw badRequest('SMTP host must be a server name like smtp.example.com');
+  }
+
+  let port = null;
+  if (body?.smtp_port !== undefined && body?.smtp_port !== null && body?.smtp_port !== '') {
+    port = Number(body.smtp_port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw badRequest('SMTP port must be a number between 1 and 65535');
+    }
+  }
+
+  let secure = null;
+  if (body?.smtp_secure !== undefined && body?.smtp_secure !== null) {
+    if (typeof body.smtp_secure !== 'boolean') {
+      throw badRequest('smtp_secure must be true or false');
+    }
+    secure = body.smtp_secure;
+  }
+
+  return {
+    email,
+    name: getString(body?.name) || null,
+    password,
+    smtpHost: host || null,
+    smtpPort: port,
+    smtpSecure: secure,
+    smtpUsername: username || null,
+  };
+}
+
+function assertVaultConfigured() {
+  if (!isVaultConfigured()) {
+    throw new Error('SMTP_ENCRYPTION_KEY not configured');
+  }
+}
+
+function toSettingsColumns(settings) {
+  return {
+    smtp_host: settings.smtpHost,
+    smtp_port: settings.smtpPort,
+    smtp_secure: settings.smtpSecure,
+    smtp_username: settings.smtpUsername,
+  };
+}
+
+async function getMailboxRow(userId, mailboxId) {
+  const { data, error } = await supabaseAdmin
+    .from('user_emails')
+    .select('*')
+    .eq('id', mailboxId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Add a sending mailbox with its encrypted SMTP password
+ */
+export async function createMailbox(userId, settings) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+  assertVaultConfigured();
+
+  const { data, error } = await supabaseAdmin
+    .from('user_emails')
+    .insert({
+      user_id: userId,
+      email: settings.email,
+      name: settings.name,
+      is_primary: false,
+      is_verified: false,
+      ...toSettingsColumns(settings),
+      smtp_password_encrypted: encryptSecret(settings.password),
+      smtp_configured: true,
+    })
+    .select(PUBLIC_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw conflict('This email address is already added');
+    }
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update a mailbox's name and SMTP settings; a blank password keeps the saved one
+ * Changed settings have to pass a connection test again
+ * Returns null if the mailbox doesn't belong to the user
+ */
+export async function updateMailbox(userId, mailboxId, settings) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const existing = await getMailboxRow(userId, mailboxId);
+  if (!existing) return null;
+
+  const updates = {
+    name: settings.name,
+    ...toSettingsColumns(settings),
+  };
+
+  const settingsChanged = updates.smtp_host !== existing.smtp_host
+    || updates.smtp_port !== existing.smtp_port
+    || updates.smtp_secure !== existing.smtp_secure
+    || updates.smtp_username !== existing.smtp_username;
+
+  if (settings.password) {
+    assertVaultConfigured();
+    updates.smtp_password_encrypted = encryptSecret(settings.password);
+    updates.smtp_password = null;
+    updates.smtp_configured = true;
+  }
+
+  if (settings.password || settingsChanged) {
+    updates.smtp_verified_at = null;
+    updates.is_verified = false;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('user_emails')
+    .update(updates)
+    .eq('id', mailboxId)
+    .eq('user_id', userId)
+    .select(PUBLIC_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Log in to an SMTP server without sending anything
+ * Uses its own connection so a bad test can't affect the pooled senders
+ */
+async function verifySmtpConfig(smtpConfig) {
+  const transporter = nodemailer.createTransport({
+    ...smtpConfig,
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+    greetingTimeout: CONNECTION_TIMEOUT_MS,
+    socketTimeout: CONNECTION_TIMEOUT_MS,
+  });
+
+  try {
+    await transporter.verify();
+    return { ok: true, error: null };
+  } catch (error) {
+    return { ok: false, error: getSmtpErrorMessage(error) };
+  } finally {
+    transporter.close();
+  }
+}
+
+/**
+ * Saved credentials of a mailbox for a connection test
+ * Failed OAuth refreshes are reported as a failed test
+ */
+async function getTestCredentials(mailbox) {
+  try {
+    return await getMailboxCredentials(mailbox);
+  } catch (error) {
+    return { error: getSmtpErrorMessage(error) };
+  }
+}
+
+/**
+ * Whether two mailbox settings log in to the same server as the same user
+ */
+function isSameSmtpLogin(a, b) {
+  const configA = getMailboxSmtpConfig(a, null);
+  const configB = getMailboxSmtpConfig(b, null);
+
+  return configA.host === configB.host
+    && configA.port === configB.port
+    && configA.auth.user === configB.auth.user;
+}
+
+/**
+ * Test SMTP settings before they're saved
+ * With a mailboxId and no password, the mailbox's saved password or OAuth login is used,
+ * but only against its saved server and username so the secret can't be sent anywhere else
+ * Returns null if mailboxId doesn't belong to the user
+ */
+export async function testSmtpSettings(userId, settings, mailboxId = null) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  let mailbox = {
+    email: settings.email,
+    ...toSettingsColumns(settings),
+  };
+  let password = settings.password;
+  let accessToken = null;
+
+  if (mailboxId) {
+    const existing = await getMailboxRow(userId, mailboxId);
+    if (!existing) return null;
+
+    mailbox = {
+      ...mailbox,
+      email: mailbox.email || existing.email,
+      auth_type: existing.auth_type,
+      oauth_provider: existing.oauth_provider,
+    };
+
+    if (!password) {
+      if (!isSameSmtpLogin(mailbox, existing)) {
+        throw badRequest('Please enter the SMTP password again to test a different server or username');
+      }
+
+      const credentials = await getTestCredentials(existing);
+      if (credentials.error) return { ok: false, error: credentials.error };
+      ({ password, accessToken } = credentials);
+    }
+  }
+
+  if (!mailbox.email) {
+    throw badRequest('Please provide an email address');
+  }
+  if (!password && !accessToken) {
+    throw badRequest('Please provide the SMTP password for this email');
+  }
+
+  return verifySmtpConfig(getMailboxSmtpConfig(mailbox, password, accessToken));
+}
+
+/**
+ * Test a saved mailbox and record when it last passed
+ * Returns null if the mailbox doesn't belong to the user
+ */
+export async function testMailbox(userId, mailboxId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const existing = await getMailboxRow(userId, mailboxId);
+  if (!existing) return null;
+
+  const credentials = await getTestCredentials(existing);
+  if (credentials.error) return { ok: false, error: credentials.error };
+  if (!credentials.password && !credentials.accessToken) {
+    throw badRequest('No SMTP password saved for this email');
+  }
+
+  const result = await verifySmtpConfig(getMailboxSmtpConfig(existing, credentials.password, credentials.accessToken));
+  if (!result.ok) return result;
+
+  const verifiedAt = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('user_emails')
+    .update({
+      smtp_verified_at: verifiedAt,
+      is_verified: true,
+    })
+    .eq('id', mailboxId);
+
+  if (error) throw error;
+  return { ...result, verifiedAt };
+}
+
+/**
+ * Stop using OAuth for a mailbox and forget its tokens
+ * It keeps sending with its saved SMTP password, if it has one
+ * Returns null if the mailbox doesn't belong to the user
+ */
+export async function disconnectMailboxOAuth(userId, mailboxId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const existing = await getMailboxRow(userId, mailboxId);
+  if (!existing) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('user_emails')
+    .update({
+      auth_type: 'password',
+      oauth_provider: null,
+      oauth_refresh_token_encrypted: null,
+      oauth_access_token_encrypted: null,
+      oauth_token_expires_at: null,
+      oauth_error: null,
+      smtp_configured: Boolean(existing.smtp_password_encrypted || existing.smtp_password),
+      smtp_verified_at: null,
+    })
+    .eq('id', mailboxId)
+    .eq('user_id', userId)
+    .select(PUBLIC_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,253 @@
+import nodemailer from 'nodemailer';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { getMailboxPassword } from './smtpVault.js';
+import { getOAuthAccessToken, getOAuthSmtpSettings } from './mailboxOAuth.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// One pooled connection per mailbox, reused across sends
+const transports = new Map();
+
+// Network failures and 4xx replies are worth retrying; auth failures and 5xx replies are not
+const TRANSIENT_ERROR_CODES = ['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE'];
+
+// Mailbox columns the backend needs to send; the encrypted secrets never leave this module
+const MAILBOX_COLUMNS = 'id, email, name, is_primary, smtp_password, smtp_password_encrypted, smtp_host, smtp_port, smtp_secure, smtp_username, smtp_configured, auth_type, oauth_provider, oauth_refresh_token_encrypted, oauth_access_token_encrypted, oauth_token_expires_at';
+
+/**
+ * SMTP server for an email address, guessed from its domain
+ * Used when a mailbox has no explicit settings saved
+ */
+export function guessSmtpSettings(email) {
+  const emailDomain = email.split('@')[1].toLowerCase();
+  let host = `smtp.${emailDomain}`;
+
+  if (emailDomain.includes('gmail.com')) {
+    host = 'smtp.gmail.com';
+  } else if (emailDomain.includes('outlook.com') || emailDomain.includes('hotmail.com') || emailDomain.includes('live.com')) {
+    host = 'smtp-mail.outlook.com';
+  } else if (emailDomain.includes('yahoo.com')) {
+    host = 'smtp.mail.yahoo.com';
+  }
+
+  return {
+    host,
+    port: 587,
+    secure: false,
+  };
+}
+
+/**
+ * SMTP settings for a mailbox, picked by its email domain
+ * (same providers as POST /api/send-email)
+ */
+export function getSmtpConfig(fromEmail, password) {
+  return {
+    ...guessSmtpSettings(fromEmail),
+    auth: {
+      user: fromEmail,
+      pass: password,
+    },
+  };
+}
+
+/**
+ * SMTP settings saved on a user_emails row, falling back to the guessed
+ * ones for anything left empty
+ * With an accessToken the mailbox logs in with XOAUTH2 instead of the password;
+ * OAuth mailboxes then use their provider's server, the row's settings are for the password
+ */
+export function getMailboxSmtpConfig(mailbox, password, accessToken = null) {
+  if (accessToken && mailbox.auth_type === 'oauth') {
+    const provider = getOAuthSmtpSettings(mailbox.oauth_provider);
+
+    return {
+      host: provider.smtp_host,
+      port: provider.smtp_port,
+      secure: provider.smtp_secure,
+      auth: { type: 'OAuth2', user: mailbox.email, accessToken },
+    };
+  }
+
+  const guessed = guessSmtpSettings(mailbox.email);
+  const port = mailbox.smtp_port || guessed.port;
+  const user = mailbox.smtp_username || mailbox.email;
+
+  return {
+    host: mailbox.smtp_host || guessed.host,
+    port,
+    secure: typeof mailbox.smtp_secure === 'boolean' ? mailbox.smtp_secure : port === 465,
+    auth: accessToken
+      ? { type: 'OAuth2', user, accessToken }
+      : { user, pass: password },
+  };
+}
+
+/**
+ * How a mailbox logs in: { password } or { accessToken } for OAuth mailboxes
+ * An OAuth mailbox whose access was revoked falls back to its saved SMTP password
+ */
+export async function getMailboxCredentials(row) {
+  const password = getMailboxPassword(row);
+
+  if (row.auth_type !== 'oauth') {
+    return { password, accessToken: null };
+  }
+
+  try {
+    return { password: null, accessToken: await getOAuthAccessToken(row) };
+  } catch (error) {
+    if (error.code !== 'EAUTH' || !password) throw error;
+
+    console.warn(`OAuth access for mailbox ${row.id} failed, sending with its SMTP password:`, error.message);
+    return { password, accessToken: null };
+  }
+}
+
+/**
+ * A mailbox row ready to send from: secrets swapped for the decrypted
+ * credentials and its SMTP config
+ */
+async function toSendingMailbox(row) {
+  const { password, accessToken } = await getMailboxCredentials(row);
+
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    is_primary: row.is_primary,
+    password,
+    smtpConfig: getMailboxSmtpConfig(row, password, accessToken),
+  };
+}
+
+/**
+ * The mailbox automated emails are sent from: a connected secondary
+ * address first, like the Email page, then the primary one
+ */
+export async function getSenderMailbox(userId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('user_emails')
+    .select(MAILBOX_COLUMNS)
+    .eq('user_id', userId)
+    .eq('smtp_configured', true)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const mailboxes = data || [];
+  const mailbox = mailboxes.find((row) => !row.is_primary) || mailboxes[0];
+  return mailbox ? toSendingMailbox(mailbox) : null;
+}
+
+/**
+ * A user's connected mailbox by address, or null if it has no app password saved
+ * The returned mailbox carries the decrypted password and its SMTP config
+ */
+export async function getMailboxByEmail(userId, email) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('user_emails')
+    .select(MAILBOX_COLUMNS)
+    .eq('user_id', userId)
+    .ilike('email', email.trim().replace(/[\\%_]/g, '\\$&'))
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.smtp_configured ? toSendingMailbox(data) : null;
+}
+
+/**
+ * Pooled transport for an SMTP config
+ * A changed password or access token replaces the mailbox's transport,
+ * so only pass configs of saved mailboxes, never credentials from a request
+ */
+export function getTransport(smtpConfig) {
+  const key = `${smtpConfig.host}:${smtpConfig.port}:${smtpConfig.auth.user}`;
+  const credential = smtpConfig.auth.accessToken || smtpConfig.auth.pass;
+  const cached = transports.get(key);
+
+  if (cached && cached.credential === credential) {
+    return cached.transporter;
+  }
+
+  cached?.transporter.close();
+
+  const transporter = nodemailer.createTransport({
+    ...smtpConfig,
+    pool: true,
+    maxConnections: 1,
+  });
+  transports.set(key, { credential, transporter });
+
+  return transporter;
+}
+
+/**
+ * Whether a failed send may succeed if tried again later
+ */
+export function isTransientSmtpError(error) {
+  if (error?.code === 'EAUTH') return false;
+  if (TRANSIENT_ERROR_CODES.includes(error?.code)) return true;
+  if (error?.responseCode) return error.responseCode >= 400 && error.responseCode < 500;
+  // Errors without an SMTP code come from our side, e.g. a database timeout
+  return !error?.code;
+}
+
+/**
+ * Readable message for a failed send
+ */
+export function getSmtpErrorMessage(error) {
+  // Our own auth errors, e.g. revoked OAuth access, already say what to do
+  if (error?.code === 'EAUTH' && !error.responseCode && error.message) {
+    return error.message;
+  }
+  if (error?.code === 'EAUTH') {
+    return 'Authentication failed. Please check the email address and app password, or reconnect the account.';
+  }
+  if (error?.code === 'ECONNECTION') {
+    return 'Connection failed. Please check the SMTP settings.';
+  }
+  return error?.message || 'Failed to send email';
+}
+
+/**
+ * Send one email through a user's mailbox
+ * smtpConfig overrides the settings picked from the email domain
+ * envelopeFrom sets the return path bounces are sent to, instead of fromEmail
+ * Returns the SMTP message id
+ */
+export async function sendSmtpEmail({ fromEmail, fromName, password, smtpConfig, to, subject, text, html, headers = null, envelopeFrom = null }) {
+  const transporter = getTransport(smtpConfig || getSmtpConfig(fromEmail, password));
+
+  const info = await transporter.sendMail({
+    from: fromName ? `"${fromName.replace(/"/g, '')}" <${fromEmail}>` : fromEmail,
+    to,
+    subject,
+    text: text || (html ? html.replace(/<[^>]*>/g, '') : ''),
+    html: html || text,
+    ...(headers ? { headers } : {}),
+    ...(envelopeFrom ? { envelope: { from: envelopeFrom, to } } : {}),
+  });
+
+  return info.messageId;
+}
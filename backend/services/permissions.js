@@ -0,0 +1,108 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+/**
+ * Permissions granted through the admin API (user_permissions.permission)
+ */
+export const PERMISSIONS = {
+  VIEW_UNREDACTED_TRANSCRIPTS: 'view_unredacted_transcripts',
+};
+
+const KNOWN_PERMISSIONS = Object.values(PERMISSIONS);
+
+/**
+ * Whether a permission name is one of PERMISSIONS
+ */
+export function isKnownPermission(permission) {
+  return KNOWN_PERMISSIONS.includes(permission);
+}
+
+/**
+ * Whether the user has been granted a permission
+ */
+export async function hasPermission(userId, permission) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('user_permissions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('permission', permission)
+    .maybeSingle();
+
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/**
+ * List the permissions granted to a user
+ */
+export async function listPermissions(userId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('user_permissions')
+    .select('permission, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Grant a permission; granting it twice is a no-op
+ */
+export async function grantPermission(userId, permission) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { error } = await supabaseAdmin
+    .from('user_permissions')
+    .upsert({
+      user_id: userId,
+      permission: permission,
+    }, {
+      onConflict: 'user_id,permission',
+      ignoreDuplicates: true,
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Revoke a permission
+ * Returns false if the user did not have it
+ */
+export async function revokePermission(userId, permission) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('user_permissions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('permission', permission)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
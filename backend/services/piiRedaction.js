@@ -0,0 +1,325 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { createChatCompletion, LLM_FEATURES } from './llmProvider.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+/**
+ * Pattern-matched categories and the token that replaces each match
+ * Applied in this order, so card numbers and SSNs are not mistaken for phone numbers
+ */
+export const REDACTION_CATEGORIES = {
+  credit_card: '[CREDIT_CARD]',
+  ssn: '[SSN]',
+  date_of_birth: '[DATE_OF_BIRTH]',
+  email: '[EMAIL]',
+  phone_number: '[PHONE_NUMBER]',
+};
+
+// Entities the LLM pass looks for, beyond what patterns can catch
+const LLM_ENTITY_TOKENS = {
+  person_name: '[NAME]',
+  street_address: '[ADDRESS]',
+  account_number: '[ACCOUNT_NUMBER]',
+  id_number: '[ID_NUMBER]',
+};
+
+// Email and phone are left out by default: lead capture needs them
+const DEFAULT_SETTINGS = {
+  enabled: false,
+  categories: ['credit_card', 'ssn', 'date_of_birth'],
+  llm_entities: false,
+  restrict_recordings: false,
+};
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE = `(?:\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|${MONTH}\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}|\\d{1,2}(?:st|nd|rd|th)? (?:of )?${MONTH},? \\d{4})`;
+
+const CARD_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+const SSN_PATTERN = /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g;
+const SSN_CONTEXT_PATTERN = /(\b(?:social security(?: number)?|ssn|social)\b\D{0,30}?)\b\d{9}\b/gi;
+const DOB_PATTERN = new RegExp(`(\\b(?:born(?: on)?|birth ?(?:day|date)|date of birth|dob|d\\.o\\.b\\.?)\\b[^.\\d]{0,30}?)${DATE}`, 'gi');
+const EMAIL_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
+const PHONE_PATTERN = /(?:\+\d{1,3}[ .-]?)?\(?\b\d{3}\)?[ .-]?\d{3}[ .-]?\d{4}\b/g;
+
+const LLM_SYSTEM_PROMPT = `You find personal information in call transcripts so it can be redacted.
+
+Return every occurrence of these entity types, copied exactly as written in the transcript:
+- person_name: names of people (not company or product names, not the AI agent's name)
+- street_address: street addresses, with house number where given
+- account_number: bank, policy, member or customer account numbers
+- id_number: passport, driver's license, tax or other government ID numbers
+
+Output ONLY valid JSON: {"entities": [{"type": "person_name", "text": "Jane Doe"}]}
+Return {"entities": []} if there are none.`;
+
+/**
+ * Valid redaction settings from a stored pii_redaction_settings value
+ */
+export function normalizeRedactionSettings(raw) {
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  const categories = Array.isArray(raw.categories)
+    ? raw.categories.filter((category) => REDACTION_CATEGORIES[category])
+    : DEFAULT_SETTINGS.categories;
+
+  return {
+    enabled: raw.enabled === true,
+    categories: [...new Set(categories)],
+    llm_entities: raw.llm_entities === true,
+    restrict_recordings: raw.restrict_recordings === true,
+  };
+}
+
+/**
+ * Load an account's redaction settings
+ */
+export async function getRedactionSettings(userId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('pii_redaction_settings')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return normalizeRedactionSettings(data?.pii_redaction_settings);
+}
+
+/**
+ * Luhn checksum, to tell card numbers from other long digit runs
+ */
+function isLuhnValid(digits) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Replace pattern-matched PII in text
+ * Returns the redacted text and the number of matches per category
+ */
+export function redactText(text, categories) {
+  const counts = {};
+  if (!text) return { text, counts };
+
+  const count = (category) => {
+    counts[category] = (counts[category] || 0) + 1;
+  };
+
+  let redacted = text;
+
+  if (categories.includes('credit_card')) {
+    redacted = redacted.replace(CARD_PATTERN, (match) => {
+      const digits = match.replace(/\D/g, '');
+      if (digits.length < 13 || digits.length > 19 || !isLuhnValid(digits)) return match;
+      count('credit_card');
+      return REDACTION_CATEGORIES.credit_card;
+    });
+  }
+
+  if (categories.includes('ssn')) {
+    redacted = redacted.replace(SSN_PATTERN, () => {
+      count('ssn');
+      return REDACTION_CATEGORIES.ssn;
+    });
+    // Nine digits without separators are only an SSN when the caller says so
+    redacted = redacted.replace(SSN_CONTEXT_PATTERN, (match, prefix) => {
+      count('ssn');
+      return `${prefix}${REDACTION_CATEGORIES.ssn}`;
+    });
+  }
+
+  // Dates are only redacted next to words like "born" or "date of birth"
+  if (categories.includes('date_of_birth')) {
+    redacted = redacted.replace(DOB_PATTERN, (match, prefix) => {
+      count('date_of_birth');
+      return `${prefix}${REDACTION_CATEGORIES.date_of_birth}`;
+    });
+  }
+
+  if (categories.includes('email')) {
+    redacted = redacted.replace(EMAIL_PATTERN, () => {
+      count('email');
+      return REDACTION_CATEGORIES.email;
+    });
+  }
+
+  if (categories.includes('phone_number')) {
+    redacted = redacted.replace(PHONE_PATTERN, () => {
+      count('phone_number');
+      return REDACTION_CATEGORIES.phone_number;
+    });
+  }
+
+  return { text: redacted, counts };
+}
+
+/**
+ * Ask the LLM for names, addresses and ID numbers in a transcript
+ * Only entities that appear verbatim in the transcript are returned
+ */
+async function findLlmEntities(transcript, userId) {
+  const completion = await createChatCompletion(LLM_FEATURES.PII_REDACTION, {
+    messages: [
+      { role: 'system', content: LLM_SYSTEM_PROMPT },
+      { role: 'user', content: transcript },
+    ],
+    temperature: 0,
+    jsonMode: true,
+    userId: userId,
+  });
+
+  let parsed;
+  try {
+    parsed = JSON.parse(completion.content || '{}');
+  } catch (parseError) {
+    throw new Error(`Invalid JSON response: ${parseError.message}`);
+  }
+
+  const entities = Array.isArray(parsed.entities) ? parsed.entities : [];
+
+  return entities.filter((entity) =>
+    entity &&
+    LLM_ENTITY_TOKENS[entity.type] &&
+    typeof entity.text === 'string' &&
+    entity.text.trim().length >= 2 &&
+    transcript.includes(entity.text.trim())
+  ).map((entity) => ({ type: entity.type, text: entity.text.trim() }));
+}
+
+/**
+ * Replace every occurrence of the given entities, longest first
+ */
+function replaceEntities(text, entities, counts) {
+  if (!text) return text;
+
+  const sorted = [...entities].sort((a, b) => b.text.length - a.text.length);
+  let redacted = text;
+
+  sorted.forEach((entity) => {
+    const escaped = entity.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    redacted = redacted.replace(new RegExp(escaped, 'g'), () => {
+      if (counts) counts[entity.type] = (counts[entity.type] || 0) + 1;
+      return LLM_ENTITY_TOKENS[entity.type];
+    });
+  });
+
+  return redacted;
+}
+
+/**
+ * Redact a call's transcript and speaker turns with an account's settings
+ * A failed LLM pass is recorded in the summary; the pattern pass still applies
+ *
+ * @returns { transcript, turns, summary } - summary is stored as calls.pii_redaction
+ */
+export async function redactTranscript({ transcript, turns = [] }, settings, userId) {
+  const { text: patternRedacted, counts } = redactText(transcript, settings.categories);
+  const summary = {
+    counts: counts,
+    llm_entities: false,
+    redacted_at: new Date().toISOString(),
+  };
+
+  let entities = [];
+  if (settings.llm_entities && patternRedacted && patternRedacted.trim()) {
+    try {
+      entities = await findLlmEntities(patternRedacted, userId);
+      summary.llm_entities = true;
+    } catch (error) {
+      console.error('LLM PII detection failed, using pattern redaction only:', error.message || error);
+      summary.llm_error = error.message || String(error);
+    }
+  }
+
+  const redactedTranscript = replaceEntities(patternRedacted, entities, counts);
+
+  // Word timestamps would leak what was redacted, so changed turns lose them
+  const redactedTurns = turns.map((turn) => {
+    const content = replaceEntities(redactText(turn.content, settings.categories).text, entities);
+    return content === turn.content ? turn : { ...turn, content: content, words: [] };
+  });
+
+  return {
+    transcript: redactedTranscript,
+    turns: redactedTurns,
+    summary: summary,
+  };
+}
+
+/**
+ * Copy of a Retell event without transcript fields, for calls.webhook_response
+ */
+export function withoutTranscripts(event) {
+  const strip = (data) => {
+    if (!data || typeof data !== 'object') return data;
+    const { transcript, transcript_object, transcript_with_tool_calls, ...rest } = data;
+    return rest;
+  };
+
+  const stripped = strip(event);
+  if (event?.call) {
+    stripped.call = strip(event.call);
+  }
+  return stripped;
+}
+
+/**
+ * Keep the original transcript of a redacted call for users allowed to see it
+ */
+export async function storeUnredactedTranscript(call, transcript, turns) {
+  const { error } = await supabaseAdmin
+    .from('call_unredacted_transcripts')
+    .upsert({
+      call_id: call.id,
+      user_id: call.user_id,
+      transcript: transcript,
+      transcript_object: turns,
+    }, {
+      onConflict: 'call_id',
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Original transcript of one of the user's redacted calls, or null
+ */
+export async function getUnredactedTranscript(userId, callId) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('call_unredacted_transcripts')
+    .select('call_id, transcript, transcript_object')
+    .eq('call_id', callId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
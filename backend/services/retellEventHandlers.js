@@ -0,0 +1,724 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { enqueueCallAnalysis } from './callAnalysisQueue.js';
+import { drainRecordingArchive, saveRecordingSource, withoutRecordingUrls } from './callRecordings.js';
+import { queueCallEndedAutomations } from './emailAutomation.js';
+import {
+  getRedactionSettings,
+  redactText,
+  redactTranscript,
+  storeUnredactedTranscript,
+  withoutTranscripts,
+} from './piiRedaction.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// Retell disconnection reasons that mean the line never connected
+const NOT_CONNECTED_REASONS = [
+  'dial_busy',
+  'dial_failed',
+  'dial_no_answer',
+  'invalid_destination',
+  'user_declined',
+  'marked_as_spam',
+];
+
+// Retell disconnection reasons caused by platform or telephony failures
+const FAILED_REASONS = [
+  'concurrency_limit_reached',
+  'no_valid_payment',
+  'registered_call_timeout',
+  'sip_routing_error',
+  'telephony_provider_permission_denied',
+  'telephony_provider_unavailable',
+];
+
+const VOICEMAIL_REASONS = ['voicemail_reached', 'machine_detected'];
+const TRANSFER_REASONS = ['call_transfer', 'transfer_bridged'];
+
+/**
+ * Process a single Retell webhook event
+ * Throws on storage errors, and for analysis/transfer events whose call doesn't exist yet,
+ * so the inbox worker can retry the event
+ * Returns null when the event's call couldn't be routed to a bot, so the event can be replayed later
+ */
+export async function handleRetellEvent(event) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const eventType = event.event || event.type;
+
+  // Handle different Retell event types
+  switch (eventType) {
+    case 'call_started':
+    case 'call.connected':
+      return handleCallStarted(event);
+
+    case 'call_ended':
+    case 'call.ended':
+      return handleCallEnded(event);
+
+    case 'call_analysis':
+    case 'call_analyzed':
+      return handleCallAnalysis(event);
+
+    case 'transfer_started':
+    case 'transfer_bridged':
+    case 'transfer_cancelled':
+    case 'transfer_ended':
+      return handleTransferEvent(event, eventType);
+
+    case 'transcript_updated':
+      // Live transcript snapshots - the final transcript arrives with call_ended
+      break;
+
+    default:
+      console.log('Unhandled Retell event type:', eventType);
+  }
+}
+
+/**
+ * Get the call object from a Retell event
+ * Retell nests call data under `call`; older payloads put it at the top level
+ */
+function getCallData(event) {
+  return event.call || event;
+}
+
+/**
+ * Get the Retell call id from an event
+ */
+function getCallId(event) {
+  return event.call?.call_id || event.call_id || event.call?.id;
+}
+
+/**
+ * Convert a Retell millisecond timestamp to ISO, falling back to now
+ */
+function toIsoTimestamp(timestampMs) {
+  return timestampMs ? new Date(timestampMs).toISOString() : new Date().toISOString();
+}
+
+/**
+ * Map a Retell disconnection reason onto the call_status enum
+ */
+function getStatusForDisconnection(reason) {
+  if (!reason) return 'completed';
+  if (NOT_CONNECTED_REASONS.includes(reason)) return 'not_connected';
+  if (FAILED_REASONS.includes(reason) || reason.startsWith('error')) return 'failed';
+  return 'completed';
+}
+
+/**
+ * Load the stored call row for a Retell call id
+ */
+async function getCallRecord(callId) {
+  const { data, error } = await supabaseAdmin
+    .from('calls')
+    .select('id, user_id, bot_id, started_at, is_test_call')
+    .eq('retell_call_id', callId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Get the caller's number: the remote party is to_number on outbound calls, from_number otherwise
+ */
+function getCallerNumber(event, callData) {
+  if (event.phone_number) return event.phone_number;
+  if (callData.direction === 'outbound') return callData.to_number;
+  return callData.from_number || callData.phone_number;
+}
+
+/**
+ * Get the agent's number: from_number on outbound calls, to_number otherwise
+ */
+function getAgentNumber(callData) {
+  return callData.direction === 'outbound' ? callData.from_number : callData.to_number;
+}
+
+/**
+ * Find the bot a Retell call belongs to
+ * agent_id is authoritative; the agent's number is the fallback when no bot has that agent
+ */
+export async function resolveBotForCall(callData) {
+  const agentId = callData.agent_id;
+  const agentNumber = getAgentNumber(callData);
+
+  if (agentId) {
+    const { data: bots, error } = await supabaseAdmin
+      .from('bots')
+      .select('id, user_id, agent_number')
+      .eq('retell_agent_id', agentId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    if (bots && bots.length > 0) {
+      // The same agent can be imported by more than one account - prefer the one that owns the number
+      return bots.find((bot) => agentNumber && bot.agent_number === agentNumber) || bots[0];
+    }
+  }
+
+  if (agentNumber) {
+    const { data: bots, error } = await supabaseAdmin
+      .from('bots')
+      .select('id, user_id, agent_number')
+      .eq('agent_number', agentNumber)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) throw error;
+
+    if (bots && bots.length > 0) {
+      return bots[0];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Copy of an event to store on the call row, which users can read:
+ * never with provider recording URLs, and without transcripts when redaction is on
+ */
+function toStoredEvent(event, redactionSettings) {
+  const stored = withoutRecordingUrls(event);
+  return redactionSettings.enabled ? withoutTranscripts(stored) : stored;
+}
+
+/**
+ * Record a call that no bot could be matched to, so it can be routed and replayed later
+ */
+async function flagUnroutedCall(event, reason) {
+  const callData = getCallData(event);
+  const callId = getCallId(event);
+
+  const { error } = await supabaseAdmin
+    .from('unrouted_calls')
+    .upsert({
+      retell_call_id: callId,
+      agent_id: callData.agent_id || null,
+      from_number: callData.from_number || null,
+      to_number: callData.to_number || null,
+      direction: callData.direction || null,
+      reason: reason,
+      last_event: event.event || event.type || null,
+      // The account isn't known yet, so its redaction settings can't be checked;
+      // the inbox keeps the full event for replay
+      payload: withoutRecordingUrls(withoutTranscripts(event)),
+      last_seen_at: new Date().toISOString(),
+    }, {
+      onConflict: 'retell_call_id',
+    });
+
+  if (error) throw error;
+
+  console.warn(`Unrouted Retell call ${callId} (${reason}), agent ${callData.agent_id || 'none'}, to ${callData.to_number || 'none'}`);
+}
+
+/**
+ * Load the call row for an event, creating it when this is the first event seen for the call
+ * Returns null when the call could not be matched to a bot
+ */
+async function ensureCallRecord(event) {
+  const callData = getCallData(event);
+  const callId = getCallId(event);
+
+  const existing = await getCallRecord(callId);
+  if (existing) return existing;
+
+  const bot = await resolveBotForCall(callData);
+  const userId = bot?.user_id || event.user_id || event.metadata?.user_id || callData.metadata?.user_id;
+
+  if (!userId) {
+    await flagUnroutedCall(event, callData.agent_id ? 'unknown_agent' : 'missing_agent');
+    return null;
+  }
+
+  // call_ended can be the first event, transcript included
+  const redactionSettings = await getRedactionSettings(userId);
+
+  const { data, error } = await supabaseAdmin
+    .from('calls')
+    .insert({
+      retell_call_id: callId,
+      user_id: userId,
+      bot_id: bot?.id || null,
+      phone_number: getCallerNumber(event, callData) || 'unknown',
+      agent_number: getAgentNumber(callData) || bot?.agent_number || null,
+      direction: callData.direction || null,
+      status: 'pending',
+      metadata: toStoredEvent(event, redactionSettings),
+    })
+    .select('id, user_id, bot_id, started_at, is_test_call')
+    .single();
+
+  // Another event for the same call created the row first
+  if (error?.code === '23505') {
+    return getCallRecord(callId);
+  }
+
+  if (error) throw error;
+
+  // A replayed event for a previously unrouted call has now been matched
+  await supabaseAdmin
+    .from('unrouted_calls')
+    .delete()
+    .eq('retell_call_id', callId);
+
+  return data;
+}
+
+/**
+ * Upsert timeline entries into call_events
+ * Each entry needs a deterministic event_key so replayed webhooks don't duplicate rows
+ */
+async function recordCallEvents(call, entries) {
+  if (!entries.length) return;
+
+  const rows = entries.map((entry) => ({
+    call_id: call.id,
+    user_id: call.user_id,
+    event_type: entry.event_type,
+    event_key: entry.event_key,
+    sequence: entry.sequence || 0,
+    occurred_at: entry.occurred_at || null,
+    details: entry.details || {},
+  }));
+
+  const { error } = await supabaseAdmin
+    .from('call_events')
+    .upsert(rows, {
+      onConflict: 'call_id,event_key',
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Set lifecycle flags (transfer_occurred, voicemail_detected) on call_analytics
+ */
+async function updateCallAnalyticsFlags(call, flags) {
+  const { error } = await supabaseAdmin
+    .from('call_analytics')
+    .upsert({
+      call_id: call.id,
+      user_id: call.user_id,
+      ...flags,
+    }, {
+      onConflict: 'call_id',
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Redact pattern-matched PII in a string, or in the string values of an object
+ */
+function redactValue(value, categories) {
+  if (typeof value === 'string') {
+    return redactText(value, categories).text;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, categories));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, categories)]));
+  }
+  return value;
+}
+
+/**
+ * Build timeline entries for DTMF presses and tool/function calls
+ * from Retell's transcript_with_tool_calls
+ * With redaction on, keypad digits are dropped (a card number is keyed one digit at a time)
+ * and tool call arguments and results are redacted
+ */
+function getTranscriptEvents(callData, redactionSettings) {
+  const redact = (value) => (redactionSettings.enabled ? redactValue(value, redactionSettings.categories) : value);
+  const items = callData.transcript_with_tool_calls || [];
+  const callStartMs = callData.start_timestamp;
+  const entries = [];
+
+  items.forEach((item, index) => {
+    // Utterance words carry offsets in seconds from call start
+    const offsetSeconds = item.words?.[0]?.start;
+    const occurredAt = callStartMs && typeof offsetSeconds === 'number'
+      ? new Date(callStartMs + offsetSeconds * 1000).toISOString()
+      : null;
+
+    if (item.role === 'dtmf') {
+      entries.push({
+        event_type: 'dtmf',
+        event_key: `dtmf:${index}`,
+        sequence: index,
+        occurred_at: occurredAt,
+        details: redactionSettings.enabled ? { redacted: true } : { digit: item.digit },
+      });
+    } else if (item.role === 'tool_call_invocation') {
+      entries.push({
+        event_type: 'tool_call_invocation',
+        event_key: `tool_call_invocation:${item.tool_call_id || index}`,
+        sequence: index,
+        occurred_at: occurredAt,
+        details: {
+          tool_call_id: item.tool_call_id,
+          name: item.name,
+          arguments: redact(item.arguments),
+        },
+      });
+    } else if (item.role === 'tool_call_result') {
+      entries.push({
+        event_type: 'tool_call_result',
+        event_key: `tool_call_result:${item.tool_call_id || index}`,
+        sequence: index,
+        occurred_at: occurredAt,
+        details: {
+          tool_call_id: item.tool_call_id,
+          content: redact(item.content),
+        },
+      });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Structured turns from Retell's transcript_object
+ * Word timestamps are seconds from call start; a turn spans its first to last word
+ */
+function getTranscriptTurns(callData) {
+  const items = Array.isArray(callData.transcript_object) ? callData.transcript_object : [];
+
+  return items
+    .filter((item) => item && (item.role === 'agent' || item.role === 'user') && item.content)
+    .map((item) => {
+      const words = (item.words || [])
+        .filter((word) => typeof word.start === 'number')
+        .map((word) => ({
+          word: word.word,
+          start: word.start,
+          end: typeof word.end === 'number' ? word.end : word.start,
+        }));
+
+      return {
+        role: item.role,
+        content: item.content,
+        start: words.length > 0 ? words[0].start : null,
+        end: words.length > 0 ? words[words.length - 1].end : null,
+        words: words,
+      };
+    });
+}
+
+/**
+ * Summarize Retell's latency breakdown; e2e.values holds one value per agent turn
+ */
+function getLatencySummary(latency) {
+  const e2e = latency?.e2e;
+  if (!e2e) return null;
+
+  return {
+    p50: e2e.p50 ?? null,
+    p90: e2e.p90 ?? null,
+    max: e2e.max ?? null,
+    per_turn: e2e.values || [],
+    llm_p50: latency.llm?.p50 ?? null,
+    tts_p50: latency.tts?.p50 ?? null,
+  };
+}
+
+/**
+ * Handle call started event
+ */
+async function handleCallStarted(event) {
+  // Extract call information from Retell webhook
+  const callData = getCallData(event);
+  const callId = getCallId(event);
+  const startedAt = toIsoTimestamp(callData.start_timestamp);
+
+  if (!callId) {
+    console.warn('Missing call_id in call started event');
+    return;
+  }
+
+  const call = await ensureCallRecord(event);
+  if (!call) return null;
+
+  const { error } = await supabaseAdmin
+    .from('calls')
+    .update({
+      status: 'in_progress',
+      started_at: startedAt,
+      direction: callData.direction || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', call.id);
+
+  if (error) throw error;
+
+  await recordCallEvents(call, [{
+    event_type: 'call_started',
+    event_key: 'call_started',
+    occurred_at: startedAt,
+    details: {
+      direction: callData.direction || null,
+      from_number: callData.from_number || null,
+      to_number: callData.to_number || null,
+    },
+  }]);
+
+  console.log('Call started event processed:', callId);
+  return call;
+}
+
+/**
+ * Handle call ended event
+ */
+async function handleCallEnded(event) {
+  const callData = getCallData(event);
+  const callId = getCallId(event);
+  const duration = event.duration_seconds || callData.duration ||
+    (callData.duration_ms ? Math.round(callData.duration_ms / 1000) : undefined);
+  const transcript = event.transcript || callData.transcript;
+  const recording = {
+    recording_url: event.recording_url || callData.recording_url,
+    scrubbed_recording_url: event.scrubbed_recording_url || callData.scrubbed_recording_url,
+  };
+  const disconnectionReason = callData.disconnection_reason || null;
+  const completedAt = toIsoTimestamp(callData.end_timestamp);
+  const status = getStatusForDisconnection(disconnectionReason);
+
+  if (!callId) {
+    console.warn('Missing call_id in call ended event');
+    return;
+  }
+
+  // call_started may be disabled on the agent, so the call can first appear here
+  const call = await ensureCallRecord(event);
+  if (!call) return null;
+
+  // Redact PII before anything is stored or analyzed
+  const turns = getTranscriptTurns(callData);
+  const redactionSettings = await getRedactionSettings(call.user_id);
+  const redacted = redactionSettings.enabled && transcript
+    ? await redactTranscript({ transcript, turns }, redactionSettings, call.user_id)
+    : null;
+
+  // Update call record
+  const { error } = await supabaseAdmin
+    .from('calls')
+    .update({
+      status: status,
+      duration_seconds: duration,
+      transcript: redacted ? redacted.transcript : transcript,
+      transcript_object: redacted ? redacted.turns : turns,
+      pii_redaction: redacted ? redacted.summary : null,
+      disconnection_reason: disconnectionReason,
+      latency: callData.latency || {},
+      started_at: call.started_at || (callData.start_timestamp ? toIsoTimestamp(callData.start_timestamp) : null),
+      completed_at: completedAt,
+      webhook_response: toStoredEvent(event, redactionSettings),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', call.id);
+
+  if (error) throw error;
+
+  if (redacted) {
+    await storeUnredactedTranscript(call, transcript, turns);
+  }
+
+  // The provider URL is kept out of the call row, which users can read
+  await saveRecordingSource(call, recording, redactionSettings);
+
+  const voicemailDetected = VOICEMAIL_REASONS.includes(disconnectionReason);
+  const transferOccurred = TRANSFER_REASONS.includes(disconnectionReason);
+
+  const entries = getTranscriptEvents(callData, redactionSettings);
+
+  if (voicemailDetected) {
+    entries.push({
+      event_type: 'voicemail_detected',
+      event_key: 'voicemail_detected',
+      sequence: entries.length,
+      occurred_at: completedAt,
+      details: { source: 'disconnection_reason', reason: disconnectionReason },
+    });
+  }
+
+  const latencySummary = getLatencySummary(callData.latency);
+  if (latencySummary) {
+    entries.push({
+      event_type: 'latency_summary',
+      event_key: 'latency_summary',
+      sequence: entries.length,
+      occurred_at: completedAt,
+      details: latencySummary,
+    });
+  }
+
+  entries.push({
+    event_type: 'call_ended',
+    event_key: 'call_ended',
+    sequence: entries.length,
+    occurred_at: completedAt,
+    details: {
+      disconnection_reason: disconnectionReason,
+      duration_seconds: duration ?? null,
+    },
+  });
+
+  await recordCallEvents(call, entries);
+
+  const flags = {};
+  if (voicemailDetected) flags.voicemail_detected = true;
+  if (transferOccurred) flags.transfer_occurred = true;
+  if (Object.keys(flags).length > 0) {
+    await updateCallAnalyticsFlags(call, flags);
+  }
+
+  // Copy the recording out of the provider's expiring URL
+  if (recording.recording_url || recording.scrubbed_recording_url) {
+    drainRecordingArchive();
+  }
+
+  // Analyze in the background so leads are captured without the dashboard open
+  const hasTranscript = transcript && transcript.trim().length > 0;
+  if (status === 'completed' && hasTranscript && !call.is_test_call) {
+    await enqueueCallAnalysis(call);
+  }
+
+  if (!call.is_test_call) {
+    try {
+      await queueCallEndedAutomations({ ...call, status, completed_at: completedAt });
+    } catch (automationError) {
+      console.error('Error queueing call ended email automations:', automationError);
+    }
+  }
+
+  console.log('Call ended event processed:', callId);
+  return call;
+}
+
+/**
+ * Handle call analysis event
+ */
+async function handleCallAnalysis(event) {
+  const callId = getCallId(event);
+  const analysis = event.analysis || event.data || event.call?.call_analysis;
+
+  if (!callId || !analysis) {
+    console.warn('Missing required fields in call analysis event');
+    return;
+  }
+
+  // Can arrive before the call_started/call_ended event that creates the call; thrown so the inbox retries it
+  const call = await getCallRecord(callId);
+  if (!call) {
+    throw new Error(`Call ${callId} not found yet for call analysis event`);
+  }
+
+  // The event carries the full call, transcript included
+  const redactionSettings = await getRedactionSettings(call.user_id);
+
+  // Update call with analysis
+  const { error: callError } = await supabaseAdmin
+    .from('calls')
+    .update({
+      webhook_response: toStoredEvent(event, redactionSettings),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', call.id);
+
+  if (callError) throw callError;
+
+  const analyticsData = {
+    call_id: call.id,
+    user_id: call.user_id,
+    sentiment: analysis.sentiment,
+    is_lead: analysis.is_lead,
+    lead_quality_score: analysis.lead_quality_score,
+    ai_analysis_data: analysis,
+    created_at: new Date().toISOString(),
+  };
+
+  // Retell's post-call analysis reports voicemail directly
+  if (typeof analysis.in_voicemail === 'boolean') {
+    analyticsData.voicemail_detected = analysis.in_voicemail;
+  }
+
+  // Create or update call_analytics record
+  const { error: analyticsError } = await supabaseAdmin
+    .from('call_analytics')
+    .upsert(analyticsData, {
+      onConflict: 'call_id',
+    });
+
+  if (analyticsError) throw analyticsError;
+
+  if (analysis.in_voicemail === true) {
+    await recordCallEvents(call, [{
+      event_type: 'voicemail_detected',
+      event_key: 'voicemail_detected',
+      occurred_at: new Date().toISOString(),
+      details: { source: 'call_analysis' },
+    }]);
+  }
+
+  console.log('Call analysis event processed:', callId);
+  return call;
+}
+
+/**
+ * Handle transfer lifecycle events
+ * transfer_started -> transfer_bridged (connected) | transfer_cancelled, then transfer_ended
+ */
+async function handleTransferEvent(event, eventType) {
+  const callData = getCallData(event);
+  const callId = getCallId(event);
+
+  if (!callId) {
+    console.warn(`Missing call_id in ${eventType} event`);
+    return;
+  }
+
+  // Can arrive before the call_started event that creates the call; thrown so the inbox retries it
+  const call = await getCallRecord(callId);
+  if (!call) {
+    throw new Error(`Call ${callId} not found yet for ${eventType} event`);
+  }
+
+  await recordCallEvents(call, [{
+    event_type: eventType,
+    event_key: eventType,
+    occurred_at: toIsoTimestamp(event.timestamp),
+    details: {
+      destination: event.transfer_destination || callData.transfer_destination || null,
+      reason: event.reason || null,
+    },
+  }]);
+
+  // A transfer only "occurred" once the caller was bridged to the destination
+  if (eventType === 'transfer_bridged') {
+    await updateCallAnalyticsFlags(call, { transfer_occurred: true });
+  }
+
+  console.log(`${eventType} event processed:`, callId);
+  return call;
+}
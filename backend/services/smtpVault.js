@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+/**
+ * 256-bit key from SMTP_ENCRYPTION_KEY, or null if it isn't set
+ */
+function getKey() {
+  const secret = process.env.SMTP_ENCRYPTION_KEY;
+  if (!secret) return null;
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+export function isVaultConfigured() {
+  return Boolean(process.env.SMTP_ENCRYPTION_KEY);
+}
+
+/**
+ * Encrypt a secret for storage
+ * Format: v1:<iv>:<auth tag>:<ciphertext>, each part base64
+ */
+export function encryptSecret(plaintext) {
+  const key = getKey();
+  if (!key) {
+    throw new Error('SMTP_ENCRYPTION_KEY not configured');
+  }
+
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(String(plaintext), 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a secret stored by encryptSecret
+ * Throws if the key is wrong or the value was tampered with
+ */
+export function decryptSecret(stored) {
+  const key = getKey();
+  if (!key) {
+    throw new Error('SMTP_ENCRYPTION_KEY not configured');
+  }
+
+  const [version, iv, tag, ciphertext] = String(stored).split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognised encrypted secret format');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/**
+ * The usable SMTP password of a user_emails row, or null if none is saved
+ * Rows not yet migrated by encryptLegacySmtpPasswords still carry plaintext
+ */
+export function getMailboxPassword(mailbox) {
+  if (mailbox?.smtp_password_encrypted) {
+    return decryptSecret(mailbox.smtp_password_encrypted);
+  }
+  return mailbox?.smtp_password || null;
+}
+
+/**
+ * Encrypt any plaintext SMTP passwords left from before the vault and clear them
+ * Runs once on startup; skipped with a warning if no key is configured
+ */
+export async function encryptLegacySmtpPasswords() {
+  if (!supabaseAdmin) return;
+
+  if (!isVaultConfigured()) {
+    console.warn('SMTP_ENCRYPTION_KEY not set: SMTP passwords cannot be saved or encrypted');
+    return;
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('user_emails')
+      .select('id, smtp_password')
+      .not('smtp_password', 'is', null);
+
+    if (error) throw error;
+
+    let migrated = 0;
+    for (const mailbox of data || []) {
+      const password = mailbox.smtp_password.trim();
+
+      const { error: updateError } = await supabaseAdmin
+        .from('user_emails')
+        .update({
+          smtp_password_encrypted: password ? encryptSecret(password) : null,
+          smtp_password: null,
+          smtp_configured: Boolean(password),
+        })
+        .eq('id', mailbox.id)
+        .not('smtp_password', 'is', null);
+
+      if (updateError) {
+        console.error(`Error encrypting SMTP password for mailbox ${mailbox.id}:`, updateError);
+      } else {
+        migrated++;
+      }
+    }
+
+    if (migrated > 0) {
+      console.log(`Encrypted ${migrated} plaintext SMTP password(s)`);
+    }
+  } catch (error) {
+    console.error('Error encrypting legacy SMTP passwords:', error);
+  }
+}
@@ -0,0 +1,245 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { handleRetellEvent } from './retellEventHandlers.js';
+
+dotenv.config();
+
+// Initialize Supabase admin client
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+// Worker settings
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30') * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000; // 1 hour
+const POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || '10000');
+const BATCH_SIZE = 20;
+const STALE_LOCK_MS = 10 * 60 * 1000; // 10 minutes
+
+let workerTimer = null;
+let draining = false;
+let drainRequested = false;
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1), capped at RETRY_MAX_MS
+ */
+function getRetryDelayMs(attempts) {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_MS);
+}
+
+/**
+ * Claim an event for processing
+ * The status guard makes the claim a no-op if another drain already took it
+ */
+async function claimEvent(eventRow) {
+  const { data, error } = await supabaseAdmin
+    .from('retell_webhook_events')
+    .update({
+      status: 'processing',
+      locked_at: new Date().toISOString(),
+    })
+    .eq('id', eventRow.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Process one claimed event and record the outcome
+ * The payload (transcript included) is cleared once the event is stored on its call;
+ * events whose call couldn't be routed keep it so they can be replayed
+ */
+async function processEvent(eventRow) {
+  const attempts = (eventRow.attempts || 0) + 1;
+
+  try {
+    const call = await handleRetellEvent(eventRow.payload || {});
+
+    await supabaseAdmin
+      .from('retell_webhook_events')
+      .update({
+        ...(call === null ? {} : { payload: null }),
+        status: 'processed',
+        attempts: attempts,
+        last_error: null,
+        locked_at: null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', eventRow.id);
+  } catch (error) {
+    const errorMessage = error?.message || String(error);
+    const isDeadLetter = attempts >= MAX_ATTEMPTS;
+
+    if (isDeadLetter) {
+      console.error(`Retell event ${eventRow.event_id} moved to dead-letter after ${attempts} attempts:`, errorMessage);
+    } else {
+      console.warn(`Retell event ${eventRow.event_id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, errorMessage);
+    }
+
+    const now = Date.now();
+    await supabaseAdmin
+      .from('retell_webhook_events')
+      .update({
+        status: isDeadLetter ? 'dead_letter' : 'pending',
+        attempts: attempts,
+        last_error: errorMessage,
+        locked_at: null,
+        next_attempt_at: isDeadLetter ? null : new Date(now + getRetryDelayMs(attempts)).toISOString(),
+        dead_lettered_at: isDeadLetter ? new Date(now).toISOString() : null,
+      })
+      .eq('id', eventRow.id);
+  }
+}
+
+/**
+ * Process all pending events that are due, oldest first
+ * Concurrent calls are coalesced into one extra pass
+ */
+export async function drainWebhookInbox() {
+  if (!supabaseAdmin) return;
+
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+
+  draining = true;
+  try {
+    await releaseStaleLocks(STALE_LOCK_MS);
+
+    do {
+      drainRequested = false;
+
+      const { data: dueEvents, error } = await supabaseAdmin
+        .from('retell_webhook_events')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('next_attempt_at', new Date().toISOString())
+        .order('received_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) throw error;
+
+      for (const eventRow of dueEvents || []) {
+        const claimed = await claimEvent(eventRow);
+        if (claimed) {
+          await processEvent(claimed);
+        }
+      }
+
+      // A full batch means there may be more due events waiting
+      if (dueEvents && dueEvents.length === BATCH_SIZE) {
+        drainRequested = true;
+      }
+    } while (drainRequested);
+  } catch (error) {
+    console.error('Error draining webhook inbox:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Release events left in 'processing' longer than olderThanMs,
+ * e.g. by a process that stopped mid-event
+ */
+async function releaseStaleLocks(olderThanMs) {
+  const now = Date.now();
+  const { error } = await supabaseAdmin
+    .from('retell_webhook_events')
+    .update({
+      status: 'pending',
+      locked_at: null,
+      next_attempt_at: new Date(now).toISOString(),
+    })
+    .eq('status', 'processing')
+    .lte('locked_at', new Date(now - olderThanMs).toISOString());
+
+  if (error) {
+    console.error('Error releasing stale webhook inbox locks:', error);
+  }
+}
+
+/**
+ * Start polling the inbox for due events
+ */
+export async function startWebhookInboxWorker() {
+  if (!supabaseAdmin) {
+    console.warn('Supabase admin not configured, webhook inbox worker not started');
+    return;
+  }
+
+  if (workerTimer) return;
+
+  // Nothing else runs this worker, so every lock left at startup is stale
+  await releaseStaleLocks(0);
+
+  workerTimer = setInterval(drainWebhookInbox, POLL_INTERVAL_MS);
+  drainWebhookInbox();
+
+  console.log(`Webhook inbox worker started (every ${POLL_INTERVAL_MS}ms, max ${MAX_ATTEMPTS} attempts)`);
+}
+
+/**
+ * List dead-lettered events, newest first
+ */
+export async function listDeadLetterEvents({ limit = 50, offset = 0 } = {}) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error, count } = await supabaseAdmin
+    .from('retell_webhook_events')
+    .select('id, event_id, event_type, call_id, attempts, last_error, received_at, dead_lettered_at', { count: 'exact' })
+    .eq('status', 'dead_letter')
+    .order('dead_lettered_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw error;
+
+  return { events: data || [], total: count || 0 };
+}
+
+/**
+ * Put an event back into the inbox with a fresh attempt budget
+ * Processed events can be replayed too while they still have their payload,
+ * e.g. unrouted calls once their bot exists
+ */
+export async function replayWebhookEvent(id) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('retell_webhook_events')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      locked_at: null,
+      next_attempt_at: new Date().toISOString(),
+      dead_lettered_at: null,
+    })
+    .eq('id', id)
+    .neq('status', 'processing')
+    .not('payload', 'is', null)
+    .select('id, event_id, event_type, call_id, status')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (data) {
+    drainWebhookInbox();
+  }
+
+  return data;
+}
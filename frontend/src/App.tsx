@@ -12,11 +12,13 @@ import VerifyEmail from "./pages/VerifyEmail";
 import SetNewPassword from "./pages/SetNewPassword";
 import Success from "./pages/Success";
 import Dashboard from "./pages/Dashboard";
+import Analytics from "./pages/Analytics";
 import Bots from "./pages/Bots";
 import BotEditor from "./pages/BotEditor";
 import KnowledgeBases from "./pages/KnowledgeBases";
 import Calls from "./pages/Calls";
 import Leads from "./pages/Leads";
+import LeadPipeline from "./pages/LeadPipeline";
 import Billing from "./pages/Billing";
 import Settings from "./pages/Settings";
 import PhoneNumbers from "./pages/PhoneNumbers";
@@ -46,12 +48,14 @@ const App = () => (
             <Route path="/success" element={<Success />} />
             {/* Dashboard Routes */}
             <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/dashboard/analytics" element={<Analytics />} />
             <Route path="/bots" element={<Bots />} />
             <Route path="/bots/create" element={<BotEditor />} />
             <Route path="/bots/:id" element={<BotEditor />} />
             <Route path="/knowledge-bases" element={<KnowledgeBases />} />
             <Route path="/calls" element={<Calls />} />
             <Route path="/leads" element={<Leads />} />
+            <Route path="/leads/pipeline" element={<LeadPipeline />} />
             <Route path="/billing" element={<Billing />} />
             <Route path="/settings" element={<Settings />} />
             <Route path="/phone-numbers" element={<PhoneNumbers />} />
@@ -0,0 +1,139 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toFieldKey } from "@/lib/analysisFields";
+import type { CustomAnalysisField, CustomAnalysisFieldType } from "@/types/database";
+
+const FIELD_TYPES: { value: CustomAnalysisFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "boolean", label: "Yes / No" },
+  { value: "date", label: "Date" },
+  { value: "enum", label: "One of a list" },
+];
+
+// Must match the backend limit in callAnalysisSchema.js
+const MAX_FIELDS = 20;
+
+interface AnalysisFieldsEditorProps {
+  fields: CustomAnalysisField[];
+  onChange: (fields: CustomAnalysisField[]) => void;
+}
+
+/**
+ * Edits the custom fields call analysis extracts for one agent
+ */
+export function AnalysisFieldsEditor({ fields, onChange }: AnalysisFieldsEditorProps) {
+  const updateField = (index: number, updates: Partial<CustomAnalysisField>) => {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...updates } : field)));
+  };
+
+  const handleLabelChange = (index: number, label: string) => {
+    const field = fields[index];
+    // Keep the key in sync until the user edits it by hand
+    const keyFollowsLabel = !field.key || field.key === toFieldKey(field.label);
+    updateField(index, keyFollowsLabel ? { label, key: toFieldKey(label) } : { label });
+  };
+
+  const addField = () => {
+    onChange([...fields, { key: "", label: "", type: "text", description: "" }]);
+  };
+
+  const removeField = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {fields.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No custom fields yet. Every call is analyzed with the standard fields only.
+        </p>
+      )}
+
+      {fields.map((field, index) => (
+        <div key={index} className="grid gap-3 p-4 rounded-lg border border-slate-200 bg-slate-50/50">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Label</Label>
+              <Input
+                value={field.label}
+                onChange={(e) => handleLabelChange(index, e.target.value)}
+                placeholder="e.g. Insurance Provider"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Key</Label>
+              <Input
+                value={field.key}
+                onChange={(e) => updateField(index, { key: toFieldKey(e.target.value) })}
+                placeholder="insurance_provider"
+                className="font-mono text-xs"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Type</Label>
+              <Select
+                value={field.type}
+                onValueChange={(val) => updateField(index, { type: val as CustomAnalysisFieldType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FIELD_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {field.type === "enum" && (
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Allowed values (comma separated)</Label>
+              <Input
+                value={(field.options || []).join(", ")}
+                onChange={(e) =>
+                  updateField(index, {
+                    options: e.target.value.split(",").map((option) => option.trimStart()),
+                  })
+                }
+                placeholder="e.g. Personal Injury, Divorce, Immigration"
+              />
+            </div>
+          )}
+
+          <div className="flex items-end gap-3">
+            <div className="grid gap-1.5 flex-1">
+              <Label className="text-xs">Instructions for the analyzer (optional)</Label>
+              <Input
+                value={field.description || ""}
+                onChange={(e) => updateField(index, { description: e.target.value })}
+                placeholder="e.g. Name of the caller's dental insurance company"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeField(index)}
+              className="text-slate-400 hover:text-destructive"
+              title="Remove field"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addField} disabled={fields.length >= MAX_FIELDS} className="gap-2">
+        <Plus className="h-4 w-4" />
+        Add Field
+      </Button>
+    </div>
+  );
+}
@@ -43,6 +43,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { formatDistanceToNow, format } from "date-fns";
 import { CallStatus, Call, Bot as BotType } from "@/types/database";
 import { toast } from "@/hooks/use-toast";
+import { hasRecording } from "@/lib/callRecordings";
+import { RecordingLink } from "@/components/calls/RecordingLink";
 
 const statusConfig: Record<
   CallStatus,
@@ -502,17 +504,12 @@ export function BotDetailsDialog({
                 </div>
               )}
 
-              {selectedCall.recording_url && (
+              {hasRecording(selectedCall) && (
                 <div>
                   <Label className="text-muted-foreground">Recording</Label>
-                  <a
-                    href={selectedCall.recording_url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-primary hover:underline text-sm mt-1 block"
-                  >
+                  <RecordingLink callId={selectedCall.id} className="text-primary text-sm mt-1">
                     Listen to recording
-                  </a>
+                  </RecordingLink>
                 </div>
               )}
 
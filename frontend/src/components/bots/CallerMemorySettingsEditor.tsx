@@ -0,0 +1,144 @@
+import { Check, Copy, FileText } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  CALLER_MEMORY_PROMPT,
+  CALLER_MEMORY_VARIABLES,
+  CALLER_MEMORY_WEBHOOK_URL,
+  MAX_LOOKBACK_DAYS,
+  MAX_RECENT_CALLS,
+} from "@/lib/callerMemory";
+import type { CallerMemorySettings, CallerMemoryVariable } from "@/types/database";
+
+interface CallerMemorySettingsEditorProps {
+  settings: CallerMemorySettings;
+  onChange: (settings: CallerMemorySettings) => void;
+  // Whether the agent prompt already contains the caller memory instructions
+  promptHasInstructions: boolean;
+  onAddToPrompt: () => void;
+}
+
+/**
+ * Edits what an agent is told about returning callers at the start of each inbound call
+ */
+export function CallerMemorySettingsEditor({
+  settings,
+  onChange,
+  promptHasInstructions,
+  onAddToPrompt,
+}: CallerMemorySettingsEditorProps) {
+  const [copied, setCopied] = useState(false);
+
+  const toggleVariable = (key: CallerMemoryVariable, checked: boolean) => {
+    onChange({
+      ...settings,
+      variables: checked ? [...settings.variables, key] : settings.variables.filter((variable) => variable !== key),
+    });
+  };
+
+  const copyWebhookUrl = async () => {
+    await navigator.clipboard.writeText(CALLER_MEMORY_WEBHOOK_URL);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between p-4 rounded-lg border border-slate-200 bg-slate-50/50">
+        <div>
+          <Label className="text-sm font-medium">Remember returning callers</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Look up the caller's lead and previous calls when a call comes in and pass them to the agent.
+          </p>
+        </div>
+        <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ ...settings, enabled })} />
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Details passed to the agent</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {CALLER_MEMORY_VARIABLES.map((variable) => (
+                <label
+                  key={variable.key}
+                  className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 cursor-pointer hover:bg-slate-50"
+                >
+                  <Checkbox
+                    checked={settings.variables.includes(variable.key)}
+                    onCheckedChange={(checked) => toggleVariable(variable.key, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900">{variable.label}</p>
+                    <p className="text-xs font-mono text-slate-500">{`{{${variable.key}}}`}</p>
+                    <p className="text-xs text-muted-foreground truncate">e.g. {variable.example}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              <span className="font-mono">{"{{is_returning_caller}}"}</span> ("true" or "false") is always passed.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Recent calls to summarize</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_RECENT_CALLS}
+                value={settings.recent_calls}
+                onChange={(e) => onChange({ ...settings, recent_calls: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Ignore calls older than (days)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_LOOKBACK_DAYS}
+                value={settings.lookback_days}
+                onChange={(e) => onChange({ ...settings, lookback_days: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2 p-4 rounded-lg border border-slate-200">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="text-sm font-medium">Agent prompt</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  The agent only uses these details if its prompt refers to them.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={onAddToPrompt} disabled={promptHasInstructions}>
+                <FileText className="mr-2 h-4 w-4" />
+                {promptHasInstructions ? "Added to prompt" : "Add to prompt"}
+              </Button>
+            </div>
+            <pre className="text-xs text-slate-600 bg-slate-50 rounded-md p-3 whitespace-pre-wrap">{CALLER_MEMORY_PROMPT}</pre>
+          </div>
+
+          <div className="space-y-2 p-4 rounded-lg border border-amber-200 bg-amber-50/50">
+            <Label className="text-sm font-medium">Inbound webhook</Label>
+            <p className="text-xs text-muted-foreground">
+              In Retell, set this as the inbound webhook URL of the agent's phone number.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={CALLER_MEMORY_WEBHOOK_URL} className="font-mono text-xs bg-white" />
+              <Button variant="outline" size="icon" onClick={copyWebhookUrl} title="Copy URL">
+                {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
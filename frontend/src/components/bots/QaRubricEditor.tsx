@@ -0,0 +1,105 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toFieldKey } from "@/lib/analysisFields";
+import { MAX_CRITERION_WEIGHT, MAX_RUBRIC_CRITERIA } from "@/lib/qaRubric";
+import type { QaRubricCriterion } from "@/types/database";
+
+interface QaRubricEditorProps {
+  criteria: QaRubricCriterion[];
+  onChange: (criteria: QaRubricCriterion[]) => void;
+}
+
+/**
+ * Edits the QA rubric every call of one agent is graded against
+ */
+export function QaRubricEditor({ criteria, onChange }: QaRubricEditorProps) {
+  const updateCriterion = (index: number, updates: Partial<QaRubricCriterion>) => {
+    onChange(criteria.map((criterion, i) => (i === index ? { ...criterion, ...updates } : criterion)));
+  };
+
+  const handleLabelChange = (index: number, label: string) => {
+    const criterion = criteria[index];
+    // Keep the key in sync until the user edits it by hand
+    const keyFollowsLabel = !criterion.key || criterion.key === toFieldKey(criterion.label);
+    updateCriterion(index, keyFollowsLabel ? { label, key: toFieldKey(label) } : { label });
+  };
+
+  const addCriterion = () => {
+    onChange([...criteria, { key: "", label: "", description: "", weight: 1 }]);
+  };
+
+  const removeCriterion = (index: number) => {
+    onChange(criteria.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {criteria.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No QA criteria yet. Calls are analyzed but not graded.
+        </p>
+      )}
+
+      {criteria.map((criterion, index) => (
+        <div key={index} className="grid gap-3 p-4 rounded-lg border border-slate-200 bg-slate-50/50">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="grid gap-1.5 md:col-span-2">
+              <Label className="text-xs">Criterion</Label>
+              <Input
+                value={criterion.label}
+                onChange={(e) => handleLabelChange(index, e.target.value)}
+                placeholder="e.g. Greeted with company name"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Key</Label>
+              <Input
+                value={criterion.key}
+                onChange={(e) => updateCriterion(index, { key: toFieldKey(e.target.value) })}
+                placeholder="greeted_with_company_name"
+                className="font-mono text-xs"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Weight (1-{MAX_CRITERION_WEIGHT})</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_CRITERION_WEIGHT}
+                value={criterion.weight}
+                onChange={(e) => updateCriterion(index, { weight: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-end gap-3">
+            <div className="grid gap-1.5 flex-1">
+              <Label className="text-xs">What counts as a pass (optional)</Label>
+              <Input
+                value={criterion.description || ""}
+                onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                placeholder="e.g. Agent repeats the appointment date and time back to the caller"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeCriterion(index)}
+              className="text-slate-400 hover:text-destructive"
+              title="Remove criterion"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addCriterion} disabled={criteria.length >= MAX_RUBRIC_CRITERIA} className="gap-2">
+        <Plus className="h-4 w-4" />
+        Add Criterion
+      </Button>
+    </div>
+  );
+}
@@ -162,6 +162,7 @@ export function TestAgentModal({
               status: "in_progress",
               started_at: new Date().toISOString(),
               is_test_call: true,
+              retell_call_id: retellCallId,
               metadata: {
                 test_call: true,
                 retell_call_id: retellCallId,
@@ -0,0 +1,264 @@
+import type { ReactNode } from "react";
+import {
+  Calendar as CalendarIcon,
+  PhoneCall,
+  CheckCircle,
+  Clock,
+  PhoneForwarded,
+  PhoneOff,
+  Hash,
+  Wrench,
+  Voicemail,
+  Gauge,
+  Loader2,
+} from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useCallEvents } from "@/hooks/useCallEvents";
+import {
+  formatInUserTimezone,
+  formatScheduledAt,
+  formatDisconnectionReason,
+} from "@/lib/utils";
+import type { Call, CallEvent } from "@/types/database";
+
+interface CallEventTimelineProps {
+  call: Call;
+  userTimezone: string;
+}
+
+interface TimelineItem {
+  key: string;
+  icon: typeof PhoneCall;
+  label: string;
+  timestamp?: string | null;
+  description?: ReactNode;
+  muted?: boolean;
+}
+
+const formatMs = (value: number | null | undefined) =>
+  typeof value === "number" ? `${Math.round(value)}ms` : "-";
+
+const getEventItem = (event: CallEvent): TimelineItem | null => {
+  const details = event.details || {};
+
+  switch (event.event_type) {
+    case "transfer_started":
+      return {
+        key: event.id,
+        icon: PhoneForwarded,
+        label: "Transfer Started",
+        timestamp: event.occurred_at,
+        description: details.destination ? `To ${details.destination}` : undefined,
+      };
+    case "transfer_bridged":
+      return {
+        key: event.id,
+        icon: PhoneForwarded,
+        label: "Transfer Connected",
+        timestamp: event.occurred_at,
+        description: details.destination ? `Connected to ${details.destination}` : undefined,
+      };
+    case "transfer_cancelled":
+      return {
+        key: event.id,
+        icon: PhoneOff,
+        label: "Transfer Cancelled",
+        timestamp: event.occurred_at,
+        description: details.reason || undefined,
+        muted: true,
+      };
+    case "transfer_ended":
+      return {
+        key: event.id,
+        icon: PhoneForwarded,
+        label: "Transfer Ended",
+        timestamp: event.occurred_at,
+      };
+    case "dtmf":
+      return {
+        key: event.id,
+        icon: Hash,
+        label: "Keypad Press",
+        timestamp: event.occurred_at,
+        description: details.redacted ? "Caller pressed a key (hidden by PII redaction)" : `Caller pressed ${details.digit ?? "?"}`,
+      };
+    case "tool_call_invocation":
+      return {
+        key: event.id,
+        icon: Wrench,
+        label: `Function Called: ${details.name || "unknown"}`,
+        timestamp: event.occurred_at,
+        description: details.arguments ? (
+          <code className="text-xs font-mono break-all">
+            {typeof details.arguments === "string"
+              ? details.arguments
+              : JSON.stringify(details.arguments)}
+          </code>
+        ) : undefined,
+      };
+    case "tool_call_result":
+      return {
+        key: event.id,
+        icon: Wrench,
+        label: "Function Result",
+        timestamp: event.occurred_at,
+        description: details.content ? (
+          <code className="text-xs font-mono break-all">
+            {details.content.length > 200
+              ? `${details.content.substring(0, 200)}...`
+              : details.content}
+          </code>
+        ) : undefined,
+        muted: true,
+      };
+    case "voicemail_detected":
+      return {
+        key: event.id,
+        icon: Voicemail,
+        label: "Voicemail Detected",
+        timestamp: event.occurred_at,
+      };
+    default:
+      // call_started / call_ended come from the call's own timestamps,
+      // latency_summary is rendered separately
+      return null;
+  }
+};
+
+/**
+ * Call timestamps merged with the Retell lifecycle events recorded for the call
+ */
+export function CallEventTimeline({ call, userTimezone }: CallEventTimelineProps) {
+  const { events, loading } = useCallEvents(call.id);
+
+  const latencyEvent = events.find((e) => e.event_type === "latency_summary");
+  const eventItems = events
+    .map(getEventItem)
+    .filter((item): item is TimelineItem => item !== null);
+
+  const items: TimelineItem[] = [];
+
+  if (call.created_at || call.started_at) {
+    items.push({
+      key: "created",
+      icon: CalendarIcon,
+      label: "Created At",
+      timestamp: call.created_at || call.started_at,
+    });
+  }
+
+  if (call.started_at && call.created_at !== call.started_at) {
+    items.push({
+      key: "started",
+      icon: PhoneCall,
+      label: "Started At",
+      timestamp: call.started_at,
+    });
+  }
+
+  items.push(...eventItems);
+
+  if (call.completed_at) {
+    items.push({
+      key: "completed",
+      icon: CheckCircle,
+      label: "Completed At",
+      timestamp: call.completed_at,
+      description: call.disconnection_reason
+        ? `Ended by: ${formatDisconnectionReason(call.disconnection_reason)}`
+        : undefined,
+    });
+  }
+
+  if (latencyEvent) {
+    const latency = latencyEvent.details || {};
+    const perTurn = latency.per_turn || [];
+
+    items.push({
+      key: latencyEvent.id,
+      icon: Gauge,
+      label: "Response Latency",
+      description: (
+        <div className="space-y-2">
+          <p>
+            p50 {formatMs(latency.p50)} · p90 {formatMs(latency.p90)} · max {formatMs(latency.max)}
+          </p>
+          {perTurn.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {perTurn.map((value, index) => (
+                <Badge key={index} variant="outline" className="font-mono text-[10px]">
+                  #{index + 1} {formatMs(value)}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      ),
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) => {
+        const Icon = item.icon;
+        return (
+          <div key={item.key} className="flex items-start gap-4">
+            <div className="flex flex-col items-center">
+              <div
+                className={`w-2 h-2 rounded-full ${item.muted ? "bg-muted-foreground" : "bg-primary"}`}
+              />
+              <div className="w-0.5 h-full bg-border mt-1" />
+            </div>
+            <div className="flex-1 pb-4">
+              <Label className="text-sm font-medium flex items-center gap-2">
+                <Icon className="h-4 w-4" />
+                {item.label}
+              </Label>
+              {item.timestamp && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {formatInUserTimezone(item.timestamp, userTimezone, "PPpp")}
+                </p>
+              )}
+              {item.description && (
+                <div className="text-sm text-muted-foreground mt-1">
+                  {item.description}
+                </div>
+              )}
+              {item.timestamp && (
+                <p className="text-xs text-muted-foreground mt-1 font-mono">
+                  {item.timestamp}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {call.Scheduled_at && (
+        <div className="flex items-start gap-4">
+          <div className="flex flex-col items-center">
+            <div className="w-2 h-2 rounded-full bg-primary" />
+            <div className="w-0.5 h-full bg-border mt-1" />
+          </div>
+          <div className="flex-1 pb-4">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              Scheduled For
+            </Label>
+            <p className="text-sm text-muted-foreground mt-1">
+              {formatScheduledAt(call.Scheduled_at, "PPpp")}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading call events...
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Bot, CallSearchFilters } from "@/types/database";
+
+const STATUS_OPTIONS = [
+  { value: "in_progress", label: "In Progress" },
+  { value: "completed", label: "Completed" },
+  { value: "failed", label: "Failed" },
+  { value: "not_connected", label: "Not Connected" },
+  { value: "pending", label: "Pending" },
+];
+
+const SENTIMENT_OPTIONS = [
+  { value: "positive", label: "Positive" },
+  { value: "neutral", label: "Neutral" },
+  { value: "negative", label: "Negative" },
+];
+
+const CALL_TYPE_OPTIONS = [
+  { value: "order", label: "Orders" },
+  { value: "appointment", label: "Appointments" },
+  { value: "sales_inquiry", label: "Sales Inquiries" },
+  { value: "support", label: "Support" },
+  { value: "billing", label: "Billing" },
+  { value: "complaint", label: "Complaints" },
+  { value: "general_inquiry", label: "General Inquiries" },
+  { value: "wrong_number", label: "Wrong Number" },
+  { value: "spam", label: "Spam" },
+];
+
+// Every filter except the search box
+const FILTER_KEYS: (keyof CallSearchFilters)[] = [
+  "status",
+  "bot_id",
+  "from",
+  "to",
+  "min_duration",
+  "max_duration",
+  "sentiment",
+  "call_type",
+  "lead",
+];
+
+interface CallFiltersPopoverProps {
+  filters: CallSearchFilters;
+  onChange: (updates: Partial<CallSearchFilters>) => void;
+  bots: Bot[];
+  statusCounts: Record<string, number>;
+}
+
+/**
+ * Filter controls for the call history list
+ */
+export function CallFiltersPopover({ filters, onChange, bots, statusCounts }: CallFiltersPopoverProps) {
+  const activeCount = FILTER_KEYS.filter((key) => filters[key]).length;
+
+  // "all" clears the filter
+  const selectValue = (key: keyof CallSearchFilters) => filters[key] || "all";
+  const handleSelect = (key: keyof CallSearchFilters) => (value: string) =>
+    onChange({ [key]: value === "all" ? undefined : value });
+
+  const handleDuration = (key: "min_duration" | "max_duration") => (value: string) => {
+    const seconds = parseInt(value);
+    onChange({ [key]: isNaN(seconds) || seconds < 0 ? undefined : String(seconds) });
+  };
+
+  const clearAll = () =>
+    onChange(Object.fromEntries(FILTER_KEYS.map((key) => [key, undefined])) as Partial<CallSearchFilters>);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Filter className="h-4 w-4" />
+          Filters
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-1">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="space-y-4">
+          <div className="grid gap-1.5">
+            <Label className="text-xs">Status</Label>
+            <Select value={selectValue("status")} onValueChange={handleSelect("status")}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} ({statusCounts[option.value] ?? 0})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-1.5">
+            <Label className="text-xs">Agent</Label>
+            <Select value={selectValue("bot_id")} onValueChange={handleSelect("bot_id")}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Agents</SelectItem>
+                {bots.map((bot) => (
+                  <SelectItem key={bot.id} value={bot.id}>
+                    {bot.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label className="text-xs">From</Label>
+              <Input
+                type="date"
+                className="h-9"
+                value={filters.from || ""}
+                onChange={(e) => onChange({ from: e.target.value || undefined })}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs">To</Label>
+              <Input
+                type="date"
+                className="h-9"
+                value={filters.to || ""}
+                onChange={(e) => onChange({ to: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Min duration (sec)</Label>
+              <Input
+                type="number"
+                min={0}
+                className="h-9"
+                value={filters.min_duration || ""}
+                onChange={(e) => handleDuration("min_duration")(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Max duration (sec)</Label>
+              <Input
+                type="number"
+                min={0}
+                className="h-9"
+                value={filters.max_duration || ""}
+                onChange={(e) => handleDuration("max_duration")(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Sentiment</Label>
+              <Select value={selectValue("sentiment")} onValueChange={handleSelect("sentiment")}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any</SelectItem>
+                  {SENTIMENT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="text-xs">Lead</Label>
+              <Select value={selectValue("lead")} onValueChange={handleSelect("lead")}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any</SelectItem>
+                  <SelectItem value="yes">Leads only</SelectItem>
+                  <SelectItem value="no">Not leads</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-1.5">
+            <Label className="text-xs">Category</Label>
+            <Select value={selectValue("call_type")} onValueChange={handleSelect("call_type")}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {CALL_TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={clearAll}>
+              Clear Filters
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
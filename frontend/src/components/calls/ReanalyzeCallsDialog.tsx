@@ -0,0 +1,247 @@
+import { useState, useEffect } from "react";
+import { Loader2, RefreshCw, Coins, CheckCircle, XCircle, Ban } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { useCallReanalysis } from "@/hooks/useCallReanalysis";
+import type { Bot, ReanalysisEstimate, ReanalysisFilters } from "@/types/database";
+
+interface ReanalyzeCallsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bots: Bot[];
+  reanalysis: ReturnType<typeof useCallReanalysis>;
+}
+
+/**
+ * Dates are picked in the browser's timezone and cover whole days
+ */
+function buildFilters(fromDate: string, toDate: string, botId: string, errorsOnly: boolean): ReanalysisFilters {
+  return {
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : null,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : null,
+    bot_id: botId === "all" ? null : botId,
+    errors_only: errorsOnly,
+  };
+}
+
+/**
+ * Re-analyze a filtered set of past calls, e.g. after a prompt change or a model outage
+ */
+export function ReanalyzeCallsDialog({ open, onOpenChange, bots, reanalysis }: ReanalyzeCallsDialogProps) {
+  const { batch, estimating, starting, cancelling, estimate, startBatch, cancelBatch, clearBatch } = reanalysis;
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [botId, setBotId] = useState("all");
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [overwrite, setOverwrite] = useState(false);
+  const [estimateResult, setEstimateResult] = useState<ReanalysisEstimate | null>(null);
+
+  // Errors are always overwritten, so the switch only applies to the other calls
+  const effectiveOverwrite = overwrite && !errorsOnly;
+
+  // Refresh the estimate shortly after the filters stop changing
+  useEffect(() => {
+    if (!open || batch) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await estimate(buildFilters(fromDate, toDate, botId, errorsOnly), effectiveOverwrite);
+        if (!cancelled) setEstimateResult(result);
+      } catch (error) {
+        if (!cancelled) setEstimateResult(null);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, batch, fromDate, toDate, botId, errorsOnly, effectiveOverwrite, estimate]);
+
+  const handleStart = async () => {
+    try {
+      const started = await startBatch(buildFilters(fromDate, toDate, botId, errorsOnly), effectiveOverwrite);
+      toast.success(`Re-analyzing ${started.total_calls} call${started.total_calls !== 1 ? "s" : ""}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start re-analysis");
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await cancelBatch();
+      toast.success("Re-analysis cancelled");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel re-analysis");
+    }
+  };
+
+  const progressPercent = batch && batch.total_calls > 0
+    ? Math.round((batch.progress.processed / batch.total_calls) * 100)
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5 text-blue-600" />
+            Re-analyze Calls
+          </DialogTitle>
+          <DialogDescription>
+            Run AI analysis again on completed calls, for example after improving your prompt or when analysis failed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {batch ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-slate-700">
+                {batch.progress.processed} of {batch.total_calls} calls processed
+              </span>
+              <Badge
+                variant="outline"
+                className={
+                  batch.status === "running"
+                    ? "bg-blue-50 text-blue-700 border-blue-200"
+                    : batch.status === "completed"
+                      ? "bg-emerald-50 text-emerald-700 border-emerald-200"
+                      : "bg-slate-50 text-slate-700 border-slate-200"
+                }
+              >
+                {batch.status === "running" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                {batch.status.charAt(0).toUpperCase() + batch.status.slice(1)}
+              </Badge>
+            </div>
+            <Progress value={progressPercent} />
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div className="flex items-center gap-2 text-emerald-700">
+                <CheckCircle className="h-4 w-4" />
+                {batch.progress.completed} analyzed
+              </div>
+              <div className="flex items-center gap-2 text-red-700">
+                <XCircle className="h-4 w-4" />
+                {batch.progress.failed} failed
+              </div>
+              <div className="flex items-center gap-2 text-slate-600">
+                <Ban className="h-4 w-4" />
+                {batch.progress.cancelled} cancelled
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Estimated cost: {batch.estimated_credits} credits
+              {batch.overwrite && " · Existing results are overwritten"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-1.5">
+                <Label htmlFor="reanalyze-from">From</Label>
+                <Input id="reanalyze-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="reanalyze-to">To</Label>
+                <Input id="reanalyze-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid gap-1.5">
+              <Label>Agent</Label>
+              <Select value={botId} onValueChange={setBotId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All Agents" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Agents</SelectItem>
+                  {bots.map((bot) => (
+                    <SelectItem key={bot.id} value={bot.id}>
+                      {bot.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Only calls where analysis failed</Label>
+                <p className="text-xs text-muted-foreground">Retry calls left with an analysis error</p>
+              </div>
+              <Switch checked={errorsOnly} onCheckedChange={setErrorsOnly} />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className={errorsOnly ? "text-muted-foreground" : undefined}>Overwrite existing results</Label>
+                <p className="text-xs text-muted-foreground">
+                  Also re-analyze calls that were analyzed successfully
+                </p>
+              </div>
+              <Switch checked={effectiveOverwrite} onCheckedChange={setOverwrite} disabled={errorsOnly} />
+            </div>
+
+            <div className="flex items-center gap-3 p-3 rounded-lg bg-slate-50 border border-slate-200 text-sm">
+              <Coins className="h-4 w-4 text-amber-600 shrink-0" />
+              {estimating && !estimateResult ? (
+                <span className="text-muted-foreground">Estimating...</span>
+              ) : estimateResult ? (
+                <div>
+                  <span className="font-medium text-slate-900">
+                    {estimateResult.call_count} call{estimateResult.call_count !== 1 ? "s" : ""} · ~{estimateResult.estimated_credits} credits
+                  </span>
+                  {estimateResult.matched_calls > estimateResult.max_calls && (
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {estimateResult.matched_calls} calls match; only the newest {estimateResult.max_calls} are queued per batch.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <span className="text-muted-foreground">Could not estimate the number of calls</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {batch ? (
+            batch.status === "running" ? (
+              <Button variant="outline" onClick={handleCancel} disabled={cancelling} className="gap-2">
+                {cancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                Cancel Re-analysis
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={clearBatch}>
+                New Re-analysis
+              </Button>
+            )
+          ) : (
+            <Button
+              onClick={handleStart}
+              disabled={starting || !estimateResult || estimateResult.call_count === 0}
+              className="gap-2"
+            >
+              {starting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              Start Re-analysis
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState, type ReactNode } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { openRecording } from "@/lib/callRecordings";
+
+interface RecordingLinkProps {
+  callId: string;
+  className?: string;
+  children: ReactNode;
+}
+
+/**
+ * Link-styled button that opens a call's recording through a short-lived URL
+ */
+export function RecordingLink({ callId, className, children }: RecordingLinkProps) {
+  const [opening, setOpening] = useState(false);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (opening) return;
+
+    setOpening(true);
+    try {
+      await openRecording(callId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to open recording");
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={opening}
+      className={cn("hover:underline flex items-center gap-1 text-left disabled:opacity-60", className)}
+    >
+      {opening && <Loader2 className="h-3 w-3 animate-spin" />}
+      {children}
+    </button>
+  );
+}
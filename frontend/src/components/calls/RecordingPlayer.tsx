@@ -0,0 +1,65 @@
+import { forwardRef, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { useCallRecording } from "@/hooks/useCallRecording";
+import type { Call } from "@/types/database";
+
+interface RecordingPlayerProps {
+  call: Pick<Call, "id" | "recording_pending" | "recording_storage_path">;
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+/**
+ * Audio player for a call's recording, played through a short-lived URL
+ * An expired URL is refreshed once the player reports an error, keeping the position
+ */
+const RecordingPlayer = forwardRef<HTMLAudioElement, RecordingPlayerProps>(
+  ({ call, onTimeUpdate }, ref) => {
+    const { url, loading, error, refresh } = useCallRecording(call);
+    // Only refresh once per failure, so a broken recording doesn't loop
+    const refreshedRef = useRef(false);
+
+    if (loading && !url) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading recording...
+        </div>
+      );
+    }
+
+    if (error || !url) {
+      return <p className="text-sm text-muted-foreground">{error || "Recording unavailable"}</p>;
+    }
+
+    const handleError = async (e: React.SyntheticEvent<HTMLAudioElement>) => {
+      if (refreshedRef.current) return;
+      refreshedRef.current = true;
+
+      const audio = e.currentTarget;
+      const position = audio.currentTime;
+      await refresh();
+      audio.currentTime = position;
+    };
+
+    return (
+      <audio
+        ref={ref}
+        controls
+        className="w-full"
+        src={url}
+        preload="metadata"
+        onError={handleError}
+        onLoadedMetadata={() => {
+          refreshedRef.current = false;
+        }}
+        onTimeUpdate={(e) => onTimeUpdate?.(e.currentTarget.currentTime)}
+      >
+        Your browser does not support the audio element.
+      </audio>
+    );
+  },
+);
+
+RecordingPlayer.displayName = "RecordingPlayer";
+
+export { RecordingPlayer };
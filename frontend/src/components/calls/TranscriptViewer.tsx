@@ -0,0 +1,228 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { FileText, Phone, Search, Link as LinkIcon, Bot as BotIcon, User, ShieldCheck, Eye, EyeOff, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { formatTranscriptTime, getTranscriptTurns, splitByQuery } from "@/lib/transcript";
+import { hasRecording } from "@/lib/callRecordings";
+import { fetchUnredactedTranscript, PERMISSION_VIEW_UNREDACTED } from "@/lib/piiRedaction";
+import { usePermissions } from "@/hooks/usePermissions";
+import { RecordingLink } from "./RecordingLink";
+import { RecordingPlayer } from "./RecordingPlayer";
+import type { Call, TranscriptTurn } from "@/types/database";
+
+interface TranscriptViewerProps {
+  call: Call;
+}
+
+/**
+ * Chat-style transcript with search; clicking a timed turn seeks the recording
+ */
+export function TranscriptViewer({ call }: TranscriptViewerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [query, setQuery] = useState("");
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+  const { hasPermission } = usePermissions();
+  const [original, setOriginal] = useState<TranscriptTurn[] | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [loadingOriginal, setLoadingOriginal] = useState(false);
+
+  // The original belongs to one call
+  useEffect(() => {
+    setOriginal(null);
+    setShowOriginal(false);
+  }, [call.id]);
+
+  const redaction = call.pii_redaction;
+  const redactedCount = redaction ? Object.values(redaction.counts || {}).reduce((sum, n) => sum + n, 0) : 0;
+  const canViewOriginal = Boolean(redaction) && hasPermission(PERMISSION_VIEW_UNREDACTED);
+
+  const toggleOriginal = async () => {
+    if (showOriginal) {
+      setShowOriginal(false);
+      return;
+    }
+
+    if (!original) {
+      setLoadingOriginal(true);
+      try {
+        const unredacted = await fetchUnredactedTranscript(call.id);
+        setOriginal(getTranscriptTurns(unredacted));
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to load unredacted transcript");
+        return;
+      } finally {
+        setLoadingOriginal(false);
+      }
+    }
+
+    setShowOriginal(true);
+  };
+
+  const turns = showOriginal && original ? original : getTranscriptTurns(call);
+  const canSeek = hasRecording(call);
+  const normalizedQuery = query.trim().toLowerCase();
+  const matchCount = normalizedQuery
+    ? turns.reduce((count, turn) => count + splitByQuery(turn.content, query).filter((part) => part.match).length, 0)
+    : 0;
+
+  const seekTo = (seconds: number | null) => {
+    const audio = audioRef.current;
+    if (!audio || seconds === null) return;
+
+    audio.currentTime = seconds;
+    audio.play().catch(() => {
+      // Autoplay can be blocked; the position is still set
+    });
+  };
+
+  const isActiveTurn = (start: number | null, end: number | null) =>
+    currentTime !== null && start !== null && end !== null && currentTime >= start && currentTime <= end;
+
+  if (turns.length === 0 && !canSeek) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
+        <p>
+          {call.data_purged_at
+            ? "The recording and transcript were deleted by your retention policy"
+            : "No content available for this call"}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {canSeek && (
+        <div>
+          <Label className="text-sm font-medium flex items-center gap-2 mb-2">
+            <Phone className="h-4 w-4" />
+            Recording
+          </Label>
+          <div className="mt-2 space-y-2">
+            <RecordingPlayer ref={audioRef} call={call} onTimeUpdate={setCurrentTime} />
+            <RecordingLink callId={call.id} className="text-primary text-sm">
+              <LinkIcon className="h-3 w-3" />
+              Open recording in new tab
+            </RecordingLink>
+          </div>
+        </div>
+      )}
+
+      {turns.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <div className="flex items-center gap-2">
+              <Label className="text-sm font-medium flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Transcript
+              </Label>
+              {redaction && (
+                <Badge
+                  variant="secondary"
+                  className="gap-1 font-normal"
+                  title={redaction.llm_error ? `Names and addresses were not checked: ${redaction.llm_error}` : undefined}
+                >
+                  <ShieldCheck className="h-3 w-3" />
+                  {showOriginal ? "Unredacted" : redactedCount > 0 ? `PII redacted (${redactedCount})` : "No PII found"}
+                </Badge>
+              )}
+              {canViewOriginal && (
+                <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={toggleOriginal} disabled={loadingOriginal}>
+                  {loadingOriginal ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : showOriginal ? (
+                    <EyeOff className="h-3 w-3" />
+                  ) : (
+                    <Eye className="h-3 w-3" />
+                  )}
+                  {showOriginal ? "Hide original" : "Show original"}
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {normalizedQuery && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {matchCount} match{matchCount !== 1 ? "es" : ""}
+                </span>
+              )}
+              <div className="relative">
+                <Search className="h-3.5 w-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search transcript"
+                  className="h-8 w-48 pl-8 text-sm"
+                />
+              </div>
+            </div>
+          </div>
+
+          <ScrollArea className="h-80 mt-2 p-4 bg-secondary/30 rounded-lg border">
+            <div className="space-y-3">
+              {turns.map((turn, index) => {
+                const isAgent = turn.role === "agent";
+                const seekable = canSeek && turn.start !== null;
+                const active = isActiveTurn(turn.start, turn.end);
+
+                return (
+                  <div key={index} className={cn("flex gap-2", isAgent ? "justify-start" : "justify-end")}>
+                    {isAgent && (
+                      <div className="h-7 w-7 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center shrink-0">
+                        <BotIcon className="h-3.5 w-3.5" />
+                      </div>
+                    )}
+                    <div
+                      role={seekable ? "button" : undefined}
+                      tabIndex={seekable ? 0 : undefined}
+                      onClick={() => seekable && seekTo(turn.start)}
+                      onKeyDown={(e) => {
+                        if (seekable && (e.key === "Enter" || e.key === " ")) {
+                          e.preventDefault();
+                          seekTo(turn.start);
+                        }
+                      }}
+                      title={seekable ? "Play from here" : undefined}
+                      className={cn(
+                        "max-w-[80%] rounded-lg px-3 py-2 text-sm border transition-colors",
+                        isAgent ? "bg-white border-slate-200" : "bg-blue-50 border-blue-100",
+                        seekable && "cursor-pointer hover:border-blue-300",
+                        active && "ring-2 ring-blue-400",
+                      )}
+                    >
+                      <div className="flex items-center gap-2 mb-0.5 text-xs text-muted-foreground">
+                        <span className="font-medium">{isAgent ? "Agent" : "Caller"}</span>
+                        {turn.start !== null && <span className="font-mono">{formatTranscriptTime(turn.start)}</span>}
+                      </div>
+                      <p className="whitespace-pre-wrap leading-relaxed">
+                        {splitByQuery(turn.content, query).map((part, partIndex) =>
+                          part.match ? (
+                            <mark key={partIndex} className="bg-yellow-200 rounded px-0.5">
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={partIndex}>{part.text}</span>
+                          ),
+                        )}
+                      </p>
+                    </div>
+                    {!isAgent && (
+                      <div className="h-7 w-7 rounded-full bg-slate-200 text-slate-700 flex items-center justify-center shrink-0">
+                        <User className="h-3.5 w-3.5" />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+}
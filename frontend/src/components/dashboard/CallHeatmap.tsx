@@ -0,0 +1,45 @@
+import { WEEKDAY_LABELS } from "@/lib/conversationAnalytics";
+
+interface CallHeatmapProps {
+  heatmap: number[][]; // [weekday, Monday first][hour of day]
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * Calls by hour of day and day of week, darker cells for busier hours
+ */
+export function CallHeatmap({ heatmap }: CallHeatmapProps) {
+  const max = Math.max(1, ...heatmap.flat());
+  const dayTotals = heatmap.map((hours) => hours.reduce((sum, count) => sum + count, 0));
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[640px]">
+        <div className="grid grid-cols-[40px_repeat(24,minmax(0,1fr))_48px] gap-1 mb-1">
+          <div />
+          {HOURS.map((hour) => (
+            <div key={hour} className="text-[10px] text-slate-400 text-center">
+              {hour % 3 === 0 ? String(hour).padStart(2, "0") : ""}
+            </div>
+          ))}
+          <div />
+        </div>
+        {heatmap.map((hours, weekday) => (
+          <div key={weekday} className="grid grid-cols-[40px_repeat(24,minmax(0,1fr))_48px] gap-1 mb-1">
+            <div className="text-xs text-slate-500 font-medium flex items-center">{WEEKDAY_LABELS[weekday]}</div>
+            {hours.map((count, hour) => (
+              <div
+                key={hour}
+                className="h-6 rounded-sm bg-blue-600"
+                style={{ opacity: count === 0 ? 0.05 : 0.15 + (count / max) * 0.85 }}
+                title={`${WEEKDAY_LABELS[weekday]} ${String(hour).padStart(2, "0")}:00 - ${count} call${count === 1 ? "" : "s"}`}
+              />
+            ))}
+            <div className="text-xs text-slate-500 font-medium flex items-center justify-end">{dayTotals[weekday]}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useQaScorecards, QA_SCORECARD_DAYS, type QaFailure } from "@/hooks/useQaScorecards";
+import type { QaCriterionStats } from "@/lib/qaRubric";
+import type { Bot } from "@/types/database";
+import { cn } from "@/lib/utils";
+
+interface QaScorecardsProps {
+  bots: Bot[];
+}
+
+interface Drilldown {
+  botName: string;
+  criterion: QaCriterionStats;
+}
+
+const getScoreColor = (score: number | null) => {
+  if (score === null) return "text-slate-400";
+  if (score >= 80) return "text-emerald-600";
+  if (score >= 60) return "text-amber-600";
+  return "text-red-600";
+};
+
+const getBarColor = (passRate: number) => {
+  if (passRate >= 80) return "bg-emerald-500";
+  if (passRate >= 60) return "bg-amber-500";
+  return "bg-red-500";
+};
+
+/**
+ * Per-agent QA scores and criterion pass rates, with the failing calls of a criterion on click
+ */
+export function QaScorecards({ bots }: QaScorecardsProps) {
+  const { scorecards, loading, fetchFailures } = useQaScorecards();
+  const [drilldown, setDrilldown] = useState<Drilldown | null>(null);
+  const [failures, setFailures] = useState<QaFailure[]>([]);
+  const [failuresLoading, setFailuresLoading] = useState(false);
+  const [failuresError, setFailuresError] = useState<string | null>(null);
+
+  const getBotName = (botId: string) => bots.find((bot) => bot.id === botId)?.name || "Deleted agent";
+
+  const openDrilldown = async (botId: string, criterion: QaCriterionStats) => {
+    setDrilldown({ botName: getBotName(botId), criterion });
+    setFailures([]);
+    setFailuresError(null);
+    setFailuresLoading(true);
+    try {
+      setFailures(await fetchFailures(botId, criterion.key));
+    } catch (error) {
+      setFailuresError(error instanceof Error ? error.message : "Failed to load failing calls");
+    } finally {
+      setFailuresLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardHeader className="border-b border-slate-100 pb-4">
+        <CardTitle className="text-lg font-bold text-slate-900 flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-blue-600" />
+          QA Scorecards
+        </CardTitle>
+        <CardDescription>
+          How each agent scores against its QA rubric over the last {QA_SCORECARD_DAYS} days. Click a criterion to see failing calls.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        ) : scorecards.length === 0 ? (
+          <div className="text-center py-8">
+            <ClipboardCheck className="h-10 w-10 text-slate-200 mx-auto mb-3" />
+            <p className="text-sm text-slate-500">
+              No graded calls yet. Add a QA rubric to an agent and its analyzed calls will be scored.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {scorecards.map((scorecard) => (
+              <div key={scorecard.botId} className="p-4 rounded-xl border border-slate-100">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <p className="text-sm font-bold text-slate-900">{getBotName(scorecard.botId)}</p>
+                    <p className="text-xs text-slate-500 font-medium">{scorecard.gradedCalls} graded calls</p>
+                  </div>
+                  <div className="text-right">
+                    <p className={cn("text-2xl font-bold", getScoreColor(scorecard.averageScore))}>
+                      {scorecard.averageScore === null ? "—" : `${scorecard.averageScore}%`}
+                    </p>
+                    <p className="text-xs text-slate-500 font-medium">avg. score</p>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  {scorecard.criteria.map((criterion) => (
+                    <button
+                      key={criterion.key}
+                      onClick={() => openDrilldown(scorecard.botId, criterion)}
+                      disabled={criterion.failed === 0}
+                      className="w-full text-left p-2 rounded-lg hover:bg-slate-50 disabled:hover:bg-transparent disabled:cursor-default transition-colors"
+                    >
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span className="text-slate-700 line-clamp-1">{criterion.label}</span>
+                        <span className="text-xs font-medium text-slate-500 shrink-0 ml-2">
+                          {criterion.passRate === null ? "n/a" : `${criterion.passRate}%`}
+                          {criterion.failed > 0 && <span className="text-red-600"> · {criterion.failed} failed</span>}
+                        </span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                        {criterion.passRate !== null && (
+                          <div
+                            className={cn("h-full rounded-full", getBarColor(criterion.passRate))}
+                            style={{ width: `${criterion.passRate}%` }}
+                          />
+                        )}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={drilldown !== null} onOpenChange={(open) => !open && setDrilldown(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{drilldown?.criterion.label}</DialogTitle>
+            <DialogDescription>
+              Calls handled by {drilldown?.botName} that failed this criterion in the last {QA_SCORECARD_DAYS} days
+            </DialogDescription>
+          </DialogHeader>
+          {failuresLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          ) : failuresError ? (
+            <p className="text-sm text-destructive py-4">{failuresError}</p>
+          ) : failures.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">No failing calls found.</p>
+          ) : (
+            <ScrollArea className="max-h-[60vh] pr-4">
+              <div className="space-y-3">
+                {failures.map((failure) => (
+                  <div key={failure.id} className="p-3 rounded-lg border border-slate-200">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium text-slate-900">
+                        {failure.calls?.contact_name || failure.calls?.phone_number || "Unknown caller"}
+                      </span>
+                      <span className="text-xs text-slate-500">
+                        {format(new Date(failure.calls?.created_at || failure.created_at), "MMM d, yyyy h:mm a")}
+                      </span>
+                    </div>
+                    <p className="text-sm text-slate-600 mt-1">
+                      {failure.evidence || <span className="italic text-slate-400">No evidence given</span>}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => setDrilldown(null)}>
+              Close
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, Edit2, Loader2, Plus, Trash2, Workflow } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useBots } from "@/hooks/useBots";
+import { useEmailAutomationRules } from "@/hooks/useEmailAutomationRules";
+import type { EmailTemplate } from "@/hooks/useEmailTemplates";
+import { describeConditions, formatDelay, getTriggerLabel, RUN_STATUS_STYLES } from "@/lib/emailAutomation";
+import type { EmailAutomationRule } from "@/types/database";
+import { EmailRuleDialog } from "./EmailRuleDialog";
+
+interface EmailAutomationRulesProps {
+  templates: EmailTemplate[];
+  // Automated emails are sent from a connected address with an app password
+  hasSenderMailbox: boolean;
+}
+
+/**
+ * Automation rules of the Email page with the emails they scheduled and sent
+ */
+export function EmailAutomationRules({ templates, hasSenderMailbox }: EmailAutomationRulesProps) {
+  const { rules, runs, loading, saveRule, toggleRule, deleteRule } = useEmailAutomationRules();
+  const { bots } = useBots();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<EmailAutomationRule | null>(null);
+
+  const botNames = useMemo(() => Object.fromEntries(bots.map((bot) => [bot.id, bot.name])), [bots]);
+  const templateNames = useMemo(() => Object.fromEntries(templates.map((template) => [template.id, template.name])), [templates]);
+  const ruleNames = useMemo(() => Object.fromEntries(rules.map((rule) => [rule.id, rule.name])), [rules]);
+
+  const openDialog = (rule: EmailAutomationRule | null) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (rule: EmailAutomationRule) => {
+    if (confirm(`Delete the rule "${rule.name}"? Emails it has scheduled will not be sent.`)) {
+      deleteRule(rule.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="space-y-2">
+          <h2 className="text-2xl font-semibold flex items-center gap-2">
+            <Workflow className="h-6 w-6" />
+            Automations
+          </h2>
+          <p className="text-muted-foreground text-sm">
+            Email callers automatically after calls, based on the agent, lead strength, call type and score
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Rule
+        </Button>
+      </div>
+
+      {!hasSenderMailbox && (
+        <div className="flex items-start gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          <AlertCircle className="h-5 w-5 shrink-0" />
+          <p>Add an email address with its SMTP password in the Email Addresses tab. Automated emails are sent from it.</p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            {rules.length} rule{rules.length !== 1 ? "s" : ""}, {rules.filter((rule) => rule.is_active).length} active
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Workflow className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No automation rules yet</p>
+              <p className="text-sm mt-1">Create a rule to follow up with callers without lifting a finger</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {rules.map((rule) => {
+                const conditions = describeConditions(rule.conditions || {}, botNames);
+                return (
+                  <div key={rule.id} className="flex items-start justify-between gap-4 rounded-lg border border-slate-200 p-4">
+                    <div className="space-y-2 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <p className="font-semibold truncate">{rule.name}</p>
+                        <Badge variant="outline">{getTriggerLabel(rule.trigger_type)}</Badge>
+                        <Badge variant="outline">{formatDelay(rule.delay_minutes)}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Sends {rule.template_id && templateNames[rule.template_id]
+                          ? `"${templateNames[rule.template_id]}"`
+                          : <span className="text-red-600">no template (choose one to send)</span>}
+                      </p>
+                      <div className="flex flex-wrap gap-1.5">
+                        {conditions.length === 0 ? (
+                          <span className="text-xs text-muted-foreground">Every call</span>
+                        ) : (
+                          conditions.map((condition) => (
+                            <Badge key={condition} variant="secondary" className="text-xs font-normal capitalize">
+                              {condition}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Switch checked={rule.is_active} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(rule)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Activity</CardTitle>
+          <CardDescription>Emails scheduled by your rules; sent ones also appear in Email Logs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing scheduled yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Send at</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-medium">{ruleNames[run.rule_id] || "Deleted rule"}</TableCell>
+                    <TableCell className="text-sm">{run.to_email || "—"}</TableCell>
+                    <TableCell className="text-sm">{format(new Date(run.send_at), "MMM d, h:mm a")}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`capitalize ${RUN_STATUS_STYLES[run.status]}`}>
+                        {run.status}
+                      </Badge>
+                      {run.error_message && run.status !== "sent" && (
+                        <p className="text-xs text-muted-foreground mt-1">{run.error_message}</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <EmailRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        rule={editingRule}
+        templates={templates}
+        bots={bots}
+        onSave={saveRule}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, BarChart3, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useEmailEngagement } from "@/hooks/useEmailEngagement";
+import type { EmailEngagementCounts } from "@/types/database";
+
+const PERIOD_OPTIONS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+// Opens and clicks are out of tracked emails, bounces out of all sent emails
+function formatRate(count: number, total: number) {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : "—";
+}
+
+function EngagementCells({ counts }: { counts: EmailEngagementCounts }) {
+  return (
+    <>
+      <TableCell className="text-right">{counts.sent}</TableCell>
+      <TableCell className="text-right">
+        {counts.opened} <span className="text-xs text-muted-foreground">({formatRate(counts.opened, counts.tracked)})</span>
+      </TableCell>
+      <TableCell className="text-right">
+        {counts.clicked} <span className="text-xs text-muted-foreground">({formatRate(counts.clicked, counts.tracked)})</span>
+      </TableCell>
+      <TableCell className="text-right">{counts.bounced}</TableCell>
+    </>
+  );
+}
+
+/**
+ * Open, click and bounce rates of sent emails, per template and per lead
+ */
+export function EmailEngagementStats() {
+  const [days, setDays] = useState("30");
+  const { engagement, loading, error } = useEmailEngagement(Number(days));
+
+  const totals = engagement?.totals;
+  const summary = totals
+    ? [
+        { label: "Sent", value: String(totals.sent), detail: `${totals.tracked} with tracking` },
+        { label: "Open Rate", value: formatRate(totals.opened, totals.tracked), detail: `${totals.opened} opened` },
+        { label: "Click Rate", value: formatRate(totals.clicked, totals.tracked), detail: `${totals.clicked} clicked` },
+        { label: "Bounce Rate", value: formatRate(totals.bounced, totals.sent), detail: `${totals.bounced} bounced` },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Engagement
+            </CardTitle>
+            <CardDescription>Open and click rates count only emails sent with tracking</CardDescription>
+          </div>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error || !engagement ? (
+          <div className="flex items-start gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive">
+            <AlertCircle className="h-5 w-5 shrink-0" />
+            <p>{error || "Failed to load email engagement"}</p>
+          </div>
+        ) : (
+          <>
+            {engagement.truncated && (
+              <p className="text-xs text-amber-600">
+                Only the most recent emails of this period are included. Pick a shorter period for complete numbers.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {summary.map((item) => (
+                <div key={item.label} className="rounded-lg border p-4">
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                  <p className="text-2xl font-semibold mt-1">{item.value}</p>
+                  <p className="text-xs text-muted-foreground mt-1">{item.detail}</p>
+                </div>
+              ))}
+            </div>
+
+            {engagement.templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No emails sent in this period</p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">By Template</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Template</TableHead>
+                        <TableHead className="text-right">Sent</TableHead>
+                        <TableHead className="text-right">Opened</TableHead>
+                        <TableHead className="text-right">Clicked</TableHead>
+                        <TableHead className="text-right">Bounced</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {engagement.templates.map((template) => (
+                        <TableRow key={template.template_id || "none"}>
+                          <TableCell className={template.template_id ? "font-medium" : "text-muted-foreground"}>
+                            {template.name}
+                          </TableCell>
+                          <EngagementCells counts={template} />
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">Most Engaged Leads</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Lead</TableHead>
+                        <TableHead className="text-right">Sent</TableHead>
+                        <TableHead className="text-right">Opened</TableHead>
+                        <TableHead className="text-right">Clicked</TableHead>
+                        <TableHead className="text-right">Bounced</TableHead>
+                        <TableHead>Last Opened</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {engagement.leads.map((lead) => (
+                        <TableRow key={lead.lead_id || lead.email}>
+                          <TableCell>
+                            <p className="font-medium">{lead.name || lead.email}</p>
+                            {lead.name && <p className="text-xs text-muted-foreground">{lead.email}</p>}
+                          </TableCell>
+                          <EngagementCells counts={lead} />
+                          <TableCell className="text-sm">
+                            {lead.last_opened_at ? format(new Date(lead.last_opened_at), "MMM d, h:mm a") : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
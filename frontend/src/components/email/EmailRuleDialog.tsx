@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { Loader2, Workflow } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { EmailAutomationRuleInput } from "@/hooks/useEmailAutomationRules";
+import type { EmailTemplate } from "@/hooks/useEmailTemplates";
+import { EMAIL_TRIGGERS, LEAD_STRENGTH_OPTIONS } from "@/lib/emailAutomation";
+import { SCORING_CALL_TYPES } from "@/lib/leadScoring";
+import type { EmailAutomationRule, EmailTriggerType } from "@/types/database";
+
+interface EmailRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Rule being edited, null to create one
+  rule: EmailAutomationRule | null;
+  templates: EmailTemplate[];
+  bots: { id: string; name: string }[];
+  onSave: (rule: EmailAutomationRuleInput, id?: string) => Promise<boolean>;
+}
+
+type DelayUnit = "minutes" | "hours" | "days";
+
+const DELAY_UNITS: { value: DelayUnit; label: string; minutes: number }[] = [
+  { value: "minutes", label: "Minutes", minutes: 1 },
+  { value: "hours", label: "Hours", minutes: 60 },
+  { value: "days", label: "Days", minutes: 1440 },
+];
+
+interface RuleDraft {
+  name: string;
+  trigger_type: EmailTriggerType;
+  template_id: string;
+  delay: string;
+  delay_unit: DelayUnit;
+  bot_ids: string[];
+  lead_strengths: ("hot" | "warm" | "cold")[];
+  call_types: string[];
+  min_score: string;
+  max_score: string;
+  track_engagement: boolean;
+  is_active: boolean;
+}
+
+function toDraft(rule: EmailAutomationRule | null): RuleDraft {
+  const delayMinutes = rule?.delay_minutes || 0;
+  const unit = [...DELAY_UNITS].reverse().find((item) => delayMinutes > 0 && delayMinutes % item.minutes === 0) || DELAY_UNITS[0];
+  const conditions = rule?.conditions || {};
+
+  return {
+    name: rule?.name || "",
+    trigger_type: rule?.trigger_type || "call_completed",
+    template_id: rule?.template_id || "",
+    delay: String(delayMinutes / unit.minutes),
+    delay_unit: unit.value,
+    bot_ids: conditions.bot_ids || [],
+    lead_strengths: conditions.lead_strengths || [],
+    call_types: conditions.call_types || [],
+    min_score: conditions.min_score != null ? String(conditions.min_score) : "",
+    max_score: conditions.max_score != null ? String(conditions.max_score) : "",
+    track_engagement: rule?.track_engagement ?? false,
+    is_active: rule?.is_active ?? true,
+  };
+}
+
+function toggleValue<T>(list: T[], value: T, checked: boolean): T[] {
+  return checked ? [...list.filter((item) => item !== value), value] : list.filter((item) => item !== value);
+}
+
+/**
+ * Create or edit an email automation rule: trigger, conditions, delay and template
+ */
+export function EmailRuleDialog({ open, onOpenChange, rule, templates, bots, onSave }: EmailRuleDialogProps) {
+  const [draft, setDraft] = useState<RuleDraft>(() => toDraft(rule));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(toDraft(rule));
+  }, [open, rule]);
+
+  const delay = parseInt(draft.delay) || 0;
+  const minScore = draft.min_score === "" ? null : parseInt(draft.min_score);
+  const maxScore = draft.max_score === "" ? null : parseInt(draft.max_score);
+  const scoresValid = [minScore, maxScore].every((score) => score === null || (score >= 0 && score <= 100))
+    && (minScore === null || maxScore === null || minScore <= maxScore);
+  const canSave = draft.name.trim() && draft.template_id && delay >= 0 && scoresValid && !saving;
+  const trigger = EMAIL_TRIGGERS.find((item) => item.value === draft.trigger_type);
+
+  const update = <K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    const unit = DELAY_UNITS.find((item) => item.value === draft.delay_unit) || DELAY_UNITS[0];
+
+    setSaving(true);
+    const saved = await onSave({
+      name: draft.name.trim(),
+      trigger_type: draft.trigger_type,
+      template_id: draft.template_id,
+      delay_minutes: delay * unit.minutes,
+      track_engagement: draft.track_engagement,
+      is_active: draft.is_active,
+      conditions: {
+        bot_ids: draft.bot_ids,
+        lead_strengths: draft.lead_strengths,
+        call_types: draft.call_types,
+        min_score: minScore,
+        max_score: maxScore,
+      },
+    }, rule?.id);
+    setSaving(false);
+
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            {rule ? "Edit Automation Rule" : "New Automation Rule"}
+          </DialogTitle>
+          <DialogDescription>
+            Send a template to the caller when a call or lead matches the conditions
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-4">
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={draft.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="e.g., Follow up hot leads"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>When</Label>
+                <Select value={draft.trigger_type} onValueChange={(value) => update("trigger_type", value as EmailTriggerType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMAIL_TRIGGERS.map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {trigger && <p className="text-xs text-muted-foreground">{trigger.description}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Send template</Label>
+                <Select value={draft.template_id} onValueChange={(value) => update("template_id", value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {templates.length === 0 && (
+                  <p className="text-xs text-muted-foreground">Create a template in the Email Templates tab first.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-delay">Delay</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="rule-delay"
+                  type="number"
+                  min={0}
+                  className="w-32"
+                  value={draft.delay}
+                  onChange={(e) => update("delay", e.target.value)}
+                />
+                <Select value={draft.delay_unit} onValueChange={(value) => update("delay_unit", value as DelayUnit)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELAY_UNITS.map((unit) => (
+                      <SelectItem key={unit.value} value={unit.value}>
+                        {unit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                0 sends right away. Conditions are checked again when a delayed email is due.
+              </p>
+            </div>
+
+            <div className="space-y-4 rounded-lg border border-slate-200 p-4">
+              <div>
+                <p className="text-sm font-semibold">Conditions</p>
+                <p className="text-xs text-muted-foreground">Leave a group empty to match any value</p>
+              </div>
+
+              {bots.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-sm">Agent</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {bots.map((bot) => (
+                      <div key={bot.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`rule-bot-${bot.id}`}
+                          checked={draft.bot_ids.includes(bot.id)}
+                          onCheckedChange={(checked) => update("bot_ids", toggleValue(draft.bot_ids, bot.id, checked === true))}
+                        />
+                        <Label htmlFor={`rule-bot-${bot.id}`} className="text-sm font-normal truncate">
+                          {bot.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-sm">Lead strength</Label>
+                <div className="flex gap-4">
+                  {LEAD_STRENGTH_OPTIONS.map((option) => (
+                    <div key={option.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-strength-${option.value}`}
+                        checked={draft.lead_strengths.includes(option.value)}
+                        onCheckedChange={(checked) => update("lead_strengths", toggleValue(draft.lead_strengths, option.value, checked === true))}
+                      />
+                      <Label htmlFor={`rule-strength-${option.value}`} className="text-sm font-normal">
+                        {option.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm">Call type</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {SCORING_CALL_TYPES.map((option) => (
+                    <div key={option.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-type-${option.value}`}
+                        checked={draft.call_types.includes(option.value)}
+                        onCheckedChange={(checked) => update("call_types", toggleValue(draft.call_types, option.value, checked === true))}
+                      />
+                      <Label htmlFor={`rule-type-${option.value}`} className="text-sm font-normal">
+                        {option.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm">Lead score</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="w-24"
+                    placeholder="Min"
+                    value={draft.min_score}
+                    onChange={(e) => update("min_score", e.target.value)}
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="w-24"
+                    placeholder="Max"
+                    value={draft.max_score}
+                    onChange={(e) => update("max_score", e.target.value)}
+                  />
+                </div>
+                {!scoresValid && (
+                  <p className="text-xs text-red-600">Scores must be between 0 and 100, with min below max.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="rule-track" className="text-sm font-semibold">Track opens and clicks</Label>
+                <p className="text-xs text-muted-foreground">Results show in the Email Logs tab</p>
+              </div>
+              <Switch id="rule-track" checked={draft.track_engagement} onCheckedChange={(checked) => update("track_engagement", checked)} />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="rule-active" className="text-sm font-semibold">Active</Label>
+                <p className="text-xs text-muted-foreground">Paused rules don't schedule or send emails</p>
+              </div>
+              <Switch id="rule-active" checked={draft.is_active} onCheckedChange={(checked) => update("is_active", checked)} />
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {rule ? "Save Rule" : "Create Rule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { Eye, EyeOff, Loader2, Lock, PlugZap, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { UserEmail } from "@/hooks/useEmails";
+import { useMailboxSettings, type MailboxInput } from "@/hooks/useMailboxSettings";
+import { EMPTY_SMTP_SETTINGS, toSmtpSettingsDraft, type SmtpSettingsDraft } from "@/lib/smtpSettings";
+import { SmtpSettingsFields } from "./SmtpSettingsFields";
+
+interface MailboxSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mailbox: UserEmail | null;
+  onSaved: (mailbox: UserEmail) => void;
+}
+
+/**
+ * Edit a connected email address's SMTP settings
+ * The saved password is never shown; entering a new one replaces it
+ * For mailboxes connected by signing in, the password is only used if access is revoked
+ */
+export function MailboxSettingsDialog({ open, onOpenChange, mailbox, onSaved }: MailboxSettingsDialogProps) {
+  const { saving, testing, updateMailbox, testSettings, disconnectOAuth } = useMailboxSettings();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [settings, setSettings] = useState<SmtpSettingsDraft>(EMPTY_SMTP_SETTINGS);
+
+  useEffect(() => {
+    if (open && mailbox) {
+      setName(mailbox.name || "");
+      setSettings(toSmtpSettingsDraft(mailbox));
+    }
+    if (!open) {
+      setPassword("");
+      setShowPassword(false);
+    }
+  }, [open, mailbox]);
+
+  if (!mailbox) return null;
+
+  const isOAuth = mailbox.auth_type === "oauth";
+  const providerLabel = mailbox.oauth_provider === "microsoft" ? "Microsoft 365" : "Google";
+
+  const input: MailboxInput = {
+    email: mailbox.email,
+    name,
+    password,
+    settings,
+  };
+
+  const handleDisconnect = async () => {
+    const saved = await disconnectOAuth(mailbox.id);
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const saved = await updateMailbox(mailbox.id, input);
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>SMTP Settings</DialogTitle>
+          <DialogDescription>{mailbox.email}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isOAuth && (
+            <div className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="flex items-start gap-2 text-sm">
+                <ShieldCheck className="h-4 w-4 mt-0.5 text-primary" />
+                <div>
+                  <p className="font-medium">Signed in with {providerLabel}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {mailbox.oauth_error
+                      ? `Access needs to be renewed: ${mailbox.oauth_error}`
+                      : "Emails are sent without an app password; the settings below are for the fallback password"}
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={handleDisconnect} disabled={saving || testing}>
+                Disconnect
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="mailbox_name">Name (Optional)</Label>
+            <Input
+              id="mailbox_name"
+              placeholder="e.g., Support Email"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <SmtpSettingsFields
+            idPrefix="mailbox"
+            email={mailbox.email}
+            value={settings}
+            onChange={setSettings}
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="mailbox_smtp_password">
+              {isOAuth ? "Fallback SMTP Password" : "New SMTP Password"}
+            </Label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="mailbox_smtp_password"
+                type={showPassword ? "text" : "password"}
+                placeholder={
+                  isOAuth
+                    ? "Optional, used if sign-in access is revoked"
+                    : mailbox.smtp_configured
+                      ? "Leave empty to keep the saved password"
+                      : "Enter SMTP / App password"
+                }
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="pl-9 pr-10"
+                autoComplete="new-password"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground bg-transparent border-none cursor-pointer p-0"
+              >
+                {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={() => testSettings(input, mailbox.id)}
+            disabled={testing || saving}
+          >
+            {testing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlugZap className="mr-2 h-4 w-4" />}
+            Test Connection
+          </Button>
+          <Button onClick={handleSave} disabled={saving || testing}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
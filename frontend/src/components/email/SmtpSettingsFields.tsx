@@ -0,0 +1,94 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  SMTP_SECURITY_OPTIONS,
+  getDefaultSmtpPort,
+  guessSmtpHost,
+  type SmtpSettingsDraft,
+} from "@/lib/smtpSettings";
+
+interface SmtpSettingsFieldsProps {
+  // Address the settings are for, used for the suggested host and username
+  email: string;
+  value: SmtpSettingsDraft;
+  onChange: (value: SmtpSettingsDraft) => void;
+  idPrefix: string;
+}
+
+/**
+ * Host, port, TLS mode and login for a connected email address
+ * Empty fields fall back to the settings guessed from the email domain
+ */
+export function SmtpSettingsFields({ email, value, onChange, idPrefix }: SmtpSettingsFieldsProps) {
+  const security = value.secure ? "ssl" : "starttls";
+
+  const handleSecurityChange = (next: string) => {
+    const option = SMTP_SECURITY_OPTIONS.find((item) => item.value === next);
+    if (!option) return;
+
+    // Switch the port along with the mode unless a custom one was entered
+    const port = parseInt(value.port, 10);
+    const isDefaultPort = !value.port || port === getDefaultSmtpPort(value.secure);
+    onChange({
+      ...value,
+      secure: option.secure,
+      port: isDefaultPort ? String(option.port) : value.port,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="col-span-2 space-y-2">
+        <Label htmlFor={`${idPrefix}_smtp_host`}>SMTP Host</Label>
+        <Input
+          id={`${idPrefix}_smtp_host`}
+          placeholder={guessSmtpHost(email)}
+          value={value.host}
+          onChange={(e) => onChange({ ...value, host: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}_smtp_security`}>Encryption</Label>
+        <Select value={security} onValueChange={handleSecurityChange}>
+          <SelectTrigger id={`${idPrefix}_smtp_security`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SMTP_SECURITY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}_smtp_port`}>Port</Label>
+        <Input
+          id={`${idPrefix}_smtp_port`}
+          type="number"
+          min={1}
+          max={65535}
+          placeholder={String(getDefaultSmtpPort(value.secure))}
+          value={value.port}
+          onChange={(e) => onChange({ ...value, port: e.target.value })}
+        />
+      </div>
+
+      <div className="col-span-2 space-y-2">
+        <Label htmlFor={`${idPrefix}_smtp_username`}>
+          SMTP Username (Optional)
+        </Label>
+        <Input
+          id={`${idPrefix}_smtp_username`}
+          placeholder={email.trim() || "Defaults to the email address"}
+          value={value.username}
+          onChange={(e) => onChange({ ...value, username: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Copy, GitMerge, Loader2, Mail, Phone, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useLeadDuplicates, type LeadDuplicatePair } from "@/hooks/useLeadDuplicates";
+import type { LeadDuplicateReason, PageLead } from "@/types/database";
+
+interface DuplicateLeadsQueueProps {
+  // Called after a merge so the lead lists can reload
+  onMerged: () => void;
+}
+
+const REASON_LABELS: Record<LeadDuplicateReason, string> = {
+  same_phone: "Same phone",
+  same_email: "Same email",
+  same_name: "Same name",
+  similar_name: "Similar name",
+  same_phone_suffix: "Phone differs only in area code",
+  similar_email: "Similar email",
+};
+
+function LeadSummary({ lead, onKeep, disabled }: { lead: PageLead; onKeep: () => void; disabled: boolean }) {
+  return (
+    <div className="flex-1 rounded-lg border border-slate-200 p-3 space-y-1 min-w-0">
+      <p className="text-sm font-semibold text-slate-900 truncate">{lead.name || "Unknown"}</p>
+      <p className="text-xs text-slate-500 flex items-center gap-1 truncate">
+        <Phone className="h-3 w-3 shrink-0" /> {lead.phone_number || "-"}
+      </p>
+      <p className="text-xs text-slate-500 flex items-center gap-1 truncate">
+        <Mail className="h-3 w-3 shrink-0" /> {lead.email || "-"}
+      </p>
+      <Button variant="outline" size="sm" className="w-full mt-2 border-slate-200" onClick={onKeep} disabled={disabled}>
+        <GitMerge className="mr-2 h-3.5 w-3.5" /> Keep this lead
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Review queue of leads that may be the same person; merge them or mark them as different people
+ */
+export function DuplicateLeadsQueue({ onMerged }: DuplicateLeadsQueueProps) {
+  const { pairs, mergeLeads, dismissPair } = useLeadDuplicates();
+  const [busyPairId, setBusyPairId] = useState<string | null>(null);
+
+  if (pairs.length === 0) return null;
+
+  const handleKeep = async (pair: LeadDuplicatePair, primary: PageLead, duplicate: PageLead) => {
+    setBusyPairId(pair.id);
+    const merged = await mergeLeads(primary.id, duplicate.id);
+    setBusyPairId(null);
+    if (merged) onMerged();
+  };
+
+  const handleDismiss = async (pair: LeadDuplicatePair) => {
+    setBusyPairId(pair.id);
+    await dismissPair(pair.id);
+    setBusyPairId(null);
+  };
+
+  return (
+    <Card className="border-amber-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg font-bold text-slate-900 flex items-center gap-2">
+          <Copy className="h-5 w-5 text-amber-600" /> Possible Duplicates
+        </CardTitle>
+        <CardDescription>
+          {pairs.length} pair{pairs.length === 1 ? "" : "s"} of leads that may be the same person. Keep one to merge
+          the other's calls and details into it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pairs.map((pair) => {
+          const busy = busyPairId === pair.id;
+          const lead = pair.lead as PageLead;
+          const existing = pair.duplicate_of as PageLead;
+          return (
+            <div key={pair.id} className="rounded-xl border border-slate-200 p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                  {Math.round(pair.score * 100)}% match
+                </Badge>
+                {pair.reasons.map((reason) => (
+                  <Badge key={reason} variant="outline" className="bg-slate-50 text-slate-600 border-slate-200">
+                    {REASON_LABELS[reason] || reason}
+                  </Badge>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto text-slate-500"
+                  onClick={() => handleDismiss(pair)}
+                  disabled={busy}
+                >
+                  {busy ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <X className="mr-1 h-3.5 w-3.5" />}
+                  Not a duplicate
+                </Button>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <LeadSummary lead={existing} onKeep={() => handleKeep(pair, existing, lead)} disabled={busy} />
+                <LeadSummary lead={lead} onKeep={() => handleKeep(pair, lead, existing)} disabled={busy} />
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
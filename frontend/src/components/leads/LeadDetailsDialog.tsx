@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Gauge, History, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { PIPELINE_STAGES, getStageLabel } from "@/lib/leadPipeline";
+import { getScoringFactorLabel } from "@/lib/leadScoring";
+import type { LeadPipelineStage, LeadStageHistory, PageLead } from "@/types/database";
+
+interface LeadDetailsDialogProps {
+  lead: PageLead | null;
+  onClose: () => void;
+  onMove: (leadId: string, stage: LeadPipelineStage) => Promise<boolean>;
+  onSave: (leadId: string, details: Pick<PageLead, "assigned_to" | "notes" | "follow_up_date">) => Promise<boolean>;
+  fetchStageHistory: (leadId: string) => Promise<LeadStageHistory[]>;
+}
+
+/**
+ * Stage, owner, follow-up date and notes of one lead, with its score breakdown and stage history
+ */
+export function LeadDetailsDialog({ lead, onClose, onMove, onSave, fetchStageHistory }: LeadDetailsDialogProps) {
+  // The page keys this dialog by lead id, so the form starts from the opened lead
+  const [assignedTo, setAssignedTo] = useState(lead?.assigned_to || "");
+  const [followUpDate, setFollowUpDate] = useState(lead?.follow_up_date || "");
+  const [notes, setNotes] = useState(lead?.notes || "");
+  const [saving, setSaving] = useState(false);
+  const [history, setHistory] = useState<LeadStageHistory[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const leadId = lead?.id;
+
+  const loadHistory = useCallback(async () => {
+    if (!leadId) return;
+    setHistoryLoading(true);
+    try {
+      setHistory(await fetchStageHistory(leadId));
+    } catch {
+      setHistory([]);
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, [leadId, fetchStageHistory]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleStageChange = async (stage: LeadPipelineStage) => {
+    if (!lead) return;
+    if (await onMove(lead.id, stage)) loadHistory();
+  };
+
+  const handleSave = async () => {
+    if (!lead) return;
+    setSaving(true);
+    const saved = await onSave(lead.id, {
+      assigned_to: assignedTo,
+      notes,
+      follow_up_date: followUpDate || null,
+    });
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open={lead !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{lead?.name || "Unknown"}</DialogTitle>
+          <DialogDescription>
+            {[lead?.phone_number, lead?.email].filter(Boolean).join(" · ") || "No contact details"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Stage</Label>
+              <Select
+                value={lead?.pipeline_stage || "new"}
+                onValueChange={(value) => handleStageChange(value as LeadPipelineStage)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PIPELINE_STAGES.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lead-follow-up">Follow-up date</Label>
+              <Input
+                id="lead-follow-up"
+                type="date"
+                value={followUpDate}
+                onChange={(event) => setFollowUpDate(event.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lead-owner">Owner</Label>
+            <Input
+              id="lead-owner"
+              placeholder="Who is following up"
+              value={assignedTo}
+              onChange={(event) => setAssignedTo(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lead-notes">Notes</Label>
+            <Textarea
+              id="lead-notes"
+              rows={4}
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+
+          {lead?.lead_score !== null && lead?.lead_score !== undefined && (
+            <div className="space-y-2">
+              <Label className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <Gauge className="h-4 w-4 text-slate-500" /> Lead score
+                </span>
+                <span className="text-base font-bold text-slate-900">{lead.lead_score}/100</span>
+              </Label>
+              {lead.lead_score_breakdown && lead.lead_score_breakdown.length > 0 && (
+                <ul className="space-y-1.5">
+                  {lead.lead_score_breakdown.map((item) => (
+                    <li key={item.factor} className="flex items-center justify-between text-sm">
+                      <span className="text-slate-700">
+                        {getScoringFactorLabel(item.factor)}
+                        <span className="text-slate-400"> · {item.value.replace(/_/g, " ")}</span>
+                      </span>
+                      <span className="text-xs text-slate-500">
+                        {item.points} / {item.max_points} pts
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <History className="h-4 w-4 text-slate-500" /> Stage history
+            </Label>
+            {historyLoading ? (
+              <div className="flex justify-center py-3">
+                <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+              </div>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-slate-500">No stage changes yet</p>
+            ) : (
+              <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+                {[...history].reverse().map((entry) => (
+                  <li key={entry.id} className="flex items-center justify-between text-sm">
+                    <span className="text-slate-700">
+                      {entry.from_stage ? `${getStageLabel(entry.from_stage)} → ` : "Created in "}
+                      {getStageLabel(entry.to_stage)}
+                      <span className="text-slate-400"> · {entry.changed_by === "user" ? "manual" : "from call"}</span>
+                    </span>
+                    <span className="text-xs text-slate-500">{format(new Date(entry.created_at), "MMM d, HH:mm")}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { AlertCircle, ArrowLeft, Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useLeadImport } from "@/hooks/useLeadImport";
+import {
+  LEAD_IMPORT_FIELDS,
+  applyColumnMapping,
+  downloadImportReport,
+  guessColumnMapping,
+  readSpreadsheet,
+  type LeadImportMapping,
+  type Spreadsheet,
+} from "@/lib/leadImport";
+import type { LeadImportDuplicateMode, LeadImportResult, LeadImportRow, LeadImportRowResult } from "@/types/database";
+
+interface LeadImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after leads were created or updated so the lead list can reload
+  onImported: () => void;
+}
+
+type ImportStep = "upload" | "map" | "preview" | "done";
+
+// Rows shown in the preview table; the report has all of them
+const PREVIEW_ROWS = 100;
+
+const NOT_MAPPED = "none";
+
+const STATUS_STYLES: Record<LeadImportRowResult["status"], { label: string; preview: string; className: string }> = {
+  created: { label: "Created", preview: "New lead", className: "bg-green-50 text-green-700 border-green-200" },
+  updated: { label: "Updated", preview: "Updates lead", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  skipped: { label: "Skipped", preview: "Skip", className: "bg-slate-50 text-slate-600 border-slate-200" },
+  error: { label: "Error", preview: "Error", className: "bg-red-50 text-red-700 border-red-200" },
+};
+
+function ImportSummary({ result }: { result: LeadImportResult }) {
+  const { summary, dry_run: dryRun } = result;
+  const items = [
+    { label: dryRun ? "New leads" : "Created", value: summary.created, className: "text-green-700" },
+    { label: dryRun ? "Will update" : "Updated", value: summary.updated, className: "text-blue-700" },
+    { label: dryRun ? "Will skip" : "Skipped", value: summary.skipped, className: "text-slate-600" },
+    { label: "Errors", value: summary.failed, className: "text-red-700" },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {items.map((item) => (
+        <div key={item.label} className="rounded-lg border border-slate-200 p-3">
+          <p className="text-xs text-slate-500">{item.label}</p>
+          <p className={`text-xl font-bold ${item.className}`}>{item.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Import leads from a CSV or Excel file: upload, map columns, preview, import
+ */
+export function LeadImportDialog({ open, onOpenChange, onImported }: LeadImportDialogProps) {
+  const { loading, error, previewImport, importLeads } = useLeadImport();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [spreadsheet, setSpreadsheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<LeadImportMapping>({});
+  const [onDuplicate, setOnDuplicate] = useState<LeadImportDuplicateMode>("skip");
+  const [rows, setRows] = useState<LeadImportRow[]>([]);
+  const [result, setResult] = useState<LeadImportResult | null>(null);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setFileError(null);
+    setSpreadsheet(null);
+    setMapping({});
+    setOnDuplicate("skip");
+    setRows([]);
+    setResult(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (loading) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setReading(true);
+    setFileError(null);
+    try {
+      const sheet = await readSpreadsheet(file);
+      setFileName(file.name);
+      setSpreadsheet(sheet);
+      setMapping(guessColumnMapping(sheet.headers));
+      setStep("map");
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : "Could not read the file");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const setFieldColumn = (field: keyof LeadImportMapping, value: string) => {
+    const next = { ...mapping };
+    if (value === NOT_MAPPED) delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const handlePreview = async () => {
+    if (!spreadsheet) return;
+    const mappedRows = applyColumnMapping(spreadsheet.rows, mapping);
+    const preview = await previewImport(mappedRows, onDuplicate);
+    if (preview) {
+      setRows(mappedRows);
+      setResult(preview);
+      setStep("preview");
+    }
+  };
+
+  const handleImport = async () => {
+    const imported = await importLeads(rows, onDuplicate);
+    if (imported) {
+      setResult(imported);
+      setStep("done");
+      if (imported.summary.created > 0 || imported.summary.updated > 0) onImported();
+    }
+  };
+
+  const hasContactColumn = mapping.phone_number !== undefined || mapping.email !== undefined;
+  const importable = result ? result.summary.created + result.summary.updated : 0;
+  const hasReport = result ? result.summary.skipped + result.summary.failed > 0 : false;
+  const sampleRow = spreadsheet?.rows[0] || [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-blue-600" /> Import Leads
+          </DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel (.xlsx) file with one lead per row and a header row."}
+            {step === "map" && `${fileName}: ${spreadsheet?.rows.length || 0} rows. Choose which column holds each field.`}
+            {step === "preview" && "Check what the import will do before any leads are created."}
+            {step === "done" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-3">
+            <label className="flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-slate-200 p-10 cursor-pointer hover:bg-slate-50">
+              {reading ? (
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              ) : (
+                <Upload className="h-8 w-8 text-slate-400" />
+              )}
+              <span className="text-sm font-medium text-slate-700">Choose a .csv or .xlsx file</span>
+              <Input
+                type="file"
+                accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="hidden"
+                disabled={reading}
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            {fileError && (
+              <p className="text-sm text-red-600 flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" /> {fileError}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "map" && spreadsheet && (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-[50vh] pr-4">
+              <div className="space-y-3">
+                {LEAD_IMPORT_FIELDS.map((field) => {
+                  const column = mapping[field.key];
+                  return (
+                    <div key={field.key} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                      <Label className="text-sm">{field.label}</Label>
+                      <Select
+                        value={column === undefined ? NOT_MAPPED : String(column)}
+                        onValueChange={(value) => setFieldColumn(field.key, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Don't import</SelectItem>
+                          {spreadsheet.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-slate-500 truncate">
+                        {column !== undefined && sampleRow[column] ? `e.g. ${sampleRow[column]}` : ""}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center border-t border-slate-100 pt-4">
+              <Label className="text-sm">Rows matching an existing lead</Label>
+              <Select value={onDuplicate} onValueChange={(value) => setOnDuplicate(value as LeadImportDuplicateMode)}>
+                <SelectTrigger className="md:col-span-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip them</SelectItem>
+                  <SelectItem value="update">Fill in details missing from the existing lead</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Rows are matched to existing leads and to each other by phone number or email. Phone numbers are saved in
+              international format.
+            </p>
+            {!hasContactColumn && <p className="text-sm text-red-600">Map a phone number or email column to continue.</p>}
+          </div>
+        )}
+
+        {(step === "preview" || step === "done") && result && (
+          <div className="space-y-4">
+            <ImportSummary result={result} />
+            {step === "preview" && (
+              <ScrollArea className="max-h-[45vh] pr-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Phone / Email</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.results.slice(0, PREVIEW_ROWS).map((rowResult) => {
+                      const row = rows.find((item) => item.row === rowResult.row);
+                      const style = STATUS_STYLES[rowResult.status];
+                      return (
+                        <TableRow key={rowResult.row}>
+                          <TableCell className="text-slate-500">{rowResult.row}</TableCell>
+                          <TableCell className="font-medium">{row?.name || "-"}</TableCell>
+                          <TableCell className="text-xs text-slate-600">
+                            {[row?.phone_number, row?.email].filter(Boolean).join(" · ") || "-"}
+                          </TableCell>
+                          <TableCell>
+                            <div className="space-y-1">
+                              <Badge variant="outline" className={style.className}>
+                                {style.preview}
+                              </Badge>
+                              {(rowResult.errors || rowResult.message) && (
+                                <p className="text-xs text-slate-500">
+                                  {rowResult.errors?.join("; ") || rowResult.message}
+                                </p>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {result.results.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-muted-foreground text-center py-2">
+                    Showing the first {PREVIEW_ROWS} of {result.results.length} rows
+                  </p>
+                )}
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" /> {error}
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          {hasReport && (step === "preview" || step === "done") && result && (
+            <Button variant="outline" onClick={() => downloadImportReport(rows, result.results)} className="mr-auto">
+              <Download className="mr-2 h-4 w-4" /> Download error report
+            </Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={loading}>
+                <ArrowLeft className="mr-2 h-4 w-4" /> Choose another file
+              </Button>
+              <Button onClick={handlePreview} disabled={loading || !hasContactColumn}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} disabled={loading}>
+                <ArrowLeft className="mr-2 h-4 w-4" /> Back
+              </Button>
+              <Button onClick={handleImport} disabled={loading || importable === 0}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {importable} lead{importable === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { useMemo, useState } from "react";
+import { CalendarClock, Phone, User } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { PIPELINE_STAGES, formatFollowUpDate, groupLeadsByStage, isFollowUpOverdue } from "@/lib/leadPipeline";
+import { cn } from "@/lib/utils";
+import type { LeadPipelineStage, PageLead } from "@/types/database";
+
+interface LeadPipelineBoardProps {
+  leads: PageLead[];
+  onMove: (leadId: string, stage: LeadPipelineStage) => void;
+  onSelect: (lead: PageLead) => void;
+}
+
+const STRENGTH_STYLES: Record<string, string> = {
+  hot: "bg-red-50 text-red-700 border-red-200",
+  warm: "bg-amber-50 text-amber-700 border-amber-200",
+  cold: "bg-sky-50 text-sky-700 border-sky-200",
+};
+
+/**
+ * Kanban columns, one per pipeline stage; cards are dragged between columns to change stage
+ */
+export function LeadPipelineBoard({ leads, onMove, onSelect }: LeadPipelineBoardProps) {
+  const [draggedLeadId, setDraggedLeadId] = useState<string | null>(null);
+  const [dropStage, setDropStage] = useState<LeadPipelineStage | null>(null);
+  const columns = useMemo(() => groupLeadsByStage(leads), [leads]);
+
+  const handleDrop = (stage: LeadPipelineStage, leadId: string) => {
+    setDraggedLeadId(null);
+    setDropStage(null);
+    if (leadId) onMove(leadId, stage);
+  };
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="grid grid-cols-5 gap-4 min-w-[1100px]">
+        {PIPELINE_STAGES.map((stage) => (
+          <div
+            key={stage.value}
+            className={cn(
+              "rounded-xl border border-slate-200 bg-slate-50/60 flex flex-col min-h-[420px] transition-colors",
+              dropStage === stage.value && "border-blue-400 bg-blue-50/60",
+            )}
+            onDragOver={(event) => {
+              event.preventDefault();
+              setDropStage(stage.value);
+            }}
+            onDragLeave={() => setDropStage((current) => (current === stage.value ? null : current))}
+            onDrop={(event) => {
+              event.preventDefault();
+              handleDrop(stage.value, event.dataTransfer.getData("text/plain"));
+            }}
+          >
+            <div className="flex items-center justify-between px-3 py-2.5 border-b border-slate-200">
+              <span className={cn("text-xs font-semibold px-2 py-1 rounded-md", stage.bgColor, stage.color)}>
+                {stage.label}
+              </span>
+              <span className="text-xs font-medium text-slate-500">{columns[stage.value].length}</span>
+            </div>
+            <div className="flex-1 p-2 space-y-2">
+              {columns[stage.value].map((lead) => {
+                const overdue = isFollowUpOverdue(lead);
+                return (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData("text/plain", lead.id);
+                      event.dataTransfer.effectAllowed = "move";
+                      setDraggedLeadId(lead.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedLeadId(null);
+                      setDropStage(null);
+                    }}
+                    onClick={() => onSelect(lead)}
+                    className={cn(
+                      "rounded-lg border border-slate-200 bg-white p-3 shadow-sm cursor-grab active:cursor-grabbing hover:border-slate-300 transition-all",
+                      draggedLeadId === lead.id && "opacity-50",
+                    )}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm font-semibold text-slate-900 truncate">{lead.name || "Unknown"}</p>
+                      {lead.lead_strength && STRENGTH_STYLES[lead.lead_strength] && (
+                        <Badge variant="outline" className={cn("text-[10px] capitalize", STRENGTH_STYLES[lead.lead_strength])}>
+                          {lead.lead_strength}
+                          {lead.lead_score !== null && lead.lead_score !== undefined && ` · ${lead.lead_score}`}
+                        </Badge>
+                      )}
+                    </div>
+                    {lead.phone_number && (
+                      <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
+                        <Phone className="h-3 w-3" /> {lead.phone_number}
+                      </p>
+                    )}
+                    {lead.intent_summary && (
+                      <p className="text-xs text-slate-600 mt-2 line-clamp-2">{lead.intent_summary}</p>
+                    )}
+                    {(lead.assigned_to || lead.follow_up_date) && (
+                      <div className="flex items-center justify-between gap-2 mt-2 text-xs">
+                        <span className="text-slate-500 flex items-center gap-1 truncate">
+                          {lead.assigned_to && (
+                            <>
+                              <User className="h-3 w-3" /> {lead.assigned_to}
+                            </>
+                          )}
+                        </span>
+                        {lead.follow_up_date && (
+                          <span className={cn("flex items-center gap-1 shrink-0", overdue ? "text-red-600 font-medium" : "text-slate-500")}>
+                            <CalendarClock className="h-3 w-3" /> {formatFollowUpDate(lead.follow_up_date)}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {columns[stage.value].length === 0 && (
+                <p className="text-xs text-slate-400 text-center py-6">Drop leads here</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Gauge, Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useLeadScoring } from "@/hooks/useLeadScoring";
+import { SCORING_CALL_TYPES, SCORING_FACTORS } from "@/lib/leadScoring";
+import type { LeadScoringFactor, LeadScoringSettings } from "@/types/database";
+
+/**
+ * Account settings for lead scores: factor weights and the hot/warm thresholds
+ */
+export function LeadScoringSettingsCard() {
+  const { settings, loading, saving, saveSettings } = useLeadScoring();
+  const [draft, setDraft] = useState<LeadScoringSettings>(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(settings);
+  const totalWeight = Object.values(draft.weights).reduce((sum, weight) => sum + weight, 0);
+  const thresholdsValid = draft.thresholds.warm >= 0 && draft.thresholds.hot <= 100 && draft.thresholds.warm < draft.thresholds.hot;
+
+  const setWeight = (factor: LeadScoringFactor, weight: number) => {
+    setDraft((prev) => ({ ...prev, weights: { ...prev.weights, [factor]: weight } }));
+  };
+
+  const toggleCallType = (callType: string, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      call_types: checked
+        ? SCORING_CALL_TYPES.map((option) => option.value).filter(
+            (value) => value === callType || prev.call_types.includes(value),
+          )
+        : prev.call_types.filter((value) => value !== callType),
+    }));
+  };
+
+  const setThreshold = (tier: "hot" | "warm", value: string) => {
+    setDraft((prev) => ({ ...prev, thresholds: { ...prev.thresholds, [tier]: parseInt(value) || 0 } }));
+  };
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardHeader className="border-b border-slate-100 pb-4">
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-blue-600" />
+          Lead Scoring
+        </CardTitle>
+        <CardDescription className="text-sm mt-1">
+          Score leads from 0 to 100 based on what was said on their calls
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="lead-scoring" className="text-base font-bold">
+                  Use the score for lead strength
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Hot, warm and cold follow the thresholds below instead of the AI's judgement
+                </p>
+              </div>
+              <Switch
+                id="lead-scoring"
+                checked={draft.enabled}
+                onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, enabled: checked }))}
+                disabled={saving}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <Label className="text-sm font-semibold">Weights</Label>
+              {SCORING_FACTORS.map((factor) => {
+                const weight = draft.weights[factor.value];
+                return (
+                  <div key={factor.value} className="space-y-2">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <p className="text-sm font-medium">{factor.label}</p>
+                        <p className="text-xs text-muted-foreground">{factor.description}</p>
+                      </div>
+                      <span className="text-sm font-semibold text-slate-700 shrink-0">
+                        {weight} pts
+                        {totalWeight > 0 && (
+                          <span className="text-xs font-normal text-slate-400"> ({Math.round((weight / totalWeight) * 100)}%)</span>
+                        )}
+                      </span>
+                    </div>
+                    <Slider
+                      value={[weight]}
+                      min={0}
+                      max={100}
+                      step={5}
+                      onValueChange={([value]) => setWeight(factor.value, value)}
+                      disabled={saving}
+                    />
+                  </div>
+                );
+              })}
+              {totalWeight === 0 && <p className="text-sm text-red-600">Give at least one factor a weight.</p>}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold">Call types that count as intent</Label>
+                {SCORING_CALL_TYPES.map((option) => (
+                  <div key={option.value} className="flex items-center gap-3">
+                    <Checkbox
+                      id={`scoring-${option.value}`}
+                      checked={draft.call_types.includes(option.value)}
+                      onCheckedChange={(checked) => toggleCallType(option.value, checked === true)}
+                      disabled={saving}
+                    />
+                    <Label htmlFor={`scoring-${option.value}`} className="text-sm font-normal">
+                      {option.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="scoring-order-target" className="text-sm font-semibold">
+                    Order total for full points
+                  </Label>
+                  <Input
+                    id="scoring-order-target"
+                    type="number"
+                    min={1}
+                    value={draft.order_total_target}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, order_total_target: parseFloat(e.target.value) || 0 }))}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="scoring-hot" className="text-sm font-semibold">
+                      Hot from
+                    </Label>
+                    <Input
+                      id="scoring-hot"
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={draft.thresholds.hot}
+                      onChange={(e) => setThreshold("hot", e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="scoring-warm" className="text-sm font-semibold">
+                      Warm from
+                    </Label>
+                    <Input
+                      id="scoring-warm"
+                      type="number"
+                      min={0}
+                      max={99}
+                      value={draft.thresholds.warm}
+                      onChange={(e) => setThreshold("warm", e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+                {thresholdsValid ? (
+                  <p className="text-xs text-muted-foreground">Scores below {draft.thresholds.warm} are cold.</p>
+                ) : (
+                  <p className="text-xs text-red-600">Warm must be lower than hot, both between 0 and 100.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between pt-5 border-t border-border/50">
+              <div className="text-sm text-muted-foreground">
+                {hasChanges ? (
+                  <span className="text-warning font-semibold">● Unsaved changes</span>
+                ) : (
+                  "Saving rescores all existing leads"
+                )}
+              </div>
+              <Button
+                onClick={() => saveSettings(draft)}
+                disabled={saving || !hasChanges || totalWeight === 0 || !thresholdsValid}
+                variant="call"
+                size="lg"
+                className="gap-2"
+              >
+                {saving ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Rescoring Leads...
+                  </>
+                ) : (
+                  <>
+                    <Save className="h-4 w-4" />
+                    Save Changes
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { Loader2, PhoneCall } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useLeadTimeline } from "@/hooks/useLeadTimeline";
+import { formatDuration } from "@/lib/credits";
+import { formatInUserTimezone } from "@/lib/utils";
+import type { PageLead } from "@/types/database";
+
+interface LeadTimelineDialogProps {
+  lead: PageLead | null;
+  timezone: string;
+  onClose: () => void;
+}
+
+/**
+ * Every call linked to a lead, including calls of leads merged into it
+ */
+export function LeadTimelineDialog({ lead, timezone, onClose }: LeadTimelineDialogProps) {
+  const { calls, loading } = useLeadTimeline(lead?.id || null);
+
+  return (
+    <Dialog open={lead !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{lead?.name || "Unknown"}</DialogTitle>
+          <DialogDescription>
+            {calls.length} call{calls.length === 1 ? "" : "s"} with this lead
+            {lead?.created_at ? ` · lead since ${formatInUserTimezone(lead.created_at, timezone, "MMM dd, yyyy")}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : calls.length === 0 ? (
+          <div className="text-center py-8">
+            <PhoneCall className="h-10 w-10 mx-auto text-slate-300 mb-3" />
+            <p className="text-sm text-slate-500">No calls linked to this lead</p>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <div className="space-y-6 ml-2 border-l-2 border-slate-100 pl-6 py-2">
+              {calls.map((call) => (
+                <div key={call.id} className="relative">
+                  <div className="absolute -left-[31px] top-1 w-4 h-4 rounded-full bg-white border-2 border-blue-600" />
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-semibold text-slate-900">
+                        {call.direction === "outbound" ? "Outbound call" : "Inbound call"}
+                      </p>
+                      {call.call_type && (
+                        <Badge variant="outline" className="bg-slate-50 text-slate-600 border-slate-200 capitalize">
+                          {call.call_type.replace(/_/g, " ")}
+                        </Badge>
+                      )}
+                      {call.lead_strength && (
+                        <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 capitalize">
+                          {call.lead_strength}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      {call.created_at ? formatInUserTimezone(call.created_at, timezone, "PPpp") : "N/A"}
+                      {call.duration_seconds ? ` · ${formatDuration(call.duration_seconds)}` : ""}
+                      {call.phone_number ? ` · ${call.phone_number}` : ""}
+                    </p>
+                    {call.call_summary && <p className="text-sm text-slate-600">{call.call_summary}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -39,7 +39,7 @@ export function EmailSidebar() {
         // For now, we'll store in a custom table or use profile
         const { data, error } = await supabase
           .from("user_emails" as any)
-          .select("*")
+          .select("id, email, name, is_primary")
           .eq("user_id", user.id)
           .order("created_at", { ascending: false });
 
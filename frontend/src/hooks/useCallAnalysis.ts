@@ -10,10 +10,13 @@ export function useCallAnalysis() {
   const analyzeCall = async (callId: string) => {
     setAnalyzing(true);
     try {
+      const { data: { session } } = await supabase.auth.getSession();
+
       const response = await fetch(`${BACKEND_URL}/api/calls/analyze`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token || ''}`,
         },
         body: JSON.stringify({ callId }),
       });
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { CallEvent } from "@/types/database";
+import { useAuth } from "./useAuth";
+
+/**
+ * Lifecycle timeline (transfers, DTMF, tool calls, voicemail, latency) for one call
+ */
+export function useCallEvents(callId: string | null) {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<CallEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchEvents = useCallback(async () => {
+    if (!user || !callId) {
+      setEvents([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("call_events")
+        .select("*")
+        .eq("call_id", callId)
+        .order("occurred_at", { ascending: true, nullsFirst: false })
+        .order("sequence", { ascending: true });
+
+      if (error) throw error;
+      setEvents((data as unknown as CallEvent[]) || []);
+    } catch (error) {
+      // The timeline is supplementary - fall back to the call's own timestamps
+      setEvents([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, callId]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  // Real-time subscription so transfers show up while the call is live
+  useEffect(() => {
+    if (!user || !callId) return;
+
+    const channel = supabase
+      .channel(`call-events-${callId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "call_events",
+          filter: `call_id=eq.${callId}`,
+        },
+        () => {
+          fetchEvents();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, callId, fetchEvents]);
+
+  return { events, loading, refetch: fetchEvents };
+}
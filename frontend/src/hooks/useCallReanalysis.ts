@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { CallReanalysisBatch, ReanalysisEstimate, ReanalysisFilters } from "@/types/database";
+import { useAuth } from "./useAuth";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Call the backend re-analysis API with the user's session token
+ */
+async function reanalysisRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${BACKEND_URL}/api/calls/reanalysis${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Re-analysis request failed");
+  }
+
+  return data as T;
+}
+
+/**
+ * Bulk re-analysis of historical calls: estimate, start, track and cancel a batch
+ */
+export function useCallReanalysis() {
+  const { user } = useAuth();
+  const [batch, setBatch] = useState<CallReanalysisBatch | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  // Pick up a batch that is still running, e.g. after a page reload
+  useEffect(() => {
+    if (!user) {
+      setBatch(null);
+      return;
+    }
+
+    reanalysisRequest<{ batches: CallReanalysisBatch[] }>("?limit=1")
+      .then(({ batches }) => {
+        if (batches[0]?.status === "running") {
+          setBatch(batches[0]);
+        }
+      })
+      .catch(() => {
+        // Nothing to resume
+      });
+  }, [user]);
+
+  // Poll progress while the batch runs
+  const batchId = batch?.id;
+  const isRunning = batch?.status === "running";
+
+  useEffect(() => {
+    if (!batchId || !isRunning) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const data = await reanalysisRequest<{ batch: CallReanalysisBatch }>(`/${batchId}`);
+        setBatch(data.batch);
+      } catch (error) {
+        // Keep the last known progress and try again on the next tick
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [batchId, isRunning]);
+
+  const estimate = useCallback(async (filters: ReanalysisFilters, overwrite: boolean) => {
+    setEstimating(true);
+    try {
+      return await reanalysisRequest<ReanalysisEstimate>("/estimate", {
+        method: "POST",
+        body: JSON.stringify({ filters, overwrite }),
+      });
+    } finally {
+      setEstimating(false);
+    }
+  }, []);
+
+  const startBatch = async (filters: ReanalysisFilters, overwrite: boolean) => {
+    setStarting(true);
+    try {
+      const data = await reanalysisRequest<{ batch: CallReanalysisBatch }>("", {
+        method: "POST",
+        body: JSON.stringify({ filters, overwrite }),
+      });
+      setBatch(data.batch);
+      return data.batch;
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const cancelBatch = async () => {
+    if (!batch) return;
+
+    setCancelling(true);
+    try {
+      const data = await reanalysisRequest<{ batch: CallReanalysisBatch }>(`/${batch.id}/cancel`, {
+        method: "POST",
+      });
+      setBatch(data.batch);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const clearBatch = () => setBatch(null);
+
+  return {
+    batch,
+    estimating,
+    starting,
+    cancelling,
+    estimate,
+    startBatch,
+    cancelBatch,
+    clearBatch,
+  };
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchRecordingUrl, hasRecording } from "@/lib/callRecordings";
+import type { Call } from "@/types/database";
+
+/**
+ * Signed playback URL for a call's recording, fetched when the call changes
+ * Call refresh() when the player errors, e.g. after the URL expired mid-playback
+ */
+export function useCallRecording(call: Pick<Call, "id" | "recording_pending" | "recording_storage_path">) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const available = hasRecording(call);
+
+  const refresh = useCallback(async () => {
+    if (!available) {
+      setUrl(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const recording = await fetchRecordingUrl(call.id);
+      setUrl(recording.url);
+    } catch (err) {
+      setUrl(null);
+      setError(err instanceof Error ? err.message : "Failed to load recording");
+    } finally {
+      setLoading(false);
+    }
+  }, [call.id, available]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    url,
+    loading,
+    error,
+    available,
+    refresh,
+  };
+}
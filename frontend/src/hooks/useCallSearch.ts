@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Call, CallSearchFilters } from "@/types/database";
+import { useAuth } from "./useAuth";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+const PAGE_SIZE = 50;
+
+export const CALL_SEARCH_FILTER_KEYS: (keyof CallSearchFilters)[] = [
+  "q",
+  "status",
+  "bot_id",
+  "from",
+  "to",
+  "min_duration",
+  "max_duration",
+  "sentiment",
+  "call_type",
+  "lead",
+];
+
+interface CallSearchPage {
+  calls: Call[];
+  next_cursor: string | null;
+  total?: number;
+  status_counts?: Record<string, number>;
+}
+
+/**
+ * Query string for GET /api/calls; dates cover whole days in the browser's timezone
+ */
+function buildQueryString(filters: CallSearchFilters, cursor: string | null): string {
+  const params = new URLSearchParams();
+
+  CALL_SEARCH_FILTER_KEYS.forEach((key) => {
+    const value = filters[key];
+    if (!value) return;
+
+    if (key === "from") {
+      params.set(key, new Date(`${value}T00:00:00`).toISOString());
+    } else if (key === "to") {
+      params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+    } else {
+      params.set(key, value);
+    }
+  });
+
+  params.set("limit", String(PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+
+  return params.toString();
+}
+
+async function fetchCallPage(filters: CallSearchFilters, cursor: string | null): Promise<CallSearchPage> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${BACKEND_URL}/api/calls?${buildQueryString(filters, cursor)}`, {
+    headers: {
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to fetch calls");
+  }
+
+  return data as CallSearchPage;
+}
+
+/**
+ * Server-side paginated, searchable call history
+ * Loaded calls update in place in real time; new calls are flagged instead of
+ * shifting the list, since they may not match the current filters
+ */
+export function useCallSearch(filters: CallSearchFilters) {
+  const { user } = useAuth();
+  const [calls, setCalls] = useState<Call[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasNewCalls, setHasNewCalls] = useState(false);
+
+  // Ignore responses for filters that have since changed
+  const requestIdRef = useRef(0);
+  const filtersKey = JSON.stringify(filters);
+
+  const fetchFirstPage = useCallback(async () => {
+    if (!user) return;
+
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const page = await fetchCallPage(JSON.parse(filtersKey), null);
+      if (requestId !== requestIdRef.current) return;
+
+      setCalls(page.calls);
+      setNextCursor(page.next_cursor);
+      setTotal(page.total ?? page.calls.length);
+      setStatusCounts(page.status_counts || {});
+      setHasNewCalls(false);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : "Failed to fetch calls");
+      setCalls([]);
+      setNextCursor(null);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [user, filtersKey]);
+
+  useEffect(() => {
+    fetchFirstPage();
+  }, [fetchFirstPage]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchCallPage(JSON.parse(filtersKey), nextCursor);
+      if (requestId !== requestIdRef.current) return;
+
+      setCalls((prev) => {
+        const loadedIds = new Set(prev.map((call) => call.id));
+        return [...prev, ...page.calls.filter((call) => !loadedIds.has(call.id))];
+      });
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch calls");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Real-time subscription
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`call-search-${user.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "calls",
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          if (payload.eventType === "INSERT") {
+            setHasNewCalls(true);
+          } else if (payload.eventType === "UPDATE") {
+            const updatedCall = payload.new as unknown as Call;
+            setCalls((prev) => prev.map((call) => (call.id === updatedCall.id ? updatedCall : call)));
+          } else if (payload.eventType === "DELETE") {
+            setCalls((prev) => prev.filter((call) => call.id !== payload.old.id));
+          }
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  return {
+    calls,
+    total,
+    statusCounts,
+    loading,
+    loadingMore,
+    error,
+    hasMore: Boolean(nextCursor),
+    hasNewCalls,
+    loadMore,
+    refetch: fetchFirstPage,
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ConversationAnalytics, ConversationAnalyticsFilters } from "@/types/database";
+import { useAuth } from "./useAuth";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+
+async function fetchConversationAnalytics(filters: ConversationAnalyticsFilters): Promise<ConversationAnalytics> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const response = await fetch(`${BACKEND_URL}/api/analytics/conversations?${params.toString()}`, {
+    headers: {
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to load analytics");
+  }
+
+  return data as ConversationAnalytics;
+}
+
+/**
+ * Server-side conversation analytics for a date range, with the previous period for comparison
+ */
+export function useConversationAnalytics(filters: ConversationAnalyticsFilters) {
+  const { user } = useAuth();
+  const [analytics, setAnalytics] = useState<ConversationAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ignore responses for filters that have since changed
+  const requestIdRef = useRef(0);
+  const filtersKey = JSON.stringify(filters);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!user) return;
+
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchConversationAnalytics(JSON.parse(filtersKey));
+      if (requestId !== requestIdRef.current) return;
+      setAnalytics(result);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : "Failed to load analytics");
+      setAnalytics(null);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [user, filtersKey]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  return {
+    analytics,
+    loading,
+    error,
+    refetch: fetchAnalytics,
+  };
+}
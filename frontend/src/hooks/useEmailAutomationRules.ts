@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { EmailAutomationRule, EmailAutomationRun } from "@/types/database";
+import { useAuth } from "./useAuth";
+import { toast } from "./use-toast";
+
+export type EmailAutomationRuleInput = Pick<
+  EmailAutomationRule,
+  "name" | "trigger_type" | "conditions" | "template_id" | "delay_minutes" | "track_engagement" | "is_active"
+>;
+
+/**
+ * The account's email automation rules and their most recent scheduled/sent emails
+ */
+export function useEmailAutomationRules(runLimit: number = 50) {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<EmailAutomationRule[]>([]);
+  const [runs, setRuns] = useState<EmailAutomationRun[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRules = useCallback(async () => {
+    if (!user) {
+      setRules([]);
+      setRuns([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [rulesResult, runsResult] = await Promise.all([
+        supabase
+          .from("email_automation_rules")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("email_automation_runs")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false })
+          .limit(runLimit),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (runsResult.error) throw runsResult.error;
+
+      setRules((rulesResult.data as unknown as EmailAutomationRule[]) || []);
+      setRuns((runsResult.data as unknown as EmailAutomationRun[]) || []);
+    } catch {
+      // Removed console.error for security
+    } finally {
+      setLoading(false);
+    }
+  }, [user, runLimit]);
+
+  useEffect(() => {
+    fetchRules();
+
+    // Runs are scheduled and sent by the backend
+    if (user) {
+      const channel = supabase
+        .channel("email_automation_runs")
+        .on(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "email_automation_runs",
+            filter: `user_id=eq.${user.id}`,
+          },
+          () => {
+            fetchRules();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    }
+  }, [user, fetchRules]);
+
+  const saveRule = useCallback(async (rule: EmailAutomationRuleInput, id?: string) => {
+    if (!user) return false;
+
+    try {
+      const fields = { ...rule, conditions: rule.conditions as unknown as Json };
+      const { error } = id
+        ? await supabase
+            .from("email_automation_rules")
+            .update({ ...fields, updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .eq("user_id", user.id)
+        : await supabase
+            .from("email_automation_rules")
+            .insert({ ...fields, user_id: user.id });
+
+      if (error) throw error;
+
+      await fetchRules();
+      toast({
+        title: id ? "Rule Updated" : "Rule Created",
+        description: `"${rule.name}" ${rule.is_active ? "is active" : "is paused"}.`,
+      });
+      return true;
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to save rule",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [user, fetchRules]);
+
+  const toggleRule = useCallback(async (rule: EmailAutomationRule, isActive: boolean) => {
+    if (!user) return;
+
+    setRules((prev) => prev.map((item) => (item.id === rule.id ? { ...item, is_active: isActive } : item)));
+
+    const { error } = await supabase
+      .from("email_automation_rules")
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq("id", rule.id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      setRules((prev) => prev.map((item) => (item.id === rule.id ? { ...item, is_active: rule.is_active } : item)));
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update rule",
+        variant: "destructive",
+      });
+    }
+  }, [user]);
+
+  const deleteRule = useCallback(async (id: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("email_automation_rules")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete rule",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await fetchRules();
+    toast({
+      title: "Rule Deleted",
+      description: "Emails it had scheduled will not be sent.",
+    });
+  }, [user, fetchRules]);
+
+  return {
+    rules,
+    runs,
+    loading,
+    saveRule,
+    toggleRule,
+    deleteRule,
+    refresh: fetchRules,
+  };
+}
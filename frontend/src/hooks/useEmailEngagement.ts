@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { EmailEngagement } from "@/types/database";
+import { useAuth } from "./useAuth";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+
+async function fetchEmailEngagement(days: number): Promise<EmailEngagement> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${BACKEND_URL}/api/emails/engagement?days=${days}`, {
+    headers: {
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to load email engagement");
+  }
+
+  return data as EmailEngagement;
+}
+
+/**
+ * Opens, clicks and bounces of emails sent in the last `days` days, per template and per lead
+ */
+export function useEmailEngagement(days: number = 30) {
+  const { user } = useAuth();
+  const [engagement, setEngagement] = useState<EmailEngagement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ignore responses for a period that has since changed
+  const requestIdRef = useRef(0);
+
+  const fetchEngagement = useCallback(async () => {
+    if (!user) return;
+
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchEmailEngagement(days);
+      if (requestId !== requestIdRef.current) return;
+      setEngagement(result);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : "Failed to load email engagement");
+      setEngagement(null);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [user, days]);
+
+  useEffect(() => {
+    fetchEngagement();
+  }, [fetchEngagement]);
+
+  return {
+    engagement,
+    loading,
+    error,
+    refetch: fetchEngagement,
+  };
+}
@@ -1,17 +1,30 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { MailboxAuthType, MailboxOAuthProvider } from "@/types/database";
 import { useAuth } from "./useAuth";
 
 export interface UserEmail {
   id: string;
   email: string;
   name?: string | null;
-  smtp_password?: string | null;
   is_primary: boolean;
   is_verified?: boolean;
+  smtp_host?: string | null;
+  smtp_port?: number | null;
+  smtp_secure?: boolean | null;
+  smtp_username?: string | null;
+  smtp_configured?: boolean;
+  smtp_verified_at?: string | null;
+  auth_type?: MailboxAuthType;
+  oauth_provider?: MailboxOAuthProvider | null;
+  oauth_error?: string | null;
   created_at?: string;
 }
 
+// SMTP passwords are encrypted server-side and can't be selected, so never use select("*")
+export const USER_EMAIL_COLUMNS =
+  "id, email, name, is_primary, is_verified, smtp_host, smtp_port, smtp_secure, smtp_username, smtp_configured, smtp_verified_at, auth_type, oauth_provider, oauth_error, created_at";
+
 export function useEmails() {
   const { user } = useAuth();
   const [emails, setEmails] = useState<UserEmail[]>([]);
@@ -27,7 +40,7 @@ export function useEmails() {
       try {
         const { data, error } = await supabase
           .from("user_emails")
-          .select("*")
+          .select(USER_EMAIL_COLUMNS)
           .eq("user_id", user.id)
           .order("is_primary", { ascending: false })
           .order("created_at", { ascending: false });
@@ -37,9 +50,7 @@ export function useEmails() {
           setEmails([]);
         } else {
           // Only return emails with SMTP password configured and not primary
-          const smtpEmails = (data || []).filter(
-            (e) => !e.is_primary && e.smtp_password && e.smtp_password.trim() !== ""
-          );
+          const smtpEmails = (data || []).filter((e) => !e.is_primary && e.smtp_configured);
           setEmails(smtpEmails);
         }
       } catch (error) {
@@ -55,7 +66,7 @@ export function useEmails() {
 
   const getPrimaryEmail = (): UserEmail | null => {
     // Return first SMTP email instead of primary
-    return emails.find((e) => e.smtp_password) || emails[0] || null;
+    return emails.find((e) => e.smtp_configured) || emails[0] || null;
   };
 
   return {
@@ -68,7 +79,7 @@ export function useEmails() {
       try {
         const { data, error } = await supabase
           .from("user_emails")
-          .select("*")
+          .select(USER_EMAIL_COLUMNS)
           .eq("user_id", user.id)
           .order("is_primary", { ascending: false })
           .order("created_at", { ascending: false });
@@ -77,9 +88,7 @@ export function useEmails() {
           // Removed console.error for security
         } else {
           // Only return emails with SMTP password configured and not primary
-          const smtpEmails = (data || []).filter(
-            (e) => !e.is_primary && e.smtp_password && e.smtp_password.trim() !== ""
-          );
+          const smtpEmails = (data || []).filter((e) => !e.is_primary && e.smtp_configured);
           setEmails(smtpEmails);
         }
       } catch (error) {
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { LeadDuplicateCandidate, PageLead } from "@/types/database";
+import { useAuth } from "./useAuth";
+import { toast } from "./use-toast";
+
+export interface LeadDuplicatePair extends LeadDuplicateCandidate {
+  lead: PageLead | null;
+  duplicate_of: PageLead | null;
+}
+
+export function useLeadDuplicates() {
+  const { user } = useAuth();
+  const [pairs, setPairs] = useState<LeadDuplicatePair[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPairs = useCallback(async () => {
+    if (!user) {
+      setPairs([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("lead_duplicate_candidates")
+        .select(
+          "*, lead:page_leads!lead_duplicate_candidates_lead_id_fkey(*), duplicate_of:page_leads!lead_duplicate_candidates_duplicate_of_lead_id_fkey(*)",
+        )
+        .eq("user_id", user.id)
+        .eq("status", "pending")
+        .order("score", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setPairs(((data as unknown as LeadDuplicatePair[]) || []).filter((pair) => pair.lead && pair.duplicate_of));
+    } catch {
+      // Removed console.error for security
+      setPairs([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
+
+  /**
+   * Merge one lead of a pair into the other; the merged-away lead is deleted
+   */
+  const mergeLeads = useCallback(async (primaryLeadId: string, duplicateLeadId: string) => {
+    const { error } = await supabase.rpc("merge_page_leads", {
+      p_primary_lead_id: primaryLeadId,
+      p_duplicate_lead_id: duplicateLeadId,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge leads. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({ title: "Leads merged", description: "Calls and details were combined into one lead." });
+    await fetchPairs();
+    return true;
+  }, [fetchPairs]);
+
+  /**
+   * Mark a pair as different people so it leaves the review queue
+   */
+  const dismissPair = useCallback(async (pairId: string) => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from("lead_duplicate_candidates")
+      .update({ status: "dismissed", resolved_at: new Date().toISOString() })
+      .eq("id", pairId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to dismiss. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setPairs((prev) => prev.filter((pair) => pair.id !== pairId));
+    return true;
+  }, [user]);
+
+  return {
+    pairs,
+    loading,
+    refetch: fetchPairs,
+    mergeLeads,
+    dismissPair,
+  };
+}
@@ -0,0 +1,72 @@
+import { useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { LeadImportDuplicateMode, LeadImportResult, LeadImportRow } from "@/types/database";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+
+async function postLeadImport(
+  rows: LeadImportRow[],
+  onDuplicate: LeadImportDuplicateMode,
+  dryRun: boolean,
+): Promise<LeadImportResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${BACKEND_URL}/api/leads/import`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+    body: JSON.stringify({ rows, on_duplicate: onDuplicate, dry_run: dryRun }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to import leads");
+  }
+
+  return data as LeadImportResult;
+}
+
+/**
+ * Validate spreadsheet rows against existing leads (preview) and import them
+ */
+export function useLeadImport() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = useCallback(
+    async (rows: LeadImportRow[], onDuplicate: LeadImportDuplicateMode, dryRun: boolean) => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        return await postLeadImport(rows, onDuplicate, dryRun);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to import leads");
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [],
+  );
+
+  const previewImport = useCallback(
+    (rows: LeadImportRow[], onDuplicate: LeadImportDuplicateMode) => runImport(rows, onDuplicate, true),
+    [runImport],
+  );
+
+  const importLeads = useCallback(
+    (rows: LeadImportRow[], onDuplicate: LeadImportDuplicateMode) => runImport(rows, onDuplicate, false),
+    [runImport],
+  );
+
+  return {
+    loading,
+    error,
+    previewImport,
+    importLeads,
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_LEAD_SCORING_SETTINGS } from "@/lib/leadScoring";
+import type { LeadScoringSettings } from "@/types/database";
+import { useAuth } from "./useAuth";
+import { toast } from "./use-toast";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+
+async function requestLeadScoring(method: "GET" | "PUT", settings?: LeadScoringSettings) {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${BACKEND_URL}/api/leads/scoring`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+    body: settings ? JSON.stringify(settings) : undefined,
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to load lead scoring settings");
+  }
+
+  return data as { settings: LeadScoringSettings; rescored?: number };
+}
+
+/**
+ * The account's lead scoring weights; saving rescores every lead
+ */
+export function useLeadScoring() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<LeadScoringSettings>(DEFAULT_LEAD_SCORING_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const data = await requestLeadScoring("GET");
+      setSettings(data.settings);
+    } catch {
+      // Removed console.error for security
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const saveSettings = useCallback(async (next: LeadScoringSettings) => {
+    setSaving(true);
+    try {
+      const data = await requestLeadScoring("PUT", next);
+      setSettings(data.settings);
+      toast({
+        title: "Lead Scoring Updated",
+        description: `${data.rescored || 0} lead${data.rescored === 1 ? " was" : "s were"} rescored with the new weights.`,
+      });
+      return true;
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to save lead scoring settings",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  return {
+    settings,
+    loading,
+    saving,
+    saveSettings,
+    refetch: fetchSettings,
+  };
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Call } from "@/types/database";
+import { useAuth } from "./useAuth";
+
+export type LeadTimelineCall = Pick<
+  Call,
+  | "id"
+  | "phone_number"
+  | "status"
+  | "duration_seconds"
+  | "created_at"
+  | "direction"
+  | "call_type"
+  | "call_summary"
+  | "sentiment"
+  | "lead_strength"
+>;
+
+/**
+ * Every call linked to a lead, newest first
+ */
+export function useLeadTimeline(leadId: string | null) {
+  const { user } = useAuth();
+  const [calls, setCalls] = useState<LeadTimelineCall[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTimeline = useCallback(async () => {
+    if (!user || !leadId) {
+      setCalls([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("lead_calls")
+        .select(
+          "call_id, calls(id, phone_number, status, duration_seconds, created_at, direction, call_type, call_summary, sentiment, lead_strength)",
+        )
+        .eq("lead_id", leadId)
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      const rows = (data as unknown as { calls: LeadTimelineCall | null }[]) || [];
+      setCalls(
+        rows
+          .map((row) => row.calls)
+          .filter((call): call is LeadTimelineCall => call !== null)
+          .sort((a, b) => (b.created_at || "").localeCompare(a.created_at || "")),
+      );
+    } catch {
+      // Removed console.error for security
+      setCalls([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, leadId]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline]);
+
+  return {
+    calls,
+    loading,
+    refetch: fetchTimeline,
+  };
+}
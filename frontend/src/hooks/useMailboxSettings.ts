@@ -0,0 +1,231 @@
+import { useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toSmtpSettingsRequest, type SmtpSettingsDraft } from "@/lib/smtpSettings";
+import type { MailboxOAuthProvider } from "@/types/database";
+import type { UserEmail } from "./useEmails";
+import { toast } from "./use-toast";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+
+export interface MailboxInput {
+  email: string;
+  name: string;
+  // Empty keeps the saved password when updating
+  password: string;
+  settings: SmtpSettingsDraft;
+}
+
+export interface OAuthProviderOption {
+  id: MailboxOAuthProvider;
+  label: string;
+  // False when the server has no client credentials for the provider
+  configured: boolean;
+}
+
+interface MailboxResponse {
+  success: boolean;
+  error?: string;
+  mailbox?: UserEmail;
+  verified_at?: string;
+  providers?: OAuthProviderOption[];
+  url?: string;
+}
+
+async function requestMailboxes(path: string, method: string, body?: unknown): Promise<MailboxResponse> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${BACKEND_URL}/api/mailboxes${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const result = (await response.json()) as MailboxResponse;
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || "Request failed");
+  }
+  return result;
+}
+
+function toRequestBody(input: MailboxInput) {
+  return {
+    email: input.email.trim(),
+    name: input.name.trim() || null,
+    smtp_password: input.password.trim() || null,
+    ...toSmtpSettingsRequest(input.settings),
+  };
+}
+
+/**
+ * Save and test connected email addresses through the backend, which keeps
+ * SMTP passwords encrypted; the browser never reads a saved password back
+ */
+export function useMailboxSettings() {
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+
+  const createMailbox = useCallback(async (input: MailboxInput) => {
+    setSaving(true);
+    try {
+      const result = await requestMailboxes("", "POST", toRequestBody(input));
+      toast({
+        title: "Email Added",
+        description: "Email address has been added successfully",
+      });
+      return result.mailbox || null;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add email address",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const updateMailbox = useCallback(async (id: string, input: MailboxInput) => {
+    setSaving(true);
+    try {
+      const result = await requestMailboxes(`/${id}`, "PUT", toRequestBody(input));
+      toast({
+        title: "Email Updated",
+        description: "SMTP settings have been saved",
+      });
+      return result.mailbox || null;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update email address",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  /**
+   * Check settings before saving them; pass the mailbox id to reuse its saved password
+   */
+  const testSettings = useCallback(async (input: MailboxInput, id?: string) => {
+    setTesting(true);
+    try {
+      await requestMailboxes("/test", "POST", { ...toRequestBody(input), id: id || null });
+      toast({
+        title: "Connection Successful",
+        description: "The SMTP server accepted these settings",
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Connection Failed",
+        description: error instanceof Error ? error.message : "Failed to connect to the SMTP server",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setTesting(false);
+    }
+  }, []);
+
+  /**
+   * Check a saved mailbox; returns when it was verified, or null if the test failed
+   */
+  const testMailbox = useCallback(async (id: string) => {
+    setTesting(true);
+    try {
+      const result = await requestMailboxes(`/${id}/test`, "POST");
+      toast({
+        title: "Connection Successful",
+        description: "This email address is ready to send",
+      });
+      return result.verified_at || null;
+    } catch (error) {
+      toast({
+        title: "Connection Failed",
+        description: error instanceof Error ? error.message : "Failed to connect to the SMTP server",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setTesting(false);
+    }
+  }, []);
+
+  /**
+   * Providers that can connect a mailbox by signing in; empty if the server offers none
+   */
+  const getOAuthProviders = useCallback(async () => {
+    try {
+      const result = await requestMailboxes("/oauth/providers", "GET");
+      return result.providers || [];
+    } catch (error) {
+      // Removed console.error for security
+      return [];
+    }
+  }, []);
+
+  /**
+   * Send the browser to the provider's sign-in page; it comes back to the
+   * Email page with mailbox_connected or mailbox_error in the URL
+   */
+  const connectOAuth = useCallback(async (provider: MailboxOAuthProvider, name?: string) => {
+    try {
+      // The start link sets the cookie that ties the sign-in to this browser, then goes on to the provider
+      const result = await requestMailboxes(`/oauth/${provider}/start`, "POST", { name: name?.trim() || null });
+      if (!result.url) throw new Error("Failed to start sign-in");
+      window.location.assign(result.url);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start sign-in",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, []);
+
+  /**
+   * Stop using a mailbox's sign-in; it falls back to its saved SMTP password, if any
+   */
+  const disconnectOAuth = useCallback(async (id: string) => {
+    setSaving(true);
+    try {
+      const result = await requestMailboxes(`/${id}/oauth`, "DELETE");
+      toast({
+        title: "Sign-in Disconnected",
+        description: result.mailbox?.smtp_configured
+          ? "This email address will send with its SMTP password"
+          : "Add an SMTP password to keep sending from this email address",
+      });
+      return result.mailbox || null;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to disconnect email account",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  return {
+    saving,
+    testing,
+    createMailbox,
+    updateMailbox,
+    testSettings,
+    testMailbox,
+    getOAuthProviders,
+    connectOAuth,
+    disconnectOAuth,
+  };
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { PageLead } from "@/types/database";
+import { LeadPipelineStage, LeadStageHistory, PageLead } from "@/types/database";
 import { useAuth } from "./useAuth";
 import { toast } from "./use-toast";
 
@@ -96,9 +96,98 @@ export function usePageLeads() {
     };
   }, [user]);
 
+  /**
+   * Move a lead to another pipeline stage; the stage is then kept when later calls are analyzed
+   */
+  const moveLead = useCallback(async (leadId: string, stage: LeadPipelineStage) => {
+    if (!user) return false;
+
+    const previous = leads.find((lead) => lead.id === leadId);
+    if (!previous || previous.pipeline_stage === stage) return true;
+
+    const updates = {
+      pipeline_stage: stage,
+      stage_set_by: "user" as const,
+      stage_changed_at: new Date().toISOString(),
+    };
+    setLeads((prev) => prev.map((lead) => (lead.id === leadId ? { ...lead, ...updates } : lead)));
+
+    const { error } = await supabase
+      .from("page_leads")
+      .update({ pipeline_stage: stage, stage_set_by: "user" })
+      .eq("id", leadId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      setLeads((prev) => prev.map((lead) => (lead.id === leadId ? previous : lead)));
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move lead. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  }, [user, leads]);
+
+  /**
+   * Save the owner, notes and follow-up date of a lead
+   */
+  const updateLeadDetails = useCallback(async (
+    leadId: string,
+    details: Pick<PageLead, "assigned_to" | "notes" | "follow_up_date">,
+  ) => {
+    if (!user) return false;
+
+    const { data, error } = await supabase
+      .from("page_leads")
+      .update({
+        assigned_to: details.assigned_to?.trim() || null,
+        notes: details.notes?.trim() || null,
+        follow_up_date: details.follow_up_date || null,
+      })
+      .eq("id", leadId)
+      .eq("user_id", user.id)
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save lead. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const updatedLead = data as unknown as PageLead;
+    setLeads((prev) => prev.map((lead) => (lead.id === leadId ? updatedLead : lead)));
+    return true;
+  }, [user]);
+
+  /**
+   * Every stage a lead has been in, oldest first
+   */
+  const fetchStageHistory = useCallback(async (leadId: string): Promise<LeadStageHistory[]> => {
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("lead_stage_history")
+      .select("*")
+      .eq("lead_id", leadId)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data as LeadStageHistory[]) || [];
+  }, [user]);
+
   return {
     leads,
     loading,
     refetch: fetchAll,
+    moveLead,
+    updateLeadDetails,
+    fetchStageHistory,
   };
 }
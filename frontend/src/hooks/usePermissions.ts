@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+
+/**
+ * Permissions granted to the signed-in user through the admin API
+ */
+export function usePermissions() {
+  const { user } = useAuth();
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPermissions = useCallback(async () => {
+    if (!user) {
+      setPermissions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("user_permissions")
+        .select("permission")
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+      setPermissions((data || []).map((row) => row.permission));
+    } catch (error) {
+      // Missing permissions only hide privileged views
+      setPermissions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchPermissions();
+  }, [fetchPermissions]);
+
+  const hasPermission = useCallback((permission: string) => permissions.includes(permission), [permissions]);
+
+  return {
+    permissions,
+    loading,
+    hasPermission,
+    refetch: fetchPermissions,
+  };
+}
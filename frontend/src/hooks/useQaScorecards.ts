@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from "react";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { CallQaResult } from "@/types/database";
+import { buildQaScorecards, type QaScorecard } from "@/lib/qaRubric";
+import { useAuth } from "./useAuth";
+
+// Scorecards cover calls graded in this many days
+export const QA_SCORECARD_DAYS = 30;
+
+export interface QaFailure extends CallQaResult {
+  calls: {
+    phone_number: string | null;
+    contact_name: string | null;
+    created_at: string;
+  } | null;
+}
+
+export function useQaScorecards() {
+  const { user } = useAuth();
+  const [scorecards, setScorecards] = useState<QaScorecard[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchScorecards = useCallback(async () => {
+    if (!user) {
+      setScorecards([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const since = subDays(new Date(), QA_SCORECARD_DAYS).toISOString();
+
+      const [resultsResponse, scoresResponse] = await Promise.all([
+        supabase
+          .from("call_qa_results")
+          .select("*")
+          .eq("user_id", user.id)
+          .gte("created_at", since),
+        supabase
+          .from("call_analytics")
+          .select("call_id, qa_score")
+          .eq("user_id", user.id)
+          .not("qa_score", "is", null)
+          .gte("created_at", since),
+      ]);
+
+      if (resultsResponse.error) throw resultsResponse.error;
+      if (scoresResponse.error) throw scoresResponse.error;
+
+      const scoresByCall: Record<string, number | null> = {};
+      (scoresResponse.data || []).forEach((row) => {
+        scoresByCall[row.call_id] = row.qa_score;
+      });
+
+      setScorecards(buildQaScorecards((resultsResponse.data as CallQaResult[]) || [], scoresByCall));
+    } catch {
+      // Removed console.error for security
+      setScorecards([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchScorecards();
+  }, [fetchScorecards]);
+
+  /**
+   * Most recent calls of a bot that failed one criterion, with the grader's evidence
+   */
+  const fetchFailures = useCallback(async (botId: string, criterionKey: string): Promise<QaFailure[]> => {
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("call_qa_results")
+      .select("*, calls(phone_number, contact_name, created_at)")
+      .eq("user_id", user.id)
+      .eq("bot_id", botId)
+      .eq("criterion_key", criterionKey)
+      .eq("result", "fail")
+      .gte("created_at", subDays(new Date(), QA_SCORECARD_DAYS).toISOString())
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (error) throw error;
+    return (data as unknown as QaFailure[]) || [];
+  }, [user]);
+
+  return {
+    scorecards,
+    loading,
+    fetchFailures,
+    refetch: fetchScorecards,
+  };
+}
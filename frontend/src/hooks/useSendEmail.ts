@@ -6,7 +6,7 @@ import { convertToHtmlEmail, type EmailDesignStyle } from "@/lib/htmlEmail";
 import { useProfile } from "./useProfile";
 import { fillEmailPlaceholders } from "@/lib/emailPlaceholders";
 
-const BACKEND_EMAIL_URL = import.meta.env.VITE_BACKEND_EMAIL_URL || "http://localhost:3001/email";
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
 
 export interface SendEmailParams {
   fromEmail: string;
@@ -15,7 +15,13 @@ export interface SendEmailParams {
   subject: string;
   body: string;
   callId?: string;
-  smtpPassword?: string;
+  // ISO date/time to send later; omitted sends right away
+  sendAt?: string;
+  // Add an open pixel and tracked links; results show in the email logs
+  trackEngagement?: boolean;
+  // Template and lead the email is for, used for engagement stats
+  templateId?: string;
+  leadId?: string;
   accentColor?: string;
   designStyle?: EmailDesignStyle;
   companyName?: string;
@@ -38,28 +44,7 @@ export function useSendEmail() {
 
     setSending(true);
     try {
-      // First, log the email attempt in the database
-      const { data: logData, error: logError } = await supabase
-        .from("email_sent_logs")
-        .insert({
-          user_id: user.id,
-          from_email: params.fromEmail,
-          to_email: params.toEmail,
-          to_phone_number: params.toPhoneNumber || null,
-          subject: params.subject,
-          body: params.body,
-          call_id: params.callId || null,
-          status: "pending",
-        })
-        .select()
-        .single();
-
-      if (logError) {
-        // Removed console.error for security
-        // Continue anyway - logging failure shouldn't block sending
-      }
-
-      // Send email via backend nodemailer service
+      // Queue the email with the backend, which sends it from the connected address
       try {
         // Get sender and company information from profile
         const senderName = profile?.full_name || user?.user_metadata?.full_name || user?.email?.split('@')[0] || "Team";
@@ -153,24 +138,26 @@ export function useSendEmail() {
           companyName: companyName,
         });
 
-        // Validate that SMTP password is provided
-        if (!params.smtpPassword) {
-          throw new Error("SMTP password (app password) is required to send emails");
-        }
+        const { data: { session } } = await supabase.auth.getSession();
 
-        // Send email to backend
-        const response = await fetch(BACKEND_EMAIL_URL, {
+        const response = await fetch(`${BACKEND_URL}/api/emails`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            Authorization: `Bearer ${session?.access_token || ""}`,
           },
           body: JSON.stringify({
             from_email: params.fromEmail,
             to_email: params.toEmail,
+            to_phone_number: params.toPhoneNumber || null,
             subject: params.subject,
             body: processedBody, // Use processed body with auto-filled details
             html_body: htmlBody,
-            smtp_password: params.smtpPassword,
+            call_id: params.callId || null,
+            send_at: params.sendAt || null,
+            track: params.trackEngagement === true,
+            template_id: params.templateId || null,
+            lead_id: params.leadId || null,
           }),
         });
 
@@ -180,70 +167,18 @@ export function useSendEmail() {
           throw new Error(result.error || "Failed to send email");
         }
 
-        // Update log with success
-        if (logData?.id) {
-          await supabase
-            .from("email_sent_logs")
-            .update({
-              status: "sent",
-              sent_at: new Date().toISOString(),
-            })
-            .eq("id", logData.id);
-        }
-
-        // Deduct credits for sending the email (0.5 credits per email)
-        try {
-          const { data: creditResult, error: creditError } = await (supabase.rpc as any)(
-            "deduct_credits_for_email_send",
-            {
-              p_user_id: user.id,
-              p_email_id: logData?.id || null,
-              p_metadata: {
-                from_email: params.fromEmail,
-                to_email: params.toEmail,
-                subject: params.subject,
-                call_id: params.callId || null,
-              },
-            }
-          );
-
-          if (creditError) {
-            // Log error but don't block success - credit deduction failure shouldn't prevent email from being sent
-            // The error will be logged in the database notification system
-          } else if (creditResult && typeof creditResult === 'object' && 'success' in creditResult && !creditResult.success) {
-            // Insufficient credits or other deduction error
-            const errorMsg = (creditResult as any).error || "Unknown error";
-            toast({
-              title: "Email Sent",
-              description: `Email sent successfully, but credit deduction failed: ${errorMsg}`,
-              variant: "destructive",
-            });
-          }
-        } catch (creditDeductionError: any) {
-          // Credit deduction failed but email was sent - log it but don't block
-          // This is a non-critical error
-        }
-
+        // Delivery is tracked in the email logs: pending until the queue sends it
         toast({
-          title: "Email Sent",
-          description: `Email sent successfully to ${params.toEmail}`,
+          title: params.sendAt ? "Email Scheduled" : "Email Queued",
+          description: params.sendAt
+            ? `Email to ${params.toEmail} will be sent ${new Date(params.sendAt).toLocaleString()}`
+            : `Email to ${params.toEmail} is on its way`,
         });
 
-        return { success: true, logId: logData?.id };
+        return { success: true, logId: result.email?.id as string | undefined };
       } catch (emailError: any) {
         // Removed console.error for security
         
-        // Update log with failure
-        if (logData?.id) {
-          await supabase
-            .from("email_sent_logs")
-            .update({
-              status: "failed",
-              error_message: emailError.message || "Email sending error",
-            })
-            .eq("id", logData.id);
-        }
-
         const errorMsg = emailError.message || "Failed to send email";
 
         toast({
@@ -267,8 +202,44 @@ export function useSendEmail() {
     }
   };
 
+  /**
+   * Cancel a queued email that hasn't been sent yet
+   */
+  const cancelEmail = async (emailId: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(`${BACKEND_URL}/api/emails/${emailId}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${session?.access_token || ""}`,
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to cancel email");
+      }
+
+      toast({
+        title: "Email Cancelled",
+        description: "The scheduled email will not be sent.",
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel email",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
   return {
     sendEmail,
+    cancelEmail,
     sending,
   };
 }
@@ -117,6 +117,9 @@ export type Database = {
           begin_messgae: string | null;
           agent_number: string | null;
           Transfer_to: string | null;
+          custom_analysis_fields: Json | null;
+          qa_rubric: Json | null;
+          caller_memory_settings: Json | null;
         };
         Insert: {
           bot_config?: Json | null;
@@ -135,6 +138,9 @@ export type Database = {
           begin_messgae?: string | null;
           agent_number?: string | null;
           Transfer_to?: string | null;
+          custom_analysis_fields?: Json | null;
+          qa_rubric?: Json | null;
+          caller_memory_settings?: Json | null;
         };
         Update: {
           bot_config?: Json | null;
@@ -153,6 +159,9 @@ export type Database = {
           begin_messgae?: string | null;
           agent_number?: string | null;
           Transfer_to?: string | null;
+          custom_analysis_fields?: Json | null;
+          qa_rubric?: Json | null;
+          caller_memory_settings?: Json | null;
         };
         Relationships: [];
       };
@@ -172,6 +181,7 @@ export type Database = {
           key_phrases: Json;
           call_outcome: string | null;
           ai_analysis_data: Json;
+          qa_score: number | null;
           created_at: string;
         };
         Insert: {
@@ -189,6 +199,7 @@ export type Database = {
           key_phrases?: Json;
           call_outcome?: string | null;
           ai_analysis_data?: Json;
+          qa_score?: number | null;
           created_at?: string;
         };
         Update: {
@@ -206,6 +217,7 @@ export type Database = {
           key_phrases?: Json;
           call_outcome?: string | null;
           ai_analysis_data?: Json;
+          qa_score?: number | null;
           created_at?: string;
         };
         Relationships: [
@@ -218,6 +230,97 @@ export type Database = {
           }
         ];
       };
+      call_events: {
+        Row: {
+          id: string;
+          call_id: string;
+          user_id: string;
+          event_type: string;
+          event_key: string;
+          sequence: number;
+          occurred_at: string | null;
+          details: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          call_id: string;
+          user_id: string;
+          event_type: string;
+          event_key: string;
+          sequence?: number;
+          occurred_at?: string | null;
+          details?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          call_id?: string;
+          user_id?: string;
+          event_type?: string;
+          event_key?: string;
+          sequence?: number;
+          occurred_at?: string | null;
+          details?: Json;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "call_events_call_id_fkey";
+            columns: ["call_id"];
+            isOneToOne: false;
+            referencedRelation: "calls";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      call_qa_results: {
+        Row: {
+          id: string;
+          call_id: string;
+          user_id: string;
+          bot_id: string | null;
+          criterion_key: string;
+          criterion_label: string;
+          weight: number;
+          result: "pass" | "fail" | "not_applicable";
+          evidence: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          call_id: string;
+          user_id: string;
+          bot_id?: string | null;
+          criterion_key: string;
+          criterion_label: string;
+          weight?: number;
+          result: "pass" | "fail" | "not_applicable";
+          evidence?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          call_id?: string;
+          user_id?: string;
+          bot_id?: string | null;
+          criterion_key?: string;
+          criterion_label?: string;
+          weight?: number;
+          result?: "pass" | "fail" | "not_applicable";
+          evidence?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "call_qa_results_call_id_fkey";
+            columns: ["call_id"];
+            isOneToOne: false;
+            referencedRelation: "calls";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       calls: {
         Row: {
           batch_call_id: string | null;
@@ -230,7 +333,7 @@ export type Database = {
           id: string;
           metadata: Json | null;
           phone_number: string;
-          recording_url: string | null;
+          recording_pending: boolean;
           started_at: string | null;
           status: Database["public"]["Enums"]["call_status"];
           transcript: string | null;
@@ -249,7 +352,7 @@ export type Database = {
           id?: string;
           metadata?: Json | null;
           phone_number: string;
-          recording_url?: string | null;
+          recording_pending?: boolean;
           started_at?: string | null;
           status?: Database["public"]["Enums"]["call_status"];
           transcript?: string | null;
@@ -268,7 +371,7 @@ export type Database = {
           id?: string;
           metadata?: Json | null;
           phone_number?: string;
-          recording_url?: string | null;
+          recording_pending?: boolean;
           started_at?: string | null;
           status?: Database["public"]["Enums"]["call_status"];
           transcript?: string | null;
@@ -356,6 +459,7 @@ export type Database = {
           template_id: string | null;
           delay_minutes: number;
           is_active: boolean;
+          track_engagement: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -368,6 +472,7 @@ export type Database = {
           template_id?: string | null;
           delay_minutes?: number;
           is_active?: boolean;
+          track_engagement?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -380,6 +485,7 @@ export type Database = {
           template_id?: string | null;
           delay_minutes?: number;
           is_active?: boolean;
+          track_engagement?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -393,6 +499,92 @@ export type Database = {
           }
         ];
       };
+      email_automation_runs: {
+        Row: {
+          id: string;
+          user_id: string;
+          rule_id: string;
+          call_id: string | null;
+          lead_id: string | null;
+          trigger_type: "lead_created" | "call_ended" | "call_completed" | "no_response" | "high_quality_lead";
+          event_key: string;
+          to_email: string | null;
+          send_at: string;
+          status: "scheduled" | "sending" | "sent" | "skipped" | "failed";
+          attempts: number;
+          error_message: string | null;
+          email_log_id: string | null;
+          locked_at: string | null;
+          processed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          rule_id: string;
+          call_id?: string | null;
+          lead_id?: string | null;
+          trigger_type: "lead_created" | "call_ended" | "call_completed" | "no_response" | "high_quality_lead";
+          event_key: string;
+          to_email?: string | null;
+          send_at?: string;
+          status?: "scheduled" | "sending" | "sent" | "skipped" | "failed";
+          attempts?: number;
+          error_message?: string | null;
+          email_log_id?: string | null;
+          locked_at?: string | null;
+          processed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          rule_id?: string;
+          call_id?: string | null;
+          lead_id?: string | null;
+          trigger_type?: "lead_created" | "call_ended" | "call_completed" | "no_response" | "high_quality_lead";
+          event_key?: string;
+          to_email?: string | null;
+          send_at?: string;
+          status?: "scheduled" | "sending" | "sent" | "skipped" | "failed";
+          attempts?: number;
+          error_message?: string | null;
+          email_log_id?: string | null;
+          locked_at?: string | null;
+          processed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "email_automation_runs_rule_id_fkey";
+            columns: ["rule_id"];
+            isOneToOne: false;
+            referencedRelation: "email_automation_rules";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "email_automation_runs_call_id_fkey";
+            columns: ["call_id"];
+            isOneToOne: false;
+            referencedRelation: "calls";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "email_automation_runs_lead_id_fkey";
+            columns: ["lead_id"];
+            isOneToOne: false;
+            referencedRelation: "page_leads";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "email_automation_runs_email_log_id_fkey";
+            columns: ["email_log_id"];
+            isOneToOne: false;
+            referencedRelation: "email_sent_logs";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       email_sent_logs: {
         Row: {
           id: string;
@@ -403,9 +595,27 @@ export type Database = {
           subject: string;
           body: string;
           call_id: string | null;
-          status: "pending" | "sent" | "failed" | "bounced" | null;
+          automation_rule_id: string | null;
+          status: "pending" | "sent" | "opened" | "clicked" | "failed" | "bounced" | null;
           error_message: string | null;
           sent_at: string | null;
+          html_body: string | null;
+          send_at: string | null;
+          attempts: number;
+          next_attempt_at: string | null;
+          locked_at: string | null;
+          message_id: string | null;
+          tracking_token: string;
+          tracking_enabled: boolean;
+          template_id: string | null;
+          lead_id: string | null;
+          opened_at: string | null;
+          open_count: number;
+          clicked_at: string | null;
+          click_count: number;
+          bounced_at: string | null;
+          bounce_reason: string | null;
+          credit_error: string | null;
           created_at: string;
         };
         Insert: {
@@ -417,9 +627,27 @@ export type Database = {
           subject: string;
           body: string;
           call_id?: string | null;
-          status?: "pending" | "sent" | "failed" | "bounced" | null;
+          automation_rule_id?: string | null;
+          status?: "pending" | "sent" | "opened" | "clicked" | "failed" | "bounced" | null;
           error_message?: string | null;
           sent_at?: string | null;
+          html_body?: string | null;
+          send_at?: string | null;
+          attempts?: number;
+          next_attempt_at?: string | null;
+          locked_at?: string | null;
+          message_id?: string | null;
+          tracking_token?: string;
+          tracking_enabled?: boolean;
+          template_id?: string | null;
+          lead_id?: string | null;
+          opened_at?: string | null;
+          open_count?: number;
+          clicked_at?: string | null;
+          click_count?: number;
+          bounced_at?: string | null;
+          bounce_reason?: string | null;
+          credit_error?: string | null;
           created_at?: string;
         };
         Update: {
@@ -431,9 +659,27 @@ export type Database = {
           subject?: string;
           body?: string;
           call_id?: string | null;
-          status?: "pending" | "sent" | "failed" | "bounced" | null;
+          automation_rule_id?: string | null;
+          status?: "pending" | "sent" | "opened" | "clicked" | "failed" | "bounced" | null;
           error_message?: string | null;
           sent_at?: string | null;
+          html_body?: string | null;
+          send_at?: string | null;
+          attempts?: number;
+          next_attempt_at?: string | null;
+          locked_at?: string | null;
+          message_id?: string | null;
+          tracking_token?: string;
+          tracking_enabled?: boolean;
+          template_id?: string | null;
+          lead_id?: string | null;
+          opened_at?: string | null;
+          open_count?: number;
+          clicked_at?: string | null;
+          click_count?: number;
+          bounced_at?: string | null;
+          bounce_reason?: string | null;
+          credit_error?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -443,6 +689,27 @@ export type Database = {
             isOneToOne: false;
             referencedRelation: "calls";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "email_sent_logs_automation_rule_id_fkey";
+            columns: ["automation_rule_id"];
+            isOneToOne: false;
+            referencedRelation: "email_automation_rules";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "email_sent_logs_template_id_fkey";
+            columns: ["template_id"];
+            isOneToOne: false;
+            referencedRelation: "email_templates";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "email_sent_logs_lead_id_fkey";
+            columns: ["lead_id"];
+            isOneToOne: false;
+            referencedRelation: "page_leads";
+            referencedColumns: ["id"];
           }
         ];
       };
@@ -482,6 +749,44 @@ export type Database = {
         };
         Relationships: [];
       };
+      email_tracking_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          email_log_id: string;
+          event_type: "open" | "click" | "bounce";
+          url: string | null;
+          user_agent: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          email_log_id: string;
+          event_type: "open" | "click" | "bounce";
+          url?: string | null;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          email_log_id?: string;
+          event_type?: "open" | "click" | "bounce";
+          url?: string | null;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "email_tracking_events_email_log_id_fkey";
+            columns: ["email_log_id"];
+            isOneToOne: false;
+            referencedRelation: "email_sent_logs";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       imported_phone_numbers: {
         Row: {
           id: string;
@@ -551,6 +856,134 @@ export type Database = {
         };
         Relationships: [];
       };
+      lead_calls: {
+        Row: {
+          id: string;
+          lead_id: string;
+          call_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          call_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          call_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "lead_calls_lead_id_fkey";
+            columns: ["lead_id"];
+            isOneToOne: false;
+            referencedRelation: "page_leads";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "lead_calls_call_id_fkey";
+            columns: ["call_id"];
+            isOneToOne: true;
+            referencedRelation: "calls";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      lead_duplicate_candidates: {
+        Row: {
+          id: string;
+          user_id: string;
+          lead_id: string;
+          duplicate_of_lead_id: string;
+          score: number;
+          reasons: string[];
+          status: "pending" | "dismissed";
+          created_at: string;
+          resolved_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          lead_id: string;
+          duplicate_of_lead_id: string;
+          score: number;
+          reasons?: string[];
+          status?: "pending" | "dismissed";
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          lead_id?: string;
+          duplicate_of_lead_id?: string;
+          score?: number;
+          reasons?: string[];
+          status?: "pending" | "dismissed";
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "lead_duplicate_candidates_lead_id_fkey";
+            columns: ["lead_id"];
+            isOneToOne: false;
+            referencedRelation: "page_leads";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "lead_duplicate_candidates_duplicate_of_lead_id_fkey";
+            columns: ["duplicate_of_lead_id"];
+            isOneToOne: false;
+            referencedRelation: "page_leads";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      lead_stage_history: {
+        Row: {
+          id: string;
+          lead_id: string;
+          user_id: string;
+          from_stage: string | null;
+          to_stage: string;
+          changed_by: "system" | "user";
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          user_id: string;
+          from_stage?: string | null;
+          to_stage: string;
+          changed_by: "system" | "user";
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          user_id?: string;
+          from_stage?: string | null;
+          to_stage?: string;
+          changed_by?: "system" | "user";
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "lead_stage_history_lead_id_fkey";
+            columns: ["lead_id"];
+            isOneToOne: false;
+            referencedRelation: "page_leads";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       notifications: {
         Row: {
           id: string;
@@ -599,6 +1032,16 @@ export type Database = {
           status: string | null;
           created_at: string;
           updated_at: string;
+          pipeline_stage: "new" | "contacted" | "qualified" | "won" | "lost";
+          stage_set_by: "system" | "user";
+          stage_changed_at: string;
+          assigned_to: string | null;
+          notes: string | null;
+          follow_up_date: string | null;
+          phone_e164: string | null;
+          lead_score: number | null;
+          lead_score_breakdown: Json | null;
+          lead_scored_at: string | null;
         };
         Insert: {
           id?: string;
@@ -611,6 +1054,16 @@ export type Database = {
           status?: string | null;
           created_at?: string;
           updated_at?: string;
+          pipeline_stage?: "new" | "contacted" | "qualified" | "won" | "lost";
+          stage_set_by?: "system" | "user";
+          stage_changed_at?: string;
+          assigned_to?: string | null;
+          notes?: string | null;
+          follow_up_date?: string | null;
+          phone_e164?: string | null;
+          lead_score?: number | null;
+          lead_score_breakdown?: Json | null;
+          lead_scored_at?: string | null;
         };
         Update: {
           id?: string;
@@ -623,6 +1076,16 @@ export type Database = {
           status?: string | null;
           created_at?: string;
           updated_at?: string;
+          pipeline_stage?: "new" | "contacted" | "qualified" | "won" | "lost";
+          stage_set_by?: "system" | "user";
+          stage_changed_at?: string;
+          assigned_to?: string | null;
+          notes?: string | null;
+          follow_up_date?: string | null;
+          phone_e164?: string | null;
+          lead_score?: number | null;
+          lead_score_breakdown?: Json | null;
+          lead_scored_at?: string | null;
         };
         Relationships: [];
       };
@@ -635,6 +1098,9 @@ export type Database = {
           id: string;
           retell_api_key: string | null;
           timezone: string;
+          recording_retention_days: number | null;
+          pii_redaction_settings: Json | null;
+          lead_scoring_settings: Json | null;
           updated_at: string;
           user_id: string;
           total_minutes_used: number | null;
@@ -657,6 +1123,9 @@ export type Database = {
           id?: string;
           retell_api_key?: string | null;
           timezone?: string;
+          recording_retention_days?: number | null;
+          pii_redaction_settings?: Json | null;
+          lead_scoring_settings?: Json | null;
           updated_at?: string;
           user_id: string;
           total_minutes_used?: number | null;
@@ -679,6 +1148,9 @@ export type Database = {
           id?: string;
           retell_api_key?: string | null;
           timezone?: string;
+          recording_retention_days?: number | null;
+          pii_redaction_settings?: Json | null;
+          lead_scoring_settings?: Json | null;
           updated_at?: string;
           user_id?: string;
           total_minutes_used?: number | null;
@@ -743,6 +1215,19 @@ export type Database = {
           email: string;
           name: string | null;
           smtp_password: string | null;
+          smtp_password_encrypted: string | null;
+          smtp_host: string | null;
+          smtp_port: number | null;
+          smtp_secure: boolean | null;
+          smtp_username: string | null;
+          smtp_configured: boolean;
+          smtp_verified_at: string | null;
+          auth_type: "password" | "oauth";
+          oauth_provider: "google" | "microsoft" | null;
+          oauth_refresh_token_encrypted: string | null;
+          oauth_access_token_encrypted: string | null;
+          oauth_token_expires_at: string | null;
+          oauth_error: string | null;
           is_primary: boolean;
           is_verified: boolean;
           created_at: string;
@@ -754,6 +1239,19 @@ export type Database = {
           email: string;
           name?: string | null;
           smtp_password?: string | null;
+          smtp_password_encrypted?: string | null;
+          smtp_host?: string | null;
+          smtp_port?: number | null;
+          smtp_secure?: boolean | null;
+          smtp_username?: string | null;
+          smtp_configured?: boolean;
+          smtp_verified_at?: string | null;
+          auth_type?: "password" | "oauth";
+          oauth_provider?: "google" | "microsoft" | null;
+          oauth_refresh_token_encrypted?: string | null;
+          oauth_access_token_encrypted?: string | null;
+          oauth_token_expires_at?: string | null;
+          oauth_error?: string | null;
           is_primary?: boolean;
           is_verified?: boolean;
           created_at?: string;
@@ -765,6 +1263,19 @@ export type Database = {
           email?: string;
           name?: string | null;
           smtp_password?: string | null;
+          smtp_password_encrypted?: string | null;
+          smtp_host?: string | null;
+          smtp_port?: number | null;
+          smtp_secure?: boolean | null;
+          smtp_username?: string | null;
+          smtp_configured?: boolean;
+          smtp_verified_at?: string | null;
+          auth_type?: "password" | "oauth";
+          oauth_provider?: "google" | "microsoft" | null;
+          oauth_refresh_token_encrypted?: string | null;
+          oauth_access_token_encrypted?: string | null;
+          oauth_token_expires_at?: string | null;
+          oauth_error?: string | null;
           is_primary?: boolean;
           is_verified?: boolean;
           created_at?: string;
@@ -895,6 +1406,27 @@ export type Database = {
         };
         Relationships: [];
       };
+      user_permissions: {
+        Row: {
+          id: string;
+          user_id: string;
+          permission: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          permission: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          permission?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
       user_subscriptions: {
         Row: {
           id: string;
@@ -993,6 +1525,13 @@ export type Database = {
         };
         Returns: boolean;
       };
+      merge_page_leads: {
+        Args: {
+          p_primary_lead_id: string;
+          p_duplicate_lead_id: string;
+        };
+        Returns: string;
+      };
       send_email: {
         Args: {
           p_from: string;
@@ -1019,6 +1558,7 @@ export type Database = {
         | "account_login"
         | "lead_created"
         | "email_sent"
+        | "call_data_deleted"
         | "settings_changed";
       call_status:
         | "pending"
@@ -1172,6 +1712,7 @@ export const Constants = {
         "account_login",
         "lead_created",
         "email_sent",
+        "call_data_deleted",
       ],
       call_status: [
         "pending",
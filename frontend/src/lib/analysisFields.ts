@@ -0,0 +1,93 @@
+import type { Bot, CustomAnalysisField } from "@/types/database";
+
+/**
+ * Turns a label like "Party Size" into the snake_case key "party_size"
+ */
+export function toFieldKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .replace(/^(\d)/, "f_$1")
+    .substring(0, 50);
+}
+
+/**
+ * Merges the custom analysis fields of all bots, first definition of a key wins
+ */
+export function getCustomFieldDefinitions(bots: Bot[]): CustomAnalysisField[] {
+  const definitions = new Map<string, CustomAnalysisField>();
+
+  bots.forEach((bot) => {
+    (bot.custom_analysis_fields || []).forEach((field) => {
+      if (field?.key && !definitions.has(field.key)) {
+        definitions.set(field.key, field);
+      }
+    });
+  });
+
+  return Array.from(definitions.values());
+}
+
+/**
+ * Reads analysis.custom_fields / extracted_data.custom_fields
+ */
+export function getCustomFieldValues(
+  analysis: Record<string, unknown> | null | undefined,
+): Record<string, unknown> {
+  const customFields = analysis?.custom_fields;
+  if (customFields && typeof customFields === "object" && !Array.isArray(customFields)) {
+    return customFields as Record<string, unknown>;
+  }
+  return {};
+}
+
+/**
+ * Formats a custom field value for tables and CSV export
+ */
+export function formatCustomFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Drops incomplete rows and tidies enum options before saving
+ * Returns an error message if a field can't be saved
+ */
+export function prepareAnalysisFields(fields: CustomAnalysisField[]): {
+  fields: CustomAnalysisField[];
+  error: string | null;
+} {
+  const prepared: CustomAnalysisField[] = [];
+  const keys = new Set<string>();
+
+  for (const field of fields) {
+    if (!field.label.trim() && !field.key) continue;
+
+    if (!field.key) {
+      return { fields, error: `Custom field "${field.label}" needs a key` };
+    }
+    if (keys.has(field.key)) {
+      return { fields, error: `Custom field key "${field.key}" is used twice` };
+    }
+
+    const options = (field.options || []).map((option) => option.trim()).filter(Boolean);
+    if (field.type === "enum" && options.length === 0) {
+      return { fields, error: `Custom field "${field.label || field.key}" needs at least one allowed value` };
+    }
+
+    keys.add(field.key);
+    prepared.push({
+      key: field.key,
+      label: field.label.trim() || field.key,
+      type: field.type,
+      description: field.description?.trim() || "",
+      ...(field.type === "enum" ? { options } : {}),
+    });
+  }
+
+  return { fields: prepared, error: null };
+}
@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Call } from "@/types/database";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+
+export interface RecordingUrl {
+  url: string;
+  // null while the recording is still served from the provider
+  expires_at: string | null;
+}
+
+/**
+ * Whether a call has a recording, stored or still at the provider
+ */
+export function hasRecording(call: Pick<Call, "recording_pending" | "recording_storage_path">): boolean {
+  return Boolean(call.recording_storage_path || call.recording_pending);
+}
+
+/**
+ * Short-lived playback URL for a call's recording
+ */
+export async function fetchRecordingUrl(callId: string): Promise<RecordingUrl> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${BACKEND_URL}/api/calls/${callId}/recording`, {
+    headers: {
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to load recording");
+  }
+
+  return { url: data.url, expires_at: data.expires_at };
+}
+
+/**
+ * Open a call's recording in a new tab
+ * The tab is opened before the URL is fetched so popup blockers allow it
+ */
+export async function openRecording(callId: string): Promise<void> {
+  const tab = window.open("", "_blank");
+
+  try {
+    const { url } = await fetchRecordingUrl(callId);
+    if (tab) {
+      tab.opener = null;
+      tab.location.href = url;
+    } else {
+      window.open(url, "_blank", "noopener,noreferrer");
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import type { CallerMemorySettings, CallerMemoryVariable } from "@/types/database";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+
+// Must match the backend limits in callerMemory.js
+export const MAX_RECENT_CALLS = 10;
+export const MAX_LOOKBACK_DAYS = 730;
+
+// Retell calls this before connecting an inbound call to fetch the caller memory
+export const CALLER_MEMORY_WEBHOOK_URL = `${BACKEND_URL}/api/webhooks/retell/inbound`;
+
+export const CALLER_MEMORY_VARIABLES: { key: CallerMemoryVariable; label: string; example: string }[] = [
+  { key: "caller_name", label: "Name", example: "Jane Smith" },
+  { key: "caller_last_intent", label: "Last intent", example: "Wants to book a cleaning" },
+  { key: "caller_last_call_summary", label: "Last call summary", example: "Asked about prices and opening hours" },
+  { key: "caller_last_call_date", label: "Last call date", example: "March 5, 2026" },
+  { key: "caller_open_appointment", label: "Upcoming appointment", example: "2026-03-12 at 14:00 (cleaning)" },
+  { key: "caller_open_order", label: "Last order", example: "2 x Large pizza; total $25; delivery" },
+  { key: "caller_call_count", label: "Number of previous calls", example: "3" },
+  { key: "caller_recent_calls", label: "Recent call summaries", example: "March 5, 2026: Asked about prices | …" },
+];
+
+export const DEFAULT_CALLER_MEMORY_SETTINGS: CallerMemorySettings = {
+  enabled: false,
+  variables: CALLER_MEMORY_VARIABLES.map((variable) => variable.key),
+  recent_calls: 3,
+  lookback_days: 365,
+};
+
+// Added to the agent prompt so the agent uses what it is told about the caller
+export const CALLER_MEMORY_PROMPT = `## Returning callers
+Returning caller: {{is_returning_caller}}
+Caller name: {{caller_name}}
+Reason for their last call: {{caller_last_intent}}
+Last call ({{caller_last_call_date}}): {{caller_last_call_summary}}
+Upcoming appointment: {{caller_open_appointment}}
+Last order: {{caller_open_order}}
+
+If this is a returning caller and you know their name, greet them by name and do not ask for it again. Use the details above to pick up where the last conversation left off, and confirm any upcoming appointment or order if it is relevant. Never read these notes out word for word.`;
+
+/**
+ * Stored settings merged over the defaults, so bots saved before a setting existed still load
+ */
+export function getCallerMemorySettings(raw: CallerMemorySettings | null | undefined): CallerMemorySettings {
+  if (!raw) return DEFAULT_CALLER_MEMORY_SETTINGS;
+  return {
+    ...DEFAULT_CALLER_MEMORY_SETTINGS,
+    ...raw,
+    variables: Array.isArray(raw.variables) ? raw.variables : DEFAULT_CALLER_MEMORY_SETTINGS.variables,
+  };
+}
+
+/**
+ * Clamps the numbers before saving
+ */
+export function prepareCallerMemorySettings(settings: CallerMemorySettings): CallerMemorySettings {
+  const clamp = (value: number, fallback: number, max: number) =>
+    Number.isFinite(value) && value > 0 ? Math.min(Math.round(value), max) : fallback;
+
+  return {
+    enabled: settings.enabled,
+    variables: CALLER_MEMORY_VARIABLES.map((variable) => variable.key).filter((key) => settings.variables.includes(key)),
+    recent_calls: clamp(settings.recent_calls, DEFAULT_CALLER_MEMORY_SETTINGS.recent_calls, MAX_RECENT_CALLS),
+    lookback_days: clamp(settings.lookback_days, DEFAULT_CALLER_MEMORY_SETTINGS.lookback_days, MAX_LOOKBACK_DAYS),
+  };
+}
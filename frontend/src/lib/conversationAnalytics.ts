@@ -0,0 +1,49 @@
+import { format, subDays, subHours } from "date-fns";
+import type { AnalyticsBucket } from "@/types/database";
+
+export const RANGE_PRESETS = [
+  { value: "24h", label: "Last 24 hours" },
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "365d", label: "Last 12 months" },
+] as const;
+
+export type RangePreset = (typeof RANGE_PRESETS)[number]["value"];
+
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/**
+ * from/to ISO timestamps for a range preset, ending now
+ */
+export function getPresetRange(preset: RangePreset, now: Date = new Date()): { from: string; to: string } {
+  const from = preset === "24h" ? subHours(now, 24) : subDays(now, parseInt(preset));
+  return { from: from.toISOString(), to: now.toISOString() };
+}
+
+/**
+ * Axis label for a series bucket key ("2026-03-05", "2026-03-05T14:00" or "2026-03")
+ * Keys are already in the account's timezone, so they are parsed as local dates
+ */
+export function formatBucketLabel(key: string, bucket: AnalyticsBucket): string {
+  if (bucket === "month") return format(new Date(`${key}-01T00:00:00`), "MMM yyyy");
+  if (bucket === "hour") return format(new Date(`${key}:00`), "MMM d, HH:mm");
+  if (bucket === "week") return `Wk of ${format(new Date(`${key}T00:00:00`), "MMM d")}`;
+  return format(new Date(`${key}T00:00:00`), "MMM d");
+}
+
+/**
+ * Percent change from the previous period, or null when there is nothing to compare with
+ */
+export function getPercentChange(current: number, previous: number | undefined): number | null {
+  if (previous === undefined || previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+/**
+ * "sales_inquiry" -> "Sales inquiry"
+ */
+export function humanizeKey(key: string): string {
+  const text = key.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,89 @@
+import type { EmailAutomationRunStatus, EmailRuleConditions, EmailTriggerType } from "@/types/database";
+
+export const EMAIL_TRIGGERS: { value: EmailTriggerType; label: string; description: string }[] = [
+  {
+    value: "call_completed",
+    label: "Call analyzed",
+    description: "After a completed call has been analyzed",
+  },
+  {
+    value: "lead_created",
+    label: "New lead",
+    description: "When a call creates a new lead",
+  },
+  {
+    value: "high_quality_lead",
+    label: "Hot lead",
+    description: "When an analyzed call leaves the lead hot",
+  },
+  {
+    value: "no_response",
+    label: "No follow-up call",
+    description: "When a lead hasn't called back by the end of the delay",
+  },
+  {
+    value: "call_ended",
+    label: "Call ended",
+    description: "Right when a call ends, before analysis. Strength, call type and score conditions only match returning leads",
+  },
+];
+
+export const LEAD_STRENGTH_OPTIONS: { value: "hot" | "warm" | "cold"; label: string }[] = [
+  { value: "hot", label: "Hot" },
+  { value: "warm", label: "Warm" },
+  { value: "cold", label: "Cold" },
+];
+
+export const RUN_STATUS_STYLES: Record<EmailAutomationRunStatus, string> = {
+  scheduled: "bg-blue-50 text-blue-700 border-blue-200",
+  sending: "bg-amber-50 text-amber-700 border-amber-200",
+  sent: "bg-green-50 text-green-700 border-green-200",
+  skipped: "bg-slate-50 text-slate-600 border-slate-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+};
+
+export function getTriggerLabel(trigger: EmailTriggerType): string {
+  return EMAIL_TRIGGERS.find((item) => item.value === trigger)?.label || trigger;
+}
+
+/**
+ * Human-readable delay, e.g. 90 -> "1h 30m after"
+ */
+export function formatDelay(minutes: number): string {
+  if (!minutes) return "Immediately";
+
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+
+  return `${[days && `${days}d`, hours && `${hours}h`, mins && `${mins}m`].filter(Boolean).join(" ")} after`;
+}
+
+/**
+ * Short summary of a rule's conditions for the rules list
+ */
+export function describeConditions(conditions: EmailRuleConditions, botNames: Record<string, string>): string[] {
+  const parts: string[] = [];
+
+  if (conditions.bot_ids?.length) {
+    parts.push(`Agent: ${conditions.bot_ids.map((id) => botNames[id] || "Deleted agent").join(", ")}`);
+  }
+  if (conditions.lead_strengths?.length) {
+    parts.push(`Strength: ${conditions.lead_strengths.join(", ")}`);
+  }
+  if (conditions.call_types?.length) {
+    parts.push(`Call type: ${conditions.call_types.map((type) => type.replace(/_/g, " ")).join(", ")}`);
+  }
+
+  const hasMin = conditions.min_score !== null && conditions.min_score !== undefined;
+  const hasMax = conditions.max_score !== null && conditions.max_score !== undefined;
+  if (hasMin && hasMax) {
+    parts.push(`Score ${conditions.min_score}–${conditions.max_score}`);
+  } else if (hasMin) {
+    parts.push(`Score ≥ ${conditions.min_score}`);
+  } else if (hasMax) {
+    parts.push(`Score ≤ ${conditions.max_score}`);
+  }
+
+  return parts;
+}
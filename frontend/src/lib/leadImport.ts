@@ -0,0 +1,123 @@
+import { readSheet } from "read-excel-file/browser";
+import { exportToCSV, parseCSV } from "@/lib/utils";
+import type { LeadImportField, LeadImportRow, LeadImportRowResult } from "@/types/database";
+
+// Must match the backend limit in leadImport.js
+export const MAX_IMPORT_ROWS = 5000;
+
+export const LEAD_IMPORT_FIELDS: { key: LeadImportField; label: string; aliases: string[] }[] = [
+  { key: "name", label: "Name", aliases: ["name", "full name", "contact", "contact name", "customer", "first name"] },
+  { key: "email", label: "Email", aliases: ["email", "e-mail", "email address", "mail"] },
+  {
+    key: "phone_number",
+    label: "Phone number",
+    aliases: ["phone", "phone number", "mobile", "cell", "telephone", "tel", "number", "contact number"],
+  },
+  { key: "address", label: "Address", aliases: ["address", "street", "location"] },
+  { key: "notes", label: "Notes", aliases: ["notes", "note", "comments", "comment", "description"] },
+  { key: "pipeline_stage", label: "Stage", aliases: ["stage", "pipeline stage", "status", "lead status"] },
+  { key: "assigned_to", label: "Owner", aliases: ["owner", "assigned to", "assignee", "sales rep", "rep"] },
+  { key: "follow_up_date", label: "Follow-up date", aliases: ["follow up", "follow-up", "follow up date", "follow-up date", "next contact"] },
+];
+
+// Spreadsheet column index for each lead field; unmapped fields are left out
+export type LeadImportMapping = Partial<Record<LeadImportField, number>>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+function cellToText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+}
+
+/**
+ * First sheet of a .csv or .xlsx file as a header row and data rows
+ */
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const name = file.name.toLowerCase();
+  let table: string[][];
+
+  if (name.endsWith(".xlsx")) {
+    const data = await readSheet(file);
+    table = data.map((row) => row.map(cellToText)).filter((row) => row.some((cell) => cell !== ""));
+  } else if (name.endsWith(".csv") || name.endsWith(".txt")) {
+    const text = await file.text();
+    // Excel in many European locales saves CSV files with semicolons
+    const firstLine = text.split(/\r?\n/, 1)[0] || "";
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+    table = parseCSV(text, delimiter).map((row) => row.map((cell) => cell.trim()));
+  } else {
+    throw new Error("Upload a .csv or .xlsx file (save .xls files as .xlsx first)");
+  }
+
+  if (table.length < 2) {
+    throw new Error("The file needs a header row and at least one row of data");
+  }
+
+  const [headers, ...rows] = table;
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`The file has ${rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+  }
+
+  return { headers: headers.map((header, index) => header || `Column ${index + 1}`), rows };
+}
+
+/**
+ * Map each lead field to the first column whose header matches one of its aliases
+ */
+export function guessColumnMapping(headers: string[]): LeadImportMapping {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[_\s]+/g, " ").trim());
+  const mapping: LeadImportMapping = {};
+  const used = new Set<number>();
+
+  for (const field of LEAD_IMPORT_FIELDS) {
+    const index = normalized.findIndex((header, column) => !used.has(column) && field.aliases.includes(header));
+    if (index !== -1) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Data rows as lead fields; rows are numbered as in the file, after the header on line 1
+ */
+export function applyColumnMapping(rows: string[][], mapping: LeadImportMapping): LeadImportRow[] {
+  return rows.map((cells, index) => {
+    const row: LeadImportRow = { row: index + 2 };
+    for (const field of LEAD_IMPORT_FIELDS) {
+      const column = mapping[field.key];
+      if (column !== undefined && cells[column]) row[field.key] = cells[column];
+    }
+    return row;
+  });
+}
+
+/**
+ * Download the rows that were not imported as new leads, with the reason for each
+ */
+export function downloadImportReport(rows: LeadImportRow[], results: LeadImportRowResult[]): void {
+  const rowsByNumber = new Map(rows.map((row) => [row.row, row]));
+
+  const reportRows = results
+    .filter((result) => result.status === "error" || result.status === "skipped")
+    .map((result) => ({
+      ...rowsByNumber.get(result.row),
+      row: result.row,
+      status: result.status,
+      reason: result.errors?.join("; ") || result.message || "",
+    }));
+
+  exportToCSV(reportRows, `lead-import-report-${new Date().toISOString().split("T")[0]}`, [
+    { key: "row", label: "Row" },
+    { key: "status", label: "Status" },
+    { key: "reason", label: "Reason" },
+    ...LEAD_IMPORT_FIELDS.map((field) => ({ key: field.key, label: field.label })),
+  ]);
+}
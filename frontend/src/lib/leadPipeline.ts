@@ -0,0 +1,59 @@
+import { format, isBefore, startOfDay } from "date-fns";
+import type { LeadPipelineStage, PageLead } from "@/types/database";
+
+export const PIPELINE_STAGES: {
+  value: LeadPipelineStage;
+  label: string;
+  color: string;
+  bgColor: string;
+}[] = [
+  { value: "new", label: "New", color: "text-blue-700", bgColor: "bg-blue-50" },
+  { value: "contacted", label: "Contacted", color: "text-amber-700", bgColor: "bg-amber-50" },
+  { value: "qualified", label: "Qualified", color: "text-purple-700", bgColor: "bg-purple-50" },
+  { value: "won", label: "Won", color: "text-emerald-700", bgColor: "bg-emerald-50" },
+  { value: "lost", label: "Lost", color: "text-slate-600", bgColor: "bg-slate-100" },
+];
+
+/**
+ * Display label for a stage, "New" for leads created before the pipeline existed
+ */
+export function getStageLabel(stage: LeadPipelineStage | null | undefined): string {
+  return PIPELINE_STAGES.find((item) => item.value === stage)?.label || "New";
+}
+
+/**
+ * Leads grouped by stage, most recently changed first within each column
+ */
+export function groupLeadsByStage(leads: PageLead[]): Record<LeadPipelineStage, PageLead[]> {
+  const groups = Object.fromEntries(PIPELINE_STAGES.map((stage) => [stage.value, [] as PageLead[]])) as Record<
+    LeadPipelineStage,
+    PageLead[]
+  >;
+
+  for (const lead of leads) {
+    groups[lead.pipeline_stage || "new"].push(lead);
+  }
+
+  for (const stage of PIPELINE_STAGES) {
+    groups[stage.value].sort((a, b) =>
+      (b.stage_changed_at || b.updated_at).localeCompare(a.stage_changed_at || a.updated_at),
+    );
+  }
+
+  return groups;
+}
+
+/**
+ * Whether a follow-up date (yyyy-MM-dd) is before today, ignoring closed leads
+ */
+export function isFollowUpOverdue(lead: PageLead, today: Date = new Date()): boolean {
+  if (!lead.follow_up_date || lead.pipeline_stage === "won" || lead.pipeline_stage === "lost") return false;
+  return isBefore(new Date(`${lead.follow_up_date}T00:00:00`), startOfDay(today));
+}
+
+/**
+ * "2026-03-05" -> "Mar 5, 2026"
+ */
+export function formatFollowUpDate(date: string): string {
+  return format(new Date(`${date}T00:00:00`), "MMM d, yyyy");
+}
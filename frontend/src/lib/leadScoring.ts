@@ -0,0 +1,45 @@
+import type { LeadScoringFactor, LeadScoringSettings } from "@/types/database";
+
+// Must match the backend defaults in leadScoring.js
+export const DEFAULT_LEAD_SCORING_SETTINGS: LeadScoringSettings = {
+  enabled: false,
+  weights: {
+    urgency_level: 20,
+    call_type: 20,
+    appointment_scheduled: 25,
+    order_total: 15,
+    sentiment: 10,
+    repeat_caller: 10,
+  },
+  call_types: ["order", "appointment", "sales_inquiry"],
+  order_total_target: 100,
+  thresholds: { hot: 70, warm: 40 },
+};
+
+export const SCORING_FACTORS: { value: LeadScoringFactor; label: string; description: string }[] = [
+  { value: "urgency_level", label: "Urgency", description: "Full points for high urgency, half for medium" },
+  { value: "call_type", label: "Call type", description: "Full points for the call types selected below" },
+  { value: "appointment_scheduled", label: "Appointment scheduled", description: "Full points when an appointment was booked" },
+  { value: "order_total", label: "Order total", description: "Points grow with the order total, up to the target amount" },
+  { value: "sentiment", label: "Sentiment", description: "Full points for positive calls, half for neutral" },
+  { value: "repeat_caller", label: "Repeat caller", description: "Full points when the lead has called before" },
+];
+
+// Call types the analysis assigns, except ones that are never leads
+export const SCORING_CALL_TYPES: { value: string; label: string }[] = [
+  { value: "order", label: "Order" },
+  { value: "appointment", label: "Appointment" },
+  { value: "sales_inquiry", label: "Sales inquiry" },
+  { value: "general_inquiry", label: "General inquiry" },
+  { value: "support", label: "Support" },
+  { value: "billing", label: "Billing" },
+  { value: "complaint", label: "Complaint" },
+];
+
+/**
+ * Label of a scoring factor, e.g. "appointment_scheduled" -> "Appointment scheduled"
+ */
+export function getScoringFactorLabel(factor: LeadScoringFactor): string {
+  return SCORING_FACTORS.find((item) => item.value === factor)?.label || factor;
+}
+
@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { PiiRedactionCategory, PiiRedactionSettings, TranscriptTurn } from "@/types/database";
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:3001";
+
+export const PERMISSION_VIEW_UNREDACTED = "view_unredacted_transcripts";
+
+export const REDACTION_CATEGORY_OPTIONS: { value: PiiRedactionCategory; label: string; description: string }[] = [
+  { value: "credit_card", label: "Card numbers", description: "Payment card numbers (checksum validated)" },
+  { value: "ssn", label: "Social Security numbers", description: "SSNs, including nine digits after \"social security\"" },
+  { value: "date_of_birth", label: "Dates of birth", description: "Dates said after \"born\" or \"date of birth\"" },
+  { value: "email", label: "Email addresses", description: "Leads will no longer capture the caller's email" },
+  { value: "phone_number", label: "Phone numbers", description: "Leads will no longer capture numbers read out on the call" },
+];
+
+// Email and phone stay off by default: lead capture needs them
+export const DEFAULT_REDACTION_SETTINGS: PiiRedactionSettings = {
+  enabled: false,
+  categories: ["credit_card", "ssn", "date_of_birth"],
+  llm_entities: false,
+  restrict_recordings: false,
+};
+
+/**
+ * Stored settings merged over the defaults
+ */
+export function getRedactionSettings(stored: Partial<PiiRedactionSettings> | null | undefined): PiiRedactionSettings {
+  return { ...DEFAULT_REDACTION_SETTINGS, ...(stored || {}) };
+}
+
+/**
+ * Original transcript of a redacted call; requires the view_unredacted_transcripts permission
+ */
+export async function fetchUnredactedTranscript(
+  callId: string,
+): Promise<{ transcript: string | null; transcript_object: TranscriptTurn[] }> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${BACKEND_URL}/api/calls/${callId}/transcript/unredacted`, {
+    headers: {
+      Authorization: `Bearer ${session?.access_token || ""}`,
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to load unredacted transcript");
+  }
+
+  return { transcript: data.transcript, transcript_object: data.transcript_object || [] };
+}
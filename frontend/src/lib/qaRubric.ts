@@ -0,0 +1,107 @@
+import type { CallQaResult, QaRubricCriterion } from "@/types/database";
+
+// Must match the backend limits in callAnalysisSchema.js
+export const MAX_RUBRIC_CRITERIA = 20;
+export const MAX_CRITERION_WEIGHT = 10;
+
+export interface QaCriterionStats {
+  key: string;
+  label: string;
+  passed: number;
+  failed: number;
+  notApplicable: number;
+  passRate: number | null; // % of applicable grades that passed
+}
+
+export interface QaScorecard {
+  botId: string;
+  gradedCalls: number;
+  averageScore: number | null;
+  criteria: QaCriterionStats[];
+}
+
+/**
+ * Drops empty rows and clamps weights before saving
+ * Returns an error message if a criterion can't be saved
+ */
+export function prepareQaRubric(criteria: QaRubricCriterion[]): {
+  criteria: QaRubricCriterion[];
+  error: string | null;
+} {
+  const prepared: QaRubricCriterion[] = [];
+  const keys = new Set<string>();
+
+  for (const criterion of criteria) {
+    if (!criterion.label.trim() && !criterion.key) continue;
+
+    if (!criterion.key) {
+      return { criteria, error: `QA criterion "${criterion.label}" needs a key` };
+    }
+    if (keys.has(criterion.key)) {
+      return { criteria, error: `QA criterion key "${criterion.key}" is used twice` };
+    }
+
+    const weight = Math.round(Number(criterion.weight));
+
+    keys.add(criterion.key);
+    prepared.push({
+      key: criterion.key,
+      label: criterion.label.trim() || criterion.key,
+      description: criterion.description?.trim() || "",
+      weight: Number.isFinite(weight) ? Math.min(Math.max(weight, 1), MAX_CRITERION_WEIGHT) : 1,
+    });
+  }
+
+  return { criteria: prepared, error: null };
+}
+
+/**
+ * Per-bot scorecards from call_qa_results rows and the matching call_analytics scores
+ * Criteria are ordered worst pass rate first
+ */
+export function buildQaScorecards(
+  results: CallQaResult[],
+  scoresByCall: Record<string, number | null>,
+): QaScorecard[] {
+  const byBot = new Map<string, { calls: Set<string>; criteria: Map<string, QaCriterionStats> }>();
+
+  results.forEach((result) => {
+    if (!result.bot_id) return;
+
+    let bot = byBot.get(result.bot_id);
+    if (!bot) {
+      bot = { calls: new Set(), criteria: new Map() };
+      byBot.set(result.bot_id, bot);
+    }
+    bot.calls.add(result.call_id);
+
+    let stats = bot.criteria.get(result.criterion_key);
+    if (!stats) {
+      stats = { key: result.criterion_key, label: result.criterion_label, passed: 0, failed: 0, notApplicable: 0, passRate: null };
+      bot.criteria.set(result.criterion_key, stats);
+    }
+
+    if (result.result === "pass") stats.passed++;
+    else if (result.result === "fail") stats.failed++;
+    else stats.notApplicable++;
+  });
+
+  return Array.from(byBot.entries()).map(([botId, bot]) => {
+    const scores = Array.from(bot.calls)
+      .map((callId) => scoresByCall[callId])
+      .filter((score): score is number => typeof score === "number");
+
+    const criteria = Array.from(bot.criteria.values()).map((stats) => {
+      const applicable = stats.passed + stats.failed;
+      return { ...stats, passRate: applicable > 0 ? Math.round((stats.passed / applicable) * 100) : null };
+    });
+    criteria.sort((a, b) => (a.passRate ?? 101) - (b.passRate ?? 101));
+
+    return {
+      botId,
+      gradedCalls: bot.calls.size,
+      averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+      criteria,
+    };
+  });
+}
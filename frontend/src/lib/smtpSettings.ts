@@ -0,0 +1,71 @@
+export interface SmtpSettingsDraft {
+  host: string;
+  port: string;
+  secure: boolean;
+  username: string;
+}
+
+export const SMTP_SECURITY_OPTIONS = [
+  { value: "starttls", label: "STARTTLS", port: 587, secure: false },
+  { value: "ssl", label: "SSL/TLS", port: 465, secure: true },
+] as const;
+
+export const EMPTY_SMTP_SETTINGS: SmtpSettingsDraft = {
+  host: "",
+  port: "",
+  secure: false,
+  username: "",
+};
+
+/**
+ * SMTP server guessed from an email address's domain, same as the backend
+ * uses for mailboxes without an explicit host
+ */
+export function guessSmtpHost(email: string): string {
+  const domain = email.split("@")[1]?.trim().toLowerCase();
+  if (!domain) return "smtp.example.com";
+
+  if (domain.includes("gmail.com")) return "smtp.gmail.com";
+  if (domain.includes("outlook.com") || domain.includes("hotmail.com") || domain.includes("live.com")) {
+    return "smtp-mail.outlook.com";
+  }
+  if (domain.includes("yahoo.com")) return "smtp.mail.yahoo.com";
+  return `smtp.${domain}`;
+}
+
+export function getDefaultSmtpPort(secure: boolean): number {
+  return secure ? 465 : 587;
+}
+
+/**
+ * Draft for a saved mailbox's settings
+ */
+export function toSmtpSettingsDraft(mailbox: {
+  smtp_host?: string | null;
+  smtp_port?: number | null;
+  smtp_secure?: boolean | null;
+  smtp_username?: string | null;
+}): SmtpSettingsDraft {
+  const port = mailbox.smtp_port || null;
+
+  return {
+    host: mailbox.smtp_host || "",
+    port: port ? String(port) : "",
+    secure: typeof mailbox.smtp_secure === "boolean" ? mailbox.smtp_secure : port === 465,
+    username: mailbox.smtp_username || "",
+  };
+}
+
+/**
+ * Request fields for /api/mailboxes; an empty host is guessed by the backend
+ */
+export function toSmtpSettingsRequest(draft: SmtpSettingsDraft) {
+  const port = parseInt(draft.port, 10);
+
+  return {
+    smtp_host: draft.host.trim() || null,
+    smtp_port: Number.isNaN(port) ? getDefaultSmtpPort(draft.secure) : port,
+    smtp_secure: draft.secure,
+    smtp_username: draft.username.trim() || null,
+  };
+}
@@ -0,0 +1,58 @@
+import type { Call, TranscriptTurn } from "@/types/database";
+
+/**
+ * Speaker turns for a call
+ * Falls back to parsing the "Agent: ... / User: ..." text transcript for calls
+ * recorded before transcript_object was stored; those turns have no timestamps
+ */
+export function getTranscriptTurns(call: Pick<Call, "transcript" | "transcript_object">): TranscriptTurn[] {
+  if (Array.isArray(call.transcript_object) && call.transcript_object.length > 0) {
+    return call.transcript_object;
+  }
+
+  if (!call.transcript) return [];
+
+  const turns: TranscriptTurn[] = [];
+  call.transcript.split("\n").forEach((line) => {
+    const match = line.match(/^\s*(agent|user)\s*:\s*(.*)$/i);
+
+    if (match) {
+      turns.push({
+        role: match[1].toLowerCase() as TranscriptTurn["role"],
+        content: match[2],
+        start: null,
+        end: null,
+      });
+    } else if (line.trim() && turns.length > 0) {
+      // Continuation of a multi-line utterance
+      turns[turns.length - 1].content += `\n${line}`;
+    } else if (line.trim()) {
+      turns.push({ role: "agent", content: line, start: null, end: null });
+    }
+  });
+
+  return turns;
+}
+
+/**
+ * Formats seconds from call start as m:ss
+ */
+export function formatTranscriptTime(seconds: number): string {
+  const totalSeconds = Math.max(Math.floor(seconds), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Splits text into parts, flagging the case-insensitive matches of query
+ */
+export function splitByQuery(text: string, query: string): { text: string; match: boolean }[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [{ text, match: false }];
+
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return text
+    .split(new RegExp(`(${escaped})`, "gi"))
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: part.toLowerCase() === trimmed.toLowerCase() }));
+}
@@ -425,6 +425,23 @@ export function formatScheduledAt(
   }
 }
 
+/**
+ * Formats a Retell disconnection reason code into a readable label
+ *
+ * @param reason - Reason code like "user_hangup" or "dial_no_answer"
+ * @returns Label like "User Hangup" or "-" if missing
+ */
+export function formatDisconnectionReason(reason: string | null | undefined): string {
+  if (!reason) {
+    return "-";
+  }
+
+  return reason
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
 /**
  * Exports data to CSV format and downloads it
  * @param data - Array of objects to export
@@ -526,3 +543,52 @@ function formatCSVValue(value: any): string {
 
   return String(value);
 }
+
+/**
+ * Parses CSV text into rows of cells, the reverse of exportToCSV
+ * Handles quoted values with commas, escaped quotes and newlines, CRLF line endings and a UTF-8 BOM
+ * @param text - CSV file contents
+ * @param delimiter - Cell separator, defaults to comma
+ * @returns Rows of cell values, without empty lines
+ */
+export function parseCSV(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
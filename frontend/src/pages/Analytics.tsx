@@ -0,0 +1,521 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  ArrowLeft,
+  ArrowUpRight,
+  ArrowDownRight,
+  Activity,
+  AlertCircle,
+  BarChart3,
+  CalendarClock,
+  Loader2,
+  Phone,
+  PhoneForwarded,
+  Clock,
+  Timer,
+  UserPlus,
+  Smile,
+} from "lucide-react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { FeatureGate } from "@/components/FeatureGate";
+import { CallHeatmap } from "@/components/dashboard/CallHeatmap";
+import { useBots } from "@/hooks/useBots";
+import { useConversationAnalytics } from "@/hooks/useConversationAnalytics";
+import {
+  RANGE_PRESETS,
+  formatBucketLabel,
+  getPercentChange,
+  getPresetRange,
+  humanizeKey,
+  type RangePreset,
+} from "@/lib/conversationAnalytics";
+import { formatDuration } from "@/lib/credits";
+import { cn } from "@/lib/utils";
+import type { AnalyticsBucket, ConversationAnalyticsTotals } from "@/types/database";
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "#fff",
+  borderRadius: "8px",
+  border: "1px solid #e2e8f0",
+  boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
+};
+
+const AXIS_TICK = { fontSize: 12, fill: "#64748b" };
+
+const BUCKET_OPTIONS: { value: AnalyticsBucket | "auto"; label: string }[] = [
+  { value: "auto", label: "Auto" },
+  { value: "hour", label: "Hourly" },
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+];
+
+interface MetricCardProps {
+  title: string;
+  value: string;
+  detail?: string;
+  change: number | null;
+  icon: typeof Phone;
+  // Whether a drop is the good direction, e.g. after-hours calls
+  lowerIsBetter?: boolean;
+}
+
+function MetricCard({ title, value, detail, change, icon: Icon, lowerIsBetter = false }: MetricCardProps) {
+  const isGood = change !== null && (lowerIsBetter ? change <= 0 : change >= 0);
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardContent className="p-5">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm font-medium text-slate-500">{title}</p>
+          <Icon className="h-4 w-4 text-slate-400" />
+        </div>
+        <p className="text-2xl font-bold text-slate-900">{value}</p>
+        <div className="flex items-center gap-2 mt-1 text-xs">
+          {change !== null ? (
+            <span className={cn("flex items-center font-medium", isGood ? "text-emerald-600" : "text-red-600")}>
+              {change >= 0 ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownRight className="h-3 w-3" />}
+              {Math.abs(change)}%
+            </span>
+          ) : (
+            <span className="text-slate-400">—</span>
+          )}
+          <span className="text-slate-500">{detail || "vs previous period"}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Counts of one breakdown (call types, outcomes) as horizontal bars, largest first
+ */
+function BreakdownList({ counts, total }: { counts: Record<string, number>; total: number }) {
+  const entries = Object.entries(counts).filter(([, count]) => count > 0).sort((a, b) => b[1] - a[1]);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-500 py-4 text-center">No calls in this period</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map(([key, count]) => (
+        <div key={key}>
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="text-slate-700">{humanizeKey(key)}</span>
+            <span className="font-medium text-slate-900">
+              {count} <span className="text-xs text-slate-500">({total > 0 ? Math.round((count / total) * 100) : 0}%)</span>
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+            <div className="h-full rounded-full bg-blue-500" style={{ width: `${total > 0 ? (count / total) * 100 : 0}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * One breakdown row per agent or number
+ */
+function BreakdownTable({ rows }: { rows: { key: string; label: string; totals: ConversationAnalyticsTotals }[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-slate-500 py-4 text-center">No calls in this period</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Minutes</TableHead>
+          <TableHead className="text-right">Leads</TableHead>
+          <TableHead className="text-right">Hot / Warm / Cold</TableHead>
+          <TableHead className="text-right">Transfer rate</TableHead>
+          <TableHead className="text-right">After-hours</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(({ key, label, totals }) => (
+          <TableRow key={key}>
+            <TableCell className="font-medium">{label}</TableCell>
+            <TableCell className="text-right">{totals.calls}</TableCell>
+            <TableCell className="text-right">{totals.minutes}</TableCell>
+            <TableCell className="text-right">
+              {totals.leads} <span className="text-xs text-slate-500">({totals.lead_rate}%)</span>
+            </TableCell>
+            <TableCell className="text-right">
+              {totals.lead_strength.hot} / {totals.lead_strength.warm} / {totals.lead_strength.cold}
+            </TableCell>
+            <TableCell className="text-right">{totals.transfer_rate}%</TableCell>
+            <TableCell className="text-right">
+              {totals.after_hours} <span className="text-xs text-slate-500">({totals.after_hours_rate}%)</span>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Analytics() {
+  const navigate = useNavigate();
+  const { bots } = useBots();
+  const [preset, setPreset] = useState<RangePreset>("30d");
+  const [bucket, setBucket] = useState<AnalyticsBucket | "auto">("auto");
+  const [botId, setBotId] = useState("all");
+  const [agentNumber, setAgentNumber] = useState("all");
+
+  // The range is fixed when the preset changes, so the request doesn't change on every render
+  const range = useMemo(() => getPresetRange(preset), [preset]);
+
+  const { analytics, loading, error } = useConversationAnalytics({
+    ...range,
+    bucket: bucket === "auto" ? undefined : bucket,
+    bot_id: botId === "all" ? undefined : botId,
+    agent_number: agentNumber === "all" ? undefined : agentNumber,
+  });
+
+  const agentNumbers = useMemo(
+    () => Array.from(new Set((bots || []).map((bot) => bot.agent_number).filter((number): number is string => Boolean(number)))),
+    [bots],
+  );
+
+  const chartData = useMemo(() => {
+    if (!analytics) return [];
+    return analytics.series.map((point) => ({
+      label: formatBucketLabel(point.bucket, analytics.range.bucket),
+      calls: point.calls,
+      leads: point.leads,
+      hot: point.lead_strength.hot,
+      warm: point.lead_strength.warm,
+      cold: point.lead_strength.cold,
+      positive: point.sentiment.positive,
+      neutral: point.sentiment.neutral,
+      negative: point.sentiment.negative,
+      transfer_rate: point.transfer_rate,
+      after_hours: point.after_hours,
+    }));
+  }, [analytics]);
+
+  const totals = analytics?.totals;
+  const previous = analytics?.previous?.totals;
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <FeatureGate featureName="analytics">
+          <div className="space-y-6 pb-8">
+            {/* Header */}
+            <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+              <div className="space-y-1">
+                <Button variant="ghost" size="sm" className="-ml-3 text-slate-500" onClick={() => navigate("/dashboard")}>
+                  <ArrowLeft className="mr-1 h-4 w-4" /> Dashboard
+                </Button>
+                <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Conversation Analytics</h1>
+                <p className="text-slate-500 text-base">
+                  Trends across your calls, compared with the previous period
+                  {analytics ? ` · times in ${analytics.range.timezone}` : ""}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RANGE_PRESETS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={bucket} onValueChange={(value) => setBucket(value as AnalyticsBucket | "auto")}>
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUCKET_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={botId} onValueChange={setBotId}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All agents</SelectItem>
+                    {(bots || []).map((bot) => (
+                      <SelectItem key={bot.id} value={bot.id}>{bot.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={agentNumber} onValueChange={setAgentNumber}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All numbers</SelectItem>
+                    {agentNumbers.map((number) => (
+                      <SelectItem key={number} value={number}>{number}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {loading && !analytics ? (
+              <div className="flex items-center justify-center h-[400px]">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              </div>
+            ) : error ? (
+              <Card className="border-slate-200 shadow-sm">
+                <CardContent className="py-12 text-center">
+                  <AlertCircle className="h-10 w-10 text-red-300 mx-auto mb-3" />
+                  <p className="text-slate-900 font-medium">Could not load analytics</p>
+                  <p className="text-sm text-slate-500 mt-1">{error}</p>
+                </CardContent>
+              </Card>
+            ) : analytics && totals ? (
+              <div className={cn("space-y-6 transition-opacity", loading && "opacity-60")}>
+                {analytics.truncated && (
+                  <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                    This range has more calls than can be analyzed at once. Totals cover the oldest calls only; pick a shorter range for exact figures.
+                  </p>
+                )}
+
+                {/* Key Metrics */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
+                  <MetricCard title="Calls" value={String(totals.calls)} change={getPercentChange(totals.calls, previous?.calls)} icon={Phone} />
+                  <MetricCard title="Minutes" value={String(totals.minutes)} change={getPercentChange(totals.minutes, previous?.minutes)} icon={Clock} />
+                  <MetricCard
+                    title="Leads"
+                    value={String(totals.leads)}
+                    detail={`${totals.lead_rate}% of calls`}
+                    change={getPercentChange(totals.leads, previous?.leads)}
+                    icon={UserPlus}
+                  />
+                  <MetricCard
+                    title="Transfer Rate"
+                    value={`${totals.transfer_rate}%`}
+                    detail={`${totals.transfers} transfers`}
+                    change={getPercentChange(totals.transfer_rate, previous?.transfer_rate)}
+                    icon={PhoneForwarded}
+                    lowerIsBetter
+                  />
+                  <MetricCard
+                    title="After-hours Calls"
+                    value={String(totals.after_hours)}
+                    detail={`${totals.after_hours_rate}% of calls`}
+                    change={getPercentChange(totals.after_hours, previous?.after_hours)}
+                    icon={CalendarClock}
+                    lowerIsBetter
+                  />
+                  <MetricCard
+                    title="Avg. Duration"
+                    value={formatDuration(totals.avg_duration_seconds)}
+                    change={getPercentChange(totals.avg_duration_seconds, previous?.avg_duration_seconds)}
+                    icon={Timer}
+                  />
+                </div>
+
+                {/* Trends */}
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <Card className="border-slate-200 shadow-sm">
+                    <CardHeader>
+                      <CardTitle className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                        <Activity className="h-5 w-5 text-blue-600" />
+                        Calls & Leads
+                      </CardTitle>
+                      <CardDescription>Call volume and leads captured over time</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-[280px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={AXIS_TICK} dy={10} minTickGap={20} />
+                            <YAxis axisLine={false} tickLine={false} tick={AXIS_TICK} allowDecimals={false} />
+                            <Tooltip contentStyle={TOOLTIP_STYLE} />
+                            <Area type="monotone" dataKey="calls" stroke="#2563eb" strokeWidth={2} fill="#2563eb" fillOpacity={0.08} name="Calls" />
+                            <Area type="monotone" dataKey="leads" stroke="#9333ea" strokeWidth={2} fill="#9333ea" fillOpacity={0.08} name="Leads" />
+                            <Legend wrapperStyle={{ paddingTop: "20px" }} iconType="circle" />
+                          </AreaChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-slate-200 shadow-sm">
+                    <CardHeader>
+                      <CardTitle className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                        <UserPlus className="h-5 w-5 text-purple-600" />
+                        Lead Quality
+                      </CardTitle>
+                      <CardDescription>Hot, warm and cold leads over time</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-[280px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={AXIS_TICK} dy={10} minTickGap={20} />
+                            <YAxis axisLine={false} tickLine={false} tick={AXIS_TICK} allowDecimals={false} />
+                            <Tooltip contentStyle={TOOLTIP_STYLE} />
+                            <Bar dataKey="hot" stackId="leads" fill="#ef4444" name="Hot" />
+                            <Bar dataKey="warm" stackId="leads" fill="#f59e0b" name="Warm" />
+                            <Bar dataKey="cold" stackId="leads" fill="#3b82f6" name="Cold" radius={[4, 4, 0, 0]} />
+                            <Legend wrapperStyle={{ paddingTop: "20px" }} iconType="circle" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-slate-200 shadow-sm">
+                    <CardHeader>
+                      <CardTitle className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                        <Smile className="h-5 w-5 text-emerald-600" />
+                        Sentiment
+                      </CardTitle>
+                      <CardDescription>Caller sentiment of analyzed calls over time</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-[280px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={AXIS_TICK} dy={10} minTickGap={20} />
+                            <YAxis axisLine={false} tickLine={false} tick={AXIS_TICK} allowDecimals={false} />
+                            <Tooltip contentStyle={TOOLTIP_STYLE} />
+                            <Bar dataKey="positive" stackId="sentiment" fill="#10b981" name="Positive" />
+                            <Bar dataKey="neutral" stackId="sentiment" fill="#94a3b8" name="Neutral" />
+                            <Bar dataKey="negative" stackId="sentiment" fill="#ef4444" name="Negative" radius={[4, 4, 0, 0]} />
+                            <Legend wrapperStyle={{ paddingTop: "20px" }} iconType="circle" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-slate-200 shadow-sm">
+                    <CardHeader>
+                      <CardTitle className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                        <PhoneForwarded className="h-5 w-5 text-amber-600" />
+                        Transfers & After-hours
+                      </CardTitle>
+                      <CardDescription>Transfer rate and calls outside the agents' available hours</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-[280px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={chartData} margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={AXIS_TICK} dy={10} minTickGap={20} />
+                            <YAxis yAxisId="rate" axisLine={false} tickLine={false} tick={AXIS_TICK} unit="%" />
+                            <YAxis yAxisId="count" orientation="right" axisLine={false} tickLine={false} tick={AXIS_TICK} allowDecimals={false} />
+                            <Tooltip contentStyle={TOOLTIP_STYLE} />
+                            <Line yAxisId="rate" type="monotone" dataKey="transfer_rate" stroke="#f59e0b" strokeWidth={2} dot={false} name="Transfer rate (%)" />
+                            <Line yAxisId="count" type="monotone" dataKey="after_hours" stroke="#6366f1" strokeWidth={2} dot={false} name="After-hours calls" />
+                            <Legend wrapperStyle={{ paddingTop: "20px" }} iconType="circle" />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {/* Breakdowns */}
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <Card className="border-slate-200 shadow-sm">
+                    <CardHeader>
+                      <CardTitle className="text-lg font-bold text-slate-900">Call Types</CardTitle>
+                      <CardDescription>What callers were calling about</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <BreakdownList counts={totals.call_type} total={totals.calls} />
+                    </CardContent>
+                  </Card>
+                  <Card className="border-slate-200 shadow-sm">
+                    <CardHeader>
+                      <CardTitle className="text-lg font-bold text-slate-900">Outcomes</CardTitle>
+                      <CardDescription>How calls ended, from call analysis</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <BreakdownList counts={totals.call_outcome} total={totals.calls} />
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {/* Heatmap */}
+                <Card className="border-slate-200 shadow-sm">
+                  <CardHeader>
+                    <CardTitle className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                      <BarChart3 className="h-5 w-5 text-blue-600" />
+                      Busiest Hours
+                    </CardTitle>
+                    <CardDescription>Calls by hour of day and day of week ({analytics.range.timezone})</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <CallHeatmap heatmap={analytics.heatmap} />
+                  </CardContent>
+                </Card>
+
+                {/* By agent / by number */}
+                <Card className="border-slate-200 shadow-sm">
+                  <CardHeader>
+                    <CardTitle className="text-lg font-bold text-slate-900">By Agent</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <BreakdownTable
+                      rows={analytics.by_bot.map(({ bot_id, bot_name, ...rowTotals }) => ({
+                        key: bot_id || "none",
+                        label: bot_name,
+                        totals: rowTotals,
+                      }))}
+                    />
+                  </CardContent>
+                </Card>
+                <Card className="border-slate-200 shadow-sm">
+                  <CardHeader>
+                    <CardTitle className="text-lg font-bold text-slate-900">By Phone Number</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <BreakdownTable
+                      rows={analytics.by_number.map(({ agent_number, ...rowTotals }) => ({
+                        key: agent_number || "none",
+                        label: agent_number || "Unknown number",
+                        totals: rowTotals,
+                      }))}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+            ) : null}
+          </div>
+        </FeatureGate>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
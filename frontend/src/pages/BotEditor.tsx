@@ -1,7 +1,18 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { ArrowLeft, Settings, LayoutList, Plus, X, Loader2, Save, Activity, FileText, Phone, Clock, BookOpen, User, Mic, AlertCircle, Zap, Sparkles, Eye, CheckCircle, XCircle, PhoneCall, Link2, Unlink, Bot } from "lucide-react";
+import { ArrowLeft, Settings, LayoutList, Plus, X, Loader2, Save, Activity, FileText, Phone, Clock, BookOpen, User, Mic, AlertCircle, Zap, Sparkles, Eye, CheckCircle, XCircle, PhoneCall, Link2, Unlink, Bot, ListChecks, ClipboardCheck, Brain } from "lucide-react";
 import { VoiceSelector } from "@/components/voices/VoiceSelector";
+import { AnalysisFieldsEditor } from "@/components/bots/AnalysisFieldsEditor";
+import { QaRubricEditor } from "@/components/bots/QaRubricEditor";
+import { CallerMemorySettingsEditor } from "@/components/bots/CallerMemorySettingsEditor";
+import { prepareAnalysisFields } from "@/lib/analysisFields";
+import { prepareQaRubric } from "@/lib/qaRubric";
+import {
+  CALLER_MEMORY_PROMPT,
+  DEFAULT_CALLER_MEMORY_SETTINGS,
+  getCallerMemorySettings,
+  prepareCallerMemorySettings,
+} from "@/lib/callerMemory";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { FeatureGate } from "@/components/FeatureGate";
@@ -24,8 +35,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { formatDistanceToNow, format } from "date-fns";
-import type { Bot, Call, CallStatus } from "@/types/database";
+import type { Bot, Call, CallerMemorySettings, CallStatus, CustomAnalysisField, QaRubricCriterion } from "@/types/database";
 
 // Voice interface matching database schema
 interface Voice {
@@ -86,6 +98,9 @@ export default function BotEditor() {
   const [saving, setSaving] = useState(false);
   const [activeTab, setActiveTab] = useState("edit");
   const [editSection, setEditSection] = useState("details");
+  const [analysisFields, setAnalysisFields] = useState<CustomAnalysisField[]>([]);
+  const [qaRubric, setQaRubric] = useState<QaRubricCriterion[]>([]);
+  const [callerMemory, setCallerMemory] = useState<CallerMemorySettings>(DEFAULT_CALLER_MEMORY_SETTINGS);
   const [calls, setCalls] = useState<Call[]>([]);
   const [callsLoading, setCallsLoading] = useState(false);
   const [selectedCall, setSelectedCall] = useState<Call | null>(null);
@@ -562,6 +577,9 @@ export default function BotEditor() {
         unavailable_end_time: availabilitySettings.endTime,
         unavailable_days: availabilitySettings.unavailableDays || [],
       });
+      setAnalysisFields(data.custom_analysis_fields || []);
+      setQaRubric(data.qa_rubric || []);
+      setCallerMemory(getCallerMemorySettings(data.caller_memory_settings));
     }
     setLoading(false);
   };
@@ -607,6 +625,24 @@ ${unavailableDaysMessage}
 Always check the time FIRST before engaging in any conversation with the caller.`;
   };
 
+  const saveAnalysisSettings = async (
+    botId: string,
+    fields: CustomAnalysisField[],
+    rubric: QaRubricCriterion[],
+    memory: CallerMemorySettings,
+  ) => {
+    const { error } = await supabase
+      .from("bots")
+      .update({
+        custom_analysis_fields: fields as unknown as Json,
+        qa_rubric: rubric as unknown as Json,
+        caller_memory_settings: memory as unknown as Json,
+      })
+      .eq("id", botId);
+
+    if (error) throw error;
+  };
+
   const handleSave = async () => {
     if (!formData.name.trim()) {
       toast.error("Agent name is required");
@@ -633,6 +669,22 @@ Always check the time FIRST before engaging in any conversation with the caller.
       return;
     }
 
+    const preparedFields = prepareAnalysisFields(analysisFields);
+    if (preparedFields.error) {
+      toast.error(preparedFields.error);
+      setEditSection("analysis");
+      return;
+    }
+
+    const preparedRubric = prepareQaRubric(qaRubric);
+    if (preparedRubric.error) {
+      toast.error(preparedRubric.error);
+      setEditSection("qa");
+      return;
+    }
+
+    const preparedMemory = prepareCallerMemorySettings(callerMemory);
+
     setSaving(true);
     
     try {
@@ -677,11 +729,25 @@ Always check the time FIRST before engaging in any conversation with the caller.
       if (isCreateMode) {
         const result: any = await createBot(payload);
         if (result && (result.id || result.bot_id)) {
+          // Custom analysis fields, the QA rubric and caller memory live only in our database, not on the Retell agent
+          if (preparedFields.fields.length > 0 || preparedRubric.criteria.length > 0 || preparedMemory.enabled) {
+            try {
+              await saveAnalysisSettings(
+                result.id || result.bot_id,
+                preparedFields.fields,
+                preparedRubric.criteria,
+                preparedMemory,
+              );
+            } catch {
+              toast.error("Agent created, but custom analysis fields, QA rubric and caller memory could not be saved");
+            }
+          }
           // Navigate to the bots list page after successful creation
           navigate("/bots");
         }
       } else if (id) {
         await updateBot(id, payload);
+        await saveAnalysisSettings(id, preparedFields.fields, preparedRubric.criteria, preparedMemory);
         toast.success("Agent settings updated successfully");
         await loadBot(id);
       }
@@ -789,6 +855,24 @@ Always check the time FIRST before engaging in any conversation with the caller.
                       >
                         <Settings className="h-4 w-4" /> Agent Settings
                       </button>
+                      <button
+                        onClick={() => setEditSection("analysis")}
+                        className={`flex items-center gap-3 px-3 py-2.5 text-sm font-medium rounded-md transition-colors ${editSection === "analysis" ? "bg-blue-50 text-blue-700" : "text-slate-600 hover:bg-slate-100"}`}
+                      >
+                        <ListChecks className="h-4 w-4" /> Analysis Fields
+                      </button>
+                      <button
+                        onClick={() => setEditSection("qa")}
+                        className={`flex items-center gap-3 px-3 py-2.5 text-sm font-medium rounded-md transition-colors ${editSection === "qa" ? "bg-blue-50 text-blue-700" : "text-slate-600 hover:bg-slate-100"}`}
+                      >
+                        <ClipboardCheck className="h-4 w-4" /> QA Rubric
+                      </button>
+                      <button
+                        onClick={() => setEditSection("memory")}
+                        className={`flex items-center gap-3 px-3 py-2.5 text-sm font-medium rounded-md transition-colors ${editSection === "memory" ? "bg-blue-50 text-blue-700" : "text-slate-600 hover:bg-slate-100"}`}
+                      >
+                        <Brain className="h-4 w-4" /> Caller Memory
+                      </button>
                     </nav>
                   </Card>
                 </div>
@@ -1291,6 +1375,58 @@ Always check the time FIRST before engaging in any conversation with the caller.
                         </div>
                       )}
 
+                      {/* Section: Analysis Fields */}
+                      {editSection === "analysis" && (
+                        <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                          <div>
+                            <h2 className="text-lg font-semibold flex items-center gap-2"><ListChecks className="h-5 w-5" /> Custom Analysis Fields</h2>
+                            <p className="text-sm text-muted-foreground mt-1">
+                              Extra details to pull out of every call this agent handles. Values appear on the Leads page and in CSV exports.
+                            </p>
+                          </div>
+                          <Separator />
+                          <AnalysisFieldsEditor fields={analysisFields} onChange={setAnalysisFields} />
+                        </div>
+                      )}
+
+                      {/* Section: QA Rubric */}
+                      {editSection === "qa" && (
+                        <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                          <div>
+                            <h2 className="text-lg font-semibold flex items-center gap-2"><ClipboardCheck className="h-5 w-5" /> QA Rubric</h2>
+                            <p className="text-sm text-muted-foreground mt-1">
+                              Criteria every call this agent handles is graded against. Scores and failing criteria appear on the Dashboard.
+                            </p>
+                          </div>
+                          <Separator />
+                          <QaRubricEditor criteria={qaRubric} onChange={setQaRubric} />
+                        </div>
+                      )}
+
+                      {/* Section: Caller Memory */}
+                      {editSection === "memory" && (
+                        <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                          <div>
+                            <h2 className="text-lg font-semibold flex items-center gap-2"><Brain className="h-5 w-5" /> Caller Memory</h2>
+                            <p className="text-sm text-muted-foreground mt-1">
+                              What the agent knows about a caller who has called before, so repeat customers aren't asked for the same details again.
+                            </p>
+                          </div>
+                          <Separator />
+                          <CallerMemorySettingsEditor
+                            settings={callerMemory}
+                            onChange={setCallerMemory}
+                            promptHasInstructions={formData.general_prompt.includes("{{is_returning_caller}}")}
+                            onAddToPrompt={() =>
+                              setFormData({
+                                ...formData,
+                                general_prompt: `${formData.general_prompt.trimEnd()}\n\n${CALLER_MEMORY_PROMPT}`.trim(),
+                              })
+                            }
+                          />
+                        </div>
+                      )}
+
                     </CardContent>
                   </Card>
                 </div>
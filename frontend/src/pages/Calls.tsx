@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import {
   Phone,
   PhoneCall,
@@ -13,13 +14,14 @@ import {
   Check,
   User,
   Link as LinkIcon,
-  FileText,
   Database,
-  Filter,
   PhoneOff,
   Moon,
   PhoneIncoming,
   Download,
+  AlertTriangle,
+  RefreshCw,
+  Search,
 } from "lucide-react";
 import {
   Card,
@@ -36,13 +38,21 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { FeatureGate } from "@/components/FeatureGate";
-import { useCalls } from "@/hooks/useCalls";
+import { CallEventTimeline } from "@/components/calls/CallEventTimeline";
+import { ReanalyzeCallsDialog } from "@/components/calls/ReanalyzeCallsDialog";
+import { TranscriptViewer } from "@/components/calls/TranscriptViewer";
+import { CallFiltersPopover } from "@/components/calls/CallFiltersPopover";
+import { RecordingLink } from "@/components/calls/RecordingLink";
+import { hasRecording } from "@/lib/callRecordings";
+import { useCallSearch, CALL_SEARCH_FILTER_KEYS } from "@/hooks/useCallSearch";
 import { useBots } from "@/hooks/useBots";
+import { useCallReanalysis } from "@/hooks/useCallReanalysis";
 import { useProfile } from "@/hooks/useProfile";
 import { CallStatus } from "@/types/database";
 import {
   formatInUserTimezone,
   formatScheduledAt,
+  formatDisconnectionReason,
   exportToCSV,
 } from "@/lib/utils";
 import {
@@ -68,16 +78,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuLabel,
-  DropdownMenuSeparator,
-  DropdownMenuTrigger,
-  DropdownMenuCheckboxItem,
-} from "@/components/ui/dropdown-menu";
-import type { Call } from "@/types/database";
+import type { Call, CallSearchFilters } from "@/types/database";
 
 const statusConfig: Record<
   CallStatus,
@@ -140,18 +141,32 @@ const statusConfig: Record<
 };
 
 export default function Calls() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters: CallSearchFilters = Object.fromEntries(
+    CALL_SEARCH_FILTER_KEYS.filter((key) => searchParams.get(key)).map((key) => [key, searchParams.get(key)]),
+  );
   const {
     calls,
+    total,
+    statusCounts,
     loading,
-  } = useCalls();
+    loadingMore,
+    error: callsError,
+    hasMore,
+    hasNewCalls,
+    loadMore,
+    refetch,
+  } = useCallSearch(filters);
   const { bots } = useBots();
   const { profile } = useProfile();
   const userTimezone = profile?.timezone || "UTC";
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [filterOpen, setFilterOpen] = useState(false);
+  const [searchInput, setSearchInput] = useState(filters.q || "");
   const [selectedCall, setSelectedCall] = useState<Call | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [reanalyzeOpen, setReanalyzeOpen] = useState(false);
+  const reanalysis = useCallReanalysis();
+  const reanalysisBatch = reanalysis.batch;
 
   const copyToClipboard = async (text: string, fieldName: string) => {
     await navigator.clipboard.writeText(text);
@@ -165,24 +180,51 @@ export default function Calls() {
     return bot?.name || botId;
   };
 
-  // Filter calls by status
-  const filteredCalls = calls.filter((call) => {
-    // Status filter
-    if (statusFilter !== "all") {
-      const callStatus = (call.status || "").toLowerCase();
-      if (callStatus !== statusFilter.toLowerCase()) return false;
-    }
-    return true;
-  });
-
-  // Calculate stats for calls
+  // Filters live in the URL so searches can be shared and survive reloads
+  const updateFilters = (updates: Partial<CallSearchFilters>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      return next;
+    }, { replace: true });
+  };
+
+  // Search once typing pauses
+  const currentQuery = filters.q || "";
+  useEffect(() => {
+    if (searchInput.trim() === currentQuery) return;
+
+    const timer = setTimeout(() => {
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        if (searchInput.trim()) {
+          next.set("q", searchInput.trim());
+        } else {
+          next.delete("q");
+        }
+        return next;
+      }, { replace: true });
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [searchInput, currentQuery, setSearchParams]);
+
+  const hasActiveFilters = CALL_SEARCH_FILTER_KEYS.some((key) => filters[key]);
+
+  // Counts come from the server for the current filters; status cards ignore the status filter
   const callStats = {
-    totalCalls: filteredCalls.length,
-    pendingCalls: filteredCalls.filter((c) => c.status === "pending").length,
-    inProgressCalls: filteredCalls.filter((c) => c.status === "in_progress").length,
-    completedCalls: filteredCalls.filter((c) => c.status === "completed").length,
-    failedCalls: filteredCalls.filter((c) => c.status === "failed").length,
-    notConnectedCalls: filteredCalls.filter((c) => c.status === "not_connected").length,
+    totalCalls: total,
+    pendingCalls: statusCounts.pending ?? 0,
+    inProgressCalls: statusCounts.in_progress ?? 0,
+    completedCalls: statusCounts.completed ?? 0,
+    failedCalls: statusCounts.failed ?? 0,
+    notConnectedCalls: statusCounts.not_connected ?? 0,
   };
 
   const openDetails = (call: Call) => {
@@ -191,7 +233,7 @@ export default function Calls() {
   };
 
   const handleExportCalls = () => {
-    const exportData = filteredCalls.map((call) => {
+    const exportData = calls.map((call) => {
       const status = (call.status || "pending").toLowerCase();
       const config = statusConfig[status as CallStatus] || {
         icon: Clock,
@@ -216,9 +258,12 @@ export default function Calls() {
         "Completed At": call.completed_at
           ? formatInUserTimezone(call.completed_at, userTimezone, "MMM dd, yyyy HH:mm")
           : "",
+        "Disconnection Reason": call.disconnection_reason
+          ? formatDisconnectionReason(call.disconnection_reason)
+          : "",
         "Scheduled": formatScheduledAt(call.Scheduled_at, "MMM dd, yyyy 'at' h:mm a"),
         "Transcript": call.transcript || "",
-        "Recording URL": call.recording_url || "",
+        "Recording": hasRecording(call) ? "Yes" : "No",
         "Created At": call.created_at
           ? formatInUserTimezone(call.created_at, userTimezone, "MMM dd, yyyy HH:mm")
           : "",
@@ -240,6 +285,19 @@ export default function Calls() {
               <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Call History</h1>
               <p className="text-slate-500 text-base">View and manage all your call records</p>
             </div>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => setReanalyzeOpen(true)}>
+              {reanalysisBatch?.status === "running" ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Re-analyzing {reanalysisBatch.progress.processed}/{reanalysisBatch.total_calls}
+                </>
+              ) : (
+                <>
+                  <RefreshCw className="h-4 w-4" />
+                  Re-analyze Calls
+                </>
+              )}
+            </Button>
           </div>
 
           {/* Stats Section */}
@@ -312,92 +370,83 @@ export default function Calls() {
                       Call History
                     </CardTitle>
                     <CardDescription className="text-slate-500 mt-1">
-                      {callStats.totalCalls} total calls
+                      {hasActiveFilters
+                        ? `${callStats.totalCalls} matching call${callStats.totalCalls !== 1 ? "s" : ""}`
+                        : `${callStats.totalCalls} total calls`}
+                      {calls.length < callStats.totalCalls && ` · showing ${calls.length}`}
                     </CardDescription>
                   </div>
-                  {/* Filter Dropdown and Export Button */}
+                  {/* Search, Filters and Export Button */}
                   <div className="flex items-center gap-2" data-tour="calls-filters">
+                    <div className="relative">
+                      <Search className="h-4 w-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        placeholder="Search transcripts, names, numbers"
+                        className="h-9 w-72 pl-8"
+                      />
+                    </div>
+                    <CallFiltersPopover
+                      filters={filters}
+                      onChange={updateFilters}
+                      bots={bots}
+                      statusCounts={statusCounts}
+                    />
                     <Button
                       variant="outline"
                       size="sm"
                       className="gap-2"
                       onClick={handleExportCalls}
-                      disabled={filteredCalls.length === 0}
+                      disabled={calls.length === 0}
+                      title="Exports the calls loaded below"
                     >
                       <Download className="h-4 w-4" />
                       Export CSV
                     </Button>
-                    <DropdownMenu open={filterOpen} onOpenChange={setFilterOpen}>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="outline" size="sm" className="gap-2">
-                          <Filter className="h-4 w-4" />
-                          Filters
-                          {statusFilter !== "all" && (
-                            <Badge variant="secondary" className="ml-1">
-                              1
-                            </Badge>
-                          )}
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end" className="w-56">
-                        <DropdownMenuLabel>Status Filter</DropdownMenuLabel>
-                        <DropdownMenuSeparator />
-                        <DropdownMenuCheckboxItem
-                          checked={statusFilter === "all"}
-                          onCheckedChange={() => setStatusFilter("all")}
-                        >
-                          All ({callStats.totalCalls})
-                        </DropdownMenuCheckboxItem>
-                        <DropdownMenuCheckboxItem
-                          checked={statusFilter === "in_progress"}
-                          onCheckedChange={() => setStatusFilter("in_progress")}
-                        >
-                          In Progress ({callStats.inProgressCalls})
-                        </DropdownMenuCheckboxItem>
-                        <DropdownMenuCheckboxItem
-                          checked={statusFilter === "completed"}
-                          onCheckedChange={() => setStatusFilter("completed")}
-                        >
-                          Completed ({callStats.completedCalls})
-                        </DropdownMenuCheckboxItem>
-                        <DropdownMenuCheckboxItem
-                          checked={statusFilter === "failed"}
-                          onCheckedChange={() => setStatusFilter("failed")}
-                        >
-                          Failed ({callStats.failedCalls})
-                        </DropdownMenuCheckboxItem>
-                        <DropdownMenuCheckboxItem
-                          checked={statusFilter === "not_connected"}
-                          onCheckedChange={() => setStatusFilter("not_connected")}
-                        >
-                          Not Connected ({callStats.notConnectedCalls})
-                        </DropdownMenuCheckboxItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                    {statusFilter !== "all" && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => setStatusFilter("all")}
-                      >
-                        Clear Filters
-                      </Button>
-                    )}
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
+                {hasNewCalls && (
+                  <div className="flex items-center justify-between gap-4 mt-4 px-4 py-2 rounded-lg bg-blue-50 border border-blue-100 text-sm text-blue-700">
+                    <span>New calls have arrived</span>
+                    <Button variant="ghost" size="sm" onClick={refetch} className="gap-2 text-blue-700 hover:text-blue-800">
+                      <RefreshCw className="h-4 w-4" />
+                      Refresh
+                    </Button>
+                  </div>
+                )}
                 {loading ? (
                   <div className="flex items-center justify-center py-12">
                     <Loader2 className="h-8 w-8 animate-spin text-primary" />
                   </div>
-                ) : filteredCalls.length === 0 ? (
+                ) : callsError ? (
+                  <div className="text-center py-12">
+                    <AlertTriangle className="h-12 w-12 mx-auto text-destructive mb-4" />
+                    <p className="text-muted-foreground">{callsError}</p>
+                    <Button variant="outline" size="sm" onClick={refetch} className="mt-4">
+                      Try Again
+                    </Button>
+                  </div>
+                ) : calls.length === 0 ? (
                   <div className="text-center py-12">
                     <PhoneIncoming className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                    <p className="text-muted-foreground">No calls yet</p>
-                    <p className="text-sm text-muted-foreground mt-2">
-                      Calls from your agents will appear here
-                    </p>
+                    {hasActiveFilters ? (
+                      <>
+                        <p className="text-muted-foreground">No calls match your search</p>
+                        <p className="text-sm text-muted-foreground mt-2">
+                          Try different keywords or clear some filters
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-muted-foreground">No calls yet</p>
+                        <p className="text-sm text-muted-foreground mt-2">
+                          Calls from your agents will appear here
+                        </p>
+                      </>
+                    )}
                   </div>
                 ) : (
                   <ScrollArea className="h-[600px]">
@@ -419,7 +468,7 @@ export default function Calls() {
                           </TableRow>
                         </TableHeader>
                         <TableBody>
-                          {filteredCalls.map((call) => {
+                          {calls.map((call) => {
                             const status = (call.status || "pending").toLowerCase();
                             const config = statusConfig[status as CallStatus] || {
                               icon: Clock,
@@ -487,19 +536,11 @@ export default function Calls() {
                                   ) : "-"}
                                 </TableCell>
                                 <TableCell className="text-xs max-w-[200px]">
-                                  {call.recording_url ? (
-                                    <a
-                                      href={call.recording_url}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-primary hover:underline truncate block"
-                                      onClick={(e) => e.stopPropagation()}
-                                      title={call.recording_url}
-                                    >
-                                      {call.recording_url.length > 30 
-                                        ? `${call.recording_url.substring(0, 30)}...` 
-                                        : call.recording_url}
-                                    </a>
+                                  {hasRecording(call) ? (
+                                    <RecordingLink callId={call.id} className="text-primary">
+                                      <LinkIcon className="h-3 w-3" />
+                                      Recording
+                                    </RecordingLink>
                                   ) : "-"}
                                 </TableCell>
                                 <TableCell onClick={(e) => e.stopPropagation()}>
@@ -517,6 +558,14 @@ export default function Calls() {
                         </TableBody>
                       </Table>
                     </div>
+                    {hasMore && (
+                      <div className="flex justify-center py-4">
+                        <Button variant="outline" size="sm" onClick={loadMore} disabled={loadingMore} className="gap-2">
+                          {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                          Load More
+                        </Button>
+                      </div>
+                    )}
                   </ScrollArea>
                 )}
               </CardContent>
@@ -662,6 +711,18 @@ export default function Calls() {
                           </div>
                         )}
 
+                        {selectedCall.disconnection_reason && (
+                          <div className="space-y-1">
+                            <Label className="text-xs text-muted-foreground flex items-center gap-1">
+                              <PhoneOff className="h-3 w-3" />
+                              Disconnection Reason
+                            </Label>
+                            <p className="font-medium text-xs">
+                              {formatDisconnectionReason(selectedCall.disconnection_reason)}
+                            </p>
+                          </div>
+                        )}
+
                         {selectedCall.Scheduled_at && (
                           <div className="space-y-1">
                             <Label className="text-xs text-muted-foreground flex items-center gap-1">
@@ -674,39 +735,15 @@ export default function Calls() {
                           </div>
                         )}
                         
-                        {selectedCall.recording_url && (
+                        {hasRecording(selectedCall) && (
                           <div className="space-y-1 col-span-full">
                             <Label className="text-xs text-muted-foreground flex items-center gap-1">
                               <LinkIcon className="h-3 w-3" />
-                              Recording URL
+                              Recording
                             </Label>
-                            <div className="flex items-center gap-2">
-                              <a
-                                href={selectedCall.recording_url}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-sm text-primary hover:underline truncate"
-                              >
-                                {selectedCall.recording_url}
-                              </a>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="h-6 w-6"
-                                onClick={() =>
-                                  copyToClipboard(
-                                    selectedCall.recording_url || "",
-                                    "recording",
-                                  )
-                                }
-                              >
-                                {copiedField === "recording" ? (
-                                  <Check className="h-3 w-3 text-success" />
-                                ) : (
-                                  <Copy className="h-3 w-3" />
-                                )}
-                              </Button>
-                            </div>
+                            <RecordingLink callId={selectedCall.id} className="text-sm text-primary">
+                              Open recording in new tab
+                            </RecordingLink>
                           </div>
                         )}
                       </div>
@@ -714,164 +751,15 @@ export default function Calls() {
 
                     {/* Timeline Tab */}
                     <TabsContent value="timeline" className="space-y-4 mt-0">
-                      <div className="space-y-4">
-                        {(selectedCall.created_at || selectedCall.started_at) && (
-                          <div className="flex items-start gap-4">
-                            <div className="flex flex-col items-center">
-                              <div className="w-2 h-2 rounded-full bg-primary" />
-                              <div className="w-0.5 h-full bg-border mt-1" />
-                            </div>
-                            <div className="flex-1 pb-4">
-                              <Label className="text-sm font-medium flex items-center gap-2">
-                                <CalendarIcon className="h-4 w-4" />
-                                Created At
-                              </Label>
-                              <p className="text-sm text-muted-foreground mt-1">
-                                {selectedCall.created_at
-                                  ? formatInUserTimezone(
-                                      selectedCall.created_at,
-                                      userTimezone,
-                                      "PPpp",
-                                    )
-                                  : selectedCall.started_at
-                                  ? formatInUserTimezone(
-                                      selectedCall.started_at,
-                                      userTimezone,
-                                      "PPpp",
-                                    )
-                                  : "N/A"}
-                              </p>
-                              {(selectedCall.created_at || selectedCall.started_at) && (
-                                <p className="text-xs text-muted-foreground mt-1 font-mono">
-                                  {selectedCall.created_at || selectedCall.started_at}
-                                </p>
-                              )}
-                            </div>
-                          </div>
-                        )}
-
-                        {selectedCall.started_at && selectedCall.created_at !== selectedCall.started_at && (
-                          <div className="flex items-start gap-4">
-                            <div className="flex flex-col items-center">
-                              <div className="w-2 h-2 rounded-full bg-primary" />
-                              <div className="w-0.5 h-full bg-border mt-1" />
-                            </div>
-                            <div className="flex-1 pb-4">
-                              <Label className="text-sm font-medium flex items-center gap-2">
-                                <PhoneCall className="h-4 w-4" />
-                                Started At
-                              </Label>
-                              <p className="text-sm text-muted-foreground mt-1">
-                                {formatInUserTimezone(
-                                  selectedCall.started_at,
-                                  userTimezone,
-                                  "PPpp",
-                                )}
-                              </p>
-                              <p className="text-xs text-muted-foreground mt-1 font-mono">
-                                {selectedCall.started_at}
-                              </p>
-                            </div>
-                          </div>
-                        )}
-
-
-                        {selectedCall.completed_at && (
-                          <div className="flex items-start gap-4">
-                            <div className="flex flex-col items-center">
-                              <div className="w-2 h-2 rounded-full bg-primary" />
-                              <div className="w-0.5 h-full bg-border mt-1" />
-                            </div>
-                            <div className="flex-1 pb-4">
-                              <Label className="text-sm font-medium flex items-center gap-2">
-                                <CheckCircle className="h-4 w-4" />
-                                Completed At
-                              </Label>
-                              <p className="text-sm text-muted-foreground mt-1">
-                                {formatInUserTimezone(
-                                  selectedCall.completed_at,
-                                  userTimezone,
-                                  "PPpp",
-                                )}
-                              </p>
-                              <p className="text-xs text-muted-foreground mt-1 font-mono">
-                                {selectedCall.completed_at}
-                              </p>
-                            </div>
-                          </div>
-                        )}
-
-                        {selectedCall.Scheduled_at && (
-                          <div className="flex items-start gap-4">
-                            <div className="flex flex-col items-center">
-                              <div className="w-2 h-2 rounded-full bg-primary" />
-                              <div className="w-0.5 h-full bg-border mt-1" />
-                            </div>
-                            <div className="flex-1 pb-4">
-                              <Label className="text-sm font-medium flex items-center gap-2">
-                                <Clock className="h-4 w-4" />
-                                Scheduled For
-                              </Label>
-                              <p className="text-sm text-muted-foreground mt-1">
-                                {formatScheduledAt(selectedCall.Scheduled_at, "PPpp")}
-                              </p>
-                            </div>
-                          </div>
-                        )}
-                      </div>
+                      <CallEventTimeline
+                        call={selectedCall}
+                        userTimezone={userTimezone}
+                      />
                     </TabsContent>
 
                     {/* Content Tab */}
                     <TabsContent value="content" className="space-y-4 mt-0">
-                      {selectedCall.transcript && (
-                        <div>
-                          <Label className="text-sm font-medium flex items-center gap-2 mb-2">
-                            <FileText className="h-4 w-4" />
-                            Transcript
-                          </Label>
-                          <ScrollArea className="h-48 mt-2 p-4 bg-secondary/30 rounded-lg border">
-                            <p className="text-sm whitespace-pre-wrap leading-relaxed">
-                              {selectedCall.transcript}
-                            </p>
-                          </ScrollArea>
-                        </div>
-                      )}
-
-                      {selectedCall.recording_url && (
-                        <div>
-                          <Label className="text-sm font-medium flex items-center gap-2 mb-2">
-                            <Phone className="h-4 w-4" />
-                            Recording
-                          </Label>
-                          <div className="mt-2 space-y-2">
-                            <audio
-                              controls
-                              className="w-full"
-                              src={selectedCall.recording_url}
-                              preload="metadata"
-                            >
-                              Your browser does not support the audio element.
-                            </audio>
-                            <a
-                              href={selectedCall.recording_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-primary hover:underline text-sm flex items-center gap-1"
-                            >
-                              <LinkIcon className="h-3 w-3" />
-                              Open recording in new tab
-                            </a>
-                          </div>
-                        </div>
-                      )}
-
-                      {!selectedCall.transcript &&
-                        !selectedCall.recording_url && (
-                          <div className="text-center py-12 text-muted-foreground">
-                            <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
-                            <p>No content available for this call</p>
-                          </div>
-                        )}
+                      <TranscriptViewer call={selectedCall} />
                     </TabsContent>
 
                     {/* Technical Tab */}
@@ -891,6 +779,33 @@ export default function Calls() {
                           </div>
                         )}
 
+                      {selectedCall.analysis_warnings &&
+                        selectedCall.analysis_warnings.length > 0 && (
+                          <div>
+                            <Label className="text-sm font-medium flex items-center gap-2 mb-2">
+                              <AlertTriangle className="h-4 w-4 text-warning" />
+                              Analysis Warnings
+                              {selectedCall.analysis_schema_version && (
+                                <Badge variant="outline" className="text-xs">
+                                  Schema v{selectedCall.analysis_schema_version}
+                                </Badge>
+                              )}
+                            </Label>
+                            <div className="space-y-1 p-4 bg-secondary/30 rounded-lg border">
+                              {selectedCall.analysis_warnings.map((warning, index) => (
+                                <p key={index} className="text-xs">
+                                  <span className="font-mono font-medium">{warning.field}</span>
+                                  <span className="text-muted-foreground">
+                                    {" - "}
+                                    {warning.message}
+                                    {warning.value !== null && ` (got ${JSON.stringify(warning.value)})`}
+                                  </span>
+                                </p>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                       <div className="grid grid-cols-2 gap-4 pt-4 border-t">
                         <div>
                           <Label className="text-xs text-muted-foreground">
@@ -936,6 +851,13 @@ export default function Calls() {
             )}
           </DialogContent>
         </Dialog>
+
+        <ReanalyzeCallsDialog
+          open={reanalyzeOpen}
+          onOpenChange={setReanalyzeOpen}
+          bots={bots}
+          reanalysis={reanalysis}
+        />
         </FeatureGate>
       </DashboardLayout>
     </ProtectedRoute>
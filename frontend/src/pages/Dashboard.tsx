@@ -70,6 +70,7 @@ import { format, subDays, isSameDay, parseISO, startOfDay } from "date-fns";
 import { useNavigate } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { CreditsUsageModal } from "@/components/CreditsUsageModal";
+import { QaScorecards } from "@/components/dashboard/QaScorecards";
 
 export default function Dashboard() {
   const { stats, calls, loading: callsLoading } = useCalls();
@@ -256,6 +257,9 @@ export default function Dashboard() {
                 <p className="text-slate-500 text-base">Here's what's happening with your agents today.</p>
               </div>
               <div className="flex gap-3">
+                <Button variant="outline" onClick={() => navigate('/dashboard/analytics')} className="border-slate-200">
+                  <BarChart3 className="mr-2 h-4 w-4" /> Analytics
+                </Button>
                 <Button onClick={() => navigate('/bots/create')} className="bg-blue-600 hover:bg-blue-700 shadow-sm transition-all hover:shadow" data-tour="create-agent-button">
                   <Bot className="mr-2 h-4 w-4" /> Create Agent
                 </Button>
@@ -662,6 +666,9 @@ export default function Dashboard() {
                 </CardContent>
               </Card>
             </div>
+
+            {/* QA Scorecards */}
+            <QaScorecards bots={bots} />
           </div>
         </FeatureGate>
         <CreditsUsageModal
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { Mail, Plus, Trash2, Loader2, CheckCircle2, FileText, Edit2, Star, Sparkles, Send, PenTool, Lock, Eye, EyeOff, Monitor, Code2, Palette, History, XCircle, Clock, Maximize2, Minimize2, Play } from "lucide-react";
+import { useSearchParams } from "react-router-dom";
+import { Mail, Plus, Trash2, Loader2, CheckCircle2, FileText, Edit2, Star, Sparkles, Send, PenTool, Lock, Eye, EyeOff, Monitor, Code2, Palette, History, XCircle, Clock, Maximize2, Minimize2, Play, PlugZap, Settings2, ShieldCheck, AlertTriangle, MousePointerClick } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,6 +9,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
@@ -16,21 +18,23 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import { useEmailTemplates, type EmailTemplate } from "@/hooks/useEmailTemplates";
 import { useAIEmail } from "@/hooks/useAIEmail";
-import { useEmails } from "@/hooks/useEmails";
+import { useEmails, USER_EMAIL_COLUMNS, type UserEmail } from "@/hooks/useEmails";
+import { useMailboxSettings, type OAuthProviderOption } from "@/hooks/useMailboxSettings";
 import { useSendEmail } from "@/hooks/useSendEmail";
 import { useEmailLogs } from "@/hooks/useEmailLogs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { convertToHtmlEmail, DESIGN_STYLES, ACCENT_COLORS, type EmailDesignStyle } from "@/lib/htmlEmail";
 import { getAvailablePlaceholders } from "@/lib/emailPlaceholders";
-
-interface EmailAddress {
-  id: string;
-  email: string;
-  name?: string | null;
-  smtp_password?: string | null;
-  is_primary: boolean;
-  is_verified?: boolean;
-  created_at?: string;
+import { EmailAutomationRules } from "@/components/email/EmailAutomationRules";
+import { EmailEngagementStats } from "@/components/email/EmailEngagementStats";
+import { MailboxSettingsDialog } from "@/components/email/MailboxSettingsDialog";
+import { SmtpSettingsFields } from "@/components/email/SmtpSettingsFields";
+import { EMPTY_SMTP_SETTINGS, type SmtpSettingsDraft } from "@/lib/smtpSettings";
+
+// Value for a datetime-local input, in the browser's time zone
+function toDateTimeLocal(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
 }
 
 export default function Email() {
@@ -39,9 +43,22 @@ export default function Email() {
   const [emailName, setEmailName] = useState("");
   const [smtpPassword, setSmtpPassword] = useState("");
   const [showSmtpPassword, setShowSmtpPassword] = useState(false);
-  const [emails, setEmails] = useState<EmailAddress[]>([]);
+  const [smtpSettings, setSmtpSettings] = useState<SmtpSettingsDraft>(EMPTY_SMTP_SETTINGS);
+  const [emails, setEmails] = useState<UserEmail[]>([]);
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
+  const [editingMailbox, setEditingMailbox] = useState<UserEmail | null>(null);
+  const [testingMailboxId, setTestingMailboxId] = useState<string | null>(null);
+  const [oauthProviders, setOauthProviders] = useState<OAuthProviderOption[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    saving,
+    testing: testingSettings,
+    createMailbox,
+    testSettings,
+    testMailbox,
+    getOAuthProviders,
+    connectOAuth,
+  } = useMailboxSettings();
   
   // Template management
   const {
@@ -52,10 +69,10 @@ export default function Email() {
     deleteTemplate,
   } = useEmailTemplates();
   const { generateTemplate, generateEmail, generating: aiGenerating } = useAIEmail();
-  const { emails: userEmails, loading: userEmailsLoading } = useEmails();
-  const { sendEmail, sending: emailSending } = useSendEmail();
-  const { logs: emailLogs, loading: emailLogsLoading } = useEmailLogs(100);
-  const [emailLogsFilter, setEmailLogsFilter] = useState<"all" | "sent" | "failed" | "pending">("all");
+  const { emails: userEmails, loading: userEmailsLoading, refetch: refetchUserEmails } = useEmails();
+  const { sendEmail, cancelEmail, sending: emailSending } = useSendEmail();
+  const { logs: emailLogs, loading: emailLogsLoading, refresh: refreshEmailLogs } = useEmailLogs(100);
+  const [emailLogsFilter, setEmailLogsFilter] = useState<"all" | "sent" | "opened" | "clicked" | "bounced" | "failed" | "pending">("all");
   const [isVideoExpanded, setIsVideoExpanded] = useState(false);
   const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<EmailTemplate | null>(null);
@@ -91,6 +108,9 @@ export default function Email() {
     designStyle: "modern" as EmailDesignStyle,
     senderCompanyName: "",
   });
+  const [sendLater, setSendLater] = useState(false);
+  const [sendAt, setSendAt] = useState("");
+  const [trackEngagement, setTrackEngagement] = useState(false);
   const [composeAiSettings, setComposeAiSettings] = useState({
     emailType: "follow-up" as "follow-up" | "thank-you" | "appointment" | "custom",
     tone: "professional" as "professional" | "friendly" | "casual" | "formal",
@@ -105,7 +125,7 @@ export default function Email() {
       try {
         const { data, error } = await supabase
           .from("user_emails")
-          .select("*")
+          .select(USER_EMAIL_COLUMNS)
           .eq("user_id", user.id)
           .order("is_primary", { ascending: false })
           .order("created_at", { ascending: false });
@@ -119,9 +139,8 @@ export default function Email() {
           }
         } else if (data && data.length > 0) {
           // Filter out primary emails and only show emails with SMTP configured
-          const smtpEmails = data.filter(
-            (e) => !e.is_primary && e.smtp_password && e.smtp_password.trim() !== ""
-          );
+          // Mailboxes without a password are listed too, so they can be set up again
+          const smtpEmails = data.filter((e) => !e.is_primary);
           setEmails(smtpEmails);
         } else {
           // No emails in database, initialize with user's email if available
@@ -136,10 +155,10 @@ export default function Email() {
                 is_primary: true,
                 is_verified: false,
               })
-              .select()
+              .select(USER_EMAIL_COLUMNS)
               .single();
 
-            if (insertedData && !insertedData.is_primary && insertedData.smtp_password) {
+            if (insertedData && !insertedData.is_primary && insertedData.smtp_configured) {
               setEmails([insertedData]);
             }
           }
@@ -161,11 +180,42 @@ export default function Email() {
     fetchEmails();
   }, [user]);
 
+  // Sign-in options for connecting Gmail / Microsoft 365 without an app password
+  useEffect(() => {
+    if (!user) return;
+    getOAuthProviders().then((providers) => setOauthProviders(providers.filter((p) => p.configured)));
+  }, [user, getOAuthProviders]);
+
+  // Result of a provider sign-in, passed back by the backend in the URL
+  useEffect(() => {
+    const connected = searchParams.get("mailbox_connected");
+    const failed = searchParams.get("mailbox_error");
+    if (!connected && !failed) return;
+
+    if (connected) {
+      toast({
+        title: "Email Connected",
+        description: `${connected} is connected and ready to send`,
+      });
+    } else {
+      toast({
+        title: "Connection Failed",
+        description: failed,
+        variant: "destructive",
+      });
+    }
+
+    const next = new URLSearchParams(searchParams);
+    next.delete("mailbox_connected");
+    next.delete("mailbox_error");
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
   // Initialize compose form with first SMTP email
   useEffect(() => {
     if (userEmails.length > 0 && !composeForm.fromEmail) {
       // Only use emails with SMTP password configured
-      const smtpEmail = userEmails.find((e) => e.smtp_password && !e.is_primary) || userEmails.find((e) => e.smtp_password);
+      const smtpEmail = userEmails.find((e) => e.smtp_configured && !e.is_primary) || userEmails.find((e) => e.smtp_configured);
       setComposeForm((prev) => ({
         ...prev,
         fromEmail: smtpEmail?.email || "",
@@ -214,60 +264,51 @@ export default function Email() {
       return;
     }
 
-    setSaving(true);
-    try {
-      const { data, error } = await supabase
-        .from("user_emails")
-        .insert({
-          user_id: user.id,
-          email: email.trim(),
-          name: emailName.trim() || null,
-          smtp_password: smtpPassword.trim(),
-          is_primary: false,
-          is_verified: false,
-        })
-        .select()
-        .single();
+    const mailbox = await createMailbox({
+      email,
+      name: emailName,
+      password: smtpPassword,
+      settings: smtpSettings,
+    });
 
-      if (error) {
-        if (error.code === "23505") { // Unique constraint violation
-          toast({
-            title: "Duplicate Email",
-            description: "This email address is already added",
-            variant: "destructive",
-          });
-        } else {
-          throw error;
-        }
-        return;
-      }
+    if (mailbox) {
+      // The password only lives on the server from here on
+      setSmtpPassword("");
+      setShowSmtpPassword(false);
+      setEmails((prev) => [...prev, mailbox]);
+      setEmail("");
+      setEmailName("");
+      setSmtpSettings(EMPTY_SMTP_SETTINGS);
+      refetchUserEmails();
+    }
+  };
 
-      if (data) {
-        // Only add to list if it has SMTP password and is not primary
-        if (!data.is_primary && data.smtp_password) {
-          setEmails((prev) => [...prev, data]);
-        }
-        setEmail("");
-        setEmailName("");
-        setSmtpPassword("");
-        setShowSmtpPassword(false);
-        toast({
-          title: "Email Added",
-          description: "Email address has been added successfully",
-        });
-      }
-    } catch (error: any) {
-      // Removed console.error for security
-      toast({
-        title: "Error",
-        description: error.message || "Failed to add email address",
-        variant: "destructive",
-      });
-    } finally {
-      setSaving(false);
+  const handleTestNewEmail = () => {
+    testSettings({
+      email,
+      name: emailName,
+      password: smtpPassword,
+      settings: smtpSettings,
+    });
+  };
+
+  const handleTestMailbox = async (mailboxId: string) => {
+    setTestingMailboxId(mailboxId);
+    const verifiedAt = await testMailbox(mailboxId);
+    setTestingMailboxId(null);
+
+    if (verifiedAt) {
+      setEmails((prev) =>
+        prev.map((e) => (e.id === mailboxId ? { ...e, is_verified: true, smtp_verified_at: verifiedAt } : e))
+      );
     }
   };
 
+  const handleMailboxSaved = (mailbox: UserEmail) => {
+    setEmails((prev) => prev.map((e) => (e.id === mailbox.id ? mailbox : e)));
+    refetchUserEmails();
+  };
+
   const handleDelete = async (emailId: string, isPrimary: boolean) => {
     if (!user) return;
 
@@ -458,6 +499,7 @@ export default function Email() {
               <TabsTrigger value="addresses">Email Addresses</TabsTrigger>
               <TabsTrigger value="templates">Email Templates</TabsTrigger>
               <TabsTrigger value="compose">Compose Email</TabsTrigger>
+              <TabsTrigger value="automations">Automations</TabsTrigger>
               <TabsTrigger value="logs">Email Logs</TabsTrigger>
             </TabsList>
 
@@ -555,6 +597,29 @@ export default function Email() {
                   />
                 </div>
 
+                {oauthProviders.length > 0 && (
+                  <>
+                    <div className="grid gap-2">
+                      {oauthProviders.map((provider) => (
+                        <Button
+                          key={provider.id}
+                          variant="outline"
+                          onClick={() => connectOAuth(provider.id, emailName)}
+                          className="w-full"
+                        >
+                          <ShieldCheck className="mr-2 h-4 w-4" />
+                          Sign in with {provider.label}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <div className="h-px flex-1 bg-border" />
+                      or use an SMTP password
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                  </>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="email_address">
                     Email Address <span className="text-destructive">*</span>
@@ -581,6 +646,7 @@ export default function Email() {
                       value={smtpPassword}
                       onChange={(e) => setSmtpPassword(e.target.value)}
                       className="pl-9 pr-10"
+                      autoComplete="new-password"
                     />
                     <button
                       type="button"
@@ -591,13 +657,34 @@ export default function Email() {
                     </button>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Use an App Password if your provider requires it (e.g., Gmail App Password)
+                    Use an App Password if your provider requires it (e.g., Gmail App Password). It's stored encrypted and can't be viewed again.
                   </p>
                 </div>
 
+                <SmtpSettingsFields
+                  idPrefix="new_email"
+                  email={email}
+                  value={smtpSettings}
+                  onChange={setSmtpSettings}
+                />
+
+                <Button
+                  variant="outline"
+                  onClick={handleTestNewEmail}
+                  disabled={!email.trim() || !smtpPassword.trim() || testingSettings || saving}
+                  className="w-full"
+                >
+                  {testingSettings ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <PlugZap className="mr-2 h-4 w-4" />
+                  )}
+                  Test Connection
+                </Button>
+
                 <Button
                   onClick={handleAddEmail}
-                  disabled={!email.trim() || !smtpPassword.trim() || saving}
+                  disabled={!email.trim() || !smtpPassword.trim() || saving || testingSettings}
                   className="w-full"
                 >
                   {saving ? (
@@ -647,11 +734,32 @@ export default function Email() {
                                   <span className="font-semibold">
                                     {emailItem.name || emailItem.email}
                                   </span>
-                                  {emailItem.smtp_password && (
+                                  {emailItem.auth_type === "oauth" ? (
+                                    <Badge variant="outline" className="text-xs gap-1">
+                                      <ShieldCheck className="h-3 w-3" />
+                                      {emailItem.oauth_provider === "microsoft" ? "Microsoft 365" : "Google"}
+                                    </Badge>
+                                  ) : emailItem.smtp_configured ? (
                                     <Badge variant="outline" className="text-xs gap-1">
                                       <Lock className="h-3 w-3" />
                                       SMTP
                                     </Badge>
+                                  ) : (
+                                    <Badge variant="outline" className="text-xs gap-1 text-muted-foreground">
+                                      <Lock className="h-3 w-3" />
+                                      No password
+                                    </Badge>
+                                  )}
+                                  {emailItem.oauth_error && emailItem.oauth_provider && (
+                                    <Badge
+                                      variant="destructive"
+                                      className="text-xs gap-1 cursor-pointer"
+                                      title={emailItem.oauth_error}
+                                      onClick={() => emailItem.oauth_provider && connectOAuth(emailItem.oauth_provider, emailItem.name || undefined)}
+                                    >
+                                      <AlertTriangle className="h-3 w-3" />
+                                      Reconnect
+                                    </Badge>
                                   )}
                                   {emailItem.is_verified && (
                                     <Badge variant="outline" className="text-xs gap-1">
@@ -663,8 +771,36 @@ export default function Email() {
                                 <div className="text-sm text-muted-foreground">
                                   {emailItem.email}
                                 </div>
+                                <div className="text-xs text-muted-foreground">
+                                  {emailItem.auth_type === "oauth"
+                                    ? "Sends through the provider's server"
+                                    : `${emailItem.smtp_host || "Default SMTP server"}${emailItem.smtp_port ? `:${emailItem.smtp_port}` : ""}`}
+                                  {emailItem.smtp_verified_at &&
+                                    ` · Tested ${new Date(emailItem.smtp_verified_at).toLocaleDateString()}`}
+                                </div>
                               </div>
                               <div className="flex items-center gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleTestMailbox(emailItem.id)}
+                                  disabled={testingMailboxId !== null}
+                                  title="Test connection"
+                                >
+                                  {testingMailboxId === emailItem.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <PlugZap className="h-4 w-4" />
+                                  )}
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setEditingMailbox(emailItem)}
+                                  title="SMTP settings"
+                                >
+                                  <Settings2 className="h-4 w-4" />
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -857,7 +993,7 @@ export default function Email() {
                           </SelectTrigger>
                           <SelectContent>
                             {userEmails
-                              .filter((email) => email.smtp_password && !email.is_primary)
+                              .filter((email) => email.smtp_configured && !email.is_primary)
                               .map((email) => (
                                 <SelectItem key={email.id} value={email.email}>
                                   {email.name || email.email}
@@ -1137,55 +1273,27 @@ export default function Email() {
                     )}
                   </div>
 
-                  <div className="flex justify-end gap-2 pt-4 border-t">
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        const smtpEmail = userEmails.find((e) => e.smtp_password && !e.is_primary) || userEmails.find((e) => e.smtp_password);
-                        setComposeForm({
-                          fromEmail: smtpEmail?.email || "",
-                          toEmail: "",
-                          subject: "",
-                          body: "",
-                          contactName: "",
-                          phoneNumber: "",
-                          companyName: "",
-                          accentColor: "#4F46E5",
-                          designStyle: "modern",
-                          senderCompanyName: "",
-                        });
-                        setComposePreviewMode(false);
-                      }}
-                    >
-                      Clear
-                    </Button>
-                    <Button
-                      onClick={async () => {
-                        if (!composeForm.fromEmail || !composeForm.toEmail || !composeForm.subject || !composeForm.body) {
-                          toast({
-                            title: "Validation Error",
-                            description: "Please fill in all required fields",
-                            variant: "destructive",
-                          });
-                          return;
-                        }
-
-                        // Get the SMTP password for the selected from email
-                        const selectedEmail = userEmails.find((e) => e.email === composeForm.fromEmail);
-                        const result = await sendEmail({
-                          fromEmail: composeForm.fromEmail,
-                          toEmail: composeForm.toEmail,
-                          toPhoneNumber: composeForm.phoneNumber || undefined,
-                          subject: composeForm.subject,
-                          body: composeForm.body,
-                          smtpPassword: selectedEmail?.smtp_password || undefined,
-                          designStyle: composeForm.designStyle,
-                          accentColor: composeForm.accentColor,
-                          companyName: composeForm.senderCompanyName,
-                        });
-
-                        if (result.success) {
-                          const smtpEmail = userEmails.find((e) => e.smtp_password && !e.is_primary) || userEmails.find((e) => e.smtp_password);
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-4 border-t">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Switch id="compose_track" checked={trackEngagement} onCheckedChange={setTrackEngagement} />
+                      <Label htmlFor="compose_track" className="text-sm">Track opens and clicks</Label>
+                      <Switch id="compose_send_later" checked={sendLater} onCheckedChange={setSendLater} />
+                      <Label htmlFor="compose_send_later" className="text-sm">Send later</Label>
+                      {sendLater && (
+                        <Input
+                          type="datetime-local"
+                          className="w-56"
+                          value={sendAt}
+                          min={toDateTimeLocal(new Date())}
+                          onChange={(e) => setSendAt(e.target.value)}
+                        />
+                      )}
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          const smtpEmail = userEmails.find((e) => e.smtp_configured && !e.is_primary) || userEmails.find((e) => e.smtp_configured);
                           setComposeForm({
                             fromEmail: smtpEmail?.email || "",
                             toEmail: "",
@@ -1199,27 +1307,95 @@ export default function Email() {
                             senderCompanyName: "",
                           });
                           setComposePreviewMode(false);
-                        }
-                      }}
-                      disabled={emailSending || !composeForm.fromEmail || !composeForm.toEmail || !composeForm.subject || !composeForm.body}
-                    >
-                      {emailSending ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Sending...
-                        </>
-                      ) : (
-                        <>
-                          <Send className="mr-2 h-4 w-4" />
-                          Send Email
-                        </>
-                      )}
-                    </Button>
+                        }}
+                      >
+                        Clear
+                      </Button>
+                      <Button
+                        onClick={async () => {
+                          if (!composeForm.fromEmail || !composeForm.toEmail || !composeForm.subject || !composeForm.body) {
+                            toast({
+                              title: "Validation Error",
+                              description: "Please fill in all required fields",
+                              variant: "destructive",
+                            });
+                            return;
+                          }
+  
+                          if (sendLater && (!sendAt || new Date(sendAt).getTime() <= Date.now())) {
+                            toast({
+                              title: "Validation Error",
+                              description: "Pick a send time in the future",
+                              variant: "destructive",
+                            });
+                            return;
+                          }
+  
+                          const result = await sendEmail({
+                            fromEmail: composeForm.fromEmail,
+                            toEmail: composeForm.toEmail,
+                            toPhoneNumber: composeForm.phoneNumber || undefined,
+                            subject: composeForm.subject,
+                            body: composeForm.body,
+                            sendAt: sendLater ? new Date(sendAt).toISOString() : undefined,
+                            trackEngagement,
+                            designStyle: composeForm.designStyle,
+                            accentColor: composeForm.accentColor,
+                            companyName: composeForm.senderCompanyName,
+                          });
+  
+                          if (result.success) {
+                            const smtpEmail = userEmails.find((e) => e.smtp_configured && !e.is_primary) || userEmails.find((e) => e.smtp_configured);
+                            setComposeForm({
+                              fromEmail: smtpEmail?.email || "",
+                              toEmail: "",
+                              subject: "",
+                              body: "",
+                              contactName: "",
+                              phoneNumber: "",
+                              companyName: "",
+                              accentColor: "#4F46E5",
+                              designStyle: "modern",
+                              senderCompanyName: "",
+                            });
+                            setComposePreviewMode(false);
+                            setSendLater(false);
+                            setSendAt("");
+                          }
+                        }}
+                        disabled={emailSending || !composeForm.fromEmail || !composeForm.toEmail || !composeForm.subject || !composeForm.body || (sendLater && !sendAt)}
+                      >
+                        {emailSending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            {sendLater ? "Scheduling..." : "Sending..."}
+                          </>
+                        ) : sendLater ? (
+                          <>
+                            <Clock className="mr-2 h-4 w-4" />
+                            Schedule Email
+                          </>
+                        ) : (
+                          <>
+                            <Send className="mr-2 h-4 w-4" />
+                            Send Email
+                          </>
+                        )}
+                      </Button>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
             </TabsContent>
 
+            {/* Automations Tab */}
+            <TabsContent value="automations">
+              <EmailAutomationRules
+                templates={templates}
+                hasSenderMailbox={userEmails.some((e) => e.smtp_configured)}
+              />
+            </TabsContent>
+
             {/* Email Logs Tab */}
             <TabsContent value="logs" className="space-y-6">
               <div className="space-y-2">
@@ -1232,6 +1408,8 @@ export default function Email() {
                 </p>
               </div>
 
+              <EmailEngagementStats />
+
               <Card>
                 <CardHeader>
                   <div className="flex items-center justify-between">
@@ -1249,6 +1427,9 @@ export default function Email() {
                         <SelectContent>
                           <SelectItem value="all">All Status</SelectItem>
                           <SelectItem value="sent">Sent</SelectItem>
+                          <SelectItem value="opened">Opened</SelectItem>
+                          <SelectItem value="clicked">Clicked</SelectItem>
+                          <SelectItem value="bounced">Bounced</SelectItem>
                           <SelectItem value="failed">Failed</SelectItem>
                           <SelectItem value="pending">Pending</SelectItem>
                         </SelectContent>
@@ -1281,9 +1462,9 @@ export default function Email() {
                                     <div className="flex items-center gap-2 flex-wrap">
                                       <Badge
                                         variant={
-                                          log.status === "sent"
+                                          log.status === "sent" || log.status === "opened" || log.status === "clicked"
                                             ? "default"
-                                            : log.status === "failed"
+                                            : log.status === "failed" || log.status === "bounced"
                                             ? "destructive"
                                             : "secondary"
                                         }
@@ -1292,9 +1473,18 @@ export default function Email() {
                                         {log.status === "sent" && (
                                           <CheckCircle2 className="h-3 w-3" />
                                         )}
+                                        {log.status === "opened" && (
+                                          <Eye className="h-3 w-3" />
+                                        )}
+                                        {log.status === "clicked" && (
+                                          <MousePointerClick className="h-3 w-3" />
+                                        )}
                                         {log.status === "failed" && (
                                           <XCircle className="h-3 w-3" />
                                         )}
+                                        {log.status === "bounced" && (
+                                          <AlertTriangle className="h-3 w-3" />
+                                        )}
                                         {log.status === "pending" && (
                                           <Clock className="h-3 w-3" />
                                         )}
@@ -1305,6 +1495,35 @@ export default function Email() {
                                           {new Date(log.sent_at).toLocaleString()}
                                         </span>
                                       )}
+                                      {log.tracking_enabled && log.sent_at && (
+                                        <span className="text-xs text-muted-foreground">
+                                          {log.opened_at
+                                            ? `Opened ${log.open_count}x, clicked ${log.click_count}x`
+                                            : "Not opened yet"}
+                                        </span>
+                                      )}
+                                      {log.status === "pending" && log.send_at && new Date(log.send_at).getTime() > Date.now() && (
+                                        <>
+                                          <span className="text-xs text-muted-foreground">
+                                            Scheduled for {new Date(log.send_at).toLocaleString()}
+                                          </span>
+                                          <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-6 px-2 text-xs"
+                                            onClick={async () => {
+                                              if (await cancelEmail(log.id)) refreshEmailLogs();
+                                            }}
+                                          >
+                                            Cancel
+                                          </Button>
+                                        </>
+                                      )}
+                                      {log.status === "pending" && log.attempts > 0 && log.error_message && (
+                                        <span className="text-xs text-amber-600">
+                                          Retrying after: {log.error_message}
+                                        </span>
+                                      )}
                                     </div>
                                     <div>
                                       <Label className="text-xs text-muted-foreground">Subject</Label>
@@ -1326,12 +1545,24 @@ export default function Email() {
                                         <p className="text-sm mt-1">{log.to_phone_number}</p>
                                       </div>
                                     )}
+                                    {log.bounce_reason && (
+                                      <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/30">
+                                        <Label className="text-xs text-destructive font-semibold">Bounce Reason</Label>
+                                        <p className="text-sm text-destructive mt-1">{log.bounce_reason}</p>
+                                      </div>
+                                    )}
                                     {log.error_message && (
                                       <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/30">
                                         <Label className="text-xs text-destructive font-semibold">Error Message</Label>
                                         <p className="text-sm text-destructive mt-1">{log.error_message}</p>
                                       </div>
                                     )}
+                                    {log.credit_error && (
+                                      <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30">
+                                        <Label className="text-xs text-amber-600 font-semibold">Credits Not Deducted</Label>
+                                        <p className="text-sm text-amber-600 mt-1">{log.credit_error}</p>
+                                      </div>
+                                    )}
                                     {log.body && (
                                       <details className="mt-2">
                                         <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
@@ -1359,6 +1590,16 @@ export default function Email() {
             </TabsContent>
           </Tabs>
 
+          {/* Mailbox SMTP Settings Dialog */}
+          <MailboxSettingsDialog
+            open={editingMailbox !== null}
+            onOpenChange={(open) => {
+              if (!open) setEditingMailbox(null);
+            }}
+            mailbox={editingMailbox}
+            onSaved={handleMailboxSaved}
+          />
+
           {/* Full Preview Dialog */}
           <Dialog open={previewDialogOpen} onOpenChange={setPreviewDialogOpen}>
             <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden p-0">
@@ -0,0 +1,100 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, CalendarClock, Kanban, Loader2, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { FeatureGate } from "@/components/FeatureGate";
+import { LeadPipelineBoard } from "@/components/leads/LeadPipelineBoard";
+import { LeadDetailsDialog } from "@/components/leads/LeadDetailsDialog";
+import { usePageLeads } from "@/hooks/usePageLeads";
+import { isFollowUpOverdue } from "@/lib/leadPipeline";
+
+export default function LeadPipeline() {
+  const navigate = useNavigate();
+  const { leads, loading, moveLead, updateLeadDetails, fetchStageHistory } = usePageLeads();
+  const [search, setSearch] = useState("");
+  const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
+
+  const filteredLeads = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return leads;
+    return leads.filter((lead) =>
+      [lead.name, lead.email, lead.phone_number, lead.assigned_to]
+        .some((value) => value?.toLowerCase().includes(query)),
+    );
+  }, [leads, search]);
+
+  const overdueCount = useMemo(() => leads.filter((lead) => isFollowUpOverdue(lead)).length, [leads]);
+  const selectedLead = leads.find((lead) => lead.id === selectedLeadId) || null;
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <FeatureGate featureName="leads">
+          <div className="space-y-8 pb-8">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+              <div className="space-y-1">
+                <Button variant="ghost" size="sm" className="-ml-3 text-slate-500" onClick={() => navigate("/leads")}>
+                  <ArrowLeft className="mr-1 h-4 w-4" /> Leads
+                </Button>
+                <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Lead Pipeline</h1>
+                <p className="text-slate-500 text-base">Drag leads between stages as you work them</p>
+              </div>
+              <div className="relative w-full sm:w-72">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  placeholder="Search name, phone, email or owner"
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+
+            <Card className="border-slate-200 shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                  <Kanban className="h-5 w-5 text-blue-600" /> Pipeline
+                </CardTitle>
+                <CardDescription className="flex items-center gap-2">
+                  {leads.length} lead{leads.length === 1 ? "" : "s"}
+                  {overdueCount > 0 && (
+                    <span className="flex items-center gap-1 text-red-600">
+                      <CalendarClock className="h-3.5 w-3.5" /> {overdueCount} overdue follow-up{overdueCount === 1 ? "" : "s"}
+                    </span>
+                  )}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="flex justify-center py-16">
+                    <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+                  </div>
+                ) : (
+                  <LeadPipelineBoard
+                    leads={filteredLeads}
+                    onMove={moveLead}
+                    onSelect={(lead) => setSelectedLeadId(lead.id)}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <LeadDetailsDialog
+            key={selectedLeadId || "closed"}
+            lead={selectedLead}
+            onClose={() => setSelectedLeadId(null)}
+            onMove={moveLead}
+            onSave={updateLeadDetails}
+            fetchStageHistory={fetchStageHistory}
+          />
+        </FeatureGate>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   Phone,
   PhoneCall,
@@ -23,6 +24,9 @@ import {
   Sparkles,
   Download,
   Filter,
+  Kanban,
+  History,
+  Upload,
 } from "lucide-react";
 import {
   Card,
@@ -68,6 +72,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import type { Call } from "@/types/database";
 import type { PageLead } from "@/types/database";
 import { useEmails } from "@/hooks/useEmails";
@@ -75,7 +80,13 @@ import { useSendEmail } from "@/hooks/useSendEmail";
 import { useEmailTemplates } from "@/hooks/useEmailTemplates";
 import { useAIEmail } from "@/hooks/useAIEmail";
 import { useCallAnalysis } from "@/hooks/useCallAnalysis";
-import { useAutoCallAnalysis } from "@/hooks/useAutoCallAnalysis";
+import { formatCustomFieldValue, getCustomFieldDefinitions, getCustomFieldValues } from "@/lib/analysisFields";
+import { hasRecording } from "@/lib/callRecordings";
+import { RecordingLink } from "@/components/calls/RecordingLink";
+import { RecordingPlayer } from "@/components/calls/RecordingPlayer";
+import { DuplicateLeadsQueue } from "@/components/leads/DuplicateLeadsQueue";
+import { LeadTimelineDialog } from "@/components/leads/LeadTimelineDialog";
+import { LeadImportDialog } from "@/components/leads/LeadImportDialog";
 
 const statusConfig: Record<
   CallStatus,
@@ -185,12 +196,13 @@ const formatCallType = (callType: string | null | undefined) => {
 };
 
 export default function Leads() {
+  const navigate = useNavigate();
   // All hooks must be called at the top level, in the same order
   const {
     calls,
     loading: callsLoading,
   } = useCalls();
-  const { leads: pageLeads, loading: pageLeadsLoading } = usePageLeads();
+  const { leads: pageLeads, loading: pageLeadsLoading, refetch: refetchPageLeads } = usePageLeads();
   const { bots } = useBots();
   const { profile } = useProfile();
   const { emails, loading: emailsLoading } = useEmails();
@@ -202,12 +214,17 @@ export default function Leads() {
   // All useState hooks must be grouped together
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [selectedLeadStrength, setSelectedLeadStrength] = useState<string>("all");
+  const [customFieldFilter, setCustomFieldFilter] = useState<string>("none");
+  const [customFieldQuery, setCustomFieldQuery] = useState("");
   const [selectedCall, setSelectedCall] = useState<Call | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
+  const [timelineLead, setTimelineLead] = useState<PageLead | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [emailDialogOpen, setEmailDialogOpen] = useState(false);
   const [emailToSend, setEmailToSend] = useState<Call | PageLead | null>(null);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>("none");
+  const [trackEngagement, setTrackEngagement] = useState(false);
   const [emailForm, setEmailForm] = useState({
     fromEmail: "",
     toEmail: "",
@@ -215,9 +232,6 @@ export default function Leads() {
     body: "",
   });
 
-  // Auto-analyze calls when they complete - must be after ALL useState hooks
-  useAutoCallAnalysis();
-
   const userTimezone = profile?.timezone || "UTC";
   
   // Defensive checks to prevent crashes
@@ -239,17 +253,28 @@ export default function Leads() {
     return bot?.name || botId;
   };
 
+  // Custom analysis fields configured across all agents
+  const customFieldDefs = getCustomFieldDefinitions(safeBots);
+
+  // Case-insensitive "contains" match on the selected custom field
+  const matchesCustomFieldFilter = (values: Record<string, unknown>) => {
+    if (customFieldFilter === "none" || !customFieldQuery.trim()) return true;
+    return formatCustomFieldValue(values[customFieldFilter])
+      .toLowerCase()
+      .includes(customFieldQuery.trim().toLowerCase());
+  };
+
   // Filter calls where Lead_status is "Yes" or is_lead = true
   const leadCalls = safeCalls.filter(isLead);
   
-  // Filter leads by category
-  const filteredPageLeads = selectedCategory === "all" 
-    ? safePageLeads 
-    : safePageLeads.filter(lead => lead.call_type === selectedCategory);
+  // Filter leads by category and custom field
+  const filteredPageLeads = safePageLeads
+    .filter(lead => selectedCategory === "all" || lead.call_type === selectedCategory)
+    .filter(lead => matchesCustomFieldFilter(getCustomFieldValues(lead.extracted_data)));
   
-  const filteredCallLeads = selectedCategory === "all"
-    ? leadCalls
-    : leadCalls.filter(call => call.call_type === selectedCategory);
+  const filteredCallLeads = leadCalls
+    .filter(call => selectedCategory === "all" || call.call_type === selectedCategory)
+    .filter(call => matchesCustomFieldFilter(getCustomFieldValues(call.analysis)));
   
   // Calculate total leads count
   const totalLeadsCount = safePageLeads.length + leadCalls.length;
@@ -259,6 +284,12 @@ export default function Leads() {
     setDetailsOpen(true);
   };
 
+  // One CSV column per custom field, keyed by its label
+  const getCustomFieldColumns = (values: Record<string, unknown>) =>
+    Object.fromEntries(
+      customFieldDefs.map((field) => [field.label, formatCustomFieldValue(values[field.key])]),
+    );
+
     const handleExportPageLeads = () => {
     const exportData = filteredPageLeads.map((lead) => ({
       "Name": lead.name || "",
@@ -274,6 +305,7 @@ export default function Leads() {
       "Created At": lead.created_at
         ? formatInUserTimezone(lead.created_at, userTimezone, "MMM dd, yyyy HH:mm")
         : "",
+      ...getCustomFieldColumns(getCustomFieldValues(lead.extracted_data)),
     }));
 
     exportToCSV(exportData, `page-leads-${new Date().toISOString().split("T")[0]}`);
@@ -299,12 +331,13 @@ export default function Leads() {
           ? formatInUserTimezone(call.started_at, userTimezone, "MMM dd, yyyy HH:mm")
           : "",
         "Scheduled": formatScheduledAt(call.Scheduled_at, "MMM dd, yyyy 'at' h:mm a"),
-        "Recording URL": call.recording_url || "",
+        "Recording": hasRecording(call) ? "Yes" : "No",
         "Email": call.metadata?.email || call.metadata?.Email || call.extracted_customer_data?.email || "",
         "Company Name": call.metadata?.company_name || call.metadata?.Company_name || "",
         "Sentiment": call.sentiment || "",
         "Urgency": call.urgency_level || "",
         "Analyzed": call.analyzed ? "Yes" : "No",
+        ...getCustomFieldColumns(getCustomFieldValues(call.analysis)),
       };
     });
 
@@ -359,7 +392,7 @@ export default function Leads() {
     }
     
     // Set first SMTP email as default from email
-    const primaryEmail = safeEmails.find((e) => e.smtp_password) || safeEmails[0];
+    const primaryEmail = safeEmails.find((e) => e.smtp_configured) || safeEmails[0];
     
     // Format appointment date for display
     let formattedAppointmentDate = "";
@@ -556,6 +589,7 @@ Best regards`,
       ? emailToSend.phone_number || undefined
       : emailToSend ? (emailToSend.phone_number || undefined) : undefined;
     const callId = ('bot_id' in emailToSend) ? emailToSend.id : undefined;
+    const leadId = ('email' in emailToSend) ? emailToSend.id : undefined;
 
     const result = await sendEmail({
       fromEmail: emailForm.fromEmail,
@@ -564,6 +598,9 @@ Best regards`,
       subject: emailForm.subject,
       body: emailForm.body,
       callId: callId,
+      trackEngagement,
+      templateId: selectedTemplateId !== "none" ? selectedTemplateId : undefined,
+      leadId,
     });
 
     if (result.success) {
@@ -713,6 +750,14 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
               <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Leads</h1>
               <p className="text-slate-500 text-base">View and manage your leads from calls and landing pages</p>
             </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setImportOpen(true)} className="border-slate-200">
+                <Upload className="mr-2 h-4 w-4" /> Import
+              </Button>
+              <Button variant="outline" onClick={() => navigate("/leads/pipeline")} className="border-slate-200">
+                <Kanban className="mr-2 h-4 w-4" /> Pipeline
+              </Button>
+            </div>
           </div>
 
           {/* Stats Section */}
@@ -772,6 +817,31 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                   <SelectItem value="general_inquiry">General Inquiries</SelectItem>
                 </SelectContent>
               </Select>
+              {customFieldDefs.length > 0 && (
+                <>
+                  <Select value={customFieldFilter} onValueChange={setCustomFieldFilter}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="Custom Field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Any Custom Field</SelectItem>
+                      {customFieldDefs.map((field) => (
+                        <SelectItem key={field.key} value={field.key}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {customFieldFilter !== "none" && (
+                    <Input
+                      value={customFieldQuery}
+                      onChange={(e) => setCustomFieldQuery(e.target.value)}
+                      placeholder="Contains..."
+                      className="w-[180px]"
+                    />
+                  )}
+                </>
+              )}
             </div>
             {leadCalls.filter(call => 
               call.status === 'completed' && 
@@ -825,6 +895,8 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
             )}
           </div>
 
+          <DuplicateLeadsQueue onMerged={refetchPageLeads} />
+
           {/* Tabs for Page Leads and Call Leads */}
           <Tabs defaultValue="page-leads" className="space-y-6">
             <TabsList className="bg-slate-100 p-1 rounded-lg hidden">
@@ -883,6 +955,9 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                             <TableHead className="font-semibold text-slate-700">Category</TableHead>
                             <TableHead className="font-semibold text-slate-700">Address</TableHead>
                             <TableHead className="font-semibold text-slate-700">Bot Name</TableHead>
+                            {customFieldDefs.map((field) => (
+                              <TableHead key={field.key} className="font-semibold text-slate-700">{field.label}</TableHead>
+                            ))}
                             <TableHead className="font-semibold text-slate-700">Status</TableHead>
                             <TableHead className="font-semibold text-slate-700">Created At</TableHead>
                             <TableHead className="font-semibold text-slate-700"></TableHead>
@@ -917,6 +992,11 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                               <TableCell className="text-slate-600">
                                 {lead.bot_name || "-"}
                               </TableCell>
+                              {customFieldDefs.map((field) => (
+                                <TableCell key={field.key} className="text-slate-600">
+                                  {formatCustomFieldValue(getCustomFieldValues(lead.extracted_data)[field.key]) || "-"}
+                                </TableCell>
+                              ))}
                               <TableCell>
                                 <Badge variant="outline" className="bg-slate-50 text-slate-700 border-slate-200">
                                   {lead.status || "new"}
@@ -932,15 +1012,26 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                                   : "-"}
                               </TableCell>
                               <TableCell>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  onClick={(e) => openEmailDialog(lead, e)}
-                                  title="Send Email"
-                                  className="h-8 w-8 text-slate-400 hover:text-blue-600 hover:bg-blue-50"
-                                >
-                                  <Mail className="h-4 w-4" />
-                                </Button>
+                                <div className="flex items-center">
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setTimelineLead(lead)}
+                                    title="Call Timeline"
+                                    className="h-8 w-8 text-slate-400 hover:text-blue-600 hover:bg-blue-50"
+                                  >
+                                    <History className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={(e) => openEmailDialog(lead, e)}
+                                    title="Send Email"
+                                    className="h-8 w-8 text-slate-400 hover:text-blue-600 hover:bg-blue-50"
+                                  >
+                                    <Mail className="h-4 w-4" />
+                                  </Button>
+                                </div>
                               </TableCell>
                             </TableRow>
                           ))}
@@ -1003,6 +1094,9 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                             <TableHead className="font-semibold text-slate-700">Status</TableHead>
                             <TableHead className="font-semibold text-slate-700">Duration</TableHead>
                             <TableHead className="font-semibold text-slate-700">Bot</TableHead>
+                            {customFieldDefs.map((field) => (
+                              <TableHead key={field.key} className="font-semibold text-slate-700">{field.label}</TableHead>
+                            ))}
                             <TableHead className="font-semibold text-slate-700">Started At</TableHead>
                             <TableHead className="font-semibold text-slate-700">Scheduled</TableHead>
                             <TableHead className="font-semibold text-slate-700">Recording</TableHead>
@@ -1056,6 +1150,11 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                                 <TableCell className="text-slate-600">
                                   {getBotName(call.bot_id)}
                                 </TableCell>
+                                {customFieldDefs.map((field) => (
+                                  <TableCell key={field.key} className="text-slate-600">
+                                    {formatCustomFieldValue(getCustomFieldValues(call.analysis)[field.key]) || "-"}
+                                  </TableCell>
+                                ))}
                                 <TableCell className="text-sm text-slate-600">
                                   {call.started_at
                                     ? formatInUserTimezone(
@@ -1069,18 +1168,11 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                                   {formatScheduledAt(call.Scheduled_at, "MMM dd, yyyy 'at' h:mm a")}
                                 </TableCell>
                                 <TableCell className="text-xs max-w-[200px]">
-                                  {call.recording_url ? (
-                                    <a
-                                      href={call.recording_url}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-blue-600 hover:underline truncate block flex items-center gap-1"
-                                      onClick={(e) => e.stopPropagation()}
-                                      title={call.recording_url}
-                                    >
+                                  {hasRecording(call) ? (
+                                    <RecordingLink callId={call.id} className="text-blue-600">
                                       <LinkIcon className="h-3 w-3" />
                                       Recording
-                                    </a>
+                                    </RecordingLink>
                                   ) : "-"}
                                 </TableCell>
                                 <TableCell onClick={(e) => e.stopPropagation()}>
@@ -1266,39 +1358,15 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                           </div>
                         )}
                         
-                        {selectedCall.recording_url && (
+                        {hasRecording(selectedCall) && (
                           <div className="space-y-1 col-span-full">
                             <Label className="text-xs text-slate-500 flex items-center gap-1 uppercase tracking-wider font-semibold">
                               <LinkIcon className="h-3 w-3" />
-                              Recording URL
+                              Recording
                             </Label>
-                            <div className="flex items-center gap-2">
-                              <a
-                                href={selectedCall.recording_url}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-sm text-blue-600 hover:underline truncate"
-                              >
-                                {selectedCall.recording_url}
-                              </a>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="h-6 w-6 text-slate-400 hover:text-blue-600"
-                                onClick={() =>
-                                  copyToClipboard(
-                                    selectedCall.recording_url || "",
-                                    "recording",
-                                  )
-                                }
-                              >
-                                {copiedField === "recording" ? (
-                                  <Check className="h-3 w-3 text-green-600" />
-                                ) : (
-                                  <Copy className="h-3 w-3" />
-                                )}
-                              </Button>
-                            </div>
+                            <RecordingLink callId={selectedCall.id} className="text-sm text-blue-600">
+                              Open recording in new tab
+                            </RecordingLink>
                           </div>
                         )}
                       </div>
@@ -1375,21 +1443,14 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                         </div>
                       )}
 
-                      {selectedCall.recording_url && (
+                      {hasRecording(selectedCall) && (
                         <div>
                           <Label className="text-sm font-medium flex items-center gap-2 mb-2 text-slate-900">
                             <Phone className="h-4 w-4 text-blue-600" />
                             Recording
                           </Label>
                           <div className="mt-2 space-y-2">
-                            <audio
-                              controls
-                              className="w-full"
-                              src={selectedCall.recording_url}
-                              preload="metadata"
-                            >
-                              Your browser does not support the audio element.
-                            </audio>
+                            <RecordingPlayer call={selectedCall} />
                           </div>
                         </div>
                       )}
@@ -1419,6 +1480,16 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
           </DialogContent>
           </Dialog>
 
+          {/* Lead Call Timeline Dialog */}
+          <LeadTimelineDialog
+            lead={timelineLead}
+            timezone={userTimezone}
+            onClose={() => setTimelineLead(null)}
+          />
+
+          {/* Lead Import Dialog */}
+          <LeadImportDialog open={importOpen} onOpenChange={setImportOpen} onImported={refetchPageLeads} />
+
           {/* Send Email Dialog */}
           <Dialog open={emailDialogOpen} onOpenChange={setEmailDialogOpen}>
           <DialogContent className="max-w-2xl bg-white">
@@ -1607,6 +1678,11 @@ ${analysis.appointment.appointment_type ? `- Type: ${analysis.appointment.appoin
                   />
                 </div>
 
+                <div className="flex items-center gap-3">
+                  <Switch id="lead_email_track" checked={trackEngagement} onCheckedChange={setTrackEngagement} />
+                  <Label htmlFor="lead_email_track" className="text-sm text-slate-700">Track opens and clicks</Label>
+                </div>
+
                 <div className="flex justify-end gap-2 pt-4">
                   <Button
                     variant="outline"
@@ -29,6 +29,8 @@ import {
   Briefcase,
   Contact,
   Map,
+  Archive,
+  ShieldCheck,
 } from "lucide-react";
 import {
   Card,
@@ -92,8 +94,26 @@ import {
   TRIAL_CREDITS_AMOUNT 
 } from "@/lib/trialCredits";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { usePermissions } from "@/hooks/usePermissions";
+import { LeadScoringSettingsCard } from "@/components/leads/LeadScoringSettingsCard";
+import { getRedactionSettings, PERMISSION_VIEW_UNREDACTED, REDACTION_CATEGORY_OPTIONS } from "@/lib/piiRedaction";
+import type { PiiRedactionCategory, PiiRedactionSettings } from "@/types/database";
 import { AlertCircle } from "lucide-react";
 
+// Retention choices for call recordings and transcripts; "forever" stores null
+const RETENTION_OPTIONS = [
+  { value: "forever", label: "Keep forever" },
+  { value: "30", label: "30 days" },
+  { value: "60", label: "60 days" },
+  { value: "90", label: "90 days" },
+  { value: "180", label: "180 days" },
+  { value: "365", label: "1 year" },
+  { value: "730", label: "2 years" },
+];
+
 export default function Settings() {
   const { profile, loading, updateProfile, refetch, deactivateAccount, reactivateAccount, requestDeactivation, verifyDeactivationCode } = useProfile();
   const { user, signOut } = useAuth();
@@ -153,6 +173,15 @@ export default function Settings() {
   const [contactInfo, setContactInfo] = useState("");
   const [isSavingCompany, setIsSavingCompany] = useState(false);
 
+  // Data retention
+  const [retentionDays, setRetentionDays] = useState("forever");
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+
+  // PII redaction
+  const { hasPermission } = usePermissions();
+  const [redactionSettings, setRedactionSettings] = useState<PiiRedactionSettings>(getRedactionSettings(null));
+  const [isSavingRedaction, setIsSavingRedaction] = useState(false);
+
   // Set timezone from profile when it loads
   useEffect(() => {
     if (profile) {
@@ -162,6 +191,8 @@ export default function Settings() {
       setCompanyAddress(profile.company_address || "");
       setPosition(profile.position || "");
       setContactInfo(profile.contact_info || "");
+      setRetentionDays(profile.recording_retention_days ? String(profile.recording_retention_days) : "forever");
+      setRedactionSettings(getRedactionSettings(profile.pii_redaction_settings));
     }
   }, [profile]);
 
@@ -215,6 +246,65 @@ export default function Settings() {
     }
   };
 
+  // Save Data Retention
+  const savedRetentionDays = profile?.recording_retention_days ? String(profile.recording_retention_days) : "forever";
+
+  const handleSaveRetention = async () => {
+    setIsSavingRetention(true);
+    const result = await updateProfile({
+      recording_retention_days: retentionDays === "forever" ? null : parseInt(retentionDays),
+    });
+    setIsSavingRetention(false);
+
+    if (result) {
+      toast({
+        title: "Retention Updated",
+        description: retentionDays === "forever"
+          ? "Call recordings and transcripts will be kept."
+          : `Call recordings and transcripts older than ${retentionDays} days will be deleted.`,
+      });
+    }
+  };
+
+  // Save PII Redaction
+  const hasRedactionChanges =
+    JSON.stringify(redactionSettings) !== JSON.stringify(getRedactionSettings(profile?.pii_redaction_settings));
+
+  const toggleRedactionCategory = (category: PiiRedactionCategory, checked: boolean) => {
+    setRedactionSettings((prev) => ({
+      ...prev,
+      categories: checked
+        ? REDACTION_CATEGORY_OPTIONS.map((option) => option.value).filter(
+            (value) => value === category || prev.categories.includes(value),
+          )
+        : prev.categories.filter((value) => value !== category),
+    }));
+  };
+
+  const handleSaveRedaction = async () => {
+    if (redactionSettings.enabled && redactionSettings.categories.length === 0 && !redactionSettings.llm_entities) {
+      toast({
+        title: "Nothing to Redact",
+        description: "Select at least one type of information to redact.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSavingRedaction(true);
+    const result = await updateProfile({ pii_redaction_settings: redactionSettings });
+    setIsSavingRedaction(false);
+
+    if (result) {
+      toast({
+        title: "Redaction Updated",
+        description: redactionSettings.enabled
+          ? "New call transcripts will be redacted before they are stored or analyzed."
+          : "New call transcripts will be stored unredacted.",
+      });
+    }
+  };
+
   const hasCompanyChanges = () => {
     return (
       companyName !== (profile?.company_name || "") ||
@@ -2001,6 +2091,211 @@ export default function Settings() {
                   </CardContent>
                 </Card>
 
+                {/* Data Retention */}
+                <Card className="border-slate-200 shadow-sm">
+                  <CardHeader className="border-b border-slate-100 pb-4">
+                    <CardTitle className="text-xl font-semibold flex items-center gap-2">
+                      <Archive className="h-5 w-5 text-blue-600" />
+                      Data Retention
+                    </CardTitle>
+                    <CardDescription className="text-sm mt-1">
+                      Choose how long call recordings and transcripts are kept
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="pt-6 space-y-6">
+                    <div className="space-y-4">
+                      <Label htmlFor="retention" className="text-base font-bold">
+                        Delete recordings and transcripts after
+                      </Label>
+                      <Select
+                        value={retentionDays}
+                        onValueChange={setRetentionDays}
+                        disabled={isSavingRetention}
+                      >
+                        <SelectTrigger id="retention" className="w-full sm:w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RETENTION_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="p-5 rounded-xl bg-primary/5 border border-primary/20">
+                        <p className="text-sm text-muted-foreground leading-relaxed">
+                          Recordings are stored privately and only play through
+                          links that expire after a few minutes. Deletions are
+                          permanent and appear in your activity log; call
+                          details, analysis and leads are kept.
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between pt-5 border-t border-border/50">
+                      <div className="text-sm text-muted-foreground">
+                        {retentionDays !== savedRetentionDays && (
+                          <span className="text-warning font-semibold">
+                            ● Unsaved changes
+                          </span>
+                        )}
+                      </div>
+                      <Button
+                        onClick={handleSaveRetention}
+                        disabled={isSavingRetention || retentionDays === savedRetentionDays}
+                        variant="call"
+                        size="lg"
+                        className="gap-2"
+                      >
+                        {isSavingRetention ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Saving Changes...
+                          </>
+                        ) : (
+                          <>
+                            <Save className="h-4 w-4" />
+                            Save Changes
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* PII Redaction */}
+                <Card className="border-slate-200 shadow-sm">
+                  <CardHeader className="border-b border-slate-100 pb-4">
+                    <CardTitle className="text-xl font-semibold flex items-center gap-2">
+                      <ShieldCheck className="h-5 w-5 text-blue-600" />
+                      PII Redaction
+                    </CardTitle>
+                    <CardDescription className="text-sm mt-1">
+                      Remove card numbers, SSNs and other personal details from transcripts before they are stored or analyzed
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="pt-6 space-y-6">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="pii-redaction" className="text-base font-bold">
+                          Redact transcripts
+                        </Label>
+                        <p className="text-sm text-muted-foreground">
+                          Applies to new calls; existing transcripts are redacted before re-analysis
+                        </p>
+                      </div>
+                      <Switch
+                        id="pii-redaction"
+                        checked={redactionSettings.enabled}
+                        onCheckedChange={(checked) => setRedactionSettings((prev) => ({ ...prev, enabled: checked }))}
+                        disabled={isSavingRedaction}
+                      />
+                    </div>
+
+                    {redactionSettings.enabled && (
+                      <div className="space-y-5">
+                        <div className="space-y-3">
+                          <Label className="text-sm font-semibold">Redact</Label>
+                          {REDACTION_CATEGORY_OPTIONS.map((option) => (
+                            <div key={option.value} className="flex items-start gap-3">
+                              <Checkbox
+                                id={`pii-${option.value}`}
+                                checked={redactionSettings.categories.includes(option.value)}
+                                onCheckedChange={(checked) => toggleRedactionCategory(option.value, checked === true)}
+                                disabled={isSavingRedaction}
+                                className="mt-0.5"
+                              />
+                              <div>
+                                <Label htmlFor={`pii-${option.value}`} className="text-sm font-medium">
+                                  {option.label}
+                                </Label>
+                                <p className="text-xs text-muted-foreground">{option.description}</p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <Label htmlFor="pii-llm" className="text-sm font-semibold">
+                              AI detection of names, addresses and ID numbers
+                            </Label>
+                            <p className="text-xs text-muted-foreground">
+                              Runs an extra AI pass on each transcript
+                            </p>
+                          </div>
+                          <Switch
+                            id="pii-llm"
+                            checked={redactionSettings.llm_entities}
+                            onCheckedChange={(checked) => setRedactionSettings((prev) => ({ ...prev, llm_entities: checked }))}
+                            disabled={isSavingRedaction}
+                          />
+                        </div>
+
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <Label htmlFor="pii-recordings" className="text-sm font-semibold">
+                              Restrict recordings
+                            </Label>
+                            <p className="text-xs text-muted-foreground">
+                              Only users allowed to view unredacted transcripts can play recordings. Retell's scrubbed recording is kept when the agent has PII scrubbing on
+                            </p>
+                          </div>
+                          <Switch
+                            id="pii-recordings"
+                            checked={redactionSettings.restrict_recordings}
+                            onCheckedChange={(checked) =>
+                              setRedactionSettings((prev) => ({ ...prev, restrict_recordings: checked }))
+                            }
+                            disabled={isSavingRedaction}
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="p-5 rounded-xl bg-primary/5 border border-primary/20">
+                      <p className="text-sm text-muted-foreground leading-relaxed">
+                        {hasPermission(PERMISSION_VIEW_UNREDACTED)
+                          ? "Your account can view original, unredacted transcripts."
+                          : "Original transcripts are kept securely and can only be viewed by users granted access by an administrator."}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center justify-between pt-5 border-t border-border/50">
+                      <div className="text-sm text-muted-foreground">
+                        {hasRedactionChanges && (
+                          <span className="text-warning font-semibold">
+                            ● Unsaved changes
+                          </span>
+                        )}
+                      </div>
+                      <Button
+                        onClick={handleSaveRedaction}
+                        disabled={isSavingRedaction || !hasRedactionChanges}
+                        variant="call"
+                        size="lg"
+                        className="gap-2"
+                      >
+                        {isSavingRedaction ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Saving Changes...
+                          </>
+                        ) : (
+                          <>
+                            <Save className="h-4 w-4" />
+                            Save Changes
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Lead Scoring */}
+                <LeadScoringSettingsCard />
+
                 {/* Account Info Card */}
                 <Card className="bg-gradient-card border-border/50 shadow-md">
                   <CardHeader className="border-b border-border/50 pb-4">
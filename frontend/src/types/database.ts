@@ -20,6 +20,7 @@ export type ActivityType =
   | "account_login"
   | "lead_created"
   | "email_sent"
+  | "call_data_deleted"
   | "settings_changed";
 
 export type NotificationType = "info" | "success" | "warning" | "error" | "system";
@@ -81,6 +82,55 @@ export interface BotConfig {
   };
 }
 
+export type CustomAnalysisFieldType = "text" | "number" | "boolean" | "date" | "enum";
+
+export interface CustomAnalysisField {
+  key: string; // snake_case key in analysis.custom_fields, e.g. "party_size"
+  label: string; // column header on the Leads page
+  type: CustomAnalysisFieldType;
+  description?: string; // hint for the analysis model
+  options?: string[]; // allowed values for "enum"
+}
+
+export interface QaRubricCriterion {
+  key: string; // snake_case key in analysis.qa, e.g. "greeted_with_company_name"
+  label: string; // shown on the Dashboard scorecards
+  description?: string; // what counts as a pass, for the analysis model
+  weight: number; // 1-10, share of the call's QA score
+}
+
+export type CallerMemoryVariable =
+  | "caller_name"
+  | "caller_last_intent"
+  | "caller_last_call_summary"
+  | "caller_last_call_date"
+  | "caller_open_appointment"
+  | "caller_open_order"
+  | "caller_call_count"
+  | "caller_recent_calls";
+
+export interface CallerMemorySettings {
+  enabled: boolean;
+  variables: CallerMemoryVariable[]; // dynamic variables filled in for the agent
+  recent_calls: number; // calls summarized in caller_recent_calls, 1-10
+  lookback_days: number; // older calls are ignored, 1-730
+}
+
+export type QaResult = "pass" | "fail" | "not_applicable";
+
+export interface CallQaResult {
+  id: string;
+  call_id: string;
+  user_id: string;
+  bot_id: string | null;
+  criterion_key: string;
+  criterion_label: string;
+  weight: number;
+  result: QaResult;
+  evidence: string | null;
+  created_at: string;
+}
+
 export interface Bot {
   id: string;
   user_id: string;
@@ -96,6 +146,9 @@ export interface Bot {
   begin_messgae: string | null; // Note: typo from your schema
   agent_number: string | null; // Incoming phone number
   Transfer_to: string | null; // Transfer destination
+  custom_analysis_fields?: CustomAnalysisField[] | null; // Extra fields extracted by call analysis
+  qa_rubric?: QaRubricCriterion[] | null; // QA criteria every call is graded against
+  caller_memory_settings?: CallerMemorySettings | null; // What the agent is told about returning callers
   // Legacy fields for backward compatibility
   description?: string | null;
   voice_settings?: Record<string, any>;
@@ -111,7 +164,11 @@ export interface Call {
   status: string | null;
   duration_seconds: number | null;
   transcript: string | null;
-  recording_url: string | null;
+  transcript_object?: TranscriptTurn[] | null; // Speaker turns with word timestamps
+  recording_pending?: boolean; // Provider recording not copied to storage yet
+  recording_storage_path?: string | null; // Object in the private call-recordings bucket
+  data_purged_at?: string | null; // Recording and transcript deleted by the retention policy
+  pii_redaction?: CallPiiRedaction | null; // Set when the stored transcript was redacted
   metadata: Record<string, any>;
   webhook_response?: Record<string, any> | null;
   created_at?: string | null;
@@ -131,9 +188,218 @@ export interface Call {
   is_lead?: boolean;
   lead_strength?: string | null;
   extracted_customer_data?: Record<string, any> | null;
+  analysis_schema_version?: number | null; // null = never analyzed, 1 = pre-validation
+  analysis_warnings?: AnalysisWarning[] | null;
   updated_at?: string | null;
   Scheduled_at?: string | null; // Scheduled call time
   is_test_call?: boolean; // Indicates if this is a test call
+  retell_call_id?: string | null; // Retell call id used by webhooks
+  direction?: string | null; // "inbound" or "outbound"
+  agent_number?: string | null; // agent number the call came in on (or went out from)
+  disconnection_reason?: string | null; // Retell disconnection_reason
+  latency?: Record<string, unknown> | null; // Retell latency breakdown
+}
+
+export interface TranscriptWord {
+  word: string;
+  start: number; // seconds from call start
+  end: number;
+}
+
+export interface TranscriptTurn {
+  role: "agent" | "user";
+  content: string;
+  start: number | null; // seconds from call start, null if Retell sent no word timings
+  end: number | null;
+  words?: TranscriptWord[];
+}
+
+export type PiiRedactionCategory = "credit_card" | "ssn" | "date_of_birth" | "email" | "phone_number";
+
+// profiles.pii_redaction_settings (a type alias, so it is assignable to the Json column type)
+export type PiiRedactionSettings = {
+  enabled: boolean;
+  categories: PiiRedactionCategory[];
+  llm_entities: boolean; // LLM pass for names, addresses and ID numbers
+  restrict_recordings: boolean; // only users who may view unredacted transcripts can play recordings
+};
+
+export type LeadScoringFactor =
+  | "urgency_level"
+  | "call_type"
+  | "appointment_scheduled"
+  | "order_total"
+  | "sentiment"
+  | "repeat_caller";
+
+// profiles.lead_scoring_settings (a type alias, so it is assignable to the Json column type)
+export type LeadScoringSettings = {
+  enabled: boolean; // the score decides hot/warm/cold instead of the AI's lead strength
+  weights: Record<LeadScoringFactor, number>; // 0-100 points each
+  call_types: string[]; // call types that earn the call_type points
+  order_total_target: number; // order total earning the full order_total points
+  thresholds: { hot: number; warm: number };
+};
+
+// page_leads.lead_score_breakdown: points each factor earned
+export interface LeadScoreBreakdownItem {
+  factor: LeadScoringFactor;
+  value: string;
+  points: number;
+  max_points: number;
+}
+
+// calls.pii_redaction: what was redacted from the stored transcript
+export interface CallPiiRedaction {
+  counts: Record<string, number>;
+  llm_entities: boolean;
+  llm_error?: string;
+  redacted_at: string;
+}
+
+export interface AnalysisWarning {
+  field: string; // dotted path, e.g. "appointment.date"
+  message: string;
+  value: unknown; // value returned by the model before it was coerced or nulled
+}
+
+// Call history filters as kept in the Calls page URL; dates are YYYY-MM-DD
+export interface CallSearchFilters {
+  q?: string;
+  status?: string;
+  bot_id?: string;
+  from?: string;
+  to?: string;
+  min_duration?: string; // seconds
+  max_duration?: string; // seconds
+  sentiment?: string;
+  call_type?: string;
+  lead?: "yes" | "no";
+}
+
+export type AnalyticsBucket = "hour" | "day" | "week" | "month";
+
+export interface ConversationAnalyticsFilters {
+  from: string; // ISO timestamp
+  to: string; // ISO timestamp
+  bucket?: AnalyticsBucket; // picked by the backend from the range when left out
+  bot_id?: string;
+  agent_number?: string;
+}
+
+export interface ConversationAnalyticsTotals {
+  calls: number;
+  duration_seconds: number;
+  minutes: number;
+  avg_duration_seconds: number;
+  leads: number;
+  lead_rate: number; // % of calls
+  lead_strength: Record<"hot" | "warm" | "cold", number>;
+  sentiment: Record<"positive" | "neutral" | "negative" | "unknown", number>;
+  call_type: Record<string, number>;
+  call_outcome: Record<string, number>;
+  transfers: number;
+  transfer_rate: number; // % of calls
+  after_hours: number; // calls while the agent was unavailable
+  after_hours_rate: number; // % of calls
+}
+
+export interface ConversationAnalytics {
+  range: {
+    from: string;
+    to: string;
+    bucket: AnalyticsBucket;
+    timezone: string;
+  };
+  totals: ConversationAnalyticsTotals;
+  series: (ConversationAnalyticsTotals & { bucket: string })[]; // bucket: local "YYYY-MM-DD", "YYYY-MM-DDTHH:00" or "YYYY-MM"
+  by_bot: (ConversationAnalyticsTotals & { bot_id: string | null; bot_name: string })[];
+  by_number: (ConversationAnalyticsTotals & { agent_number: string | null })[];
+  heatmap: number[][]; // [weekday, Monday first][hour of day] call counts
+  truncated: boolean;
+  previous?: {
+    from: string;
+    to: string;
+    totals: ConversationAnalyticsTotals;
+  };
+}
+
+export type ReanalysisBatchStatus = "running" | "completed" | "cancelled";
+
+export interface ReanalysisFilters {
+  from?: string | null; // ISO timestamp, started_at >= from
+  to?: string | null; // ISO timestamp, started_at <= to
+  bot_id?: string | null;
+  errors_only?: boolean; // only calls whose analysis failed
+}
+
+export interface ReanalysisEstimate {
+  matched_calls: number;
+  call_count: number; // matched_calls capped at max_calls
+  max_calls: number;
+  credits_per_call: number;
+  estimated_credits: number;
+}
+
+export interface CallReanalysisBatch {
+  id: string;
+  user_id: string;
+  status: ReanalysisBatchStatus;
+  filters: ReanalysisFilters;
+  overwrite: boolean;
+  total_calls: number;
+  estimated_credits: number;
+  created_at: string;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  progress: {
+    pending: number;
+    processing: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    processed: number; // completed + failed + cancelled
+  };
+}
+
+export type CallEventType =
+  | "call_started"
+  | "call_ended"
+  | "transfer_started"
+  | "transfer_bridged"
+  | "transfer_cancelled"
+  | "transfer_ended"
+  | "dtmf"
+  | "tool_call_invocation"
+  | "tool_call_result"
+  | "voicemail_detected"
+  | "latency_summary";
+
+export interface CallEventDetails {
+  destination?: string | null; // transfer_*
+  reason?: string | null; // transfer_cancelled
+  digit?: string; // dtmf
+  redacted?: boolean; // dtmf: the digit was dropped by PII redaction
+  name?: string; // tool_call_*
+  arguments?: string | Record<string, unknown>; // tool_call_invocation
+  content?: string; // tool_call_result
+  p50?: number | null; // latency_summary (ms)
+  p90?: number | null;
+  max?: number | null;
+  per_turn?: number[];
+  [key: string]: unknown;
+}
+
+export interface CallEvent {
+  id: string;
+  call_id: string;
+  user_id: string;
+  event_type: CallEventType;
+  event_key: string;
+  sequence: number;
+  occurred_at: string | null;
+  details: CallEventDetails;
+  created_at: string;
 }
 
 export interface Profile {
@@ -178,6 +444,11 @@ export interface Profile {
   trial_credits_expires_at?: string | null;
   // Tour
   tour_completed?: boolean | null;
+  // Data retention (null keeps recordings and transcripts forever)
+  recording_retention_days?: number | null;
+  // PII redaction (null stores transcripts unredacted)
+  pii_redaction_settings?: PiiRedactionSettings | null;
+  lead_scoring_settings?: LeadScoringSettings | null;
 }
 
 export interface PageLead {
@@ -218,6 +489,95 @@ export interface PageLead {
   is_lead?: boolean | null;
   source?: string | null;
   last_call_at?: string | null;
+  // Pipeline fields
+  pipeline_stage?: LeadPipelineStage;
+  stage_set_by?: LeadStageSetBy;
+  stage_changed_at?: string | null;
+  assigned_to?: string | null;
+  notes?: string | null;
+  follow_up_date?: string | null;
+  phone_e164?: string | null; // Phone number normalized for matching calls to leads
+  // Scoring fields
+  lead_score?: number | null; // 0-100, null until the lead has an analyzed call
+  lead_score_breakdown?: LeadScoreBreakdownItem[] | null;
+  lead_scored_at?: string | null;
+}
+
+export type LeadPipelineStage = "new" | "contacted" | "qualified" | "won" | "lost";
+
+export type LeadStageSetBy = "system" | "user";
+
+export type LeadDuplicateReason =
+  | "same_phone"
+  | "same_email"
+  | "same_name"
+  | "similar_name"
+  | "same_phone_suffix"
+  | "similar_email";
+
+export interface LeadDuplicateCandidate {
+  id: string;
+  user_id: string;
+  lead_id: string; // The newer lead
+  duplicate_of_lead_id: string;
+  score: number; // 0-1
+  reasons: LeadDuplicateReason[];
+  status: "pending" | "dismissed";
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface LeadCall {
+  id: string;
+  lead_id: string;
+  call_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export interface LeadStageHistory {
+  id: string;
+  lead_id: string;
+  user_id: string;
+  from_stage: LeadPipelineStage | null;
+  to_stage: LeadPipelineStage;
+  changed_by: LeadStageSetBy;
+  created_at: string;
+}
+
+export type LeadImportField =
+  | "name"
+  | "email"
+  | "phone_number"
+  | "address"
+  | "notes"
+  | "pipeline_stage"
+  | "assigned_to"
+  | "follow_up_date";
+
+// One spreadsheet row mapped to lead fields; row is its line number in the file
+export type LeadImportRow = { row: number } & Partial<Record<LeadImportField, string>>;
+
+export type LeadImportDuplicateMode = "skip" | "update";
+
+export interface LeadImportRowResult {
+  row: number;
+  status: "created" | "updated" | "skipped" | "error";
+  lead_id?: string | null;
+  message?: string;
+  errors?: string[];
+}
+
+export interface LeadImportResult {
+  dry_run: boolean;
+  summary: {
+    total: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: number;
+  };
+  results: LeadImportRowResult[];
 }
 
 export interface Wallet {
@@ -277,25 +637,127 @@ export interface EmailSentLog {
   subject: string;
   body: string;
   call_id: string | null;
-  status: "pending" | "sent" | "failed" | "bounced" | null;
+  automation_rule_id: string | null;
+  status: EmailSentStatus | null;
   error_message: string | null;
   sent_at: string | null;
+  html_body: string | null;
+  // Queued emails only: when it is scheduled to go out
+  send_at: string | null;
+  attempts: number;
+  next_attempt_at: string | null;
+  locked_at: string | null;
+  message_id: string | null;
+  tracking_token: string;
+  tracking_enabled: boolean;
+  template_id: string | null;
+  lead_id: string | null;
+  // Opens and clicks are only recorded for emails sent with tracking
+  opened_at: string | null;
+  open_count: number;
+  clicked_at: string | null;
+  click_count: number;
+  bounced_at: string | null;
+  bounce_reason: string | null;
+  // Set when the email went out but its credits couldn't be deducted
+  credit_error: string | null;
+  created_at: string;
+}
+
+// sent -> opened -> clicked as recipients engage; bounced if delivery failed after sending
+export type EmailSentStatus = "pending" | "sent" | "opened" | "clicked" | "failed" | "bounced";
+
+export type EmailTrackingEventType = "open" | "click" | "bounce";
+
+export interface EmailTrackingEvent {
+  id: string;
+  user_id: string;
+  email_log_id: string;
+  event_type: EmailTrackingEventType;
+  url: string | null;
+  user_agent: string | null;
   created_at: string;
 }
 
+// GET /api/emails/engagement; opened and clicked only count emails sent with tracking
+export interface EmailEngagementCounts {
+  sent: number;
+  tracked: number;
+  opened: number;
+  clicked: number;
+  bounced: number;
+}
+
+export interface EmailTemplateEngagement extends EmailEngagementCounts {
+  // Null for emails not written from a template
+  template_id: string | null;
+  name: string;
+}
+
+export interface EmailLeadEngagement extends EmailEngagementCounts {
+  // Null for recipients who aren't a lead
+  lead_id: string | null;
+  name: string | null;
+  email: string;
+  last_sent_at: string;
+  last_opened_at: string | null;
+}
+
+export interface EmailEngagement {
+  days: number;
+  // True when the period had more emails than the server reads
+  truncated: boolean;
+  totals: EmailEngagementCounts;
+  templates: EmailTemplateEngagement[];
+  leads: EmailLeadEngagement[];
+}
+
+export type EmailTriggerType = "lead_created" | "call_ended" | "call_completed" | "no_response" | "high_quality_lead";
+
+// Empty lists and null bounds match any call
+export interface EmailRuleConditions {
+  bot_ids?: string[];
+  lead_strengths?: ("hot" | "warm" | "cold")[];
+  call_types?: string[];
+  min_score?: number | null;
+  max_score?: number | null;
+}
+
 export interface EmailAutomationRule {
   id: string;
   user_id: string;
   name: string;
-  trigger_type: "lead_created" | "call_ended" | "call_completed" | "no_response" | "high_quality_lead";
-  conditions: Record<string, any>;
+  trigger_type: EmailTriggerType;
+  conditions: EmailRuleConditions;
   template_id: string | null;
   delay_minutes: number;
   is_active: boolean;
+  track_engagement: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export type EmailAutomationRunStatus = "scheduled" | "sending" | "sent" | "skipped" | "failed";
+
+export interface EmailAutomationRun {
+  id: string;
+  user_id: string;
+  rule_id: string;
+  call_id: string | null;
+  lead_id: string | null;
+  trigger_type: EmailTriggerType;
+  event_key: string;
+  to_email: string | null;
+  send_at: string;
+  status: EmailAutomationRunStatus;
+  attempts: number;
+  error_message: string | null;
+  email_log_id: string | null;
+  locked_at: string | null;
+  processed_at: string | null;
+  created_at: string;
+}
+
 export interface CallAnalytics {
   id: string;
   call_id: string;
@@ -311,6 +773,7 @@ export interface CallAnalytics {
   key_phrases: Record<string, any>;
   call_outcome: string | null;
   ai_analysis_data: Record<string, any>;
+  qa_score: number | null; // 0-100, weighted share of QA criteria passed
   created_at: string;
 }
 
@@ -378,6 +841,10 @@ export interface KnowledgeBase {
   created_at: string;
 }
 
+export type MailboxAuthType = "password" | "oauth";
+
+export type MailboxOAuthProvider = "google" | "microsoft";
+
 export interface UserEmail {
   id: string;
   user_id: string;
@@ -385,6 +852,15 @@ export interface UserEmail {
   name: string | null;
   is_primary: boolean;
   is_verified: boolean;
+  smtp_host: string | null;
+  smtp_port: number | null;
+  smtp_secure: boolean | null;
+  smtp_username: string | null;
+  smtp_configured: boolean;
+  smtp_verified_at: string | null;
+  auth_type: MailboxAuthType;
+  oauth_provider: MailboxOAuthProvider | null;
+  oauth_error: string | null;
   created_at: string;
   updated_at: string;
 }
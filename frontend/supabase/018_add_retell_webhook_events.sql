@@ -0,0 +1,45 @@
+-- ============================================================
+-- 018_add_retell_webhook_events.sql
+-- Adds tables for Retell webhook deduplication and audit of
+-- rejected (unsigned, forged or stale) webhook deliveries
+-- ============================================================
+
+-- Accepted Retell webhook deliveries, keyed by event id for replay protection
+CREATE TABLE IF NOT EXISTS public.retell_webhook_events (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id    text NOT NULL UNIQUE,
+  event_type  text,
+  call_id     text,
+  payload     jsonb DEFAULT '{}'::jsonb,
+  signed_at   timestamptz,
+  received_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retell_webhook_events_call_id ON public.retell_webhook_events(call_id);
+CREATE INDEX IF NOT EXISTS idx_retell_webhook_events_received_at ON public.retell_webhook_events(received_at DESC);
+
+-- Rejected Retell webhook deliveries, kept for audit
+CREATE TABLE IF NOT EXISTS public.retell_webhook_rejections (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reason      text NOT NULL,           -- 'missing_signature' | 'malformed_signature' | 'invalid_signature' | 'stale_timestamp'
+  event_type  text,
+  call_id     text,
+  signature   text,
+  ip_address  text,
+  user_agent  text,
+  payload     jsonb DEFAULT '{}'::jsonb,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retell_webhook_rejections_created_at ON public.retell_webhook_rejections(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_retell_webhook_rejections_reason ON public.retell_webhook_rejections(reason);
+
+-- Enable RLS (only the backend service role reads or writes these tables)
+ALTER TABLE public.retell_webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.retell_webhook_rejections ENABLE ROW LEVEL SECURITY;
+
+-- Add comments
+COMMENT ON TABLE public.retell_webhook_events IS 'Verified Retell webhook deliveries, used to drop repeated deliveries of the same event';
+COMMENT ON COLUMN public.retell_webhook_events.event_id IS 'Provider event id, or a SHA-256 of the raw request body when Retell does not send one';
+COMMENT ON COLUMN public.retell_webhook_events.signed_at IS 'Timestamp from the x-retell-signature header';
+COMMENT ON TABLE public.retell_webhook_rejections IS 'Retell webhook deliveries rejected by signature or timestamp verification';
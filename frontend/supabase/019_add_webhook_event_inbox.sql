@@ -0,0 +1,35 @@
+-- ============================================================
+-- 019_add_webhook_event_inbox.sql
+-- Turns retell_webhook_events into a durable inbox: events are
+-- processed by a backend worker with retries and a dead-letter state
+-- ============================================================
+
+-- Add processing columns to the inbox
+ALTER TABLE public.retell_webhook_events
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'pending',   -- 'pending' | 'processing' | 'processed' | 'dead_letter'
+ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz DEFAULT now(),
+ADD COLUMN IF NOT EXISTS last_error text,
+ADD COLUMN IF NOT EXISTS locked_at timestamptz,
+ADD COLUMN IF NOT EXISTS processed_at timestamptz,
+ADD COLUMN IF NOT EXISTS dead_lettered_at timestamptz;
+
+-- Events received before the inbox existed were processed inline
+UPDATE public.retell_webhook_events
+SET status = 'processed', processed_at = received_at
+WHERE processed_at IS NULL;
+
+-- Index for the worker's "due events" query
+CREATE INDEX IF NOT EXISTS idx_retell_webhook_events_due
+  ON public.retell_webhook_events(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_retell_webhook_events_dead_letter
+  ON public.retell_webhook_events(dead_lettered_at DESC)
+  WHERE status = 'dead_letter';
+
+-- Add comments
+COMMENT ON COLUMN public.retell_webhook_events.status IS 'Inbox state: pending, processing, processed or dead_letter';
+COMMENT ON COLUMN public.retell_webhook_events.attempts IS 'Number of processing attempts so far';
+COMMENT ON COLUMN public.retell_webhook_events.next_attempt_at IS 'Earliest time the worker may retry this event (exponential backoff)';
+COMMENT ON COLUMN public.retell_webhook_events.locked_at IS 'When a worker claimed the event; stale locks are released on worker start';
@@ -0,0 +1,44 @@
+-- ============================================================
+-- 020_add_call_lifecycle_events.sql
+-- Adds a per-call event timeline (transfers, DTMF, tool calls,
+-- voicemail, latency) and disconnection/latency columns on calls
+-- ============================================================
+
+-- Add lifecycle columns to calls table
+ALTER TABLE public.calls
+ADD COLUMN IF NOT EXISTS disconnection_reason text,
+ADD COLUMN IF NOT EXISTS latency jsonb DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_calls_disconnection_reason ON public.calls(disconnection_reason);
+
+-- Create call_events table
+CREATE TABLE IF NOT EXISTS public.call_events (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id     uuid NOT NULL REFERENCES public.calls(id) ON DELETE CASCADE,
+  user_id     uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type  text NOT NULL,           -- 'call_started' | 'call_ended' | 'transfer_started' | 'transfer_bridged' | 'transfer_cancelled' | 'transfer_ended' | 'dtmf' | 'tool_call_invocation' | 'tool_call_result' | 'voicemail_detected' | 'latency_summary'
+  event_key   text NOT NULL,           -- deterministic key so replayed webhooks update instead of duplicating
+  sequence    integer DEFAULT 0,       -- order within the call when occurred_at is unknown
+  occurred_at timestamptz,
+  details     jsonb DEFAULT '{}'::jsonb,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT call_events_call_id_event_key_key UNIQUE (call_id, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_events_call_id ON public.call_events(call_id);
+CREATE INDEX IF NOT EXISTS idx_call_events_user_id ON public.call_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_call_events_type ON public.call_events(event_type);
+
+-- Enable RLS
+ALTER TABLE public.call_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "call_events_select_own" ON public.call_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON TABLE public.call_events IS 'Lifecycle timeline of a call, written by the Retell webhook worker';
+COMMENT ON COLUMN public.calls.disconnection_reason IS 'Retell disconnection_reason, e.g. user_hangup, call_transfer, voicemail_reached, dial_no_answer';
+COMMENT ON COLUMN public.calls.latency IS 'Retell latency breakdown (e2e, llm, tts ...) with per-turn values';
+
+-- Enable realtime so the Calls page timeline updates during live transfers
+ALTER PUBLICATION supabase_realtime ADD TABLE public.call_events;
@@ -0,0 +1,55 @@
+-- ============================================================
+-- 021_add_retell_call_routing.sql
+-- Stores Retell's call id on calls and records inbound calls
+-- that could not be matched to a bot
+-- ============================================================
+
+-- Retell call ids (e.g. "call_a1b2c3") are not uuids, so they get their own column
+ALTER TABLE public.calls
+ADD COLUMN IF NOT EXISTS retell_call_id text,
+ADD COLUMN IF NOT EXISTS direction text;
+
+-- Backfill test calls, which kept the Retell id in metadata
+UPDATE public.calls
+SET retell_call_id = metadata->>'retell_call_id'
+WHERE retell_call_id IS NULL
+  AND metadata ? 'retell_call_id';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'calls_retell_call_id_key'
+  ) THEN
+    ALTER TABLE public.calls
+      ADD CONSTRAINT calls_retell_call_id_key UNIQUE (retell_call_id);
+  END IF;
+END $$;
+
+-- Inbound routing looks bots up by agent id and by assigned number
+CREATE INDEX IF NOT EXISTS idx_bots_agent_number ON public.bots(agent_number);
+
+-- Create unrouted_calls table
+CREATE TABLE IF NOT EXISTS public.unrouted_calls (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  retell_call_id text NOT NULL UNIQUE,
+  agent_id       text,
+  from_number    text,
+  to_number      text,
+  direction      text,
+  reason         text NOT NULL,       -- 'unknown_agent' | 'missing_agent'
+  last_event     text,
+  payload        jsonb,
+  first_seen_at  timestamptz NOT NULL DEFAULT now(),
+  last_seen_at   timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_unrouted_calls_agent_id ON public.unrouted_calls(agent_id);
+CREATE INDEX IF NOT EXISTS idx_unrouted_calls_last_seen_at ON public.unrouted_calls(last_seen_at DESC);
+
+-- Enable RLS (no policies: only the service role reads or writes these rows)
+ALTER TABLE public.unrouted_calls ENABLE ROW LEVEL SECURITY;
+
+-- Add comments
+COMMENT ON COLUMN public.calls.retell_call_id IS 'Retell call id, used to match webhook events to the call';
+COMMENT ON COLUMN public.calls.direction IS 'Retell call direction: inbound or outbound';
+COMMENT ON TABLE public.unrouted_calls IS 'Retell calls whose agent_id / to_number did not match any bot';
@@ -0,0 +1,37 @@
+-- ============================================================
+-- 022_add_call_analysis_jobs.sql
+-- Queue of calls waiting for AI analysis, processed by the backend
+-- worker after Retell's call_ended webhook
+-- ============================================================
+
+-- Create call_analysis_jobs table
+CREATE TABLE IF NOT EXISTS public.call_analysis_jobs (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id         uuid NOT NULL UNIQUE REFERENCES public.calls(id) ON DELETE CASCADE,
+  user_id         uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status          text NOT NULL DEFAULT 'pending',  -- 'pending' | 'processing' | 'completed' | 'failed'
+  attempts        integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error      text,
+  locked_at       timestamptz,
+  completed_at    timestamptz,
+  created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_analysis_jobs_user_id ON public.call_analysis_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_call_analysis_jobs_due
+  ON public.call_analysis_jobs(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_call_analysis_jobs_processing
+  ON public.call_analysis_jobs(locked_at)
+  WHERE status = 'processing';
+
+-- Enable RLS
+ALTER TABLE public.call_analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "call_analysis_jobs_select_own" ON public.call_analysis_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON TABLE public.call_analysis_jobs IS 'Server-side analysis queue: one job per call, retried with backoff';
+COMMENT ON COLUMN public.call_analysis_jobs.status IS 'pending, processing, completed, or failed (attempts exhausted)';
@@ -0,0 +1,32 @@
+-- ============================================================
+-- 023_add_llm_usage.sql
+-- Token accounting for every LLM completion made by the backend
+-- ============================================================
+
+-- Create llm_usage table
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           uuid REFERENCES auth.users(id) ON DELETE SET NULL,  -- null for requests not tied to a user
+  feature           text NOT NULL,       -- 'call_analysis' | 'document_extraction' | 'prompt_generation' | 'prompt_formatting' | 'sidebar_prompt' | 'chatbot' | 'email_generation'
+  provider          text NOT NULL,       -- 'openai' | 'local'
+  model             text NOT NULL,
+  prompt_tokens     integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  total_tokens      integer NOT NULL DEFAULT 0,
+  duration_ms       integer,
+  success           boolean NOT NULL DEFAULT true,
+  error             text,
+  created_at        timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_id ON public.llm_usage(user_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_feature_created_at ON public.llm_usage(feature, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "llm_usage_select_own" ON public.llm_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON TABLE public.llm_usage IS 'One row per LLM completion: feature, provider, model and token counts';
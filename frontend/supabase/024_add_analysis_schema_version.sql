@@ -0,0 +1,23 @@
+-- ============================================================
+-- 024_add_analysis_schema_version.sql
+-- Records which analysis schema version produced each call's
+-- analysis and the fields that failed validation
+-- ============================================================
+
+-- Add validation columns to calls table
+ALTER TABLE public.calls
+ADD COLUMN IF NOT EXISTS analysis_schema_version integer,
+ADD COLUMN IF NOT EXISTS analysis_warnings jsonb DEFAULT '[]'::jsonb;
+
+-- Calls analyzed before validation existed are version 1
+UPDATE public.calls
+SET analysis_schema_version = 1
+WHERE analyzed = true
+  AND analysis_schema_version IS NULL;
+
+-- Re-analysis jobs look up calls below the current version
+CREATE INDEX IF NOT EXISTS idx_calls_analysis_schema_version ON public.calls(analysis_schema_version);
+
+-- Add comments
+COMMENT ON COLUMN public.calls.analysis_schema_version IS 'Version of the backend analysis schema (callAnalysisSchema.js) used for this call';
+COMMENT ON COLUMN public.calls.analysis_warnings IS 'Fields coerced or nulled during validation: [{ field, message, value }]';
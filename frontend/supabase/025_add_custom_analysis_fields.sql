@@ -0,0 +1,12 @@
+-- ============================================================
+-- 025_add_custom_analysis_fields.sql
+-- Per-agent custom fields extracted by call analysis
+-- ============================================================
+
+-- Add custom field definitions to bots table
+-- [{ "key": "party_size", "label": "Party Size", "type": "number", "description": "...", "options": [] }]
+ALTER TABLE public.bots
+ADD COLUMN IF NOT EXISTS custom_analysis_fields jsonb DEFAULT '[]'::jsonb;
+
+-- Add comments
+COMMENT ON COLUMN public.bots.custom_analysis_fields IS 'Extra fields the call analysis extracts for this agent; values land in calls.analysis.custom_fields and page_leads.extracted_data.custom_fields';
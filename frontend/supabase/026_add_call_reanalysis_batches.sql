@@ -0,0 +1,42 @@
+-- ============================================================
+-- 026_add_call_reanalysis_batches.sql
+-- Bulk re-analysis of historical calls: a batch groups the
+-- call_analysis_jobs queued for one re-analysis request
+-- ============================================================
+
+-- Create call_reanalysis_batches table
+CREATE TABLE IF NOT EXISTS public.call_reanalysis_batches (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status            text NOT NULL DEFAULT 'running',  -- 'running' | 'completed' | 'cancelled'
+  filters           jsonb NOT NULL DEFAULT '{}'::jsonb,
+  overwrite         boolean NOT NULL DEFAULT false,
+  total_calls       integer NOT NULL DEFAULT 0,
+  estimated_credits integer NOT NULL DEFAULT 0,
+  created_at        timestamptz NOT NULL DEFAULT now(),
+  completed_at      timestamptz,
+  cancelled_at      timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_reanalysis_batches_user_id
+  ON public.call_reanalysis_batches(user_id, created_at DESC);
+
+-- Link queued jobs to their batch
+ALTER TABLE public.call_analysis_jobs
+ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES public.call_reanalysis_batches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS overwrite boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_call_analysis_jobs_batch_id ON public.call_analysis_jobs(batch_id);
+
+-- Enable RLS
+ALTER TABLE public.call_reanalysis_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "call_reanalysis_batches_select_own" ON public.call_reanalysis_batches
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON TABLE public.call_reanalysis_batches IS 'Bulk re-analysis requests; progress is derived from the linked call_analysis_jobs';
+COMMENT ON COLUMN public.call_reanalysis_batches.filters IS 'Call filters used to select the batch: { from, to, bot_id, errors_only }';
+COMMENT ON COLUMN public.call_analysis_jobs.batch_id IS 'Re-analysis batch that queued this job, null for jobs queued by call_ended';
+COMMENT ON COLUMN public.call_analysis_jobs.overwrite IS 'Re-analyze even if the call already has a successful analysis';
+COMMENT ON COLUMN public.call_analysis_jobs.status IS 'pending, processing, completed, failed (attempts exhausted), or cancelled';
@@ -0,0 +1,12 @@
+-- ============================================================
+-- 027_add_transcript_object.sql
+-- Stores Retell's structured transcript (speaker turns with word
+-- timestamps) next to the plain-text transcript
+-- ============================================================
+
+-- Add structured transcript to calls table
+ALTER TABLE public.calls
+ADD COLUMN IF NOT EXISTS transcript_object jsonb DEFAULT '[]'::jsonb;
+
+-- Add comments
+COMMENT ON COLUMN public.calls.transcript_object IS 'Speaker turns from Retell: [{ role, content, start, end, words: [{ word, start, end }] }], times in seconds from call start';
@@ -0,0 +1,38 @@
+-- ============================================================
+-- 028_add_call_search.sql
+-- Indexes for the paginated, searchable call history API
+-- (GET /api/calls): full-text search over transcript, contact
+-- name and phone number, partial phone matches and cursor order
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Computed field: PostgREST exposes it as calls.search_vector for filtering,
+-- but leaves it out of select=*. The body matches idx_calls_search_vector
+-- so the planner uses the index once the function is inlined.
+CREATE OR REPLACE FUNCTION public.search_vector(public.calls)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsvector(
+    'english'::regconfig,
+    coalesce($1.contact_name, '') || ' ' || coalesce($1.phone_number, '') || ' ' || coalesce($1.transcript, '')
+  );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_calls_search_vector ON public.calls USING gin (
+  to_tsvector(
+    'english'::regconfig,
+    coalesce(contact_name, '') || ' ' || coalesce(phone_number, '') || ' ' || coalesce(transcript, '')
+  )
+);
+
+-- Partial phone number search (phone_number ILIKE '%5551234%')
+CREATE INDEX IF NOT EXISTS idx_calls_phone_number_trgm ON public.calls USING gin (phone_number gin_trgm_ops);
+
+-- Cursor pagination: newest first, id breaks ties
+CREATE INDEX IF NOT EXISTS idx_calls_user_created_at ON public.calls(user_id, created_at DESC, id DESC);
+
+-- Add comments
+COMMENT ON FUNCTION public.search_vector(public.calls) IS 'Full-text search document for a call: contact name, phone number and transcript';
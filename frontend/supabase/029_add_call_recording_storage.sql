@@ -0,0 +1,46 @@
+-- ============================================================
+-- 029_add_call_recording_storage.sql
+-- Copies call recordings into a private storage bucket (served
+-- through short-lived signed URLs) and adds a per-account
+-- retention policy for recordings and transcripts
+-- ============================================================
+
+-- Bucket: call-recordings (private — only the backend reads it, via signed URLs)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'call-recordings',
+  'call-recordings',
+  false,
+  104857600,  -- 100 MB
+  ARRAY['audio/wav', 'audio/x-wav', 'audio/mpeg', 'audio/mp4', 'audio/ogg', 'audio/webm']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Archive state on calls
+ALTER TABLE public.calls
+ADD COLUMN IF NOT EXISTS recording_storage_path text,
+ADD COLUMN IF NOT EXISTS recording_archive_attempts integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS recording_archive_error text,
+ADD COLUMN IF NOT EXISTS data_purged_at timestamptz;
+
+-- Recordings still waiting to be copied from the provider
+CREATE INDEX IF NOT EXISTS idx_calls_recording_archive_pending ON public.calls(created_at)
+  WHERE recording_url IS NOT NULL AND recording_storage_path IS NULL;
+
+-- Retention policy: NULL keeps recordings and transcripts forever
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS recording_retention_days integer
+  CHECK (recording_retention_days IS NULL OR recording_retention_days BETWEEN 1 AND 3650);
+
+-- Activity type for retention deletions
+ALTER TYPE public.activity_type ADD VALUE IF NOT EXISTS 'call_data_deleted';
+
+-- Add comments
+COMMENT ON COLUMN public.calls.recording_storage_path IS 'Object path of the recording in the call-recordings bucket (<user_id>/<call_id>.<ext>); recording_url is cleared once copied';
+COMMENT ON COLUMN public.calls.recording_archive_attempts IS 'Failed attempts to copy the recording from the provider';
+COMMENT ON COLUMN public.calls.recording_archive_error IS 'Last error copying the recording from the provider';
+COMMENT ON COLUMN public.calls.data_purged_at IS 'When the retention policy deleted the recording and transcript';
+COMMENT ON COLUMN public.profiles.recording_retention_days IS 'Delete call recordings and transcripts this many days after the call; NULL keeps them forever';
@@ -0,0 +1,52 @@
+-- ============================================================
+-- 030_add_pii_redaction.sql
+-- PII redaction for call transcripts: per-account settings,
+-- redacted transcripts on calls (and page_leads), the original
+-- transcript kept in a backend-only table, and admin-granted
+-- permissions for viewing it
+-- ============================================================
+
+-- Per-account redaction settings, e.g.
+-- { "enabled": true, "categories": ["credit_card", "ssn", "date_of_birth"],
+--   "llm_entities": false, "restrict_recordings": false }
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS pii_redaction_settings jsonb;
+
+-- What was redacted from a call's transcript; NULL when it was stored unredacted
+ALTER TABLE public.calls
+ADD COLUMN IF NOT EXISTS pii_redaction jsonb;
+
+-- Original transcripts of redacted calls
+CREATE TABLE IF NOT EXISTS public.call_unredacted_transcripts (
+  call_id           uuid PRIMARY KEY REFERENCES public.calls(id) ON DELETE CASCADE,
+  user_id           uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transcript        text,
+  transcript_object jsonb DEFAULT '[]'::jsonb,
+  created_at        timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_unredacted_transcripts_user_id ON public.call_unredacted_transcripts(user_id);
+
+-- Enable RLS (no policies: only the backend reads these rows, after a permission check)
+ALTER TABLE public.call_unredacted_transcripts ENABLE ROW LEVEL SECURITY;
+
+-- Permissions granted through the admin API
+CREATE TABLE IF NOT EXISTS public.user_permissions (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  permission  text NOT NULL CHECK (permission IN ('view_unredacted_transcripts')),
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, permission)
+);
+
+-- Enable RLS (users can see their permissions but never grant them)
+ALTER TABLE public.user_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_permissions_select_own" ON public.user_permissions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON COLUMN public.profiles.pii_redaction_settings IS 'PII redaction settings: { enabled, categories, llm_entities, restrict_recordings }; NULL stores transcripts unredacted';
+COMMENT ON COLUMN public.calls.pii_redaction IS 'Redaction applied to the stored transcript: { counts: { category: n }, llm_entities, llm_error, redacted_at }';
+COMMENT ON TABLE public.call_unredacted_transcripts IS 'Original transcripts of redacted calls, served only to users with the view_unredacted_transcripts permission';
+COMMENT ON TABLE public.user_permissions IS 'Permissions granted through the admin API (x-admin-key)';
@@ -0,0 +1,45 @@
+-- ============================================================
+-- 031_add_qa_scorecards.sql
+-- Per-agent QA rubrics graded by call analysis: the rubric on
+-- bots, the weighted score on call_analytics and one row per
+-- graded criterion for scorecards and drilldowns
+-- ============================================================
+
+-- Add QA rubric to bots table
+-- [{ "key": "greeted_with_company_name", "label": "Greeted with company name", "description": "...", "weight": 2 }]
+ALTER TABLE public.bots
+ADD COLUMN IF NOT EXISTS qa_rubric jsonb DEFAULT '[]'::jsonb;
+
+-- Weighted share of applicable criteria passed
+ALTER TABLE public.call_analytics
+ADD COLUMN IF NOT EXISTS qa_score numeric(5,2) CHECK (qa_score IS NULL OR (qa_score >= 0 AND qa_score <= 100));
+
+-- Create call_qa_results table
+CREATE TABLE IF NOT EXISTS public.call_qa_results (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id          uuid NOT NULL REFERENCES public.calls(id) ON DELETE CASCADE,
+  user_id          uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bot_id           uuid REFERENCES public.bots(id) ON DELETE SET NULL,
+  criterion_key    text NOT NULL,
+  criterion_label  text NOT NULL,
+  weight           integer NOT NULL DEFAULT 1,
+  result           text NOT NULL CHECK (result IN ('pass', 'fail', 'not_applicable')),
+  evidence         text,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (call_id, criterion_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_qa_results_user_bot
+  ON public.call_qa_results(user_id, bot_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.call_qa_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "call_qa_results_select_own" ON public.call_qa_results
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON COLUMN public.bots.qa_rubric IS 'QA criteria every call of this agent is graded against by call analysis';
+COMMENT ON COLUMN public.call_analytics.qa_score IS 'QA rubric score 0-100: weighted share of applicable criteria passed; NULL when no criterion applied';
+COMMENT ON TABLE public.call_qa_results IS 'Per-criterion QA grades of analyzed calls, replaced on re-analysis';
+COMMENT ON COLUMN public.call_qa_results.evidence IS 'Short quote or explanation from the transcript supporting the grade';
@@ -0,0 +1,21 @@
+-- ============================================================
+-- 032_add_conversation_analytics.sql
+-- Conversation analytics: the number a call came in on, for
+-- per-number breakdowns (date-range scans use
+-- idx_calls_user_created_at from 028)
+-- ============================================================
+
+-- The agent's number the call was placed to (inbound) or from (outbound)
+ALTER TABLE public.calls
+ADD COLUMN IF NOT EXISTS agent_number text;
+
+-- Backfill with the number currently assigned to each call's bot
+UPDATE public.calls c
+SET agent_number = b.agent_number
+FROM public.bots b
+WHERE c.bot_id = b.id
+  AND c.agent_number IS NULL
+  AND b.agent_number IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN public.calls.agent_number IS 'Agent phone number of the call (to_number inbound, from_number outbound); older calls were backfilled from bots.agent_number';
@@ -0,0 +1,116 @@
+-- ============================================================
+-- 033_add_lead_pipeline.sql
+-- Lead pipeline: stage, owner, notes and follow-up date on
+-- page_leads, stage history, and a guard that keeps call
+-- analysis from overwriting a stage a person set
+-- ============================================================
+
+-- Add pipeline columns to page_leads table
+ALTER TABLE public.page_leads
+ADD COLUMN IF NOT EXISTS pipeline_stage text NOT NULL DEFAULT 'new',
+ADD COLUMN IF NOT EXISTS stage_set_by text NOT NULL DEFAULT 'system',
+ADD COLUMN IF NOT EXISTS stage_changed_at timestamptz NOT NULL DEFAULT now(),
+ADD COLUMN IF NOT EXISTS assigned_to text,
+ADD COLUMN IF NOT EXISTS notes text,
+ADD COLUMN IF NOT EXISTS follow_up_date date;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'page_leads_pipeline_stage_check'
+  ) THEN
+    ALTER TABLE public.page_leads
+      ADD CONSTRAINT page_leads_pipeline_stage_check
+      CHECK (pipeline_stage IN ('new', 'contacted', 'qualified', 'won', 'lost'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'page_leads_stage_set_by_check'
+  ) THEN
+    ALTER TABLE public.page_leads
+      ADD CONSTRAINT page_leads_stage_set_by_check
+      CHECK (stage_set_by IN ('system', 'user'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_page_leads_user_pipeline_stage ON public.page_leads(user_id, pipeline_stage);
+
+-- Create lead_stage_history table
+CREATE TABLE IF NOT EXISTS public.lead_stage_history (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id     uuid NOT NULL REFERENCES public.page_leads(id) ON DELETE CASCADE,
+  user_id     uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_stage  text,                  -- NULL when the lead was created
+  to_stage    text NOT NULL,
+  changed_by  text NOT NULL,         -- 'system' (call analysis) | 'user'
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_stage_history_lead_id ON public.lead_stage_history(lead_id, created_at);
+
+-- Enable RLS (rows are written by the trigger below only)
+ALTER TABLE public.lead_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "lead_stage_history_select_own" ON public.lead_stage_history
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Keep stages set by a person, and stamp stage changes
+CREATE OR REPLACE FUNCTION public.trigger_guard_lead_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.stage_set_by = 'user' AND NEW.stage_set_by = 'system' THEN
+    NEW.pipeline_stage := OLD.pipeline_stage;
+    NEW.stage_set_by := OLD.stage_set_by;
+  END IF;
+
+  IF NEW.pipeline_stage IS DISTINCT FROM OLD.pipeline_stage THEN
+    NEW.stage_changed_at := now();
+  ELSE
+    NEW.stage_changed_at := OLD.stage_changed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_page_leads_stage ON public.page_leads;
+CREATE TRIGGER guard_page_leads_stage
+  BEFORE UPDATE ON public.page_leads
+  FOR EACH ROW EXECUTE FUNCTION public.trigger_guard_lead_stage();
+
+-- Record every stage a lead enters
+CREATE OR REPLACE FUNCTION public.trigger_record_lead_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.pipeline_stage IS DISTINCT FROM OLD.pipeline_stage THEN
+    INSERT INTO public.lead_stage_history (lead_id, user_id, from_stage, to_stage, changed_by)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.pipeline_stage END,
+      NEW.pipeline_stage,
+      NEW.stage_set_by
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_page_leads_stage ON public.page_leads;
+CREATE TRIGGER record_page_leads_stage
+  AFTER INSERT OR UPDATE OF pipeline_stage ON public.page_leads
+  FOR EACH ROW EXECUTE FUNCTION public.trigger_record_lead_stage();
+
+-- Add comments
+COMMENT ON COLUMN public.page_leads.pipeline_stage IS 'Pipeline stage: new, contacted, qualified, won or lost';
+COMMENT ON COLUMN public.page_leads.stage_set_by IS 'Who set the current stage; call analysis never changes a stage set by a user';
+COMMENT ON COLUMN public.page_leads.assigned_to IS 'Person responsible for following up the lead';
+COMMENT ON COLUMN public.page_leads.follow_up_date IS 'Date the lead should next be contacted';
+COMMENT ON TABLE public.lead_stage_history IS 'Every stage a lead entered, written by the record_page_leads_stage trigger';
@@ -0,0 +1,209 @@
+-- ============================================================
+-- 034_add_lead_deduplication.sql
+-- E.164 phone numbers on leads, a call-to-lead link table for
+-- lead timelines, a review queue of possible duplicate leads,
+-- and merge_page_leads() to combine two leads into one
+-- ============================================================
+
+-- Add normalized phone number to page_leads table
+ALTER TABLE public.page_leads
+ADD COLUMN IF NOT EXISTS phone_e164 text;
+
+-- Backfill with the same rules as the backend (numbers without a country code are
+-- treated as North American, the default of LEAD_DEFAULT_COUNTRY_CODE)
+UPDATE public.page_leads
+   SET phone_e164 = CASE
+     WHEN btrim(phone_number) ~ '^(\+|00)'
+       THEN '+' || regexp_replace(regexp_replace(btrim(phone_number), '^00', ''), '\D', '', 'g')
+     WHEN length(regexp_replace(phone_number, '\D', '', 'g')) = 10
+       THEN '+1' || regexp_replace(phone_number, '\D', '', 'g')
+     WHEN length(regexp_replace(phone_number, '\D', '', 'g')) = 11
+       AND regexp_replace(phone_number, '\D', '', 'g') LIKE '1%'
+       THEN '+' || regexp_replace(phone_number, '\D', '', 'g')
+     ELSE NULL
+   END
+ WHERE phone_number IS NOT NULL
+   AND phone_e164 IS NULL;
+
+UPDATE public.page_leads
+   SET phone_e164 = NULL
+ WHERE phone_e164 IS NOT NULL
+   AND phone_e164 !~ '^\+[0-9]{7,15}$';
+
+CREATE INDEX IF NOT EXISTS idx_page_leads_user_phone_e164 ON public.page_leads(user_id, phone_e164);
+CREATE INDEX IF NOT EXISTS idx_page_leads_user_email_lower ON public.page_leads(user_id, lower(email));
+
+-- Create lead_calls table (every call linked to a lead)
+CREATE TABLE IF NOT EXISTS public.lead_calls (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id     uuid NOT NULL REFERENCES public.page_leads(id) ON DELETE CASCADE,
+  call_id     uuid NOT NULL UNIQUE REFERENCES public.calls(id) ON DELETE CASCADE,
+  user_id     uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_calls_lead_id ON public.lead_calls(lead_id);
+
+-- Link the call each existing lead was created from
+INSERT INTO public.lead_calls (lead_id, call_id, user_id)
+SELECT pl.id, c.id, pl.user_id
+  FROM public.page_leads pl
+  JOIN public.calls c ON c.id::text = pl.call_id AND c.user_id = pl.user_id
+ON CONFLICT (call_id) DO NOTHING;
+
+-- Enable RLS (rows are written by the backend and merge_page_leads only)
+ALTER TABLE public.lead_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "lead_calls_select_own" ON public.lead_calls
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create lead_duplicate_candidates table (possible duplicates awaiting review)
+CREATE TABLE IF NOT EXISTS public.lead_duplicate_candidates (
+  id                    uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id               uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lead_id               uuid NOT NULL REFERENCES public.page_leads(id) ON DELETE CASCADE,
+  duplicate_of_lead_id  uuid NOT NULL REFERENCES public.page_leads(id) ON DELETE CASCADE,
+  score                 numeric(4,3) NOT NULL CHECK (score >= 0 AND score <= 1),
+  reasons               text[] NOT NULL DEFAULT '{}',
+  status                text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  created_at            timestamptz NOT NULL DEFAULT now(),
+  resolved_at           timestamptz,
+  UNIQUE (lead_id, duplicate_of_lead_id),
+  CHECK (lead_id <> duplicate_of_lead_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_candidates_user_pending
+  ON public.lead_duplicate_candidates(user_id, created_at DESC)
+  WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE public.lead_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "lead_duplicate_candidates_select_own" ON public.lead_duplicate_candidates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "lead_duplicate_candidates_update_own" ON public.lead_duplicate_candidates
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- =============================================
+-- merge_page_leads
+-- Merges the duplicate lead into the primary lead of the calling user.
+-- Contact details missing on the primary are taken from the duplicate,
+-- call analysis fields come from whichever lead was called last, and
+-- linked calls and stage history move to the primary before the
+-- duplicate is deleted.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.merge_page_leads(
+  p_primary_lead_id   uuid,
+  p_duplicate_lead_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_primary   page_leads%ROWTYPE;
+  v_duplicate page_leads%ROWTYPE;
+  v_latest    page_leads%ROWTYPE;
+  v_other     page_leads%ROWTYPE;
+BEGIN
+  IF p_primary_lead_id = p_duplicate_lead_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT * INTO v_primary
+    FROM page_leads
+   WHERE id = p_primary_lead_id AND user_id = auth.uid()
+     FOR UPDATE;
+
+  SELECT * INTO v_duplicate
+    FROM page_leads
+   WHERE id = p_duplicate_lead_id AND user_id = auth.uid()
+     FOR UPDATE;
+
+  IF v_primary.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  IF COALESCE(v_duplicate.last_call_at, v_duplicate.updated_at) > COALESCE(v_primary.last_call_at, v_primary.updated_at) THEN
+    v_latest := v_duplicate;
+    v_other := v_primary;
+  ELSE
+    v_latest := v_primary;
+    v_other := v_duplicate;
+  END IF;
+
+  UPDATE page_leads
+     SET name = COALESCE(v_primary.name, v_duplicate.name),
+         email = COALESCE(v_primary.email, v_duplicate.email),
+         phone_number = COALESCE(v_primary.phone_number, v_duplicate.phone_number),
+         phone_e164 = COALESCE(v_primary.phone_e164, v_duplicate.phone_e164),
+         address = COALESCE(v_primary.address, v_duplicate.address),
+         bot_name = COALESCE(v_latest.bot_name, v_other.bot_name),
+         status = COALESCE(v_latest.status, v_other.status),
+         call_id = COALESCE(v_latest.call_id, v_other.call_id),
+         call_type = COALESCE(v_latest.call_type, v_other.call_type),
+         lead_strength = COALESCE(v_latest.lead_strength, v_other.lead_strength),
+         intent_summary = COALESCE(v_latest.intent_summary, v_other.intent_summary),
+         call_summary = COALESCE(v_latest.call_summary, v_other.call_summary),
+         call_outcome = COALESCE(v_latest.call_outcome, v_other.call_outcome),
+         next_step_type = COALESCE(v_latest.next_step_type, v_other.next_step_type),
+         next_step_details = COALESCE(v_latest.next_step_details, v_other.next_step_details),
+         appointment_date = COALESCE(v_latest.appointment_date, v_other.appointment_date),
+         appointment_time = COALESCE(v_latest.appointment_time, v_other.appointment_time),
+         appointment_timezone = COALESCE(v_latest.appointment_timezone, v_other.appointment_timezone),
+         appointment_type = COALESCE(v_latest.appointment_type, v_other.appointment_type),
+         order_items = COALESCE(v_latest.order_items, v_other.order_items),
+         order_total = COALESCE(v_latest.order_total, v_other.order_total),
+         order_type = COALESCE(v_latest.order_type, v_other.order_type),
+         payment_method = COALESCE(v_latest.payment_method, v_other.payment_method),
+         support_issue = COALESCE(v_latest.support_issue, v_other.support_issue),
+         resolution_provided = COALESCE(v_latest.resolution_provided, v_other.resolution_provided),
+         sentiment = COALESCE(v_latest.sentiment, v_other.sentiment),
+         urgency_level = COALESCE(v_latest.urgency_level, v_other.urgency_level),
+         confidence_score = COALESCE(v_latest.confidence_score, v_other.confidence_score),
+         transcript = COALESCE(v_latest.transcript, v_other.transcript),
+         extracted_data = COALESCE(v_latest.extracted_data, v_other.extracted_data),
+         is_lead = COALESCE(v_primary.is_lead, false) OR COALESCE(v_duplicate.is_lead, false),
+         last_call_at = GREATEST(v_primary.last_call_at, v_duplicate.last_call_at),
+         created_at = LEAST(v_primary.created_at, v_duplicate.created_at),
+         -- A stage someone set by hand beats one set by call analysis
+         pipeline_stage = CASE
+           WHEN v_primary.stage_set_by = 'system' AND v_duplicate.stage_set_by = 'user'
+             THEN v_duplicate.pipeline_stage
+           ELSE v_primary.pipeline_stage
+         END,
+         stage_set_by = CASE
+           WHEN v_duplicate.stage_set_by = 'user' THEN 'user'
+           ELSE v_primary.stage_set_by
+         END,
+         assigned_to = COALESCE(v_primary.assigned_to, v_duplicate.assigned_to),
+         notes = NULLIF(concat_ws(E'\n\n', v_primary.notes, v_duplicate.notes), ''),
+         follow_up_date = LEAST(v_primary.follow_up_date, v_duplicate.follow_up_date),
+         updated_at = now()
+   WHERE id = v_primary.id;
+
+  UPDATE lead_calls
+     SET lead_id = v_primary.id
+   WHERE lead_id = v_duplicate.id;
+
+  UPDATE lead_stage_history
+     SET lead_id = v_primary.id
+   WHERE lead_id = v_duplicate.id;
+
+  -- Review entries of the duplicate go with it
+  DELETE FROM page_leads WHERE id = v_duplicate.id;
+
+  RETURN v_primary.id;
+END;
+$$;
+
+-- Add comments
+COMMENT ON COLUMN public.page_leads.phone_e164 IS 'Phone number in E.164 format, used to match calls to existing leads';
+COMMENT ON TABLE public.lead_calls IS 'Every call linked to a lead, for the lead timeline';
+COMMENT ON TABLE public.lead_duplicate_candidates IS 'Possible duplicate leads found by fuzzy matching, awaiting merge or dismissal';
+COMMENT ON COLUMN public.lead_duplicate_candidates.lead_id IS 'The newer lead that may duplicate duplicate_of_lead_id';
+COMMENT ON COLUMN public.lead_duplicate_candidates.reasons IS 'Why the leads matched, e.g. similar_name, similar_email, same_phone_suffix';
+COMMENT ON FUNCTION public.merge_page_leads(uuid, uuid) IS 'Merge the duplicate lead into the primary lead and delete the duplicate';
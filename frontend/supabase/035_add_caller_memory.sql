@@ -0,0 +1,15 @@
+-- ============================================================
+-- 035_add_caller_memory.sql
+-- Per-bot settings for caller memory: what the agent is told
+-- about a returning caller through Retell dynamic variables
+-- ============================================================
+
+-- Add caller memory settings to bots table
+ALTER TABLE public.bots
+ADD COLUMN IF NOT EXISTS caller_memory_settings jsonb;
+
+-- The inbound call webhook looks up a caller's previous calls by number
+CREATE INDEX IF NOT EXISTS idx_calls_user_phone_number ON public.calls(user_id, phone_number, created_at DESC);
+
+-- Add comments
+COMMENT ON COLUMN public.bots.caller_memory_settings IS 'Caller memory: {enabled, variables, recent_calls, lookback_days}; NULL = off';
@@ -0,0 +1,24 @@
+-- ============================================================
+-- 036_add_lead_scoring.sql
+-- Numeric lead scores from analysis fields, weighted per account,
+-- with hot/warm/cold thresholds
+-- ============================================================
+
+-- Add lead scoring settings to profiles table
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS lead_scoring_settings jsonb;
+
+-- Add score columns to page_leads table
+ALTER TABLE public.page_leads
+ADD COLUMN IF NOT EXISTS lead_score integer CHECK (lead_score IS NULL OR lead_score BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS lead_score_breakdown jsonb,
+ADD COLUMN IF NOT EXISTS lead_scored_at timestamptz;
+
+-- Sort leads by score
+CREATE INDEX IF NOT EXISTS idx_page_leads_user_score ON public.page_leads(user_id, lead_score DESC NULLS LAST);
+
+-- Add comments
+COMMENT ON COLUMN public.profiles.lead_scoring_settings IS 'Lead scoring: { enabled, weights, call_types, order_total_target, thresholds }; NULL uses the default weights and keeps the AI lead strength';
+COMMENT ON COLUMN public.page_leads.lead_score IS 'Lead score 0-100 from the account''s scoring weights; NULL for leads without an analyzed call';
+COMMENT ON COLUMN public.page_leads.lead_score_breakdown IS 'Points per scoring factor: [{ factor, value, points, max_points }]';
+COMMENT ON COLUMN public.page_leads.lead_scored_at IS 'When lead_score was last computed';
@@ -0,0 +1,52 @@
+-- ============================================================
+-- 037_add_email_automation.sql
+-- Scheduled sends of email automation rules: one run per rule
+-- and call/lead event, sent by the backend when it is due
+-- ============================================================
+
+-- Link sent emails to the rule that sent them
+ALTER TABLE public.email_sent_logs
+ADD COLUMN IF NOT EXISTS automation_rule_id uuid REFERENCES public.email_automation_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_sent_logs_automation_rule_id ON public.email_sent_logs(automation_rule_id);
+
+-- Create email_automation_runs table (a rule matched an event)
+CREATE TABLE IF NOT EXISTS public.email_automation_runs (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id        uuid NOT NULL REFERENCES public.email_automation_rules(id) ON DELETE CASCADE,
+  call_id        uuid REFERENCES public.calls(id) ON DELETE SET NULL,
+  lead_id        uuid REFERENCES public.page_leads(id) ON DELETE SET NULL,
+  trigger_type   public.email_trigger_type NOT NULL,
+  event_key      text NOT NULL,
+  to_email       text,
+  send_at        timestamptz NOT NULL DEFAULT now(),
+  status         text NOT NULL DEFAULT 'scheduled'
+                   CHECK (status IN ('scheduled', 'sending', 'sent', 'skipped', 'failed')),
+  attempts       int NOT NULL DEFAULT 0,
+  error_message  text,
+  email_log_id   uuid REFERENCES public.email_sent_logs(id) ON DELETE SET NULL,
+  locked_at      timestamptz,
+  processed_at   timestamptz,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (rule_id, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_automation_runs_due
+  ON public.email_automation_runs(send_at)
+  WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_email_automation_runs_user_created
+  ON public.email_automation_runs(user_id, created_at DESC);
+
+-- Enable RLS (runs are written by the backend only)
+ALTER TABLE public.email_automation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "email_automation_runs_select_own" ON public.email_automation_runs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON COLUMN public.email_sent_logs.automation_rule_id IS 'Automation rule that sent this email, null for emails sent by hand';
+COMMENT ON TABLE public.email_automation_runs IS 'Emails scheduled by automation rules, one per rule and triggering event';
+COMMENT ON COLUMN public.email_automation_runs.event_key IS 'Trigger and call or lead id, so replayed events do not send twice';
+COMMENT ON COLUMN public.email_automation_runs.send_at IS 'When the email is due: event time plus the rule''s delay_minutes';
+COMMENT ON COLUMN public.email_automation_runs.status IS 'scheduled, sending, sent, skipped (conditions no longer hold, no recipient) or failed';
@@ -0,0 +1,32 @@
+-- ============================================================
+-- 038_add_email_send_queue.sql
+-- Queue outgoing emails in email_sent_logs: scheduled send
+-- times, retries with backoff and the SMTP message id
+-- ============================================================
+
+-- Add queue columns to email_sent_logs table
+ALTER TABLE public.email_sent_logs
+ADD COLUMN IF NOT EXISTS html_body text,
+ADD COLUMN IF NOT EXISTS send_at timestamptz,
+ADD COLUMN IF NOT EXISTS attempts int NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz,
+ADD COLUMN IF NOT EXISTS locked_at timestamptz,
+ADD COLUMN IF NOT EXISTS message_id text;
+
+-- Due queued emails
+CREATE INDEX IF NOT EXISTS idx_email_sent_logs_queue
+  ON public.email_sent_logs(next_attempt_at)
+  WHERE status = 'pending' AND send_at IS NOT NULL;
+
+-- Per-mailbox send rate
+CREATE INDEX IF NOT EXISTS idx_email_sent_logs_mailbox_sent
+  ON public.email_sent_logs(user_id, from_email, sent_at DESC)
+  WHERE status = 'sent';
+
+-- Add comments
+COMMENT ON COLUMN public.email_sent_logs.html_body IS 'HTML version of the email, sent alongside body';
+COMMENT ON COLUMN public.email_sent_logs.send_at IS 'When a queued email is scheduled to go out; null for emails sent outside the queue';
+COMMENT ON COLUMN public.email_sent_logs.attempts IS 'Send attempts so far, including retries after temporary SMTP errors';
+COMMENT ON COLUMN public.email_sent_logs.next_attempt_at IS 'Earliest time the queue worker tries the email (again)';
+COMMENT ON COLUMN public.email_sent_logs.locked_at IS 'Set while the queue worker is sending the email';
+COMMENT ON COLUMN public.email_sent_logs.message_id IS 'Message-ID returned by the SMTP server';
@@ -0,0 +1,46 @@
+-- ============================================================
+-- 039_add_smtp_credential_vault.sql
+-- Encrypted SMTP passwords and explicit SMTP settings per mailbox
+-- Passwords are encrypted by the backend (SMTP_ENCRYPTION_KEY) and
+-- can no longer be read or written from the browser
+-- ============================================================
+
+-- Add SMTP settings columns to user_emails table
+ALTER TABLE public.user_emails
+ADD COLUMN IF NOT EXISTS smtp_password_encrypted text,
+ADD COLUMN IF NOT EXISTS smtp_host text,
+ADD COLUMN IF NOT EXISTS smtp_port int CHECK (smtp_port IS NULL OR (smtp_port BETWEEN 1 AND 65535)),
+ADD COLUMN IF NOT EXISTS smtp_secure boolean,
+ADD COLUMN IF NOT EXISTS smtp_username text,
+ADD COLUMN IF NOT EXISTS smtp_configured boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS smtp_verified_at timestamptz;
+
+-- Mailboxes with a plaintext password keep working; the backend encrypts
+-- and clears smtp_password on its next start
+UPDATE public.user_emails
+SET smtp_configured = true
+WHERE smtp_password IS NOT NULL AND btrim(smtp_password) <> '';
+
+-- Users keep row access through RLS, but only on the non-secret columns.
+-- Mailboxes with a password are created and updated through /api/mailboxes
+REVOKE SELECT, INSERT, UPDATE ON public.user_emails FROM anon, authenticated;
+
+GRANT SELECT (
+  id, user_id, email, name, is_primary, is_verified,
+  smtp_host, smtp_port, smtp_secure, smtp_username, smtp_configured, smtp_verified_at,
+  created_at, updated_at
+) ON public.user_emails TO authenticated;
+
+GRANT INSERT (user_id, email, name, is_primary, is_verified) ON public.user_emails TO authenticated;
+
+GRANT UPDATE (name, is_primary, is_verified) ON public.user_emails TO authenticated;
+
+-- Add comments
+COMMENT ON COLUMN public.user_emails.smtp_password IS 'Legacy plaintext SMTP password; moved to smtp_password_encrypted by the backend';
+COMMENT ON COLUMN public.user_emails.smtp_password_encrypted IS 'SMTP password encrypted with AES-256-GCM by the backend; never readable by users';
+COMMENT ON COLUMN public.user_emails.smtp_host IS 'SMTP server; null falls back to the server guessed from the email domain';
+COMMENT ON COLUMN public.user_emails.smtp_port IS 'SMTP port, usually 587 (STARTTLS) or 465 (SSL/TLS)';
+COMMENT ON COLUMN public.user_emails.smtp_secure IS 'True to connect over TLS (port 465), false to upgrade with STARTTLS';
+COMMENT ON COLUMN public.user_emails.smtp_username IS 'SMTP login when it differs from the email address';
+COMMENT ON COLUMN public.user_emails.smtp_configured IS 'Whether an SMTP password is saved for the mailbox';
+COMMENT ON COLUMN public.user_emails.smtp_verified_at IS 'Last time the saved SMTP settings passed a connection test';
@@ -0,0 +1,28 @@
+-- ============================================================
+-- 040_add_mailbox_oauth.sql
+-- Connect Gmail and Microsoft 365 mailboxes with OAuth2 (XOAUTH2
+-- SMTP) instead of an app password
+-- Tokens are encrypted by the backend like SMTP passwords
+-- ============================================================
+
+-- Add OAuth columns to user_emails table
+ALTER TABLE public.user_emails
+ADD COLUMN IF NOT EXISTS auth_type text NOT NULL DEFAULT 'password'
+  CHECK (auth_type IN ('password', 'oauth')),
+ADD COLUMN IF NOT EXISTS oauth_provider text
+  CHECK (oauth_provider IS NULL OR oauth_provider IN ('google', 'microsoft')),
+ADD COLUMN IF NOT EXISTS oauth_refresh_token_encrypted text,
+ADD COLUMN IF NOT EXISTS oauth_access_token_encrypted text,
+ADD COLUMN IF NOT EXISTS oauth_token_expires_at timestamptz,
+ADD COLUMN IF NOT EXISTS oauth_error text;
+
+-- Users can see how a mailbox is connected, but not its tokens
+GRANT SELECT (auth_type, oauth_provider, oauth_error) ON public.user_emails TO authenticated;
+
+-- Add comments
+COMMENT ON COLUMN public.user_emails.auth_type IS 'password: SMTP login with smtp_password_encrypted; oauth: XOAUTH2 with the provider tokens';
+COMMENT ON COLUMN public.user_emails.oauth_provider IS 'google or microsoft for OAuth-connected mailboxes';
+COMMENT ON COLUMN public.user_emails.oauth_refresh_token_encrypted IS 'OAuth refresh token encrypted by the backend; never readable by users';
+COMMENT ON COLUMN public.user_emails.oauth_access_token_encrypted IS 'Current OAuth access token encrypted by the backend, refreshed when it expires';
+COMMENT ON COLUMN public.user_emails.oauth_token_expires_at IS 'When the stored access token expires';
+COMMENT ON COLUMN public.user_emails.oauth_error IS 'Why the last token refresh failed, e.g. access was revoked; cleared on reconnect';
@@ -0,0 +1,139 @@
+-- ============================================================
+-- 041_add_email_tracking.sql
+-- Open, click and bounce tracking for sent emails, with the
+-- template and lead each email was sent for
+-- ============================================================
+
+-- New email statuses: sent -> opened -> clicked, or bounced
+ALTER TYPE public.email_status ADD VALUE IF NOT EXISTS 'opened';
+ALTER TYPE public.email_status ADD VALUE IF NOT EXISTS 'clicked';
+
+-- Add tracking columns to email_sent_logs table
+ALTER TABLE public.email_sent_logs
+ADD COLUMN IF NOT EXISTS tracking_token text NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+ADD COLUMN IF NOT EXISTS tracking_enabled boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES public.email_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS lead_id uuid REFERENCES public.page_leads(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS opened_at timestamptz,
+ADD COLUMN IF NOT EXISTS open_count int NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS clicked_at timestamptz,
+ADD COLUMN IF NOT EXISTS click_count int NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS bounced_at timestamptz,
+ADD COLUMN IF NOT EXISTS bounce_reason text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sent_logs_tracking_token
+  ON public.email_sent_logs(tracking_token);
+
+CREATE INDEX IF NOT EXISTS idx_email_sent_logs_template_id
+  ON public.email_sent_logs(template_id);
+
+CREATE INDEX IF NOT EXISTS idx_email_sent_logs_lead_id
+  ON public.email_sent_logs(lead_id);
+
+-- Opened and clicked emails still count towards the mailbox's send rate
+DROP INDEX IF EXISTS public.idx_email_sent_logs_mailbox_sent;
+CREATE INDEX IF NOT EXISTS idx_email_sent_logs_mailbox_sent_at
+  ON public.email_sent_logs(user_id, from_email, sent_at DESC)
+  WHERE sent_at IS NOT NULL;
+
+-- Track engagement for emails sent by an automation rule
+ALTER TABLE public.email_automation_rules
+ADD COLUMN IF NOT EXISTS track_engagement boolean NOT NULL DEFAULT false;
+
+-- Create email_tracking_events table
+CREATE TABLE IF NOT EXISTS public.email_tracking_events (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_log_id  uuid NOT NULL REFERENCES public.email_sent_logs(id) ON DELETE CASCADE,
+  event_type    text NOT NULL CHECK (event_type IN ('open', 'click', 'bounce')),
+  url           text,
+  user_agent    text,
+  created_at    timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_tracking_events_email_log_id
+  ON public.email_tracking_events(email_log_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_email_tracking_events_user_id
+  ON public.email_tracking_events(user_id, created_at DESC);
+
+ALTER TABLE public.email_tracking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "email_tracking_events_select_own" ON public.email_tracking_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Record an open, click or bounce by tracking token
+-- Only moves the status forward: sent -> opened -> clicked; bounces replace sent
+-- Returns the email log id, or null for an unknown token
+CREATE OR REPLACE FUNCTION public.record_email_tracking_event(
+  p_tracking_token text,
+  p_event_type     text,
+  p_url            text DEFAULT NULL,
+  p_user_agent     text DEFAULT NULL,
+  p_bounce_reason  text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log email_sent_logs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_log
+    FROM email_sent_logs
+   WHERE tracking_token = p_tracking_token
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_event_type = 'open' THEN
+    UPDATE email_sent_logs
+       SET open_count = open_count + 1,
+           opened_at = COALESCE(opened_at, now()),
+           status = CASE WHEN status::text = 'sent' THEN 'opened'::email_status ELSE status END
+     WHERE id = v_log.id;
+  ELSIF p_event_type = 'click' THEN
+    -- A click means the email was opened, even if images were blocked
+    UPDATE email_sent_logs
+       SET click_count = click_count + 1,
+           clicked_at = COALESCE(clicked_at, now()),
+           opened_at = COALESCE(opened_at, now()),
+           status = CASE WHEN status::text IN ('sent', 'opened') THEN 'clicked'::email_status ELSE status END
+     WHERE id = v_log.id;
+  ELSIF p_event_type = 'bounce' THEN
+    UPDATE email_sent_logs
+       SET bounced_at = COALESCE(bounced_at, now()),
+           bounce_reason = COALESCE(p_bounce_reason, bounce_reason),
+           status = CASE WHEN status::text = 'sent' THEN 'bounced'::email_status ELSE status END
+     WHERE id = v_log.id;
+  ELSE
+    RAISE EXCEPTION 'Unknown tracking event %', p_event_type;
+  END IF;
+
+  INSERT INTO email_tracking_events (user_id, email_log_id, event_type, url, user_agent)
+  VALUES (v_log.user_id, v_log.id, p_event_type, p_url, left(p_user_agent, 500));
+
+  RETURN v_log.id;
+END;
+$$;
+
+-- Only the backend records events
+REVOKE EXECUTE ON FUNCTION public.record_email_tracking_event(text, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON COLUMN public.email_sent_logs.tracking_token IS 'Unguessable id used in tracking URLs and the bounce return path';
+COMMENT ON COLUMN public.email_sent_logs.tracking_enabled IS 'Whether the email was sent with a tracking pixel and rewritten links';
+COMMENT ON COLUMN public.email_sent_logs.template_id IS 'Template the email was written from, for per-template stats';
+COMMENT ON COLUMN public.email_sent_logs.lead_id IS 'Lead the email was sent to, for per-lead stats';
+COMMENT ON COLUMN public.email_sent_logs.opened_at IS 'First time the tracking pixel was loaded';
+COMMENT ON COLUMN public.email_sent_logs.open_count IS 'Times the tracking pixel was loaded';
+COMMENT ON COLUMN public.email_sent_logs.clicked_at IS 'First time a tracked link was clicked';
+COMMENT ON COLUMN public.email_sent_logs.click_count IS 'Times any tracked link was clicked';
+COMMENT ON COLUMN public.email_sent_logs.bounced_at IS 'When a bounce for the email arrived in the return-path mailbox';
+COMMENT ON COLUMN public.email_sent_logs.bounce_reason IS 'Diagnostic from the bounce message';
+COMMENT ON COLUMN public.email_automation_rules.track_engagement IS 'Send the rule''s emails with open and click tracking';
+COMMENT ON TABLE public.email_tracking_events IS 'Every open, click and bounce recorded for sent emails';
+COMMENT ON FUNCTION public.record_email_tracking_event(text, text, text, text, text) IS 'Record an open, click or bounce for the email with the tracking token and update its status';
@@ -0,0 +1,18 @@
+-- ============================================================
+-- 042_slim_retell_webhook_rejections.sql
+-- Keep only metadata of rejected Retell deliveries: the body's
+-- SHA-256 and length instead of the unverified payload
+-- ============================================================
+
+-- Add body fingerprint columns to retell_webhook_rejections table
+ALTER TABLE public.retell_webhook_rejections
+ADD COLUMN IF NOT EXISTS body_sha256 text,
+ADD COLUMN IF NOT EXISTS body_length int;
+
+-- Drop stored payloads, including transcripts of stale but genuine deliveries
+ALTER TABLE public.retell_webhook_rejections
+DROP COLUMN IF EXISTS payload;
+
+-- Add comments
+COMMENT ON COLUMN public.retell_webhook_rejections.body_sha256 IS 'SHA-256 of the raw request body';
+COMMENT ON COLUMN public.retell_webhook_rejections.body_length IS 'Size of the raw request body in bytes';
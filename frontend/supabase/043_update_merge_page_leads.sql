@@ -0,0 +1,141 @@
+-- ============================================================
+-- 043_update_merge_page_leads.sql
+-- merge_page_leads() also keeps the lead score and moves sent
+-- emails and email automation runs to the primary lead
+-- ============================================================
+
+-- =============================================
+-- merge_page_leads
+-- Same as 034, plus: the lead score comes from the lead whose analysis
+-- is kept (the one called last, if it was scored), and email_sent_logs
+-- and email_automation_runs move to the primary instead of losing their
+-- lead when the duplicate is deleted.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.merge_page_leads(
+  p_primary_lead_id   uuid,
+  p_duplicate_lead_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_primary   page_leads%ROWTYPE;
+  v_duplicate page_leads%ROWTYPE;
+  v_latest    page_leads%ROWTYPE;
+  v_other     page_leads%ROWTYPE;
+  v_scored    page_leads%ROWTYPE;
+BEGIN
+  IF p_primary_lead_id = p_duplicate_lead_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT * INTO v_primary
+    FROM page_leads
+   WHERE id = p_primary_lead_id AND user_id = auth.uid()
+     FOR UPDATE;
+
+  SELECT * INTO v_duplicate
+    FROM page_leads
+   WHERE id = p_duplicate_lead_id AND user_id = auth.uid()
+     FOR UPDATE;
+
+  IF v_primary.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  IF COALESCE(v_duplicate.last_call_at, v_duplicate.updated_at) > COALESCE(v_primary.last_call_at, v_primary.updated_at) THEN
+    v_latest := v_duplicate;
+    v_other := v_primary;
+  ELSE
+    v_latest := v_primary;
+    v_other := v_duplicate;
+  END IF;
+
+  -- The score, its breakdown and when it was computed stay together
+  IF v_latest.lead_score IS NOT NULL OR v_other.lead_score IS NULL THEN
+    v_scored := v_latest;
+  ELSE
+    v_scored := v_other;
+  END IF;
+
+  UPDATE page_leads
+     SET name = COALESCE(v_primary.name, v_duplicate.name),
+         email = COALESCE(v_primary.email, v_duplicate.email),
+         phone_number = COALESCE(v_primary.phone_number, v_duplicate.phone_number),
+         phone_e164 = COALESCE(v_primary.phone_e164, v_duplicate.phone_e164),
+         address = COALESCE(v_primary.address, v_duplicate.address),
+         bot_name = COALESCE(v_latest.bot_name, v_other.bot_name),
+         status = COALESCE(v_latest.status, v_other.status),
+         call_id = COALESCE(v_latest.call_id, v_other.call_id),
+         call_type = COALESCE(v_latest.call_type, v_other.call_type),
+         lead_strength = COALESCE(v_latest.lead_strength, v_other.lead_strength),
+         lead_score = v_scored.lead_score,
+         lead_score_breakdown = v_scored.lead_score_breakdown,
+         lead_scored_at = v_scored.lead_scored_at,
+         intent_summary = COALESCE(v_latest.intent_summary, v_other.intent_summary),
+         call_summary = COALESCE(v_latest.call_summary, v_other.call_summary),
+         call_outcome = COALESCE(v_latest.call_outcome, v_other.call_outcome),
+         next_step_type = COALESCE(v_latest.next_step_type, v_other.next_step_type),
+         next_step_details = COALESCE(v_latest.next_step_details, v_other.next_step_details),
+         appointment_date = COALESCE(v_latest.appointment_date, v_other.appointment_date),
+         appointment_time = COALESCE(v_latest.appointment_time, v_other.appointment_time),
+         appointment_timezone = COALESCE(v_latest.appointment_timezone, v_other.appointment_timezone),
+         appointment_type = COALESCE(v_latest.appointment_type, v_other.appointment_type),
+         order_items = COALESCE(v_latest.order_items, v_other.order_items),
+         order_total = COALESCE(v_latest.order_total, v_other.order_total),
+         order_type = COALESCE(v_latest.order_type, v_other.order_type),
+         payment_method = COALESCE(v_latest.payment_method, v_other.payment_method),
+         support_issue = COALESCE(v_latest.support_issue, v_other.support_issue),
+         resolution_provided = COALESCE(v_latest.resolution_provided, v_other.resolution_provided),
+         sentiment = COALESCE(v_latest.sentiment, v_other.sentiment),
+         urgency_level = COALESCE(v_latest.urgency_level, v_other.urgency_level),
+         confidence_score = COALESCE(v_latest.confidence_score, v_other.confidence_score),
+         transcript = COALESCE(v_latest.transcript, v_other.transcript),
+         extracted_data = COALESCE(v_latest.extracted_data, v_other.extracted_data),
+         is_lead = COALESCE(v_primary.is_lead, false) OR COALESCE(v_duplicate.is_lead, false),
+         last_call_at = GREATEST(v_primary.last_call_at, v_duplicate.last_call_at),
+         created_at = LEAST(v_primary.created_at, v_duplicate.created_at),
+         -- A stage someone set by hand beats one set by call analysis
+         pipeline_stage = CASE
+           WHEN v_primary.stage_set_by = 'system' AND v_duplicate.stage_set_by = 'user'
+             THEN v_duplicate.pipeline_stage
+           ELSE v_primary.pipeline_stage
+         END,
+         stage_set_by = CASE
+           WHEN v_duplicate.stage_set_by = 'user' THEN 'user'
+           ELSE v_primary.stage_set_by
+         END,
+         assigned_to = COALESCE(v_primary.assigned_to, v_duplicate.assigned_to),
+         notes = NULLIF(concat_ws(E'\n\n', v_primary.notes, v_duplicate.notes), ''),
+         follow_up_date = LEAST(v_primary.follow_up_date, v_duplicate.follow_up_date),
+         updated_at = now()
+   WHERE id = v_primary.id;
+
+  UPDATE lead_calls
+     SET lead_id = v_primary.id
+   WHERE lead_id = v_duplicate.id;
+
+  UPDATE lead_stage_history
+     SET lead_id = v_primary.id
+   WHERE lead_id = v_duplicate.id;
+
+  -- Sent emails keep counting toward the lead's engagement, and scheduled
+  -- automations (e.g. no_response) still run for it
+  UPDATE email_sent_logs
+     SET lead_id = v_primary.id
+   WHERE lead_id = v_duplicate.id;
+
+  UPDATE email_automation_runs
+     SET lead_id = v_primary.id
+   WHERE lead_id = v_duplicate.id;
+
+  -- Review entries of the duplicate go with it
+  DELETE FROM page_leads WHERE id = v_duplicate.id;
+
+  RETURN v_primary.id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.merge_page_leads(uuid, uuid) IS 'Merge the duplicate lead into the primary lead and delete the duplicate';
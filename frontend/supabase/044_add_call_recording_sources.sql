@@ -0,0 +1,67 @@
+-- ============================================================
+-- 044_add_call_recording_sources.sql
+-- Provider recording URLs move out of calls into a table only
+-- the backend reads, until the recording is copied to storage
+-- ============================================================
+
+-- Provider URL of each recording still waiting to be archived
+CREATE TABLE IF NOT EXISTS public.call_recording_sources (
+  call_id     uuid PRIMARY KEY REFERENCES public.calls(id) ON DELETE CASCADE,
+  user_id     uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_url  text NOT NULL,
+  scrubbed    boolean NOT NULL DEFAULT false,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_recording_sources_user_id ON public.call_recording_sources(user_id);
+
+-- Add pending flag to calls table (replaces recording_url)
+ALTER TABLE public.calls
+ADD COLUMN IF NOT EXISTS recording_pending boolean NOT NULL DEFAULT false;
+
+-- Move recordings that aren't archived yet
+INSERT INTO public.call_recording_sources (call_id, user_id, source_url)
+SELECT id, user_id, recording_url
+  FROM public.calls
+ WHERE recording_url IS NOT NULL
+   AND recording_storage_path IS NULL
+ON CONFLICT (call_id) DO NOTHING;
+
+UPDATE public.calls
+   SET recording_pending = true
+ WHERE recording_url IS NOT NULL
+   AND recording_storage_path IS NULL;
+
+-- Stored Retell events on calls carry the same URLs
+UPDATE public.calls
+   SET webhook_response = (webhook_response - ARRAY['recording_url', 'recording_multi_channel_url', 'scrubbed_recording_url', 'scrubbed_recording_multi_channel_url'])
+       || CASE WHEN jsonb_typeof(webhook_response->'call') = 'object'
+            THEN jsonb_build_object('call', (webhook_response->'call') - ARRAY['recording_url', 'recording_multi_channel_url', 'scrubbed_recording_url', 'scrubbed_recording_multi_channel_url'])
+            ELSE '{}'::jsonb
+          END
+ WHERE jsonb_typeof(webhook_response) = 'object';
+
+UPDATE public.calls
+   SET metadata = (metadata - ARRAY['recording_url', 'recording_multi_channel_url', 'scrubbed_recording_url', 'scrubbed_recording_multi_channel_url'])
+       || CASE WHEN jsonb_typeof(metadata->'call') = 'object'
+            THEN jsonb_build_object('call', (metadata->'call') - ARRAY['recording_url', 'recording_multi_channel_url', 'scrubbed_recording_url', 'scrubbed_recording_multi_channel_url'])
+            ELSE '{}'::jsonb
+          END
+ WHERE jsonb_typeof(metadata) = 'object';
+
+-- Users read calls directly, so the provider URL can't stay on them
+DROP INDEX IF EXISTS public.idx_calls_recording_archive_pending;
+ALTER TABLE public.calls
+DROP COLUMN IF EXISTS recording_url;
+
+CREATE INDEX IF NOT EXISTS idx_calls_recording_archive_pending ON public.calls(created_at)
+  WHERE recording_pending AND recording_storage_path IS NULL;
+
+-- Enable RLS (no policies: only the backend reads these rows, after the recording permission check)
+ALTER TABLE public.call_recording_sources ENABLE ROW LEVEL SECURITY;
+
+-- Add comments
+COMMENT ON TABLE public.call_recording_sources IS 'Provider URLs of call recordings not copied to the call-recordings bucket yet';
+COMMENT ON COLUMN public.call_recording_sources.scrubbed IS 'Whether source_url is the provider''s PII-scrubbed recording';
+COMMENT ON COLUMN public.calls.recording_pending IS 'The call has a provider recording that is not archived yet (URL in call_recording_sources)';
+COMMENT ON COLUMN public.calls.recording_storage_path IS 'Object path of the recording in the call-recordings bucket (<user_id>/<call_id>.<ext>)';
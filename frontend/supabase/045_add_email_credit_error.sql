@@ -0,0 +1,11 @@
+-- ============================================================
+-- 045_add_email_credit_error.sql
+-- Record why credits weren't deducted for an email that was
+-- still sent, e.g. an empty balance
+-- ============================================================
+
+-- Add credit error column to email_sent_logs table
+ALTER TABLE public.email_sent_logs
+ADD COLUMN IF NOT EXISTS credit_error text;
+
+COMMENT ON COLUMN public.email_sent_logs.credit_error IS 'Why deduct_credits_for_email_send failed for this sent email; null when it was charged';